@@ -1,18 +1,38 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
-import Editor from './components/Editor';
+import Editor, { EditorHandle } from './components/Editor';
 import Preview from './components/Preview';
 import AIPanel from './components/AIPanel';
 import Dashboard from './components/Dashboard';
+import ExportMenu from './components/ExportMenu';
+import SnippetsDialog from './components/SnippetsDialog';
+import { printDocument } from './components/PrintDocument';
 import { processLatexWithAI } from './services/geminiService';
-import { Project, FileNode, ViewMode, AIAction, LogEntry } from './types';
+import { Project, FileNode, ViewMode, AIAction, LogEntry, SourceLocation, PageLayout, ProjectCompiler, Snippet } from './types';
 import { useProjects } from './hooks/useProjects';
-import { Play, Columns, Eye, Code, Share2, Download, RotateCw, MessageCircle, Settings, ArrowLeft, FileText, Menu, Cloud, AlertTriangle, Loader2 } from 'lucide-react';
+import { useCompiler } from './hooks/useCompiler';
+import { flattenProjectFiles, listProjectFiles } from './services/latex/imports';
+import { hashString } from './services/latex/utils';
+import { CompileOutcome, PdfOutput, COMPILER_NAMES } from './services/compilers/compiler';
+import { parseTexLog } from './services/compilers/texLog';
+import { createTexServiceCompiler } from './services/compilers/texService';
+import { paginate } from './services/paginator';
+import { exportProject, ExportFormat } from './services/export/exporter';
+import { defaultLayout } from './services/latex/layout';
+import { moveSection, OutlineEntry } from './services/latex/outline';
+import { ReplaceRecord } from './services/editor/projectSearch';
+import { Play, Columns, Eye, Code, Share2, RotateCw, MessageCircle, Settings, ArrowLeft, FileText, Menu, Cloud, AlertTriangle, Loader2 } from 'lucide-react';
+
+// Pause in typing after which the project is compiled again, in milliseconds; a real
+// TeX run is much slower than the preview, so it waits longer
+const LIVE_COMPILE_DELAY = 400;
+const TEX_LIVE_COMPILE_DELAY = 2000;
 
 const App: React.FC = () => {
   // Data Persistence Hook
   const { projects, status, isLoading, addProject, updateProject, deleteProject } = useProjects();
+  const { compile, isCompiling } = useCompiler();
 
   // Global State
   const [view, setView] = useState<'dashboard' | 'editor'>('dashboard');
@@ -21,15 +41,37 @@ const App: React.FC = () => {
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [activeFileId, setActiveFileId] = useState<string>('');
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.SPLIT);
-  const [isCompiling, setIsCompiling] = useState(false);
   const [aiProcessing, setAiProcessing] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [compiledContent, setCompiledContent] = useState<string>('');
-  const [previewAssets, setPreviewAssets] = useState<Record<string, string>>({});
+  const [compiledHtml, setCompiledHtml] = useState<string>('');
+  const [compiledLayout, setCompiledLayout] = useState<PageLayout>(defaultLayout);
+  const [compiledPdf, setCompiledPdf] = useState<PdfOutput | null>(null); // Set when a TeX engine compiled the project
+  const [isExporting, setIsExporting] = useState(false);
+  const [showSnippets, setShowSnippets] = useState(false);
+  const [lastReplace, setLastReplace] = useState<ReplaceRecord | null>(null); // Kept here so undo outlives the search tab
+
+  // Source <-> preview synchronisation
+  const editorRef = useRef<EditorHandle>(null);
+  const [cursorLocation, setCursorLocation] = useState<SourceLocation | null>(null);
+  const [pendingJump, setPendingJump] = useState<SourceLocation | null>(null);
 
   // --- Helpers to manage Tree State ---
   const activeProject = projects.find(p => p.id === activeProjectId);
 
+  // .log files uploaded into the project, e.g. from a TeX installation elsewhere. Their
+  // paths are not this project's, so messages are matched to files by name.
+  const logFiles = useMemo(() => {
+    if (!activeProject) return [];
+    const fileMap = flattenProjectFiles(activeProject.root);
+    const fileOf = (path: string) => {
+        const file = fileMap[path.split('/').pop() || path];
+        return file && { file: file.name, fileId: file.id };
+    };
+    return Object.values(fileMap)
+        .filter(file => file.name.endsWith('.log'))
+        .map(file => ({ name: file.name, logs: parseTexLog(file.content || '', fileOf) }));
+  }, [activeProject?.root]);
+
   // Recursively find a node
   const findNode = (nodes: FileNode[], id: string): FileNode | null => {
     for (const node of nodes) {
@@ -42,16 +84,6 @@ const App: React.FC = () => {
     return null;
   };
 
-  // Helper to flatten tree for easy lookup by name (for imports)
-  const flattenProjectFiles = (node: FileNode, acc: Record<string, FileNode> = {}) => {
-      if (node.type === 'file') {
-          acc[node.name] = node;
-      } else if (node.children) {
-          node.children.forEach(c => flattenProjectFiles(c, acc));
-      }
-      return acc;
-  };
-
   const updateNodeInTree = (nodes: FileNode[], nodeId: string, changes: Partial<FileNode>): FileNode[] => {
     return nodes.map(node => {
         if (node.id === nodeId) return { ...node, ...changes };
@@ -60,19 +92,24 @@ const App: React.FC = () => {
     });
   };
 
+  // Opens every folder on the way to a node
+  const openFoldersTo = (nodes: FileNode[], nodeId: string): FileNode[] => {
+    return nodes.map(node => {
+        if (node.children && findNode(node.children, nodeId)) return { ...node, isOpen: true, children: openFoldersTo(node.children, nodeId) };
+        return node;
+    });
+  };
+
   // --- Actions ---
 
   const handleOpenProject = (projectId: string) => {
     setActiveProjectId(projectId);
+    setLastReplace(null);
     const project = projects.find(p => p.id === projectId);
     if (project) {
         const main = project.root.children?.find(c => c.name === 'main.tex') || project.root.children?.find(c => c.type === 'file');
         if (main) setActiveFileId(main.id);
-        
-        // Initial compile attempt
-        if (main && main.content) {
-             setCompiledContent(main.content);
-        }
+        // The first compile starts once the project is active, see the live compile below
     }
     setView('editor');
   };
@@ -214,89 +251,122 @@ const App: React.FC = () => {
 
   // --- Compilation Logic ---
 
-  const resolveLatexImports = (content: string, fileMap: Record<string, FileNode>, processed: Set<string> = new Set()): string => {
-      return content.replace(/\\(?:input|include)\{([^}]+)\}/g, (match, importPath) => {
-          let filename = importPath.split('/').pop() || importPath;
-          if (!filename.endsWith('.tex')) filename += '.tex';
+  // Shows the output of the newest compile; superseded compiles have nothing to show
+  const showCompileResult = (outcome: CompileOutcome, reportMissingMain: boolean) => {
+    if (outcome.status === 'cancelled') return;
+    if (outcome.status === 'failed') {
+        setLogs([{ id: `${Date.now()}-failed`, type: 'error', message: `Compilation failed: ${outcome.message}`, timestamp: Date.now() }]);
+    } else if (outcome.output?.format === 'html') {
+        setCompiledHtml(outcome.output.html);
+        setCompiledLayout(outcome.output.layout);
+        setCompiledPdf(null);
+        setLogs(outcome.output.logs);
+    } else if (outcome.output) {
+        // A run that wrote no PDF leaves the last one up
+        const output = outcome.output;
+        if (output.pdf) setCompiledPdf(output);
+        setLogs(output.logs);
+    } else if (reportMissingMain) {
+        setLogs([{ id: 'err', type: 'error', message: 'No main LaTeX file found to compile.', timestamp: Date.now() }]);
+    }
+  };
 
-          // Handle relative paths in a basic way if needed, for now flat map search
-          const fileNode = Object.values(fileMap).find(f => f.name === filename);
+  const handleRecompile = () => {
+    if (!activeProject) return;
+    compile(activeProject, activeFileId).then(outcome => showCompileResult(outcome, true));
+  };
 
-          if (processed.has(filename)) return `\n% Recursive loop detected: ${filename}\n`;
-          
-          if (fileNode && fileNode.content) {
-              const newProcessed = new Set(processed);
-              newProcessed.add(filename);
-              return `\n% Begin ${filename}\n${resolveLatexImports(fileNode.content, fileMap, newProcessed)}\n% End ${filename}\n`;
-          }
+  const handleCompilerChange = (compiler: ProjectCompiler) => {
+    if (!activeProject) return;
+    updateProject({ ...activeProject, compiler });
+  };
 
-          return `\n% Missing file: ${filename}\n`;
-      });
+  const handleSnippetsSave = (snippets: Snippet[]) => {
+    if (!activeProject) return;
+    updateProject({ ...activeProject, snippets });
+    setShowSnippets(false);
   };
 
-  const handleRecompile = () => {
+  // What a compile reads from the project: opening or closing a folder changes the tree
+  // but not this, so it does not recompile
+  const compiledContent = useMemo(() => activeProject
+    ? hashString(JSON.stringify(listProjectFiles(activeProject.root).map(({ path, file }) => [path, file.content])))
+    : '', [activeProject?.root]);
+
+  // Live compile: the compiler runs off the main thread, so typing stays responsive
+  useEffect(() => {
     if (!activeProject) return;
-    setIsCompiling(true);
+    const delay = (activeProject.compiler || 'preview') === 'preview' ? LIVE_COMPILE_DELAY : TEX_LIVE_COMPILE_DELAY;
+    const timer = setTimeout(() => {
+        compile(activeProject, activeFileId).then(outcome => showCompileResult(outcome, false));
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [activeProject?.id, compiledContent, activeProject?.compiler]);
+
+  // Preview -> source: open the file behind the clicked output and jump to its line
+  const handleSourceClick = (location: SourceLocation) => {
+      if (viewMode === ViewMode.PREVIEW) setViewMode(ViewMode.SPLIT);
+      setActiveFileId(location.fileId);
+      setPendingJump(location);
+  };
 
-    // Flatten project to find files easily
-    const fileMap = flattenProjectFiles(activeProject.root);
-    const allFiles = Object.values(fileMap);
-    
-    // Find Main File
-    let mainFile = fileMap['main.tex'];
-    if (!mainFile) {
-        // Fallback: try to find active file or any tex file
-        const activeNode = findNode(activeProject.root.children || [], activeFileId);
-        if (activeNode && activeNode.name.endsWith('.tex')) {
-             mainFile = activeNode;
-        } else {
-             mainFile = allFiles.find(f => f.name.endsWith('.tex'));
-        }
-    }
+  // A place in a file that may sit in a closed folder
+  const handleOpenLocation = (location: SourceLocation) => {
+      if (!activeProject) return;
+      const root = { ...activeProject.root, children: openFoldersTo(activeProject.root.children || [], location.fileId) };
+      updateProject({ ...activeProject, root });
+      handleSourceClick(location);
+  };
 
-    setTimeout(() => {
-        if (mainFile && mainFile.content) {
-            // 1. Resolve Imports (recursively)
-            const resolvedContent = resolveLatexImports(mainFile.content, fileMap);
-            
-            // 2. Extract Assets (Images)
-            const assets: Record<string, string> = {};
-            allFiles.forEach(f => {
-                if (f.content && /\.(png|jpe?g|gif|svg)$/i.test(f.name)) {
-                    assets[f.name] = f.content; 
-                }
-            });
-            
-            // Update State for Preview
-            setPreviewAssets(assets);
-            setCompiledContent(resolvedContent);
-
-            // 3. Logs
-            const newLogs: LogEntry[] = [];
-            if (!resolvedContent.includes('\\documentclass')) {
-                 newLogs.push({
-                    id: Date.now().toString(),
-                    type: 'warning',
-                    message: 'Missing \\documentclass declaration. Preview may not render correctly.',
-                    file: mainFile.name,
-                    timestamp: Date.now()
-                });
-            } else {
-                 newLogs.push({
-                    id: Date.now().toString(),
-                    type: 'info',
-                    message: `Compilation finished. Output: project.pdf`,
-                    timestamp: Date.now()
-                });
-            }
-            setLogs(newLogs);
-        } else {
-            setLogs([{ id: 'err', type: 'error', message: 'No main LaTeX file found to compile.', timestamp: Date.now() }]);
-        }
-        setIsCompiling(false);
-    }, 600);
+  // Logs -> source
+  const handleLogClick = (log: LogEntry) => {
+      // The file may have gone since the compile
+      if (!activeProject || !log.fileId || !findNode(activeProject.root.children || [], log.fileId)) return;
+      handleOpenLocation({ fileId: log.fileId, line: log.line || 1 });
+  };
+
+  // New content for several files, saved as one update
+  const handleReplaceInFiles = (changes: Record<string, string>) => {
+      if (!activeProject) return;
+      const children = Object.entries(changes).reduce(
+          (nodes, [fileId, content]) => updateNodeInTree(nodes, fileId, { content }),
+          activeProject.root.children || []
+      );
+      updateProject({
+          ...activeProject,
+          root: { ...activeProject.root, children },
+          lastModified: Date.now(),
+          updatedAt: new Date().toISOString()
+      });
+  };
+
+  // Project search: a replacement, remembered so it can be undone
+  const handleReplaceMatches = (record: ReplaceRecord) => {
+      handleReplaceInFiles(record.after);
+      setLastReplace(record);
   };
 
+  const handleUndoReplace = () => {
+      if (!lastReplace) return;
+      handleReplaceInFiles(lastReplace.before);
+      setLastReplace(null);
+  };
+
+  // Outline drag and drop: every file the move touches changes together
+  const handleMoveSection = (source: OutlineEntry, target: OutlineEntry, after: boolean) => {
+      if (!activeProject) return;
+      const changes = moveSection(activeProject.root, source, target, after);
+      if (changes) handleReplaceInFiles(changes);
+  };
+
+  // The jump has to wait until the editor shows the target file
+  useEffect(() => {
+      if (pendingJump && pendingJump.fileId === activeFileId) {
+          editorRef.current?.goToLine(pendingJump.line);
+          setPendingJump(null);
+      }
+  }, [pendingJump, activeFileId]);
+
   const handleAIAction = async (action: AIAction, prompt?: string) => {
     if (!activeProject) return;
     const currentFile = activeProject?.root.children ? findNode(activeProject.root.children, activeFileId) : null;
@@ -307,7 +377,9 @@ const App: React.FC = () => {
         let result = "";
         if (action === AIAction.GENERATE && prompt) {
             result = await processLatexWithAI("", action, prompt);
-            handleFileChange(currentFile.content + "\n\n" + result);
+            // At the cursor, or in place of the selection
+            if (editorRef.current) editorRef.current.replaceSelection(result);
+            else handleFileChange(currentFile.content + "\n\n" + result);
         } else {
             result = await processLatexWithAI(currentFile.content, action);
             if (action === AIAction.EXPLAIN) {
@@ -323,23 +395,55 @@ const App: React.FC = () => {
     }
   };
 
-  const downloadPDF = () => {
-      // @ts-ignore
-      if (typeof window.html2pdf !== 'undefined') {
-          const element = document.getElementById('preview-document');
-          if (element) {
-              const opt = {
-                margin: 10,
-                filename: `${activeProject?.name || 'document'}.pdf`,
-                image: { type: 'jpeg', quality: 0.98 },
-                html2canvas: { scale: 2, useCORS: true },
-                jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
-              };
-              // @ts-ignore
-              window.html2pdf().set(opt).from(element).save();
-          }
+  const downloadBlob = (blob: Blob, fileName: string) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  // A TeX engine's PDF: the compiled one, or, on the preview compiler, one from the TeX
+  // service when it runs. Without it, the browser prints the preview pages to PDF.
+  const downloadPDF = async (project: Project) => {
+      const name = project.name || 'document';
+      let pdf = compiledPdf?.pdf || null;
+      if (!pdf) {
+          const compiler = createTexServiceCompiler();
+          const outcome = await compiler.compile(project, activeFileId);
+          compiler.dispose();
+          if (outcome.status === 'done' && outcome.output?.format === 'pdf') pdf = outcome.output.pdf;
+      }
+      if (pdf) {
+          downloadBlob(new Blob([pdf], { type: 'application/pdf' }), `${name}.pdf`);
       } else {
-          alert('PDF generation library not loaded.');
+          await printDocument(await paginate(compiledHtml, compiledLayout), compiledLayout, name);
+      }
+  };
+
+  // The other formats are written from the preview renderer's output; the Logs tab gets
+  // the report of what could not be converted
+  const handleExport = async (format: 'pdf' | ExportFormat) => {
+      if (!activeProject || isExporting) return;
+      setIsExporting(true);
+      try {
+          if (format === 'pdf') {
+              await downloadPDF(activeProject);
+              return;
+          }
+          const result = await exportProject(activeProject, activeFileId, format);
+          if (!result) {
+              setLogs([{ id: 'err', type: 'error', message: 'No main LaTeX file found to export.', timestamp: Date.now() }]);
+              return;
+          }
+          downloadBlob(result.file, result.fileName);
+          setLogs(result.logs);
+      } catch (e) {
+          console.error(e);
+          setLogs([{ id: `${Date.now()}-export-failed`, type: 'error', message: `Export failed: ${e instanceof Error ? e.message : e}`, category: 'export', timestamp: Date.now() }]);
+      } finally {
+          setIsExporting(false);
       }
   };
 
@@ -381,6 +485,12 @@ const App: React.FC = () => {
         onSelectFile={(node) => setActiveFileId(node.id)}
         onToggleFolder={handleToggleFolder}
         onBackToDashboard={() => setView('dashboard')}
+        onOpenSnippets={() => setShowSnippets(true)}
+        onOpenLocation={handleOpenLocation}
+        onMoveSection={handleMoveSection}
+        lastReplace={lastReplace}
+        onReplaceMatches={handleReplaceMatches}
+        onUndoReplace={handleUndoReplace}
       />
 
       <div className="flex-1 flex flex-col h-full relative min-w-0">
@@ -395,6 +505,16 @@ const App: React.FC = () => {
                     >
                         <Play size={14} fill="currentColor" /> Recompile
                     </button>
+                    <select
+                        value={activeProject?.compiler || 'preview'}
+                        onChange={(e) => handleCompilerChange(e.target.value as ProjectCompiler)}
+                        className="ml-2 text-sm font-medium text-slate-600 border border-slate-200 rounded-lg px-2 py-2 bg-white hover:bg-slate-50 cursor-pointer focus:outline-none"
+                        title="Compiler"
+                    >
+                        {(Object.keys(COMPILER_NAMES) as ProjectCompiler[]).map(compiler => (
+                            <option key={compiler} value={compiler}>{COMPILER_NAMES[compiler]}</option>
+                        ))}
+                    </select>
                     
                     <div className="ml-4 px-3 py-1.5 bg-slate-50 border border-slate-100 rounded-full">
                          {renderStatus()}
@@ -438,13 +558,7 @@ const App: React.FC = () => {
                     </button>
                </div>
 
-               <button 
-                onClick={downloadPDF} 
-                className="text-slate-500 hover:text-blue-600 hover:bg-blue-50 p-2 rounded-lg transition-colors"
-                title="Download PDF"
-               >
-                   <Download size={20} />
-               </button>
+               <ExportMenu onExport={handleExport} isExporting={isExporting} />
            </div>
         </header>
 
@@ -453,7 +567,16 @@ const App: React.FC = () => {
         <main className="flex-1 flex overflow-hidden">
              <div className={`${viewMode === ViewMode.PREVIEW ? 'hidden' : (viewMode === ViewMode.SPLIT ? 'w-1/2' : 'w-full')} h-full border-r border-slate-200`}>
                 {currentFileNode && currentFileNode.type === 'file' ? (
-                    <Editor content={currentFileNode.content || ''} onChange={handleFileChange} />
+                    <Editor 
+                        key={currentFileNode.id}
+                        ref={editorRef}
+                        content={currentFileNode.content || ''} 
+                        onChange={handleFileChange} 
+                        onCursorLineChange={(line) => setCursorLocation({ fileId: currentFileNode.id, line })}
+                        diagnostics={logs.filter(log => log.fileId === currentFileNode.id)}
+                        projectRoot={activeProject.root}
+                        snippets={activeProject.snippets}
+                    />
                 ) : (
                     <div className="h-full flex flex-col items-center justify-center bg-slate-50/50 text-slate-400 gap-4">
                         <FileText size={48} className="opacity-20" />
@@ -464,14 +587,27 @@ const App: React.FC = () => {
 
              <div className={`${viewMode === ViewMode.EDITOR ? 'hidden' : (viewMode === ViewMode.SPLIT ? 'w-1/2' : 'w-full')} h-full`}>
                  <Preview 
-                    latexCode={compiledContent} 
+                    html={compiledHtml} 
+                    layout={compiledLayout}
                     logs={logs} 
+                    logFiles={logFiles}
+                    pdf={compiledPdf}
                     isCompiling={isCompiling} 
-                    assetMap={previewAssets}
+                    syncLocation={cursorLocation}
+                    onSourceClick={handleSourceClick}
+                    onLogClick={handleLogClick}
                  />
              </div>
         </main>
       </div>
+
+      {showSnippets && activeProject && (
+        <SnippetsDialog
+          snippets={activeProject.snippets || []}
+          onSave={handleSnippetsSave}
+          onClose={() => setShowSnippets(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,28 +1,229 @@
-import React from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { Annotation, EditorState, Prec } from '@codemirror/state';
+import { EditorView, keymap } from '@codemirror/view';
+import { Diagnostic, setDiagnostics } from '@codemirror/lint';
+import { LogEntry, FileNode, Snippet } from '../types';
+import { buildCompletionIndex, CompletionIndex } from '../services/editor/completion';
+import { latexEditorSetup } from '../services/editor/setup';
+import { ChevronUp, ChevronDown } from 'lucide-react';
 
 interface EditorProps {
   content: string;
   onChange: (newContent: string) => void;
+  onCursorLineChange?: (line: number) => void;
+  diagnostics?: LogEntry[]; // Log entries for this file; those with a line are marked in the text
+  projectRoot?: FileNode; // For completing labels, citation keys, macros and paths from every file
+  snippets?: Snippet[]; // The project's own snippets
 }
 
-const Editor: React.FC<EditorProps> = ({ content, onChange }) => {
+export interface EditorHandle {
+  goToLine: (line: number) => void;
+  getSelection: () => string; // Text of the main selection
+  replaceSelection: (text: string) => void; // Replaces every selection, or inserts at the cursors
+  focus: () => void;
+}
+
+const SEVERITY_RANK: Record<LogEntry['type'], number> = { error: 2, warning: 1, info: 0 };
+
+// Marks content changes that came in through the `content` prop, which must not be
+// reported back through onChange
+const external = Annotation.define<boolean>();
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '13.5px', color: '#1e293b' },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': { fontFamily: "'JetBrains Mono', monospace", lineHeight: '1.625' },
+  '.cm-content': { padding: '24px 0' },
+  '.cm-line': { padding: '0 24px 0 8px' },
+  '.cm-gutters': { backgroundColor: '#f8fafc', color: '#94a3b8', borderRight: '1px solid #e2e8f0' },
+  '.cm-activeLineGutter': { backgroundColor: '#eff6ff', color: '#475569' },
+  '.cm-activeLine': { backgroundColor: '#f8fafc' },
+  '&.cm-focused > .cm-scroller > .cm-selectionLayer .cm-selectionBackground, .cm-selectionBackground, ::selection': { backgroundColor: '#dbeafe' },
+  '.cm-foldPlaceholder': { backgroundColor: '#f1f5f9', border: '1px solid #e2e8f0', color: '#64748b' },
+});
+
+const Editor = forwardRef<EditorHandle, EditorProps>(({ content, onChange, onCursorLineChange, diagnostics = [], projectRoot, snippets = [] }, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const lastLineRef = useRef<number>(0);
+  const [cursorLine, setCursorLine] = useState(1);
+
+  // The diagnostics on each line, the most severe first
+  const byLine = useMemo(() => {
+    const lines = new Map<number, LogEntry[]>();
+    diagnostics.forEach(entry => {
+      if (!entry.line) return;
+      lines.set(entry.line, [...(lines.get(entry.line) || []), entry]);
+    });
+    lines.forEach(entries => entries.sort((a, b) => SEVERITY_RANK[b.type] - SEVERITY_RANK[a.type]));
+    return lines;
+  }, [diagnostics]);
+
+  const problemLines = useMemo(() => Array.from(byLine.keys()).sort((a, b) => a - b), [byLine]);
+
+  const goToLine = (line: number) => {
+    const view = viewRef.current;
+    if (!view) return;
+    const target = view.state.doc.line(Math.min(Math.max(line, 1), view.state.doc.lines));
+    lastLineRef.current = target.number;
+    setCursorLine(target.number);
+    // Put the target line roughly a third of the way down the viewport
+    view.dispatch({
+      selection: { anchor: target.from, head: target.to },
+      effects: EditorView.scrollIntoView(target.from, { y: 'start', yMargin: view.scrollDOM.clientHeight / 3 }),
+    });
+    view.focus();
+  };
+
+  useImperativeHandle(ref, () => ({
+    goToLine,
+    getSelection: () => {
+      const view = viewRef.current;
+      return view ? view.state.sliceDoc(view.state.selection.main.from, view.state.selection.main.to) : '';
+    },
+    replaceSelection: (text: string) => {
+      const view = viewRef.current;
+      if (!view) return;
+      view.dispatch(view.state.replaceSelection(text), { scrollIntoView: true });
+      view.focus();
+    },
+    focus: () => viewRef.current?.focus(),
+  }), []);
+
+  // Next or previous line with a problem, wrapping around at either end
+  const goToProblem = (direction: 1 | -1) => {
+    if (problemLines.length === 0) return;
+    const target = direction === 1
+      ? problemLines.find(line => line > cursorLine) ?? problemLines[0]
+      : [...problemLines].reverse().find(line => line < cursorLine) ?? problemLines[problemLines.length - 1];
+    goToLine(target);
+  };
+
+  // The view is created once; these let its listeners reach the latest props and state
+  const onChangeRef = useRef(onChange);
+  const onCursorLineChangeRef = useRef(onCursorLineChange);
+  const goToProblemRef = useRef(goToProblem);
+  onChangeRef.current = onChange;
+  onCursorLineChangeRef.current = onCursorLineChange;
+  goToProblemRef.current = goToProblem;
+
+  // The completion index is rebuilt on demand, when the project has changed since the last one
+  const projectRootRef = useRef(projectRoot);
+  projectRootRef.current = projectRoot;
+  const indexRef = useRef<{ root: FileNode | undefined; index: CompletionIndex } | null>(null);
+  const getCompletionIndex = () => {
+    const root = projectRootRef.current;
+    if (!indexRef.current || indexRef.current.root !== root) {
+      indexRef.current = { root, index: buildCompletionIndex(root) };
+    }
+    return indexRef.current.index;
+  };
+  const snippetsRef = useRef(snippets);
+  snippetsRef.current = snippets;
+  const getSnippets = () => snippetsRef.current;
+
+  useEffect(() => {
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        doc: content,
+        extensions: [
+          ...latexEditorSetup(getCompletionIndex, getSnippets),
+          editorTheme,
+          // F8 and Shift+F8, as in most editors
+          Prec.high(keymap.of([
+            { key: 'F8', run: () => { goToProblemRef.current(1); return true; } },
+            { key: 'Shift-F8', run: () => { goToProblemRef.current(-1); return true; } },
+          ])),
+          EditorView.updateListener.of(update => {
+            if (update.docChanged && !update.transactions.some(transaction => transaction.annotation(external))) {
+              onChangeRef.current(update.state.doc.toString());
+            }
+            if (update.docChanged || update.selectionSet) {
+              const line = update.state.doc.lineAt(update.state.selection.main.head).number;
+              if (line !== lastLineRef.current) {
+                lastLineRef.current = line;
+                setCursorLine(line);
+                onCursorLineChangeRef.current?.(line);
+              }
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Content from outside (another file's text, an AI edit) replaces only what differs, so
+  // the cursor and undo history survive
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const current = view.state.doc.toString();
+    if (current === content) return;
+    let start = 0;
+    while (start < current.length && start < content.length && current[start] === content[start]) start++;
+    let end = 0;
+    while (end < current.length - start && end < content.length - start && current[current.length - 1 - end] === content[content.length - 1 - end]) end++;
+    view.dispatch({
+      changes: { from: start, to: current.length - end, insert: content.slice(start, content.length - end) },
+      annotations: external.of(true),
+    });
+  }, [content]);
+
+  // Problem lines get a gutter marker and their text a squiggle
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const doc = view.state.doc;
+    const marks: Diagnostic[] = [];
+    byLine.forEach((entries, number) => {
+      if (number > doc.lines) return;
+      const line = doc.line(number);
+      const indent = line.text.length - line.text.trimStart().length;
+      const from = line.from + indent;
+      const to = Math.max(from, line.to - (line.text.length - line.text.trimEnd().length));
+      entries.forEach(entry => marks.push({ from, to, severity: entry.type, message: entry.message }));
+    });
+    view.dispatch(setDiagnostics(view.state, marks));
+  }, [byLine, content]);
+
+  const currentProblems = byLine.get(cursorLine);
+  const errorCount = diagnostics.filter(entry => entry.line && entry.type === 'error').length;
+  const warningCount = diagnostics.filter(entry => entry.line && entry.type === 'warning').length;
+
   return (
     <div className="h-full w-full flex flex-col bg-white relative group">
-        <div className="flex-1 relative">
-            <textarea
-                value={content}
-                onChange={(e) => onChange(e.target.value)}
-                className="absolute inset-0 w-full h-full p-6 font-mono text-[13.5px] bg-white text-slate-800 resize-none focus:outline-none leading-relaxed selection:bg-blue-100 selection:text-blue-900"
-                spellCheck={false}
-                placeholder="\documentclass{article}..."
-                style={{ tabSize: 2 }}
-            />
-        </div>
-        <div className="absolute bottom-4 right-6 text-xs text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity font-mono bg-white/80 px-2 py-1 rounded pointer-events-none">
+        <div ref={containerRef} className="flex-1 relative min-h-0" />
+        {problemLines.length > 0 && (
+            <div className="flex items-center gap-3 px-4 h-8 border-t border-slate-200 bg-slate-50 text-xs text-slate-500 shrink-0">
+                <div className="flex items-center">
+                    <button onClick={() => goToProblem(-1)} className="p-1 rounded hover:bg-slate-200" title="Previous problem (Shift+F8)">
+                        <ChevronUp size={14} />
+                    </button>
+                    <button onClick={() => goToProblem(1)} className="p-1 rounded hover:bg-slate-200" title="Next problem (F8)">
+                        <ChevronDown size={14} />
+                    </button>
+                </div>
+                <span className="tabular-nums whitespace-nowrap">
+                    <span className="text-red-500 font-semibold">{errorCount}</span> errors, <span className="text-amber-500 font-semibold">{warningCount}</span> warnings
+                </span>
+                {currentProblems && (
+                    <span className="truncate text-slate-700" title={currentProblems.map(entry => entry.message).join('\n')}>
+                        Line {cursorLine}: {currentProblems[0].message}
+                    </span>
+                )}
+            </div>
+        )}
+        <div className={`absolute ${problemLines.length > 0 ? 'bottom-12' : 'bottom-4'} right-6 text-xs text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity font-mono bg-white/80 px-2 py-1 rounded pointer-events-none`}>
             LaTeX Mode
         </div>
     </div>
   );
-};
+});
 
-export default Editor;
\ No newline at end of file
+export default Editor;
@@ -0,0 +1,64 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, FileText, FileCode, FileType, Globe, Loader2 } from 'lucide-react';
+import { ExportFormat } from '../services/export/exporter';
+
+interface ExportMenuProps {
+  onExport: (format: 'pdf' | ExportFormat) => void;
+  isExporting: boolean;
+}
+
+const OPTIONS: { format: 'pdf' | ExportFormat; label: string; detail: string; icon: React.ReactNode }[] = [
+  { format: 'pdf', label: 'PDF', detail: 'As typeset', icon: <FileText size={16} /> },
+  { format: 'html', label: 'HTML', detail: 'One self-contained page', icon: <Globe size={16} /> },
+  { format: 'markdown', label: 'Markdown', detail: 'With $ math', icon: <FileCode size={16} /> },
+  { format: 'docx', label: 'Word', detail: 'With editable equations', icon: <FileType size={16} /> },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, isExporting }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={isExporting}
+        className="text-slate-500 hover:text-blue-600 hover:bg-blue-50 p-2 rounded-lg transition-colors disabled:opacity-60"
+        title="Download"
+      >
+          {isExporting ? <Loader2 size={20} className="animate-spin" /> : <Download size={20} />}
+      </button>
+      {open && (
+          <div className="absolute right-0 top-full mt-1 w-60 bg-white border border-slate-200 rounded-lg shadow-lg py-1 z-30">
+              {OPTIONS.map(option => (
+                  <button
+                    key={option.format}
+                    onClick={() => {
+                        setOpen(false);
+                        onExport(option.format);
+                    }}
+                    className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-slate-50 transition-colors"
+                  >
+                      <span className="text-slate-400">{option.icon}</span>
+                      <span className="flex flex-col">
+                          <span className="text-sm font-medium text-slate-700">{option.label}</span>
+                          <span className="text-xs text-slate-400">{option.detail}</span>
+                      </span>
+                  </button>
+              ))}
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
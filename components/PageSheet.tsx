@@ -0,0 +1,68 @@
+import React from 'react';
+import { PageLayout } from '../types';
+import { Page, PAGE_BODY_CLASS } from '../services/paginator';
+import { textWidth, textHeight, COLUMN_SEP } from '../services/latex/layout';
+
+interface PageSheetProps {
+  page: Page;
+  layout: PageLayout;
+  className?: string;
+  children?: React.ReactNode; // Drawn over the page
+}
+
+// \headsep and \footskip of the standard classes, in millimetres
+const HEAD_SEP = 25 * 25.4 / 72.27;
+const FOOT_SKIP = 30 * 25.4 / 72.27;
+
+// A page of the paginated output at paper size: running head, text block and foot
+const PageSheet: React.FC<PageSheetProps> = ({ page, layout, className = '', children }) => {
+  const left = page.even ? layout.marginRight : layout.marginLeft;
+  const width = textWidth(layout);
+  // Pages are broken at column width; the columns are filled in order, not balanced
+  const columns = layout.columns > 1 ? { columnCount: layout.columns, columnGap: `${COLUMN_SEP}mm`, columnFill: 'auto' as const } : {};
+  const slots = (slot: Page['head']) => (
+    <>
+        <div className="flex-1 text-left" dangerouslySetInnerHTML={{ __html: slot.left }} />
+        <div className="flex-1 text-center" dangerouslySetInnerHTML={{ __html: slot.center }} />
+        <div className="flex-1 text-right" dangerouslySetInnerHTML={{ __html: slot.right }} />
+    </>
+  );
+
+  return (
+    <div
+        className={`relative bg-white shrink-0 text-black ${className}`}
+        style={{ width: `${layout.paperWidth}mm`, height: `${layout.paperHeight}mm`, fontSize: `${layout.fontSize}pt` }}
+    >
+        {/* Header and footer sit \headsep above and \footskip below the text block */}
+        <div className="absolute flex items-end" style={{ left: `${left}mm`, width: `${width}mm`, top: 0, height: `${layout.marginTop - HEAD_SEP}mm` }}>
+            <div
+                className="flex w-full gap-4 pb-0.5"
+                style={page.rules && layout.headRuleWidth > 0 ? { borderBottom: `${layout.headRuleWidth}pt solid` } : undefined}
+            >
+                {slots(page.head)}
+            </div>
+        </div>
+        {/*
+           We use dangerouslySetInnerHTML because compileLatex generates raw HTML
+           to mimic layout structures (divs, styles) that a Markdown renderer cannot handle.
+           Text content is escaped by the renderer, so only markup it emits reaches the DOM.
+        */}
+        <div
+            className={`${PAGE_BODY_CLASS} absolute`}
+            style={{ left: `${left}mm`, top: `${layout.marginTop}mm`, width: `${width}mm`, height: `${textHeight(layout)}mm`, fontSize: `${layout.fontSize}pt`, ...columns }}
+            dangerouslySetInnerHTML={{ __html: page.html }}
+        />
+        <div className="absolute flex items-end" style={{ left: `${left}mm`, width: `${width}mm`, top: `${layout.marginTop + textHeight(layout)}mm`, height: `${FOOT_SKIP}mm` }}>
+            <div
+                className="flex w-full gap-4 pt-0.5"
+                style={page.rules && layout.footRuleWidth > 0 ? { borderTop: `${layout.footRuleWidth}pt solid` } : undefined}
+            >
+                {slots(page.foot)}
+            </div>
+        </div>
+        {children}
+    </div>
+  );
+};
+
+export default PageSheet;
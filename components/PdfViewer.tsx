@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { SourceLocation } from '../types';
+import { SyncTex, sourceAt, placeOf } from '../services/compilers/synctex';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+interface PdfViewerProps {
+  pdf: Uint8Array; // Output of the TeX service
+  synctex: SyncTex | null;
+  syncLocation?: SourceLocation | null; // Editor cursor to scroll to
+  onSourceClick?: (location: SourceLocation) => void;
+}
+
+const PX_PER_PT = 96 / 72;
+const ZOOM_STEP = 0.1;
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 3;
+
+// A page drawn on a canvas at the zoom and the screen's pixel density
+const PdfPage: React.FC<{ page: PDFPageProxy; zoom: number; onClick: (e: React.MouseEvent<HTMLCanvasElement>) => void }> = ({ page, zoom, onClick }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewport = page.getViewport({ scale: zoom * PX_PER_PT });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const density = window.devicePixelRatio || 1;
+    const scaled = page.getViewport({ scale: zoom * PX_PER_PT * density });
+    canvas.width = Math.floor(scaled.width);
+    canvas.height = Math.floor(scaled.height);
+    const task = page.render({ canvas, viewport: scaled });
+    task.promise.catch(() => undefined); // Cancelled by a newer zoom
+    return () => task.cancel();
+  }, [page, zoom]);
+
+  return (
+    <canvas
+        ref={canvasRef}
+        onClick={onClick}
+        className="bg-white shadow-2xl shrink-0"
+        style={{ width: `${viewport.width}px`, height: `${viewport.height}px` }}
+    />
+  );
+};
+
+const PdfViewer: React.FC<PdfViewerProps> = ({ pdf, synctex, syncLocation, onSourceClick }) => {
+  const [pages, setPages] = useState<PDFPageProxy[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [marker, setMarker] = useState<{ page: number; top: number } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef<HTMLDivElement>(null);
+
+  // The previous document stays up until the new one is loaded
+  useEffect(() => {
+    let cancelled = false;
+    let document: PDFDocumentProxy | null = null;
+    // pdf.js takes ownership of the buffer it is given
+    const task = getDocument({ data: pdf.slice() });
+    task.promise
+        .then(async loaded => {
+            document = loaded;
+            const loadedPages = await Promise.all(Array.from({ length: loaded.numPages }, (_, i) => loaded.getPage(i + 1)));
+            if (!cancelled) {
+                setPages(loadedPages);
+                setError(null);
+            }
+        })
+        .catch(reason => {
+            if (!cancelled) setError(reason instanceof Error ? reason.message : String(reason));
+        });
+    return () => {
+        cancelled = true;
+        task.destroy();
+        document?.destroy();
+    };
+  }, [pdf]);
+
+  // The current page is the one crossing the upper third of the viewport
+  const handleScroll = () => {
+    if (!scrollRef.current || !pagesRef.current) return;
+    const container = scrollRef.current.getBoundingClientRect();
+    const probe = container.top + container.height / 3;
+    const elements = Array.from(pagesRef.current.children);
+    const index = elements.findIndex(el => el.getBoundingClientRect().bottom > probe);
+    setCurrentPage(index === -1 ? Math.max(0, elements.length - 1) : index);
+  };
+
+  const goToPage = (index: number) => {
+    pagesRef.current?.children[Math.min(Math.max(index, 0), pages.length - 1)]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const changeZoom = (value: number) => setZoom(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(value * 100) / 100)));
+
+  const fitWidth = () => {
+    if (!scrollRef.current || pages.length === 0) return;
+    // Leave room for the p-8 padding around the pages
+    changeZoom((scrollRef.current.clientWidth - 64) / (pages[0].getViewport({ scale: PX_PER_PT }).width));
+  };
+
+  // Source -> PDF: SyncTeX forward search for the editor cursor
+  useEffect(() => {
+    if (!synctex || !syncLocation || !pagesRef.current || !scrollRef.current) return;
+    const place = placeOf(synctex, syncLocation);
+    const element = place && pagesRef.current.children[place.page - 1] as HTMLElement | undefined;
+    if (!place || !element) return;
+    const top = (place.y - place.height) * zoom * PX_PER_PT;
+    scrollRef.current.scrollTo({ top: element.offsetTop + top - scrollRef.current.clientHeight / 3, behavior: 'smooth' });
+    setMarker({ page: place.page, top });
+    const timer = setTimeout(() => setMarker(null), 1200);
+    return () => clearTimeout(timer);
+  }, [syncLocation, synctex, pages]);
+
+  // PDF -> source: SyncTeX inverse search for the clicked point
+  const handlePageClick = (pageNumber: number) => (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!synctex || !onSourceClick) return;
+    const box = e.currentTarget.getBoundingClientRect();
+    const scale = zoom * PX_PER_PT;
+    const location = sourceAt(synctex, pageNumber, (e.clientX - box.left) / scale, (e.clientY - box.top) / scale);
+    if (location) onSourceClick(location);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 h-10 bg-slate-100 border-b border-slate-300/80 shrink-0 text-xs text-slate-500">
+          <div className="flex items-center gap-1">
+              <button onClick={() => goToPage(currentPage - 1)} disabled={currentPage === 0} className="p-1 rounded hover:bg-slate-200 disabled:opacity-40" title="Previous page">
+                  <ChevronLeft size={14} />
+              </button>
+              <span className="font-medium tabular-nums">Page {Math.min(currentPage + 1, pages.length)} of {pages.length}</span>
+              <button onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pages.length - 1} className="p-1 rounded hover:bg-slate-200 disabled:opacity-40" title="Next page">
+                  <ChevronRight size={14} />
+              </button>
+          </div>
+          <div className="flex items-center gap-1">
+              <button onClick={() => changeZoom(zoom - ZOOM_STEP)} className="p-1 rounded hover:bg-slate-200" title="Zoom out">
+                  <ZoomOut size={14} />
+              </button>
+              <span className="w-10 text-center font-medium tabular-nums">{Math.round(zoom * 100)}%</span>
+              <button onClick={() => changeZoom(zoom + ZOOM_STEP)} className="p-1 rounded hover:bg-slate-200" title="Zoom in">
+                  <ZoomIn size={14} />
+              </button>
+              <button onClick={fitWidth} className="p-1 rounded hover:bg-slate-200" title="Fit width">
+                  <Maximize2 size={14} />
+              </button>
+          </div>
+      </div>
+
+      {error ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-red-600 p-8">Could not open the PDF: {error}</div>
+      ) : (
+          <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-auto p-8 custom-scrollbar bg-slate-200/50">
+              <div ref={pagesRef} className="flex flex-col items-center gap-8 w-fit mx-auto">
+                  {pages.map((page, index) => (
+                      <div key={`${page.pageNumber}-${index}`} className="relative">
+                          <PdfPage page={page} zoom={zoom} onClick={handlePageClick(index + 1)} />
+                          {marker?.page === index + 1 && (
+                              <div className="absolute left-0 right-0 h-6 bg-yellow-300/40 pointer-events-none transition-opacity" style={{ top: marker.top }} />
+                          )}
+                      </div>
+                  ))}
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfViewer;
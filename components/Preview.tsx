@@ -1,210 +1,171 @@
-import React, { useMemo, useState, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkMath from 'remark-math';
-import rehypeKatex from 'rehype-katex';
-import { LogEntry } from '../types';
-import { FileText, AlertTriangle, Info, CheckCircle, Ban } from 'lucide-react';
-import katex from 'katex';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { LogEntry, LogCategory, SourceLocation, PageLayout } from '../types';
+import { paginate, Page } from '../services/paginator';
+import SlideView from './SlideView';
+import PageSheet from './PageSheet';
+import PdfViewer from './PdfViewer';
+import { PdfOutput } from '../services/compilers/compiler';
+import { FileText, AlertTriangle, Info, CheckCircle, Ban, ChevronLeft, ChevronRight, ChevronDown, ZoomIn, ZoomOut, Maximize2, Search } from 'lucide-react';
 
 interface PreviewProps {
-  latexCode: string;
+  html: string; // Output of compileLatex
+  layout: PageLayout;
   logs: LogEntry[];
+  logFiles?: { name: string; logs: LogEntry[] }[]; // .log files in the project, read into entries
+  pdf?: PdfOutput | null; // A TeX engine's output, shown instead of the HTML pages
   isCompiling: boolean;
-  assetMap?: Record<string, string>;
+  syncLocation?: SourceLocation | null; // Editor cursor to scroll to
+  onSourceClick?: (location: SourceLocation) => void;
+  onLogClick?: (log: LogEntry) => void; // Opens the file and line of an entry
 }
 
-const Preview: React.FC<PreviewProps> = ({ latexCode, logs, isCompiling, assetMap = {} }) => {
-  const [activeTab, setActiveTab] = useState<'pdf' | 'logs'>('pdf');
-  const [renderedHtml, setRenderedHtml] = useState<string>('');
-  
-  // --- Custom LaTeX Parser for Simulation ---
-  // This function simulates the "compilation" by transforming LaTeX structure into semantic HTML/CSS
-  const parseLatexToHtml = (code: string, assets: Record<string, string>) => {
-    if (!code) return '';
-
-    let processed = code;
-
-    // 1. Clean Comments
-    processed = processed.replace(/(?<!\\)%.*$/gm, '');
-
-    // 2. Extract Body (ignore preamble)
-    const beginDoc = processed.indexOf('\\begin{document}');
-    const endDoc = processed.lastIndexOf('\\end{document}');
-    if (beginDoc !== -1 && endDoc !== -1) {
-        processed = processed.substring(beginDoc + 16, endDoc);
+// Finds the rendered element closest to (at or before) a source line
+const findOutputForLocation = (root: HTMLElement, location: SourceLocation): HTMLElement | null => {
+  const candidates = Array.from(root.querySelectorAll<HTMLElement>('[data-src-file]'))
+    .filter(el => el.dataset.srcFile === location.fileId);
+  let best: HTMLElement | null = null;
+  let bestLine = -1;
+  candidates.forEach(el => {
+    const line = Number(el.dataset.srcLine);
+    // Later elements win ties, so nested output beats its container
+    if (line <= location.line && line >= bestLine) {
+        best = el;
+        bestLine = line;
     }
+  });
+  return best || candidates[0] || null;
+};
 
-    // 3. Remove Preamble/Setup commands that clutter output
-    processed = processed
-        .replace(/\\selectlanguage\{[^}]+\}/g, '')
-        .replace(/\\frenchspacing/g, '')
-        .replace(/\\hyphenation\{[^}]+\}/g, '')
-        .replace(/\\renewcommand\{[^}]+\}\{[^}]+\}/g, '') // Basic cleanup of definitions
-        .replace(/\\setlength\{[^}]+\}\{[^}]+\}/g, '')
-        .replace(/\\usepackage(?:\[.*?\])?\{[^}]+\}/g, '');
+const PX_PER_MM = 96 / 25.4;
+const ZOOM_STEP = 0.1;
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 3;
 
-    // 4. Handle Minipages (Convert to Inline-Block/Flex simulation)
-    // This is crucial for the cover page screenshot provided
-    processed = processed.replace(/\\begin\{minipage\}\{(.*?)\}([\s\S]*?)\\end\{minipage\}/g, (match, width, content) => {
-        let cssWidth = '100%';
-        if (width.includes('\\textwidth')) {
-            const fraction = parseFloat(width);
-            cssWidth = `${fraction * 100}%`;
-        } else if (width.includes('cm')) {
-            // Approximate cm to % based on A4 width (21cm)
-            const cm = parseFloat(width);
-            cssWidth = `${(cm / 21) * 100}%`;
-        }
-        
-        return `<div class="inline-block align-top" style="width: ${cssWidth}; vertical-align: top;">${content}</div>`;
-    });
+const LOG_TYPES: LogEntry['type'][] = ['error', 'warning', 'info'];
 
-    // 5. Handle Layout & Spacing
-    processed = processed
-        .replace(/\\centering/g, '<div class="text-center w-full block">') // Start centering context
-        .replace(/\\vspace\{([^}]+)\}/g, (match, size) => {
-            let height = '1rem';
-            if (size.includes('cm')) height = `${parseFloat(size)}cm`;
-            else if (size.includes('mm')) height = `${parseFloat(size)}mm`;
-            return `<div style="height: ${height}"></div>`;
-        })
-        .replace(/\\hspace\{([^}]+)\}/g, '<span style="display:inline-block; width: 1rem;"></span>')
-        .replace(/\\newpage/g, '<div class="page-break"></div>')
-        .replace(/\\clearpage/g, '<div class="page-break"></div>')
-        .replace(/\\par/g, '<br/><br/>')
-        .replace(/\\\\/g, '<br/>');
+const LOG_CATEGORY_NAMES: Record<LogCategory, string> = {
+  tex: 'TeX',
+  reference: 'References',
+  citation: 'Citations',
+  box: 'Boxes',
+  package: 'Packages',
+  font: 'Fonts',
+  export: 'Export',
+};
 
-    // 6. Formatting (Font Styles)
-    processed = processed
-        .replace(/\\textbf\{([^}]+)\}/g, '<strong>$1</strong>')
-        .replace(/\\textit\{([^}]+)\}/g, '<em>$1</em>')
-        .replace(/\\textsc\{([^}]+)\}/g, '<span class="uppercase text-sm tracking-wider">$1</span>')
-        .replace(/\\underline\{([^}]+)\}/g, '<u>$1</u>')
-        .replace(/\\emph\{([^}]+)\}/g, '<em>$1</em>')
-        .replace(/\\texttt\{([^}]+)\}/g, '<code class="bg-gray-100 px-1 rounded font-mono text-sm">$1</code>');
+const LogIcon: React.FC<{ type: LogEntry['type']; size?: number }> = ({ type, size = 18 }) => (
+  <>
+    {type === 'error' && <Ban size={size} className="text-red-500" />}
+    {type === 'warning' && <AlertTriangle size={size} className="text-amber-500" />}
+    {type === 'info' && <Info size={size} className="text-blue-500" />}
+  </>
+);
 
-    // 7. Font Sizes
-    processed = processed
-        .replace(/\\tiny/g, '<span class="text-xs">')
-        .replace(/\\small/g, '<span class="text-sm">')
-        .replace(/\\large/g, '<span class="text-lg">')
-        .replace(/\\Large/g, '<span class="text-xl">')
-        .replace(/\\LARGE/g, '<span class="text-2xl">')
-        .replace(/\\huge/g, '<span class="text-3xl">')
-        .replace(/\\Huge/g, '<span class="text-4xl">')
-        .replace(/\{\\bfseries\s+([^}]+)\}/g, '<strong>$1</strong>'); // Handle {\bfseries Text}
+// Entries by file, in the order the files first appear; those without a file come last
+const groupLogs = (logs: LogEntry[]) => {
+  const groups = new Map<string, LogEntry[]>();
+  logs.filter(log => log.file).forEach(log => groups.set(log.file!, [...(groups.get(log.file!) || []), log]));
+  const general = logs.filter(log => !log.file);
+  return [...Array.from(groups, ([file, entries]) => ({ file, entries })), ...(general.length > 0 ? [{ file: '', entries: general }] : [])];
+};
 
-    // 8. Images
-    processed = processed.replace(/\\includegraphics(?:\[.*?\])?\{([^}]+)\}/g, (match, path) => {
-        const filename = path.split('/').pop() || path;
-        // Try strict match, then extensions
-        let src = assets[filename] || assets[filename + '.png'] || assets[filename + '.jpg'] || assets[filename + '.jpeg'];
-        
-        // If filename ends with extension in latex code
-        if (!src) {
-             Object.keys(assets).forEach(key => {
-                 if (key.includes(filename)) src = assets[key];
-             });
-        }
+const Preview: React.FC<PreviewProps> = ({ html: renderedHtml, layout, logs, logFiles = [], pdf, isCompiling, syncLocation, onSourceClick, onLogClick }) => {
+  const [activeTab, setActiveTab] = useState<'pdf' | 'logs'>('pdf');
+  const [logSource, setLogSource] = useState(''); // A .log file name, or '' for the last compile
+  const [hiddenTypes, setHiddenTypes] = useState<LogEntry['type'][]>([]);
+  const [logCategory, setLogCategory] = useState<LogCategory | ''>('');
+  const [logQuery, setLogQuery] = useState('');
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+  const [pages, setPages] = useState<Page[]>([]);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const documentRef = useRef<HTMLDivElement>(null);
 
-        if (src) {
-            return `<img src="${src}" alt="${filename}" style="max-width: 100%; height: auto; display: block; margin: 1rem auto;" />`;
-        }
-        return `<div class="bg-red-50 border border-red-200 text-red-500 text-xs p-2 text-center rounded my-4 font-mono">Missing Image: ${filename}</div>`;
+  // Lay the output out into pages; the previous pages stay up until the new ones are ready
+  useEffect(() => {
+    const controller = new AbortController();
+    paginate(renderedHtml, layout, controller.signal).then(setPages, error => {
+      if (!controller.signal.aborted) console.error('Pagination failed', error);
     });
+    return () => controller.abort();
+  }, [renderedHtml, layout]);
 
-    // 9. Structure (Chapters/Sections)
-    let chapterCount = 0;
-    let sectionCount = 0;
-    let subsectionCount = 0;
-
-    processed = processed.replace(/\\chapter\*?\{([^}]+)\}/g, (match, title) => {
-        if (!match.includes('*')) chapterCount++;
-        sectionCount = 0;
-        return `<h1 class="text-3xl font-bold mt-8 mb-6 border-b pb-2">${match.includes('*') ? '' : chapterCount + '. '}${title}</h1>`;
-    });
+  // The current page is the one crossing the upper third of the viewport
+  const handleScroll = () => {
+    if (!scrollRef.current || !documentRef.current) return;
+    const container = scrollRef.current.getBoundingClientRect();
+    const probe = container.top + container.height / 3;
+    const elements = Array.from(documentRef.current.children);
+    const index = elements.findIndex(el => el.getBoundingClientRect().bottom > probe);
+    setCurrentPage(index === -1 ? Math.max(0, elements.length - 1) : index);
+  };
 
-    processed = processed.replace(/\\section\*?\{([^}]+)\}/g, (match, title) => {
-        if (!match.includes('*')) sectionCount++;
-        subsectionCount = 0;
-        const num = chapterCount > 0 ? `${chapterCount}.${sectionCount}` : `${sectionCount}`;
-        return `<h2 class="text-2xl font-bold mt-6 mb-4 text-slate-800">${match.includes('*') ? '' : num + ' '}${title}</h2>`;
-    });
+  const goToPage = (index: number) => {
+    const target = documentRef.current?.children[Math.min(Math.max(index, 0), pages.length - 1)];
+    target?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
 
-    processed = processed.replace(/\\subsection\*?\{([^}]+)\}/g, (match, title) => {
-        if (!match.includes('*')) subsectionCount++;
-        const num = chapterCount > 0 ? `${chapterCount}.${sectionCount}.${subsectionCount}` : `${sectionCount}.${subsectionCount}`;
-        return `<h3 class="text-xl font-bold mt-4 mb-3 text-slate-700">${match.includes('*') ? '' : num + ' '}${title}</h3>`;
-    });
+  const changeZoom = (value: number) => setZoom(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(value * 100) / 100)));
 
-    // 10. Lists
-    processed = processed.replace(/\\begin\{itemize\}([\s\S]*?)\\end\{itemize\}/g, '<ul class="list-disc pl-6 space-y-1 my-4">$1</ul>');
-    processed = processed.replace(/\\begin\{enumerate\}([\s\S]*?)\\end\{enumerate\}/g, '<ol class="list-decimal pl-6 space-y-1 my-4">$1</ol>');
-    processed = processed.replace(/\\item\s+([^\n]*)/g, '<li>$1</li>');
+  const fitWidth = () => {
+    if (!scrollRef.current) return;
+    // Leave room for the p-8 padding around the pages
+    changeZoom((scrollRef.current.clientWidth - 64) / (layout.paperWidth * PX_PER_MM));
+  };
 
-    // 11. Abstract
-    processed = processed.replace(/\\begin\{abstract\}([\s\S]*?)\\end\{abstract\}/g, (match, content) => {
-        return `<div class="mx-12 my-8 text-sm text-justify"><p class="text-center font-bold text-xs uppercase tracking-wider mb-2">Abstract</p>${content}</div>`;
-    });
+  // Source -> preview: follow the editor cursor
+  useEffect(() => {
+    if (!syncLocation || activeTab !== 'pdf' || !documentRef.current || !scrollRef.current) return;
+    const target = findOutputForLocation(documentRef.current, syncLocation);
+    if (!target) return;
 
-    // 12. Special Characters & cleanup
-    processed = processed
-        .replace(/\\textthreequartersemdash/g, '—')
-        .replace(/---/g, '—')
-        .replace(/--/g, '–')
-        .replace(/``/g, '"')
-        .replace(/''/g, '"')
-        .replace(/\\footnote\{([^}]+)\}/g, '<sup class="text-blue-600 cursor-pointer" title="$1">[ref]</sup>')
-        .replace(/\\cite\{([^}]+)\}/g, '<span class="text-blue-600">[1]</span>') // Mock citation
-        .replace(/\\ref\{([^}]+)\}/g, '<span class="text-blue-600">1.1</span>') // Mock ref
-        .replace(/\\label\{([^}]+)\}/g, '');
+    const container = scrollRef.current.getBoundingClientRect();
+    const box = target.getBoundingClientRect();
+    if (box.top < container.top || box.bottom > container.bottom) {
+        target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+    target.classList.add('sync-highlight');
+    const timer = setTimeout(() => target.classList.remove('sync-highlight'), 1200);
+    return () => {
+        clearTimeout(timer);
+        target.classList.remove('sync-highlight');
+    };
+  }, [syncLocation, pages, activeTab]);
 
-    // 13. Math (Simple replace for display math, complex handled by regex replace if needed)
-    // Note: rendering full math in HTML string is hard without a parser like MathJax running on the DOM.
-    // We will do a basic pass for display math $$...$$ to katex HTML if possible, or just styling.
-    
-    // Simple inline math fallback
-    processed = processed.replace(/\$([^$]+)\$/g, (match, math) => {
-        try {
-            return katex.renderToString(math, { throwOnError: false });
-        } catch (e) {
-            return `<span class="font-mono text-xs bg-yellow-50">${math}</span>`;
-        }
-    });
+  // Logs tab: the selected log, filtered by type, category and text, grouped by file
+  const logFile = logFiles.find(file => file.name === logSource);
+  const sourceLogs = logFile ? logFile.logs : logs;
+  const logCategories = Array.from(new Set(sourceLogs.flatMap(log => log.category ? [log.category] : [])));
+  const logGroups = useMemo(() => {
+    const query = logQuery.trim().toLowerCase();
+    return groupLogs(sourceLogs.filter(log =>
+        !hiddenTypes.includes(log.type)
+        && (!logCategory || log.category === logCategory)
+        && (!query || log.message.toLowerCase().includes(query) || (log.file || '').toLowerCase().includes(query))));
+  }, [sourceLogs, hiddenTypes, logCategory, logQuery]);
 
-    // Display math
-    processed = processed.replace(/\$\$([\s\S]*?)\$\$/g, (match, math) => {
-         try {
-            return `<div class="my-4 text-center">${katex.renderToString(math, { displayMode: true, throwOnError: false })}</div>`;
-        } catch (e) {
-            return `<div class="font-mono text-xs bg-yellow-50 p-2">${math}</div>`;
-        }
-    });
-    
-    // Handle \[ ... \]
-    processed = processed.replace(/\\\[([\s\S]*?)\\\]/g, (match, math) => {
-         try {
-            return `<div class="my-4 text-center">${katex.renderToString(math, { displayMode: true, throwOnError: false })}</div>`;
-        } catch (e) {
-            return `<div class="font-mono text-xs bg-yellow-50 p-2">${math}</div>`;
-        }
-    });
+  const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(other => other !== item) : [...list, item];
 
-    // Close any open tags that might occur from sloppy replacements (basic safety)
-    // In a real engine, we'd build a DOM tree. Here we assume relatively valid structure.
+  // Preview -> source: clicking output opens the file and line it came from
+  const handleDocumentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // Internal links (\ref, \cite ...) scroll inside the preview instead of changing the URL
+    const link = (e.target as HTMLElement).closest<HTMLAnchorElement>('a[href^="#"]');
+    if (link) {
+        e.preventDefault();
+        const target = documentRef.current?.querySelector(`[id="${CSS.escape(link.getAttribute('href')!.slice(1))}"]`);
+        target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        return;
+    }
 
-    return processed;
+    if (!onSourceClick) return;
+    // Don't hijack clicks that finish a text selection
+    if (window.getSelection()?.toString()) return;
+    const element = (e.target as HTMLElement).closest<HTMLElement>('[data-src-line]');
+    if (!element || !element.dataset.srcFile) return;
+    onSourceClick({ fileId: element.dataset.srcFile, line: Number(element.dataset.srcLine) });
   };
 
-  useEffect(() => {
-    // Debounce compilation slightly to avoid UI freeze
-    const timer = setTimeout(() => {
-        const html = parseLatexToHtml(latexCode, assetMap);
-        setRenderedHtml(html);
-    }, 100);
-    return () => clearTimeout(timer);
-  }, [latexCode, assetMap]);
-
 
   return (
     <div className="h-full w-full flex flex-col bg-[#e2e8f0]">
@@ -227,9 +188,34 @@ const Preview: React.FC<PreviewProps> = ({ latexCode, logs, isCompiling, assetMa
                 )}
             </button>
           </div>
-          <div className="text-xs text-slate-400 font-mono">
-            A4 Paper • 12pt
-          </div>
+          {activeTab === 'pdf' && !layout.slides && !pdf?.pdf && (
+            <div className="flex items-center gap-3 text-xs text-slate-500">
+                <div className="flex items-center gap-1">
+                    <button onClick={() => goToPage(currentPage - 1)} disabled={currentPage === 0} className="p-1 rounded hover:bg-slate-200 disabled:opacity-40" title="Previous page">
+                        <ChevronLeft size={14} />
+                    </button>
+                    <span className="font-medium tabular-nums">Page {Math.min(currentPage + 1, pages.length)} of {pages.length}</span>
+                    <button onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pages.length - 1} className="p-1 rounded hover:bg-slate-200 disabled:opacity-40" title="Next page">
+                        <ChevronRight size={14} />
+                    </button>
+                </div>
+                <div className="flex items-center gap-1 border-l border-slate-300 pl-3">
+                    <button onClick={() => changeZoom(zoom - ZOOM_STEP)} className="p-1 rounded hover:bg-slate-200" title="Zoom out">
+                        <ZoomOut size={14} />
+                    </button>
+                    <span className="w-10 text-center font-medium tabular-nums">{Math.round(zoom * 100)}%</span>
+                    <button onClick={() => changeZoom(zoom + ZOOM_STEP)} className="p-1 rounded hover:bg-slate-200" title="Zoom in">
+                        <ZoomIn size={14} />
+                    </button>
+                    <button onClick={fitWidth} className="p-1 rounded hover:bg-slate-200" title="Fit width">
+                        <Maximize2 size={14} />
+                    </button>
+                </div>
+                <span className="font-mono text-slate-400 border-l border-slate-300 pl-3">
+                    {layout.paper} • {layout.fontSize}pt
+                </span>
+            </div>
+          )}
       </div>
 
       <div className="flex-1 relative overflow-hidden">
@@ -241,67 +227,139 @@ const Preview: React.FC<PreviewProps> = ({ latexCode, logs, isCompiling, assetMa
              </div>
         )}
 
-        {activeTab === 'pdf' ? (
-            <div className="h-full overflow-y-auto p-8 flex justify-center custom-scrollbar bg-slate-200/50">
+        {activeTab === 'pdf' && pdf?.pdf ? (
+            <PdfViewer pdf={pdf.pdf} synctex={pdf.synctex} syncLocation={syncLocation} onSourceClick={onSourceClick} />
+        ) : activeTab === 'pdf' && layout.slides ? (
+            <SlideView slides={pages} layout={layout} syncLocation={syncLocation} onSourceClick={onSourceClick} />
+        ) : activeTab === 'pdf' ? (
+            <div ref={scrollRef} onScroll={handleScroll} className="h-full overflow-auto p-8 custom-scrollbar bg-slate-200/50">
                 <div 
                     id="preview-document"
-                    className="bg-white shadow-2xl mx-auto box-content transition-all duration-300 font-serif"
-                    style={{
-                        width: '210mm',
-                        minHeight: '297mm',
-                        padding: '25mm 20mm', // Standard Latex Margins
-                    }}
+                    ref={documentRef}
+                    onClick={handleDocumentClick}
+                    className="flex flex-col items-center gap-8 w-fit mx-auto font-serif"
+                    style={{ zoom }}
                 >
-                   {/* 
-                      We use dangerouslySetInnerHTML because our parseLatexToHtml generates raw HTML 
-                      to mimic layout structures (divs, styles) that ReactMarkdown cannot handle.
-                      Input is sanitized by the fact we control the regex replacements.
-                   */}
-                   <div 
-                        className="prose prose-slate max-w-none prose-p:text-justify prose-p:leading-relaxed text-black"
-                        dangerouslySetInnerHTML={{ __html: renderedHtml }}
-                   />
-                   
-                    {renderedHtml.trim() === '' && (
-                        <div className="h-96 flex flex-col items-center justify-center text-slate-300 italic pointer-events-none select-none">
-                            <FileText size={48} className="mb-4 opacity-20" />
-                            Document is empty
-                        </div>
-                    )}
+                    {pages.map((page, index) => (
+                        <PageSheet key={index} page={page} layout={layout} className="shadow-2xl">
+                            {renderedHtml.trim() === '' && (
+                                <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-300 italic pointer-events-none select-none">
+                                    <FileText size={48} className="mb-4 opacity-20" />
+                                    Document is empty
+                                </div>
+                            )}
+                        </PageSheet>
+                    ))}
                 </div>
             </div>
         ) : (
-            <div className="h-full bg-white overflow-y-auto">
-                {logs.length === 0 ? (
+            <div className="h-full bg-white flex flex-col">
+                <div className="flex items-center gap-2 px-4 py-2 border-b border-slate-200 bg-slate-50 shrink-0 text-xs">
+                    {logFiles.length > 0 && (
+                        <select
+                            value={logFile ? logSource : ''}
+                            onChange={(e) => setLogSource(e.target.value)}
+                            className="bg-white border border-slate-200 rounded-md px-2 py-1 text-slate-700 font-medium focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                            title="Log to show"
+                        >
+                            <option value="">Last compile</option>
+                            {logFiles.map(file => <option key={file.name} value={file.name}>{file.name}</option>)}
+                        </select>
+                    )}
+                    {LOG_TYPES.map(type => (
+                        <button
+                            key={type}
+                            onClick={() => setHiddenTypes(toggle(hiddenTypes, type))}
+                            className={`flex items-center gap-1.5 px-2 py-1 rounded-md border transition-colors ${hiddenTypes.includes(type) ? 'border-transparent text-slate-400 opacity-60' : 'border-slate-200 bg-white text-slate-700 shadow-sm'}`}
+                            title={hiddenTypes.includes(type) ? `Show ${type} messages` : `Hide ${type} messages`}
+                        >
+                            <LogIcon type={type} size={12} />
+                            <span className="tabular-nums font-medium">{sourceLogs.filter(log => log.type === type).length}</span>
+                        </button>
+                    ))}
+                    {logCategories.length > 0 && (
+                        <select
+                            value={logCategory}
+                            onChange={(e) => setLogCategory(e.target.value as LogCategory | '')}
+                            className="bg-white border border-slate-200 rounded-md px-2 py-1 text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                            title="Kind of message"
+                        >
+                            <option value="">All kinds</option>
+                            {logCategories.map(category => <option key={category} value={category}>{LOG_CATEGORY_NAMES[category]}</option>)}
+                        </select>
+                    )}
+                    <div className="ml-auto flex items-center gap-1.5 bg-white border border-slate-200 rounded-md px-2 py-1 focus-within:ring-2 focus-within:ring-blue-500/20">
+                        <Search size={12} className="text-slate-400" />
+                        <input
+                            value={logQuery}
+                            onChange={(e) => setLogQuery(e.target.value)}
+                            placeholder="Filter messages"
+                            className="w-36 bg-transparent focus:outline-none text-slate-700 placeholder:text-slate-400"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto">
+                {sourceLogs.length === 0 ? (
                     <div className="flex flex-col items-center justify-center h-full text-slate-400 gap-4">
                         <div className="w-16 h-16 bg-green-50 rounded-full flex items-center justify-center text-green-500">
                             <CheckCircle size={32} />
                         </div>
-                        <p className="font-medium text-sm">Compilation successful</p>
+                        <p className="font-medium text-sm">{logFile ? `No messages in ${logFile.name}` : 'Compilation successful'}</p>
                     </div>
+                ) : logGroups.length === 0 ? (
+                    <div className="flex items-center justify-center h-full text-sm text-slate-400">No messages match the filters</div>
                 ) : (
-                    <div className="divide-y divide-slate-100">
-                        {logs.map((log) => (
-                            <div key={log.id} className="p-4 hover:bg-slate-50 flex gap-4 items-start group transition-colors">
-                                <div className="mt-0.5 shrink-0">
-                                    {log.type === 'error' && <Ban size={18} className="text-red-500" />}
-                                    {log.type === 'warning' && <AlertTriangle size={18} className="text-amber-500" />}
-                                    {log.type === 'info' && <Info size={18} className="text-blue-500" />}
-                                </div>
-                                <div className="flex-1 min-w-0">
-                                    <div className="text-sm font-medium text-slate-800 leading-snug">{log.message}</div>
-                                    <div className="text-xs text-slate-500 mt-1.5 flex items-center gap-2">
-                                        {log.file && <span className="font-mono bg-slate-100 px-1.5 py-0.5 rounded text-slate-600 border border-slate-200">{log.file}</span>}
-                                        {log.line && <span className="text-slate-400">Line {log.line}</span>}
+                    logGroups.map(group => {
+                        const collapsed = collapsedGroups.includes(group.file);
+                        const errors = group.entries.filter(log => log.type === 'error').length;
+                        const warnings = group.entries.filter(log => log.type === 'warning').length;
+                        return (
+                            <div key={group.file || '(general)'}>
+                                <button
+                                    onClick={() => setCollapsedGroups(toggle(collapsedGroups, group.file))}
+                                    className="sticky top-0 z-10 w-full flex items-center gap-2 px-4 py-2 bg-slate-100/95 backdrop-blur border-b border-slate-200 text-xs text-slate-600 hover:bg-slate-200/70"
+                                >
+                                    {collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                                    {group.file ? <span className="font-mono font-semibold text-slate-700">{group.file}</span> : <span className="font-semibold">General</span>}
+                                    <span className="ml-auto flex items-center gap-3 tabular-nums">
+                                        {errors > 0 && <span className="text-red-600">{errors} error{errors === 1 ? '' : 's'}</span>}
+                                        {warnings > 0 && <span className="text-amber-600">{warnings} warning{warnings === 1 ? '' : 's'}</span>}
+                                    </span>
+                                </button>
+                                {!collapsed && (
+                                    <div className="divide-y divide-slate-100">
+                                        {group.entries.map((log) => (
+                                            <div
+                                                key={log.id}
+                                                onClick={log.fileId && onLogClick ? () => onLogClick(log) : undefined}
+                                                className={`p-4 hover:bg-slate-50 flex gap-4 items-start group transition-colors ${log.fileId && onLogClick ? 'cursor-pointer' : ''}`}
+                                                title={log.fileId && onLogClick ? `Go to ${log.file}${log.line ? `:${log.line}` : ''}` : undefined}
+                                            >
+                                                <div className="mt-0.5 shrink-0">
+                                                    <LogIcon type={log.type} />
+                                                </div>
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="text-sm font-medium text-slate-800 leading-snug break-words">{log.message}</div>
+                                                    {(log.line || log.category) && (
+                                                        <div className="text-xs text-slate-500 mt-1.5 flex items-center gap-2">
+                                                            {log.line && <span className="text-slate-400 group-hover:text-blue-600">Line {log.line}</span>}
+                                                            {log.category && <span className="bg-slate-100 px-1.5 py-0.5 rounded text-slate-600 border border-slate-200">{LOG_CATEGORY_NAMES[log.category]}</span>}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                                <span className="text-[10px] text-slate-400 whitespace-nowrap font-mono">
+                                                    {new Date(log.timestamp).toLocaleTimeString([], { hour: '2-digit', minute:'2-digit', second:'2-digit' })}
+                                                </span>
+                                            </div>
+                                        ))}
                                     </div>
-                                </div>
-                                <span className="text-[10px] text-slate-400 whitespace-nowrap font-mono">
-                                    {new Date(log.timestamp).toLocaleTimeString([], { hour: '2-digit', minute:'2-digit', second:'2-digit' })}
-                                </span>
+                                )}
                             </div>
-                        ))}
-                    </div>
+                        );
+                    })
                 )}
+                </div>
             </div>
         )}
       </div>
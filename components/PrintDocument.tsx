@@ -0,0 +1,61 @@
+import React from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import { PageLayout } from '../types';
+import { Page } from '../services/paginator';
+import PageSheet from './PageSheet';
+
+interface PrintDocumentProps {
+  pages: Page[]; // Output of paginate
+  layout: PageLayout;
+}
+
+// One sheet of the document's paper size per page, with no margins of the printer's own
+const printStyle = (layout: PageLayout) => `
+  @page { size: ${layout.paperWidth}mm ${layout.paperHeight}mm; margin: 0; }
+  html, body { margin: 0; padding: 0; background: white; }
+  body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .print-page { overflow: hidden; break-after: page; }
+  .print-page:last-child { break-after: auto; }
+`;
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const PrintDocument: React.FC<PrintDocumentProps> = ({ pages, layout }) => (
+  <div className="font-serif">
+      {pages.map((page, index) => (
+          <PageSheet key={index} page={page} layout={layout} className="print-page" />
+      ))}
+  </div>
+);
+
+// Prints the pages from a frame of their own, through the browser's "Save as PDF". The text
+// stays text with its fonts embedded, internal links keep working, and browsers that build
+// bookmarks from headings (Chromium) give the PDF an outline of the sections.
+export const printDocument = async (pages: Page[], layout: PageLayout, title: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+  // The app's stylesheets (Tailwind, KaTeX, the .page-body rules) style the pages as in the preview
+  const styles = Array.from(document.head.querySelectorAll('style, link[rel="stylesheet"]')).map(element => element.outerHTML).join('\n');
+  frame.srcdoc = `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${escapeHtml(title)}</title>${styles}<style>${printStyle(layout)}</style></head><body></body></html>`;
+  await new Promise(resolve => {
+    frame.onload = resolve;
+    document.body.appendChild(frame);
+  });
+
+  const frameDocument = frame.contentDocument!;
+  const frameWindow = frame.contentWindow!;
+  const root = createRoot(frameDocument.body.appendChild(frameDocument.createElement('div')));
+  flushSync(() => root.render(<PrintDocument pages={pages} layout={layout} />));
+  await frameDocument.fonts.ready;
+  await Promise.all(Array.from(frameDocument.images).map(image => image.decode().catch(() => undefined)));
+
+  frameWindow.addEventListener('afterprint', () => {
+    root.unmount();
+    frame.remove();
+  }, { once: true });
+  frameWindow.focus();
+  frameWindow.print();
+};
+
+export default PrintDocument;
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CaseSensitive, ChevronDown, ChevronRight, Regex, Replace, ReplaceAll, Undo2, WholeWord } from 'lucide-react';
+import { FileNode, SourceLocation } from '../types';
+import { listProjectFiles } from '../services/latex/imports';
+import { applyMatches, FileMatches, ReplaceRecord, SearchMatch, SearchOptions, searchProject } from '../services/editor/projectSearch';
+
+interface SearchPanelProps {
+  root: FileNode;
+  onOpenLocation: (location: SourceLocation) => void;
+  lastReplace: ReplaceRecord | null; // Held by the app, so it outlives this panel
+  onReplace: (record: ReplaceRecord) => void; // Applied as one change
+  onUndo: () => void;
+}
+
+// Long lines are cut to the part near the match
+const CONTEXT = 40;
+const clipBefore = (text: string) => (text.length > CONTEXT ? '…' + text.slice(-CONTEXT) : text).trimStart();
+const clipAfter = (text: string) => (text.length > CONTEXT * 2 ? text.slice(0, CONTEXT * 2) + '…' : text);
+
+const OPTION_BUTTONS: { option: keyof SearchOptions; title: string; icon: React.ReactNode }[] = [
+  { option: 'caseSensitive', title: 'Match case', icon: <CaseSensitive size={15} /> },
+  { option: 'wholeWord', title: 'Whole word', icon: <WholeWord size={15} /> },
+  { option: 'regexp', title: 'Regular expression ($1 in the replacement)', icon: <Regex size={15} /> },
+];
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ root, lastReplace, onOpenLocation, onReplace, onUndo }) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [replacing, setReplacing] = useState(false);
+  const [options, setOptions] = useState<SearchOptions>({ regexp: false, wholeWord: false, caseSensitive: false });
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [confirming, setConfirming] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const result = useMemo(
+    () => (query ? searchProject(root, query, options, replacing ? replacement : '') : null),
+    [root, query, options, replacing, replacement]
+  );
+
+  // Undo only puts back files nobody has edited since
+  const contents = useMemo(() => new Map(listProjectFiles(root).map(({ file }) => [file.id, file.content])), [root]);
+  const canUndo = !!lastReplace && Object.entries(lastReplace.after).every(([id, text]) => contents.get(id) === text);
+
+  const replace = (groups: { file: FileNode; matches: SearchMatch[] }[]) => {
+    const before: Record<string, string> = {};
+    const after: Record<string, string> = {};
+    groups.forEach(({ file, matches }) => {
+      before[file.id] = file.content || '';
+      after[file.id] = applyMatches(file.content || '', matches);
+    });
+    onReplace({ before, after, count: groups.reduce((sum, group) => sum + group.matches.length, 0) });
+    setConfirming(false);
+  };
+
+  const toggleFile = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setCollapsed(next);
+  };
+
+  const renderMatch = (group: FileMatches, match: SearchMatch) => (
+    <div
+      key={match.from}
+      onClick={() => onOpenLocation({ fileId: group.file.id, line: match.line })}
+      className="group flex items-start gap-2 py-1 pl-8 pr-2 cursor-pointer text-xs text-slate-400 hover:bg-slate-800 hover:text-slate-200"
+    >
+        <span className="shrink-0 w-7 text-right text-slate-500 tabular-nums">{match.line}</span>
+        <span className="flex-1 min-w-0 truncate font-mono">
+            {clipBefore(match.before)}
+            <span className={replacing ? 'bg-red-500/20 text-red-300 line-through' : 'bg-amber-400/25 text-amber-200 rounded-sm'}>{match.text}</span>
+            {replacing && <span className="bg-green-500/20 text-green-300">{match.replacement}</span>}
+            {clipAfter(match.after)}
+        </span>
+        {replacing && (
+            <button
+              onClick={(e) => {
+                  e.stopPropagation();
+                  replace([{ file: group.file, matches: [match] }]);
+              }}
+              className="shrink-0 p-0.5 rounded text-slate-500 hover:text-white hover:bg-slate-700 opacity-0 group-hover:opacity-100"
+              title="Replace"
+            >
+                <Replace size={13} />
+            </button>
+        )}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="px-3 flex flex-col gap-2">
+          <div className="flex items-center gap-1">
+              <button
+                onClick={() => setReplacing(!replacing)}
+                className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+                title={replacing ? 'Hide replace' : 'Replace'}
+              >
+                  {replacing ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              </button>
+              <div className="flex-1 flex items-center bg-slate-800 border border-slate-700 rounded-md focus-within:border-blue-500">
+                  <input
+                    ref={inputRef}
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search"
+                    className="flex-1 min-w-0 bg-transparent px-2 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none"
+                  />
+                  {OPTION_BUTTONS.map(({ option, title, icon }) => (
+                      <button
+                        key={option}
+                        onClick={() => setOptions({ ...options, [option]: !options[option] })}
+                        className={`p-1 mr-0.5 rounded ${options[option] ? 'bg-blue-500/30 text-blue-200' : 'text-slate-500 hover:text-slate-200'}`}
+                        title={title}
+                      >
+                          {icon}
+                      </button>
+                  ))}
+              </div>
+          </div>
+          {replacing && (
+              <div className="flex items-center gap-1 pl-6">
+                  <input
+                    value={replacement}
+                    onChange={(e) => setReplacement(e.target.value)}
+                    placeholder="Replace"
+                    className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+                  />
+                  <button
+                    onClick={() => setConfirming(true)}
+                    disabled={!result || result.count === 0 || result.truncated}
+                    className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                    title={result?.truncated ? 'Too many matches to replace at once' : 'Replace all'}
+                  >
+                      <ReplaceAll size={15} />
+                  </button>
+              </div>
+          )}
+          {result && (
+              <div className={`text-xs ${result.error ? 'text-red-400' : 'text-slate-500'}`}>
+                  {result.error || (result.count === 0
+                    ? 'No results'
+                    : `${result.count}${result.truncated ? '+' : ''} results in ${result.files.length} file${result.files.length === 1 ? '' : 's'}`)}
+                  {replacing && result.truncated && ' (narrow the search to replace all)'}
+              </div>
+          )}
+          {lastReplace && (
+              <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-800/60 rounded-md px-2 py-1.5">
+                  <span className="flex-1">Replaced {lastReplace.count} match{lastReplace.count === 1 ? '' : 'es'}</span>
+                  <button
+                    onClick={onUndo}
+                    disabled={!canUndo}
+                    className="flex items-center gap-1 text-blue-400 hover:text-blue-300 disabled:text-slate-600"
+                    title={canUndo ? 'Put the files back as they were' : 'The files have been edited since'}
+                  >
+                      <Undo2 size={12} /> Undo
+                  </button>
+              </div>
+          )}
+      </div>
+
+      {result && result.files.map(group => (
+          <div key={group.file.id}>
+              <div
+                onClick={() => toggleFile(group.file.id)}
+                className="flex items-center gap-1.5 px-3 py-1 cursor-pointer text-[13px] text-slate-300 hover:bg-slate-800"
+              >
+                  {collapsed.has(group.file.id) ? <ChevronRight size={14} className="text-slate-500" /> : <ChevronDown size={14} className="text-slate-500" />}
+                  <span className="truncate font-medium">{group.path}</span>
+                  <span className="ml-auto text-[10px] font-bold text-slate-400 bg-slate-700 rounded-full px-1.5">{group.matches.length}</span>
+              </div>
+              {!collapsed.has(group.file.id) && group.matches.map(match => renderMatch(group, match))}
+          </div>
+      ))}
+
+      {/* Every change, line by line, before Replace all applies it. A truncated search
+          would leave matches out, so it cannot get here. */}
+      {confirming && result && !result.truncated && (
+          <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-in fade-in duration-200 select-text">
+              <div className="bg-white rounded-2xl shadow-2xl w-[720px] max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200">
+                  <div className="p-6 pb-4">
+                      <h3 className="text-xl font-bold mb-1 text-slate-800">Replace all</h3>
+                      <p className="text-slate-500 text-sm">
+                          {result.count} match{result.count === 1 ? '' : 'es'} in {result.files.length} file{result.files.length === 1 ? '' : 's'}
+                      </p>
+                  </div>
+                  <div className="flex-1 overflow-y-auto px-6 flex flex-col gap-4">
+                      {result.files.map(group => (
+                          <div key={group.file.id} className="border border-slate-200 rounded-lg overflow-hidden">
+                              <div className="px-3 py-1.5 bg-slate-50 border-b border-slate-200 text-xs font-semibold text-slate-600">{group.path}</div>
+                              <div className="font-mono text-xs">
+                                  {group.matches.map(match => (
+                                      <div key={match.from} className="border-b border-slate-100 last:border-b-0">
+                                          <div className="flex gap-2 px-3 py-0.5 bg-red-50 text-slate-700">
+                                              <span className="w-8 shrink-0 text-right text-slate-400">{match.line}</span>
+                                              <span className="text-red-500">-</span>
+                                              <span className="whitespace-pre-wrap break-all">{match.before}<span className="bg-red-200">{match.text}</span>{match.after}</span>
+                                          </div>
+                                          <div className="flex gap-2 px-3 py-0.5 bg-green-50 text-slate-700">
+                                              <span className="w-8 shrink-0"></span>
+                                              <span className="text-green-600">+</span>
+                                              <span className="whitespace-pre-wrap break-all">{match.before}<span className="bg-green-200">{match.replacement}</span>{match.after}</span>
+                                          </div>
+                                      </div>
+                                  ))}
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+                  <div className="flex justify-end gap-3 p-6 pt-4 border-t border-slate-100">
+                      <button
+                        onClick={() => setConfirming(false)}
+                        className="px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 text-sm font-medium rounded-lg shadow-sm transition-colors"
+                      >
+                          Cancel
+                      </button>
+                      <button
+                        onClick={() => replace(result.files)}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg shadow-sm transition-colors"
+                      >
+                          Replace {result.count}
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
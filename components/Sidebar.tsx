@@ -1,5 +1,9 @@
-import React, { useState } from 'react';
-import { FileNode } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileNode, SourceLocation } from '../types';
+import { buildOutline, OutlineEntry } from '../services/latex/outline';
+import { listProjectFiles } from '../services/latex/imports';
+import { ReplaceRecord } from '../services/editor/projectSearch';
+import SearchPanel from './SearchPanel';
 import { 
   FileText, 
   Folder, 
@@ -12,7 +16,10 @@ import {
   Upload, 
   MoreVertical,
   Home,
-  Settings
+  Settings,
+  Braces,
+  Hash,
+  Table
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -22,6 +29,12 @@ interface SidebarProps {
   onSelectFile: (node: FileNode) => void;
   onToggleFolder: (nodeId: string) => void;
   onBackToDashboard: () => void;
+  onOpenSnippets: () => void;
+  onOpenLocation: (location: SourceLocation) => void;
+  onMoveSection: (source: OutlineEntry, target: OutlineEntry, after: boolean) => void;
+  lastReplace: ReplaceRecord | null;
+  onReplaceMatches: (record: ReplaceRecord) => void;
+  onUndoReplace: () => void;
 }
 
 const FileIcon = ({ name }: { name: string }) => {
@@ -39,9 +52,34 @@ const Sidebar: React.FC<SidebarProps> = ({
   projectName,
   onSelectFile,
   onToggleFolder,
-  onBackToDashboard
+  onBackToDashboard,
+  onOpenSnippets,
+  onOpenLocation,
+  onMoveSection,
+  lastReplace,
+  onReplaceMatches,
+  onUndoReplace
 }) => {
-  
+  const [tab, setTab] = useState<'files' | 'outline' | 'search'>('files');
+  const [dragged, setDragged] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ index: number; after: boolean } | null>(null);
+
+  // Built only while the tab is open, since it reads through every included file
+  const outline = useMemo(() => (tab === 'outline' ? buildOutline(root, activeFileId) : []), [tab, root, activeFileId]);
+  const fileNames = useMemo(() => new Map(listProjectFiles(root).map(({ path, file }) => [file.id, path])), [root]);
+
+  // Ctrl+Shift+F searches the project, from anywhere
+  useEffect(() => {
+    const openSearch = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.shiftKey && event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        setTab('search');
+      }
+    };
+    window.addEventListener('keydown', openSearch);
+    return () => window.removeEventListener('keydown', openSearch);
+  }, []);
+
   const renderTree = (nodes: FileNode[], depth: number = 0) => {
     // Sort: Folders first, then files, alphabetical
     const sortedNodes = [...nodes].sort((a, b) => {
@@ -100,6 +138,64 @@ const Sidebar: React.FC<SidebarProps> = ({
     );
   };
 
+  const endDrag = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  // Sections can be dragged onto other sections; the drop lands before or after the
+  // target depending on which half of it the pointer is over
+  const renderOutline = () => {
+    if (outline.length === 0) {
+      return <p className="px-4 text-xs text-slate-500">No sections, figures or tables yet.</p>;
+    }
+    const top = Math.min(...outline.map(entry => entry.depth));
+    return (
+      <ul className="flex flex-col gap-0.5">
+        {outline.map((entry, index) => (
+          <li
+            key={index}
+            draggable={!!entry.block}
+            onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragged(index);
+            }}
+            onDragOver={(e) => {
+                if (dragged === null || !entry.block) return;
+                e.preventDefault();
+                const rect = e.currentTarget.getBoundingClientRect();
+                setDropTarget({ index, after: e.clientY > rect.top + rect.height / 2 });
+            }}
+            onDrop={(e) => {
+                e.preventDefault();
+                if (dragged !== null && dropTarget) onMoveSection(outline[dragged], outline[dropTarget.index], dropTarget.after);
+                endDrag();
+            }}
+            onDragEnd={endDrag}
+            onClick={() => onOpenLocation({ fileId: entry.fileId, line: entry.line })}
+            className={`
+              group flex items-center gap-2 py-1.5 px-3 cursor-pointer select-none text-sm transition-all relative
+              ${entry.fileId === activeFileId ? 'text-slate-200' : 'text-slate-400'} hover:bg-slate-800 hover:text-slate-200
+              ${dragged === index ? 'opacity-40' : ''}
+            `}
+            style={{ paddingLeft: `${(entry.depth - top) * 14 + 12}px` }}
+            title={`${fileNames.get(entry.fileId) || ''}:${entry.line}`}
+          >
+            {dropTarget && dropTarget.index === index && (
+                <div className={`absolute left-0 right-0 h-0.5 bg-blue-500 ${dropTarget.after ? 'bottom-0' : 'top-0'}`}></div>
+            )}
+            <span className="opacity-90 shrink-0">
+              {entry.kind === 'figure' ? <ImageIcon size={13} className="text-purple-400" />
+                : entry.kind === 'table' ? <Table size={13} className="text-emerald-400" />
+                : <Hash size={13} className="text-blue-400/80" />}
+            </span>
+            <span className={`truncate text-[13px] ${entry.block && entry.depth <= top ? 'font-semibold' : 'font-medium'}`}>{entry.title}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
   return (
     <div className="w-72 bg-[#1e293b] text-slate-300 flex flex-col h-full shrink-0 select-none font-sans border-r border-slate-900/50 dark-scroll">
       {/* Project Header */}
@@ -119,25 +215,45 @@ const Sidebar: React.FC<SidebarProps> = ({
 
       {/* Toolbar */}
       <div className="flex items-center gap-1 p-3 border-b border-slate-700/50 bg-[#1e293b]">
-        <button className="p-1.5 hover:bg-slate-700 rounded-md text-slate-400 hover:text-blue-400 transition-colors" title="New File">
-            <FilePlus size={16} />
-        </button>
-        <button className="p-1.5 hover:bg-slate-700 rounded-md text-slate-400 hover:text-blue-400 transition-colors" title="New Folder">
-            <FolderPlus size={16} />
-        </button>
-        <button className="p-1.5 hover:bg-slate-700 rounded-md text-slate-400 hover:text-blue-400 transition-colors" title="Upload">
-            <Upload size={16} />
-        </button>
+        <div className="flex bg-slate-800/80 rounded-md p-0.5 mr-2">
+            {(['files', 'outline', 'search'] as const).map(name => (
+                <button
+                  key={name}
+                  onClick={() => setTab(name)}
+                  className={`px-2.5 py-1 rounded text-xs font-semibold capitalize transition-colors ${tab === name ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                >
+                    {name}
+                </button>
+            ))}
+        </div>
         <div className="flex-1"></div>
+        {tab === 'files' && (
+            <>
+                <button className="p-1.5 hover:bg-slate-700 rounded-md text-slate-400 hover:text-blue-400 transition-colors" title="New File">
+                    <FilePlus size={16} />
+                </button>
+                <button className="p-1.5 hover:bg-slate-700 rounded-md text-slate-400 hover:text-blue-400 transition-colors" title="New Folder">
+                    <FolderPlus size={16} />
+                </button>
+                <button className="p-1.5 hover:bg-slate-700 rounded-md text-slate-400 hover:text-blue-400 transition-colors" title="Upload">
+                    <Upload size={16} />
+                </button>
+            </>
+        )}
       </div>
 
-      {/* File Tree */}
+      {/* File Tree, the document outline, or project search */}
       <div className="flex-1 overflow-y-auto py-4">
-        {root.children && renderTree(root.children)}
+        {tab === 'files' && root.children && renderTree(root.children)}
+        {tab === 'outline' && renderOutline()}
+        {tab === 'search' && <SearchPanel root={root} lastReplace={lastReplace} onOpenLocation={onOpenLocation} onReplace={onReplaceMatches} onUndo={onUndoReplace} />}
       </div>
       
       {/* Footer */}
       <div className="border-t border-slate-700/50 bg-[#0f172a] p-3">
+        <button onClick={onOpenSnippets} className="flex items-center gap-2 w-full text-slate-400 hover:text-white text-xs font-medium transition-colors py-1">
+            <Braces size={14} /> Snippets
+        </button>
         <button className="flex items-center gap-2 w-full text-slate-400 hover:text-white text-xs font-medium transition-colors py-1">
             <Settings size={14} /> Project Settings
         </button>
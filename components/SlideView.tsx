@@ -0,0 +1,235 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SourceLocation, PageLayout } from '../types';
+import { Page, PAGE_BODY_CLASS } from '../services/paginator';
+import { textWidth, textHeight } from '../services/latex/layout';
+import { ChevronLeft, ChevronRight, Presentation, X } from 'lucide-react';
+
+interface SlideViewProps {
+  slides: Page[]; // Output of paginate for a beamer document
+  layout: PageLayout;
+  syncLocation?: SourceLocation | null; // Editor cursor; shows the frame it is in
+  onSourceClick?: (location: SourceLocation) => void;
+}
+
+const PX_PER_MM = 96 / 25.4;
+const THUMBNAIL_WIDTH = 160;
+
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'];
+
+// A slide at its natural size; callers scale it with CSS zoom
+const Slide: React.FC<{ page: Page; layout: PageLayout; zoom: number }> = ({ page, layout, zoom }) => (
+    <div
+        className="relative bg-white text-black shrink-0 overflow-hidden"
+        style={{ width: `${layout.paperWidth}mm`, height: `${layout.paperHeight}mm`, fontSize: `${layout.fontSize}pt`, zoom }}
+    >
+        <div
+            className={`${PAGE_BODY_CLASS} absolute`}
+            style={{ left: `${layout.marginLeft}mm`, top: `${layout.marginTop}mm`, width: `${textWidth(layout)}mm`, height: `${textHeight(layout)}mm`, fontSize: `${layout.fontSize}pt` }}
+            dangerouslySetInnerHTML={{ __html: page.html }}
+        />
+    </div>
+);
+
+// The zoom that fits a slide into an element, kept up to date as the element resizes
+const useFitZoom = (ref: React.RefObject<HTMLDivElement | null>, layout: PageLayout, mounted = true) => {
+  const [zoom, setZoom] = useState(1);
+  useEffect(() => {
+    const element = ref.current;
+    if (!mounted || !element) return;
+    const fit = () => {
+      const zoomX = element.clientWidth / (layout.paperWidth * PX_PER_MM);
+      const zoomY = element.clientHeight / (layout.paperHeight * PX_PER_MM);
+      setZoom(Math.max(0.1, Math.min(zoomX, zoomY)));
+    };
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, layout, mounted]);
+  return zoom;
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const SlideView: React.FC<SlideViewProps> = ({ slides, layout, syncLocation, onSourceClick }) => {
+  const [current, setCurrent] = useState(0);
+  const [presenting, setPresenting] = useState(false);
+  const [startedAt, setStartedAt] = useState(0);
+  const [now, setNow] = useState(0);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const presenterStageRef = useRef<HTMLDivElement>(null);
+  const presenterRef = useRef<HTMLDivElement>(null);
+  const thumbnailsRef = useRef<HTMLDivElement>(null);
+  const zoom = useFitZoom(stageRef, layout);
+  const presenterZoom = useFitZoom(presenterStageRef, layout, presenting);
+
+  const index = Math.min(current, Math.max(0, slides.length - 1));
+  const slide = slides[index];
+  const next = slides[index + 1];
+
+  const goTo = (target: number) => setCurrent(Math.min(Math.max(target, 0), slides.length - 1));
+
+  // Keep the current slide in view in the navigator
+  useEffect(() => {
+    thumbnailsRef.current?.children[index]?.scrollIntoView({ block: 'nearest' });
+  }, [index]);
+
+  // Source -> slides: show the first step of the frame the cursor is in
+  useEffect(() => {
+    if (!syncLocation || !thumbnailsRef.current) return;
+    let best = -1;
+    let bestLine = -1;
+    Array.from(thumbnailsRef.current.children).forEach((thumbnail, i) => {
+      const origin = thumbnail.querySelector<HTMLElement>('[data-src-file]');
+      if (!origin || origin.dataset.srcFile !== syncLocation.fileId) return;
+      const line = Number(origin.dataset.srcLine);
+      if (line <= syncLocation.line && line > bestLine) {
+        best = i;
+        bestLine = line;
+      }
+    });
+    if (best !== -1) setCurrent(best);
+  }, [syncLocation, slides]);
+
+  // Presenter mode runs fullscreen; leaving fullscreen (Escape) ends it
+  useEffect(() => {
+    if (!presenting) return;
+    presenterRef.current?.requestFullscreen?.().catch(() => undefined);
+    const onFullscreenChange = () => {
+      if (!document.fullscreenElement) setPresenting(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (NEXT_KEYS.includes(e.key)) setCurrent(value => Math.min(value + 1, slides.length - 1));
+      else if (PREVIOUS_KEYS.includes(e.key)) setCurrent(value => Math.max(value - 1, 0));
+      else if (e.key === 'Home') setCurrent(0);
+      else if (e.key === 'End') setCurrent(slides.length - 1);
+      else if (e.key === 'Escape') setPresenting(false);
+      else return;
+      e.preventDefault();
+    };
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('fullscreenchange', onFullscreenChange);
+      window.removeEventListener('keydown', onKeyDown);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+    };
+  }, [presenting, slides.length]);
+
+  const startPresenting = () => {
+    setStartedAt(Date.now());
+    setNow(Date.now());
+    setPresenting(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (NEXT_KEYS.includes(e.key)) goTo(index + 1);
+    else if (PREVIOUS_KEYS.includes(e.key)) goTo(index - 1);
+    else return;
+    e.preventDefault();
+  };
+
+  // Slide -> source: clicking output opens the file and line it came from
+  const handleSlideClick = (e: React.MouseEvent) => {
+    if (!onSourceClick || window.getSelection()?.toString()) return;
+    const element = (e.target as HTMLElement).closest<HTMLElement>('[data-src-line]');
+    if (!element || !element.dataset.srcFile) return;
+    onSourceClick({ fileId: element.dataset.srcFile, line: Number(element.dataset.srcLine) });
+  };
+
+  if (!slide) return null;
+
+  return (
+    <div className="h-full flex flex-col outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+      <div className="flex items-center justify-between px-4 h-10 bg-slate-100 border-b border-slate-300/80 shrink-0 text-xs text-slate-500">
+          <div className="flex items-center gap-1">
+              <button onClick={() => goTo(index - 1)} disabled={index === 0} className="p-1 rounded hover:bg-slate-200 disabled:opacity-40" title="Previous slide">
+                  <ChevronLeft size={14} />
+              </button>
+              <span className="font-medium tabular-nums">Slide {index + 1} of {slides.length}</span>
+              <button onClick={() => goTo(index + 1)} disabled={index >= slides.length - 1} className="p-1 rounded hover:bg-slate-200 disabled:opacity-40" title="Next slide">
+                  <ChevronRight size={14} />
+              </button>
+          </div>
+          <div className="flex items-center gap-3">
+              <span className="font-mono text-slate-400">{layout.paper}</span>
+              <button onClick={startPresenting} className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-slate-800 text-white font-semibold hover:bg-slate-700" title="Present fullscreen">
+                  <Presentation size={14} /> Present
+              </button>
+          </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+          {/* Navigator */}
+          <div ref={thumbnailsRef} className="w-48 shrink-0 overflow-y-auto custom-scrollbar bg-slate-100 border-r border-slate-300/80 p-3 space-y-3">
+              {slides.map((page, i) => (
+                  <button
+                      key={i}
+                      onClick={() => setCurrent(i)}
+                      className={`block w-full text-left rounded ring-offset-2 ${i === index ? 'ring-2 ring-blue-500' : 'hover:ring-2 hover:ring-slate-300'}`}
+                  >
+                      <div className="pointer-events-none shadow-sm">
+                          <Slide page={page} layout={layout} zoom={THUMBNAIL_WIDTH / (layout.paperWidth * PX_PER_MM)} />
+                      </div>
+                      <div className="mt-1 text-[10px] text-slate-400 tabular-nums">{i + 1}{slides[i - 1]?.frame === page.frame ? ' ·' : ''}</div>
+                  </button>
+              ))}
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0 bg-slate-200/50">
+              <div ref={stageRef} className="flex-1 min-h-0 m-6 flex items-center justify-center" onClick={handleSlideClick}>
+                  <div className="shadow-2xl">
+                      <Slide page={slide} layout={layout} zoom={zoom} />
+                  </div>
+              </div>
+              {slide.notes && (
+                  <div className="shrink-0 max-h-40 overflow-y-auto border-t border-slate-300/80 bg-white px-4 py-3 text-sm text-slate-700">
+                      <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Notes</div>
+                      <div className="prose prose-sm max-w-none" dangerouslySetInnerHTML={{ __html: slide.notes }} />
+                  </div>
+              )}
+          </div>
+      </div>
+
+      {/* Presenter: the current slide, the next one, the notes and a timer */}
+      {presenting && (
+          <div ref={presenterRef} className="fixed inset-0 z-50 bg-slate-900 text-slate-100 flex gap-6 p-6">
+              <div ref={presenterStageRef} className="flex-[3] min-w-0 flex items-center justify-center" onClick={() => goTo(index + 1)}>
+                  <Slide page={slide} layout={layout} zoom={presenterZoom} />
+              </div>
+              <div className="flex-1 min-w-0 flex flex-col gap-4">
+                  <div className="flex items-center justify-between">
+                      <span className="text-3xl font-mono tabular-nums">{formatElapsed(now - startedAt)}</span>
+                      <button onClick={() => setPresenting(false)} className="p-2 rounded hover:bg-slate-700" title="Exit presenter (Esc)">
+                          <X size={18} />
+                      </button>
+                  </div>
+                  <div className="text-sm text-slate-400 tabular-nums">Slide {index + 1} of {slides.length}</div>
+                  {next ? (
+                      <div className="opacity-80">
+                          <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Next</div>
+                          <Slide page={next} layout={layout} zoom={presenterZoom * 0.3} />
+                      </div>
+                  ) : (
+                      <div className="text-sm text-slate-500 italic">End of presentation</div>
+                  )}
+                  <div className="flex-1 min-h-0 overflow-y-auto">
+                      <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Notes</div>
+                      {slide.notes
+                          ? <div className="prose prose-invert max-w-none text-lg" dangerouslySetInnerHTML={{ __html: slide.notes }} />
+                          : <div className="text-sm text-slate-500 italic">No notes for this slide</div>}
+                  </div>
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default SlideView;
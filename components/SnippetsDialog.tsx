@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Snippet } from '../types';
+import { BUILT_IN_SNIPPETS, SNIPPET_TRIGGER } from '../services/editor/snippets';
+
+interface SnippetsDialogProps {
+  snippets: Snippet[]; // The project's own
+  onSave: (snippets: Snippet[]) => void;
+  onClose: () => void;
+}
+
+// What is wrong with a snippet, if anything; triggers must be unique words
+const problemWith = (snippet: Snippet, snippets: Snippet[]) => {
+  if (!SNIPPET_TRIGGER.test(snippet.trigger)) return 'The trigger must be a word of letters only';
+  if (snippets.filter(other => other.trigger === snippet.trigger).length > 1) return 'Another snippet has this trigger';
+  if (!snippet.body.trim()) return 'The snippet is empty';
+  return null;
+};
+
+const SnippetsDialog: React.FC<SnippetsDialogProps> = ({ snippets, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<Snippet[]>(snippets);
+  const problems = drafts.map(draft => problemWith(draft, drafts));
+  const ownTriggers = new Set(drafts.map(draft => draft.trigger));
+
+  const change = (index: number, update: Partial<Snippet>) =>
+    setDrafts(drafts.map((draft, other) => (other === index ? { ...draft, ...update } : draft)));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-[640px] max-h-[85vh] flex flex-col relative animate-in zoom-in-95 duration-200">
+        <button
+          onClick={onClose}
+          className="absolute top-5 right-5 text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          &times;
+        </button>
+
+        <div className="p-8 pb-4">
+            <h3 className="text-xl font-bold mb-2 text-slate-800">Snippets</h3>
+            <p className="text-slate-500 text-sm">
+                Type a trigger and press Tab to expand it. In the body, <code className="font-mono text-xs">{'${1:name}'}</code> is
+                a tab stop with a placeholder and <code className="font-mono text-xs">{'${0}'}</code> where the cursor ends up;
+                a tab at the start of a line indents it. Ctrl+Shift+E wraps the selection in an environment, Ctrl+Shift+X in a command.
+            </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 flex flex-col gap-4">
+            {drafts.map((draft, index) => (
+                <div key={index} className="border border-slate-200 rounded-xl p-3 flex flex-col gap-2">
+                    <div className="flex items-center gap-2">
+                        <input
+                          value={draft.trigger}
+                          onChange={(e) => change(index, { trigger: e.target.value.trim() })}
+                          placeholder="trigger"
+                          className="w-28 font-mono text-sm border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-400"
+                        />
+                        <input
+                          value={draft.description}
+                          onChange={(e) => change(index, { description: e.target.value })}
+                          placeholder="Description"
+                          className="flex-1 text-sm border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-400"
+                        />
+                        <button
+                          onClick={() => setDrafts(drafts.filter((_, other) => other !== index))}
+                          className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete snippet"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                    <textarea
+                      value={draft.body}
+                      onChange={(e) => change(index, { body: e.target.value })}
+                      onKeyDown={(e) => {
+                          // Tab indents the body instead of leaving the field
+                          if (e.key !== 'Tab') return;
+                          e.preventDefault();
+                          const target = e.currentTarget;
+                          const { selectionStart, selectionEnd } = target;
+                          change(index, { body: draft.body.slice(0, selectionStart) + '\t' + draft.body.slice(selectionEnd) });
+                          requestAnimationFrame(() => target.setSelectionRange(selectionStart + 1, selectionStart + 1));
+                      }}
+                      rows={Math.min(Math.max(draft.body.split('\n').length, 3), 10)}
+                      spellCheck={false}
+                      className="font-mono text-xs border border-slate-200 rounded-lg px-2 py-1.5 resize-y focus:outline-none focus:border-blue-400"
+                      style={{ tabSize: 2 }}
+                    />
+                    {problems[index] && <p className="text-xs text-red-500">{problems[index]}</p>}
+                </div>
+            ))}
+            <button
+              onClick={() => setDrafts([...drafts, { trigger: '', description: '', body: '' }])}
+              className="self-start flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+                <Plus size={16} /> Add snippet
+            </button>
+
+            <div className="pb-2">
+                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Built in</div>
+                <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                    {BUILT_IN_SNIPPETS.map(snippet => (
+                        <React.Fragment key={snippet.trigger}>
+                            <span className={`font-mono ${ownTriggers.has(snippet.trigger) ? 'text-slate-300 line-through' : 'text-slate-700'}`}>{snippet.trigger}</span>
+                            <span className="text-slate-500">{snippet.description}</span>
+                        </React.Fragment>
+                    ))}
+                </div>
+            </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 pt-4 border-t border-slate-100">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 text-sm font-medium rounded-lg shadow-sm transition-colors"
+            >
+                Cancel
+            </button>
+            <button
+              onClick={() => onSave(drafts)}
+              disabled={problems.some(Boolean)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg shadow-sm transition-colors disabled:opacity-50"
+            >
+                Save
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnippetsDialog;
@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Project } from '../types';
+import { Compiler, CompileOutcome } from '../services/compilers/compiler';
+import { createSimulatorCompiler } from '../services/compilers/simulator';
+import { createTexServiceCompiler } from '../services/compilers/texService';
+
+type Backend = 'simulator' | 'texService';
+
+const backendOf = (project: Project): Backend => !project.compiler || project.compiler === 'preview' ? 'simulator' : 'texService';
+
+const CREATE: Record<Backend, () => Compiler> = {
+  simulator: createSimulatorCompiler,
+  texService: () => createTexServiceCompiler(),
+};
+
+// Compiles a project with the compiler it is set to. Compilers start on first use and
+// live as long as the editor, so the simulator keeps its render cache. Each compile
+// supersedes the ones before it, on whichever compiler they ran.
+export const useCompiler = () => {
+  const compilersRef = useRef<Partial<Record<Backend, Compiler>>>({});
+  const lastIdRef = useRef(0);
+  const [isCompiling, setIsCompiling] = useState(false);
+
+  useEffect(() => () => {
+    Object.values(compilersRef.current).forEach(compiler => compiler.dispose());
+    compilersRef.current = {};
+  }, []);
+
+  const compile = useCallback(async (project: Project, preferredFileId: string): Promise<CompileOutcome> => {
+    const backend = backendOf(project);
+    const compilers = compilersRef.current;
+    const compiler = compilers[backend] || (compilers[backend] = CREATE[backend]());
+    const id = ++lastIdRef.current;
+    setIsCompiling(true);
+    const outcome = await compiler.compile(project, preferredFileId);
+    if (id !== lastIdRef.current) return { status: 'cancelled' };
+    setIsCompiling(false);
+    return outcome;
+  }, []);
+
+  return { compile, isCompiling };
+};
@@ -4,7 +4,7 @@ import { Project, SyncStatus } from '../types';
 import { fetchProjectsFromBin, saveProjectsToBin } from '../services/jsonBinService';
 
 // Mock initial data as fallback
-const SAMPLE_LATEX = `\\documentclass[12pt, a4paper]{article}
+const SAMPLE_LATEX = `\\documentclass[12pt, a4paper]{report}
 \\usepackage[utf8]{inputenc}
 \\usepackage{graphicx}
 \\usepackage{amsmath}
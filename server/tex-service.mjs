@@ -0,0 +1,154 @@
+// --- Local TeX service ---
+// A small stand-in for a compile server, run next to Vite with `npm run tex-service`.
+// POST /compile takes { engine, main, files: [{ path, content, encoding }] } (see
+// services/compilers/texService.ts), writes the files to a temporary directory, runs
+// latexmk there (tectonic with TEX_COMMAND=tectonic) and answers
+// { success, pdf, log, synctex }: the PDF in base64, the log, and the SyncTeX data
+// unzipped with input paths relative to the project root.
+//
+// Settings: TEX_SERVICE_PORT (8090), TEX_COMMAND (latexmk), TEX_TIMEOUT in ms (60000),
+// TEX_SERVICE_ORIGINS (the app's origins, comma separated; http://localhost:3000 and
+// http://127.0.0.1:3000).
+//
+// Whoever can post a project can run TeX, so the service listens on the loopback
+// interface only and answers only the app's origins. TeX runs without shell escape and
+// may read and write only below the working directory, and latexmk reads no rc file.
+
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { spawn } from 'node:child_process';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+
+const PORT = Number(process.env.TEX_SERVICE_PORT) || 8090;
+const COMMAND = process.env.TEX_COMMAND === 'tectonic' ? 'tectonic' : 'latexmk';
+const TIMEOUT = Number(process.env.TEX_TIMEOUT) || 60000;
+const MAX_BODY = 50 * 1024 * 1024;
+const ORIGINS = (process.env.TEX_SERVICE_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',').map(origin => origin.trim()).filter(Boolean);
+
+// latexmk runs these as Perl from the working directory
+const RC_FILE = /^\.?latexmkrc$/i;
+
+const LATEXMK_ENGINES = { pdflatex: '-pdf', xelatex: '-xelatex', lualatex: '-lualatex' };
+
+// Tectonic always typesets with XeTeX; latexmk runs the engine asked for, and keeps
+// going past errors so a PDF comes out whenever TeX can make one
+const commandLine = (engine, main) => COMMAND === 'tectonic'
+  ? ['tectonic', ['-X', 'compile', '--synctex', '--keep-logs', '--outdir', '.', '--', main]]
+  : ['latexmk', ['-norc', LATEXMK_ENGINES[engine] || '-pdf', '-f', '-interaction=nonstopmode', '-file-line-error', '-synctex=1', '-no-shell-escape', '--', main]];
+
+// kpathsea's paranoid mode: no absolute paths, no `..`, no hidden files
+const TEX_ENVIRONMENT = { ...process.env, openin_any: 'p', openout_any: 'p' };
+
+// Requests from a browser carry an Origin; only the app's own are let through
+const isAllowedOrigin = (req) => !req.headers.origin || ORIGINS.includes(req.headers.origin);
+
+const corsHeaders = (req) => ({
+  ...(req.headers.origin && ORIGINS.includes(req.headers.origin) ? { 'Access-Control-Allow-Origin': req.headers.origin } : {}),
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  Vary: 'Origin',
+});
+
+const send = (req, res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders(req) });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY) {
+      reject(new Error('Project too large'));
+      req.destroy();
+    } else {
+      chunks.push(chunk);
+    }
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+// Project paths must stay inside the working directory
+const resolveInside = (dir, file) => {
+  const target = path.resolve(dir, file);
+  if (!target.startsWith(dir + path.sep)) throw new Error(`Invalid path: ${file}`);
+  return target;
+};
+
+const readOptional = (file, encoding) => readFile(file, encoding).catch(() => undefined);
+
+// Runs the TeX command; resolves when it exits, is killed by the timeout, or the
+// client goes away
+const run = (dir, engine, main, res) => new Promise(resolve => {
+  const [command, args] = commandLine(engine, main);
+  const child = spawn(command, args, { cwd: dir, stdio: 'ignore', env: TEX_ENVIRONMENT });
+  const timer = setTimeout(() => child.kill('SIGKILL'), TIMEOUT);
+  const abandon = () => { if (!res.writableEnded) child.kill('SIGKILL'); };
+  res.on('close', abandon);
+  child.on('error', error => {
+    clearTimeout(timer);
+    resolve(`${command} could not be started: ${error.message}`);
+  });
+  child.on('close', () => {
+    clearTimeout(timer);
+    res.off('close', abandon);
+    resolve(undefined);
+  });
+});
+
+const compile = async (req, res) => {
+  const { engine, main, files } = JSON.parse(await readBody(req));
+  if (typeof main !== 'string' || !Array.isArray(files)) return send(req, res, 400, { error: 'Expected { engine, main, files }' });
+  // A name starting with `-` would reach the TeX command as an option
+  if (main.startsWith('-')) return send(req, res, 400, { error: `Invalid main file: ${main}` });
+  const rcFile = files.find(file => RC_FILE.test(path.basename(String(file.path))));
+  if (rcFile) return send(req, res, 400, { error: `${rcFile.path} is not accepted: latexmk would run it` });
+
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'tex-service-'));
+  try {
+    for (const file of files) {
+      const target = resolveInside(dir, file.path);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, Buffer.from(file.content, file.encoding === 'base64' ? 'base64' : 'utf8'));
+    }
+    resolveInside(dir, main);
+
+    const failure = await run(dir, engine, main, res);
+    if (res.writableEnded || res.destroyed) return;
+
+    const job = path.basename(main).replace(/\.tex$/, '');
+    const pdf = await readOptional(path.join(dir, `${job}.pdf`));
+    const log = failure || await readOptional(path.join(dir, `${job}.log`), 'utf8') || '';
+    const zipped = await readOptional(path.join(dir, `${job}.synctex.gz`));
+    const synctex = zipped && zlib.gunzipSync(zipped).toString('utf8')
+      .replace(/^Input:(\d+):(.*)$/gm, (line, tag, file) => `Input:${tag}:${path.relative(dir, path.resolve(dir, file))}`);
+
+    send(req, res, 200, { success: !!pdf, pdf: pdf?.toString('base64'), log, synctex });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+const server = http.createServer((req, res) => {
+  if (!isAllowedOrigin(req)) {
+    send(req, res, 403, { error: `Origin not allowed: ${req.headers.origin}` });
+  } else if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders(req));
+    res.end();
+  } else if (req.method === 'GET' && req.url === '/health') {
+    send(req, res, 200, { command: COMMAND, engines: COMMAND === 'tectonic' ? ['xelatex'] : Object.keys(LATEXMK_ENGINES) });
+  } else if (req.method === 'POST' && req.url === '/compile') {
+    compile(req, res).catch(error => {
+      if (!res.headersSent) send(req, res, 500, { error: error.message });
+    });
+  } else {
+    send(req, res, 404, { error: 'Not found' });
+  }
+});
+
+server.listen(PORT, '127.0.0.1', () => console.log(`TeX service (${COMMAND}) listening on http://127.0.0.1:${PORT}`));
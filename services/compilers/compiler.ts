@@ -0,0 +1,41 @@
+// --- Compilers ---
+// What turns a project into something Preview can show. The built-in simulator
+// (simulator.ts) renders paginated HTML in a worker; the TeX service (texService.ts)
+// runs a real engine and returns a PDF. useCompiler picks one per project.
+
+import { Project, ProjectCompiler, LogEntry, PageLayout } from '../../types';
+import { SyncTex } from './synctex';
+
+export interface HtmlOutput {
+  format: 'html';
+  html: string;
+  layout: PageLayout;
+  logs: LogEntry[];
+}
+
+export interface PdfOutput {
+  format: 'pdf';
+  pdf: Uint8Array | null; // Null when the run wrote none; the previous PDF stays up
+  synctex: SyncTex | null; // Null when the engine wrote none
+  logs: LogEntry[];
+}
+
+export type CompilerOutput = HtmlOutput | PdfOutput;
+
+export type CompileOutcome =
+  | { status: 'done'; output: CompilerOutput | null } // null: no LaTeX file to compile
+  | { status: 'cancelled' } // A newer compile superseded it
+  | { status: 'failed'; message: string };
+
+export interface Compiler {
+  // Each compile supersedes the ones before it, which resolve as cancelled
+  compile: (project: Project, preferredFileId: string) => Promise<CompileOutcome>;
+  dispose: () => void;
+}
+
+export const COMPILER_NAMES: Record<ProjectCompiler, string> = {
+  preview: 'Preview (built-in)',
+  pdflatex: 'pdfLaTeX',
+  xelatex: 'XeLaTeX',
+  lualatex: 'LuaLaTeX',
+};
@@ -0,0 +1,52 @@
+// --- Simulator ---
+// The built-in compiler: compileProject in a worker (services/latex/compile.worker.ts),
+// which keeps a render cache between compiles. A newer compile makes the worker drop
+// queued ones and abort the one it is running at its next segment.
+
+import { Compiler, CompileOutcome } from './compiler';
+import { CompileRequest, CompileResponse } from '../latex/messages';
+
+const toOutcome = (response: CompileResponse): CompileOutcome => {
+  if (response.type === 'cancelled') return { status: 'cancelled' };
+  if (response.type === 'failed') return { status: 'failed', message: response.message };
+  return { status: 'done', output: response.output && { format: 'html', ...response.output } };
+};
+
+export const createSimulatorCompiler = (): Compiler => {
+  let worker: Worker | null = null;
+  let lastId = 0;
+  const waiting = new Map<number, (outcome: CompileOutcome) => void>();
+
+  const settleAll = (outcome: CompileOutcome) => {
+    waiting.forEach(resolve => resolve(outcome));
+    waiting.clear();
+  };
+
+  const startWorker = () => {
+    const started = new Worker(new URL('../latex/compile.worker.ts', import.meta.url), { type: 'module' });
+    started.onmessage = (event: MessageEvent<CompileResponse>) => {
+      waiting.get(event.data.id)?.(toOutcome(event.data));
+      waiting.delete(event.data.id);
+    };
+    // A worker that fails to load or crashes answers nothing
+    started.onerror = (event) => settleAll({ status: 'failed', message: event.message || 'The compiler stopped unexpectedly.' });
+    return started;
+  };
+
+  return {
+    compile: (project, preferredFileId) => {
+      worker = worker || startWorker();
+      const id = ++lastId;
+      const request: CompileRequest = { id, root: project.root, preferredFileId };
+      return new Promise<CompileOutcome>(resolve => {
+        waiting.set(id, resolve);
+        worker!.postMessage(request);
+      });
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      settleAll({ status: 'cancelled' });
+    },
+  };
+};
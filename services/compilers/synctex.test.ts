@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { parseSynctex, sourceAt, placeOf } from './synctex';
+
+// 65781.76sp is one PDF point; TeX's origin sits 72pt in from the corner
+const sp = (points: number) => Math.round(points * 65781.76);
+
+const SAMPLE = [
+  'SyncTeX Version:1',
+  'Input:1:./main.tex',
+  'Input:2:/usr/share/texmf/tex/latex/base/article.cls',
+  'Input:3:./chapters/intro.tex',
+  'Output:pdf',
+  'Magnification:1000',
+  'Unit:1',
+  'X Offset:0',
+  'Y Offset:0',
+  'Content:',
+  '{1',
+  `(1,5:${sp(10)},${sp(20)}:${sp(300)},${sp(10)},${sp(2)}`,
+  `(3,2:${sp(10)},${sp(40)}:${sp(100)},${sp(10)},${sp(2)}`,
+  `x3,3:${sp(50)},${sp(60)}`,
+  `g2,1:${sp(10)},${sp(80)}`,
+  '}1',
+  '{2',
+  `(1,9:${sp(10)},${sp(30)}:${sp(300)},${sp(10)},${sp(2)}`,
+  `(1,9:${sp(10)},${sp(20)}:${sp(300)},${sp(10)},${sp(2)}`,
+  '}2',
+].join('\n');
+
+const files: Record<string, string> = { 'main.tex': 'main', 'chapters/intro.tex': 'intro' };
+const synctex = parseSynctex(SAMPLE, path => files[path]);
+
+describe('parseSynctex', () => {
+  it('keeps records of project files, in points from the top-left corner of the page', () => {
+    expect(synctex.records).toHaveLength(5);
+    const [first] = synctex.records;
+    expect(first).toMatchObject({ fileId: 'main', line: 5, page: 1 });
+    expect(first.x).toBeCloseTo(82);
+    expect(first.y).toBeCloseTo(92);
+    expect(first.width).toBeCloseTo(300);
+    expect(first.height).toBeCloseTo(10);
+    expect(first.depth).toBeCloseTo(2);
+  });
+
+  it('gives points no size', () => {
+    expect(synctex.records[2]).toMatchObject({ fileId: 'intro', line: 3, width: 0, height: 0, depth: 0 });
+  });
+
+  it('applies the unit, magnification and offsets', () => {
+    const scaled = parseSynctex(`Input:1:main.tex\nUnit:2\nMagnification:500\nX Offset:${sp(5)}\nY Offset:0\n{1\nx1,1:${sp(10)},${sp(10)}`, () => 'main');
+    expect(scaled.records[0].x).toBeCloseTo(87);
+    expect(scaled.records[0].y).toBeCloseTo(82);
+  });
+});
+
+describe('sourceAt', () => {
+  it('picks the smallest box around the point', () => {
+    expect(sourceAt(synctex, 1, 90, 130)).toEqual({ fileId: 'intro', line: 2 });
+    expect(sourceAt(synctex, 1, 300, 90)).toEqual({ fileId: 'main', line: 5 });
+  });
+
+  it('falls back to the nearest record on the page', () => {
+    expect(sourceAt(synctex, 1, 120, 135)).toEqual({ fileId: 'intro', line: 3 });
+  });
+
+  it('finds nothing on a page without records', () => {
+    expect(sourceAt(synctex, 3, 100, 100)).toBeNull();
+  });
+});
+
+describe('placeOf', () => {
+  it('gives the topmost place of a line', () => {
+    expect(placeOf(synctex, { fileId: 'main', line: 9 })).toMatchObject({ page: 2, y: expect.closeTo(92) });
+  });
+
+  it('uses the closest line before one that left no record', () => {
+    expect(placeOf(synctex, { fileId: 'main', line: 7 })).toMatchObject({ line: 5, page: 1 });
+  });
+
+  it('finds nothing before the first record of a file', () => {
+    expect(placeOf(synctex, { fileId: 'intro', line: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+// --- SyncTeX ---
+// Reads the (unzipped) .synctex file a TeX engine writes next to the PDF, keeping the
+// boxes and points that tie a place on a page to a source line. Coordinates are
+// converted to PDF points from the top-left corner of the page.
+
+import { SourceLocation } from '../../types';
+
+export interface SyncTexRecord extends SourceLocation {
+  page: number;
+  x: number;
+  y: number; // Baseline
+  width: number; // Zero for points (kerns, glue, math)
+  height: number;
+  depth: number;
+}
+
+export interface SyncTex {
+  records: SyncTexRecord[];
+}
+
+// Scaled points per PDF point; TeX's origin is one inch in from the top-left corner
+const SP_PER_BP = 65781.76;
+const ORIGIN = 72;
+
+// `(1,12:4736286,1883868:30785863,655360,0`: type, input, line, position, box size
+const RECORD = /^([[(hvxkg$])(\d+),(\d+)(?:,-?\d+)?:(-?\d+),(-?\d+)(?::(-?\d+),(-?\d+),(-?\d+))?/;
+
+// fileIdOf maps the input paths, relative to the project root, to project files;
+// inputs outside the project (class and package files) are dropped
+export const parseSynctex = (text: string, fileIdOf: (path: string) => string | undefined): SyncTex => {
+  const inputs: Record<string, string | undefined> = {};
+  const records: SyncTexRecord[] = [];
+  let unit = 1;
+  let magnification = 1;
+  let xOffset = 0;
+  let yOffset = 0;
+  let page = 0;
+
+  const toPoints = (value: string, offset: number) => (Number(value) * unit * magnification + offset) / SP_PER_BP;
+
+  text.split('\n').forEach(line => {
+    const input = line.match(/^Input:(\d+):(.*)$/);
+    if (input) {
+      inputs[input[1]] = fileIdOf(input[2].replace(/^(\.\/)+/, ''));
+      return;
+    }
+    const setting = line.match(/^(Unit|Magnification|X Offset|Y Offset):(-?\d+)/);
+    if (setting) {
+      const value = Number(setting[2]);
+      if (setting[1] === 'Unit') unit = value;
+      else if (setting[1] === 'Magnification') magnification = value / 1000;
+      else if (setting[1] === 'X Offset') xOffset = value;
+      else yOffset = value;
+      return;
+    }
+    if (line.startsWith('{')) {
+      page = Number(line.slice(1));
+      return;
+    }
+    const record = line.match(RECORD);
+    const fileId = record && inputs[record[2]];
+    if (!record || !fileId || page === 0) return;
+    records.push({
+      fileId,
+      line: Number(record[3]),
+      page,
+      x: toPoints(record[4], xOffset) + ORIGIN,
+      y: toPoints(record[5], yOffset) + ORIGIN,
+      width: record[6] ? toPoints(record[6], 0) : 0,
+      height: record[7] ? toPoints(record[7], 0) : 0,
+      depth: record[8] ? toPoints(record[8], 0) : 0,
+    });
+  });
+  return { records };
+};
+
+// Inverse search: the source of a point on a page. The smallest box around the point
+// wins; otherwise the nearest record on the page.
+export const sourceAt = (synctex: SyncTex, page: number, x: number, y: number): SourceLocation | null => {
+  let best: SyncTexRecord | null = null;
+  let bestScore = Infinity;
+  for (const record of synctex.records) {
+    if (record.page !== page) continue;
+    const inside = record.width > 0 && x >= record.x && x <= record.x + record.width && y >= record.y - record.height && y <= record.y + record.depth;
+    const score = inside ? -1 / (record.width * (record.height + record.depth) + 1) : Math.hypot(x - record.x, y - record.y);
+    if (score < bestScore) {
+      best = record;
+      bestScore = score;
+    }
+  }
+  return best && { fileId: best.fileId, line: best.line };
+};
+
+// Forward search: the topmost place a source line ended up on, or the closest line before it
+export const placeOf = (synctex: SyncTex, location: SourceLocation): SyncTexRecord | null => {
+  let best: SyncTexRecord | null = null;
+  for (const record of synctex.records) {
+    if (record.fileId !== location.fileId || record.line > location.line) continue;
+    const earlier = best && record.line === best.line
+      && (record.page < best.page || (record.page === best.page && record.y - record.height < best.y - best.height));
+    if (!best || record.line > best.line || earlier) best = record;
+  }
+  return best;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { parseTexLog, LogFile } from './texLog';
+
+const files: Record<string, LogFile> = {
+  'main.tex': { file: 'main.tex', fileId: 'main' },
+  'chapters/intro.tex': { file: 'chapters/intro.tex', fileId: 'intro' },
+};
+const parse = (log: string) => parseTexLog(log, path => files[path]).map(({ id, timestamp, ...entry }) => entry);
+
+describe('parseTexLog', () => {
+  it('reads an error with the command and line from its context', () => {
+    expect(parse([
+      '(./main.tex',
+      '! Undefined control sequence.',
+      'l.12 Some \\foo',
+      '              bar',
+      'The control sequence at the end of the top line',
+      '',
+      ')',
+    ].join('\n'))).toEqual([
+      { type: 'error', category: 'tex', message: 'Undefined control sequence \\foo.', file: 'main.tex', fileId: 'main', line: 12 },
+    ]);
+  });
+
+  it('follows files opened and closed by parentheses', () => {
+    const entries = parse([
+      '(./main.tex (/usr/share/texmf/tex/latex/base/article.cls',
+      'Document Class: article',
+      ') (./chapters/intro.tex',
+      'LaTeX Warning: Reference `fig:a\' on page 1 undefined on input line 3.',
+      ')',
+      'LaTeX Warning: There were undefined references.',
+      ')',
+    ].join('\n'));
+    expect(entries).toEqual([
+      { type: 'warning', category: 'reference', message: 'Reference `fig:a\' on page 1 undefined.', file: 'chapters/intro.tex', fileId: 'intro', line: 3 },
+      { type: 'warning', category: 'reference', message: 'There were undefined references.', file: 'main.tex', fileId: 'main', line: undefined },
+    ]);
+  });
+
+  it('keeps no file for messages from outside the project', () => {
+    const [entry] = parse('(/usr/share/texmf/tex/latex/hyperref/hyperref.sty\nPackage hyperref Warning: Option `pdfborder\' has already been used.\n)');
+    expect(entry).toMatchObject({ category: 'package', message: 'hyperref: Option `pdfborder\' has already been used.' });
+    expect(entry.fileId).toBeUndefined();
+  });
+
+  it('joins the continuation lines of package warnings and errors', () => {
+    expect(parse([
+      '(./main.tex',
+      'Package natbib Warning: Citation `knuth\' on page 1 undefined',
+      '(natbib)                on input line 7.',
+      '! Package babel Error: Unknown option `klingon\'.',
+      '(babel)                Either you misspelled it',
+      '(babel)                or the language definition file is missing.',
+      ')',
+    ].join('\n'))).toEqual([
+      { type: 'warning', category: 'citation', message: 'natbib: Citation `knuth\' on page 1 undefined.', file: 'main.tex', fileId: 'main', line: 7 },
+      { type: 'error', category: 'package', message: 'babel: Unknown option `klingon\'. Either you misspelled it or the language definition file is missing.', file: 'main.tex', fileId: 'main', line: undefined },
+    ]);
+  });
+
+  it('reads file:line:error messages', () => {
+    expect(parse('./chapters/intro.tex:4: LaTeX Error: Environment foo undefined.')).toEqual([
+      { type: 'error', category: 'tex', message: 'Environment foo undefined.', file: 'chapters/intro.tex', fileId: 'intro', line: 4 },
+    ]);
+  });
+
+  it('reports overfull and underfull boxes and skips their material', () => {
+    expect(parse([
+      '(./main.tex',
+      'Overfull \\hbox (12.3pt too wide) in paragraph at lines 20--22',
+      '[]\\OT1/cmr/m/n/10 Some (text',
+      '',
+      'Underfull \\vbox (badness 10000) has occurred while \\output is active',
+      '',
+      ')',
+    ].join('\n'))).toEqual([
+      { type: 'warning', category: 'box', message: 'Overfull \\hbox (12.3pt too wide) in paragraph', file: 'main.tex', fileId: 'main', line: 20 },
+      { type: 'warning', category: 'box', message: 'Underfull \\vbox (badness 10000) while \\output is active', file: 'main.tex', fileId: 'main', line: undefined },
+    ]);
+  });
+
+  it('rejoins lines broken at the print width', () => {
+    const warning = "LaTeX Warning: Reference `sec:a-rather-long-label-name' on page 12 undefined on input line 40.";
+    const [entry] = parse(`(./main.tex\n${warning.slice(0, 79)}\n${warning.slice(79)}\n)`);
+    expect(entry).toMatchObject({ message: "Reference `sec:a-rather-long-label-name' on page 12 undefined.", fileId: 'main', line: 40 });
+  });
+
+  it('reports a repeated message once', () => {
+    expect(parse('(./main.tex\nLaTeX Warning: Label(s) may have changed. Rerun to get cross-references right.\nLaTeX Warning: Label(s) may have changed. Rerun to get cross-references right.\n)')).toHaveLength(1);
+  });
+});
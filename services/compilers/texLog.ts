@@ -0,0 +1,173 @@
+// --- TeX log ---
+// Turns the .log a TeX engine writes into Logs tab entries. TeX reports the file a
+// message belongs to only by opening it with `(path` and closing it with `)`, so the
+// parser follows those parentheses, a stack of open files, through the whole log. Used
+// for the TeX service's output and for .log files uploaded into a project.
+
+import { LogEntry, LogCategory } from '../../types';
+
+// TeX breaks log lines at max_print_line characters
+const MAX_PRINT_LINE = 79;
+
+// `(./chapters/intro.tex`: a path with an extension right after the parenthesis
+const FILE_OPEN = /^"?((?:\.{1,2}\/|\/|[A-Za-z]:[\\/])?[^\s()"[\]{}<>]*\.[A-Za-z0-9]+)"?(?=[\s()"[\]{}<>]|$)/;
+// `./main.tex:12: Undefined control sequence.`, written with -file-line-error
+const FILE_LINE_ERROR = /^((?:\.{1,2}\/|\/)?[^\s:()]+\.[A-Za-z0-9]+):(\d+): (.*)$/;
+const ERROR = /^! ?(.*)$/;
+const CONTEXT_LINE = /^l\.(\d+) ?(.*)$/;
+const WARNING = /^(LaTeX|LaTeX Font|Package (\S+)|Class (\S+)|pdfTeX) Warning: (.*)$/;
+const BOX = /^((?:Over|Under)full \\[hv]box \(.*?\)) (?:(in paragraph|in alignment) at lines (\d+)--\d+|(detected) at line (\d+)|has occurred while \\output is active)/;
+const INPUT_LINE = /,? on input line (\d+)\.?$/;
+
+// Rejoins the lines TeX broke at the print width
+const unwrap = (log: string) => {
+  const lines: string[] = [];
+  let pending = '';
+  log.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    pending += line;
+    if (line.length !== MAX_PRINT_LINE) {
+      lines.push(pending);
+      pending = '';
+    }
+  });
+  if (pending) lines.push(pending);
+  return lines;
+};
+
+const categoryOf = (source: string, message: string): LogCategory => {
+  if (/^Reference|undefined references|Label\(s\) may have changed|multiply defined/.test(message)) return 'reference';
+  if (/^Citation|undefined citations/.test(message)) return 'citation';
+  if (source === 'LaTeX Font') return 'font';
+  if (source.startsWith('Package') || source.startsWith('Class')) return 'package';
+  return 'tex';
+};
+
+// Where an entry is, as set on the entry
+export type LogFile = Pick<LogEntry, 'file' | 'fileId'>;
+
+// fileOf maps the paths TeX printed (without a leading ./) to project files; messages
+// from files outside the project (classes, packages) keep no file
+export const parseTexLog = (log: string, fileOf: (path: string) => LogFile | undefined): LogEntry[] => {
+  const now = Date.now();
+  const lines = unwrap(log);
+  const files: (string | null)[] = []; // Open files; null for a parenthesis that opened no file
+  const entries: LogEntry[] = [];
+  const seen = new Set<string>();
+
+  const currentFile = () => {
+    for (let i = files.length - 1; i >= 0; i--) {
+      const path = files[i];
+      if (path) return fileOf(path.replace(/^(\.\/)+/, ''));
+    }
+    return undefined;
+  };
+
+  const report = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+    const key = `${entry.file}:${entry.line}:${entry.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    entries.push({ ...entry, id: `${now}-log-${entries.length}`, timestamp: now });
+  };
+
+  // Lines up to the next blank one: the help text of an error, the material of a box
+  const skipBlock = (from: number) => {
+    let i = from;
+    while (i < lines.length && lines[i].trim() !== '') i++;
+    return i;
+  };
+
+  // Follows the files opened and closed on a line
+  const trackFiles = (line: string) => {
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '(') {
+        const path = line.slice(i + 1).match(FILE_OPEN);
+        files.push(path ? path[1] : null);
+        if (path) i += path[0].length;
+      } else if (line[i] === ')') {
+        files.pop();
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Errors: the message, then the input line in the `l.12 \foo` context TeX shows
+    const located = line.match(FILE_LINE_ERROR);
+    const error = located ? null : line.match(ERROR);
+    if ((located || error) && !line.startsWith('!  ==>')) {
+      let message = located ? located[3] : error![1];
+      let sourceLine = located ? Number(located[2]) : undefined;
+      const file = located ? fileOf(located[1].replace(/^(\.\/)+/, '')) : currentFile();
+      let category: LogCategory = 'tex';
+      const packageError = message.match(/^(?:Package|Class) (\S+) Error: (.*)$/);
+      if (packageError) {
+        category = 'package';
+        message = `${packageError[1]}: ${packageError[2]}`;
+      }
+      message = message.replace(/^LaTeX Error: /, '');
+
+      let next = i + 1;
+      while (packageError && next < lines.length && lines[next].startsWith(`(${packageError[1]})`)) {
+        message += ' ' + lines[next].slice(packageError[1].length + 2).trim();
+        next++;
+      }
+      for (let j = next; j < Math.min(lines.length, next + 12); j++) {
+        const context = lines[j].match(CONTEXT_LINE);
+        if (!context) continue;
+        sourceLine = sourceLine || Number(context[1]);
+        // The top context line ends with the command TeX did not know
+        const command = context[2].match(/(\\(?:[A-Za-z@]+|.))\s*$/);
+        if (message === 'Undefined control sequence.' && command) message = `Undefined control sequence ${command[1]}.`;
+        next = j + 2;
+        break;
+      }
+      report({ type: 'error', category, message, ...file, line: sourceLine });
+      i = skipBlock(next);
+      continue;
+    }
+
+    // Warnings: continuation lines start with the package name in parentheses
+    const warning = line.match(WARNING);
+    if (warning) {
+      const name = warning[2] || warning[3];
+      const prefix = name ? `(${name})` : warning[1] === 'LaTeX Font' ? '(Font)' : null;
+      let message = warning[4];
+      i++;
+      while (prefix && i < lines.length && lines[i].startsWith(prefix)) {
+        message += ' ' + lines[i].slice(prefix.length).trim();
+        i++;
+      }
+      const inputLine = message.match(INPUT_LINE);
+      if (inputLine) message = message.replace(INPUT_LINE, '.');
+      report({
+        type: 'warning',
+        category: categoryOf(warning[1], message),
+        message: name ? `${name}: ${message}` : message,
+        ...currentFile(),
+        line: inputLine ? Number(inputLine[1]) : undefined,
+      });
+      continue;
+    }
+
+    // Overfull and underfull boxes, followed by the material that did not fit
+    const box = line.match(BOX);
+    if (box) {
+      const where = box[2] || box[4] || 'while \\output is active';
+      report({
+        type: 'warning',
+        category: 'box',
+        message: `${box[1]} ${where}`,
+        ...currentFile(),
+        line: box[3] || box[5] ? Number(box[3] || box[5]) : undefined,
+      });
+      i = skipBlock(i + 1);
+      continue;
+    }
+
+    trackFiles(line);
+    i++;
+  }
+  return entries;
+};
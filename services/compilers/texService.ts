@@ -0,0 +1,101 @@
+// --- TeX service ---
+// Compiles with a real TeX installation through the local HTTP service in
+// server/tex-service.mjs (`npm run tex-service`). The project goes over as files with
+// their paths from the project root; the PDF, the log and the SyncTeX data come back.
+// A newer compile aborts the request of an older one, which stops its TeX run.
+
+import { FileNode, ProjectCompiler } from '../../types';
+import { Compiler } from './compiler';
+import { parseSynctex } from './synctex';
+import { parseTexLog } from './texLog';
+import { listProjectFiles } from '../latex/imports';
+import { findMainFile } from '../latex/project';
+import { summaryLog } from '../latex/compiler';
+
+export const TEX_SERVICE_URL = process.env.TEX_SERVICE_URL || 'http://127.0.0.1:8090';
+
+// Body of POST /compile
+export interface TexServiceRequest {
+  engine: Exclude<ProjectCompiler, 'preview'>;
+  main: string; // Path of the main file
+  files: { path: string; content: string; encoding: 'utf8' | 'base64' }[];
+}
+
+export interface TexServiceResponse {
+  success: boolean; // False when no PDF was written
+  pdf?: string; // Base64
+  log: string;
+  synctex?: string; // Unzipped, with input paths relative to the project root
+}
+
+// Images are stored as data URLs; TeX needs their bytes
+const toServiceFile = (path: string, file: FileNode) => {
+  const dataUrl = (file.content || '').match(/^data:[^;,]*;base64,(.*)$/s);
+  return dataUrl
+    ? { path, content: dataUrl[1], encoding: 'base64' as const }
+    : { path, content: file.content || '', encoding: 'utf8' as const };
+};
+
+const decodeBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const createTexServiceCompiler = (serviceUrl = TEX_SERVICE_URL): Compiler => {
+  let running: AbortController | null = null;
+
+  return {
+    compile: async (project, preferredFileId) => {
+      running?.abort();
+      const controller = new AbortController();
+      running = controller;
+
+      const files = listProjectFiles(project.root);
+      const main = findMainFile(files.map(entry => entry.file), preferredFileId);
+      if (!main) return { status: 'done', output: null };
+      const pathOf = (file: FileNode) => files.find(entry => entry.file === file)!.path;
+      const byPath = (path: string) => files.find(entry => entry.path === path)?.file;
+
+      const request: TexServiceRequest = {
+        engine: project.compiler && project.compiler !== 'preview' ? project.compiler : 'pdflatex',
+        main: pathOf(main),
+        files: files.map(entry => toServiceFile(entry.path, entry.file)),
+      };
+
+      try {
+        const response = await fetch(`${serviceUrl}/compile`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+        if (!response.ok) return { status: 'failed', message: `TeX service answered ${response.status} ${await response.text()}` };
+        const result: TexServiceResponse = await response.json();
+
+        const logs = parseTexLog(result.log, path => {
+          const file = byPath(path);
+          return file && { file: path, fileId: file.id };
+        });
+        if (!result.success) {
+          logs.unshift({ id: `${Date.now()}-nopdf`, type: 'error', message: 'No PDF was produced; see the log for the first error.', file: pathOf(main), fileId: main.id, timestamp: Date.now() });
+        }
+        logs.push(summaryLog(logs));
+        return {
+          status: 'done',
+          output: {
+            format: 'pdf',
+            pdf: result.pdf ? decodeBase64(result.pdf) : null,
+            synctex: result.pdf && result.synctex ? parseSynctex(result.synctex, path => byPath(path)?.id) : null,
+            logs,
+          },
+        };
+      } catch (error) {
+        if (controller.signal.aborted) return { status: 'cancelled' };
+        return { status: 'failed', message: `TeX service not reachable at ${serviceUrl}. Start it with \`npm run tex-service\`. (${error instanceof Error ? error.message : String(error)})` };
+      } finally {
+        if (running === controller) running = null;
+      }
+    },
+    dispose: () => {
+      running?.abort();
+      running = null;
+    },
+  };
+};
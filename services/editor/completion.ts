@@ -0,0 +1,229 @@
+// --- Completions ---
+// Suggestions while typing: commands after `\`, environments in \begin{ and \end{, labels
+// in the \ref family, citation keys in the \cite family, and project files in \input,
+// \include, \includegraphics and the bibliography commands. Commands and environments
+// are the renderer's own plus the macros the project defines; labels, keys and macros
+// are collected from every file, since a thesis spreads them over many chapters.
+
+import { autocompletion, Completion, CompletionContext, CompletionResult, snippetCompletion } from '@codemirror/autocomplete';
+import { FileNode, Snippet } from '../../types';
+import { listProjectFiles } from '../latex/imports';
+import { definedCommands, definedEnvironments } from '../latex/renderer';
+import { COMMAND_SIGNATURES, ENVIRONMENT_SIGNATURES, MATH_ENVIRONMENTS } from '../latex/signatures';
+import { parseBibtex, parseNames } from '../latex/bibtex';
+import { findEnvironments } from './structure';
+import { snippetCompletionSource } from './snippets';
+
+// KaTeX typesets these in math; the renderer never sees them
+const MATH_COMMANDS = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta', 'iota', 'kappa', 'lambda',
+  'mu', 'nu', 'xi', 'pi', 'varpi', 'rho', 'varrho', 'sigma', 'varsigma', 'tau', 'upsilon', 'phi', 'varphi', 'chi', 'psi', 'omega',
+  'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Upsilon', 'Phi', 'Psi', 'Omega',
+  'frac', 'dfrac', 'tfrac', 'binom', 'sqrt', 'sum', 'prod', 'coprod', 'int', 'iint', 'iiint', 'oint', 'bigcup', 'bigcap', 'lim', 'limsup', 'liminf',
+  'sup', 'inf', 'max', 'min', 'arg', 'det', 'exp', 'log', 'ln', 'sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'cdot', 'cdots', 'ldots', 'vdots', 'ddots', 'times', 'div', 'pm', 'mp', 'circ', 'ast', 'star', 'oplus', 'otimes', 'wedge', 'vee', 'cap', 'cup', 'setminus',
+  'leq', 'geq', 'neq', 'approx', 'equiv', 'sim', 'simeq', 'cong', 'propto', 'll', 'gg', 'subset', 'supset', 'subseteq', 'supseteq', 'in', 'notin', 'ni',
+  'to', 'mapsto', 'rightarrow', 'leftarrow', 'leftrightarrow', 'Rightarrow', 'Leftarrow', 'Leftrightarrow', 'implies', 'iff', 'uparrow', 'downarrow',
+  'infty', 'partial', 'nabla', 'forall', 'exists', 'nexists', 'emptyset', 'varnothing', 'neg', 'land', 'lor', 'ell', 'hbar', 'Re', 'Im', 'aleph',
+  'left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'langle', 'rangle', 'lfloor', 'rfloor', 'lceil', 'rceil', 'lvert', 'rvert', 'lVert', 'rVert',
+  'hat', 'widehat', 'tilde', 'widetilde', 'bar', 'overline', 'underline', 'vec', 'dot', 'ddot', 'overbrace', 'underbrace', 'overset', 'underset', 'stackrel',
+  'mathbb', 'mathcal', 'mathfrak', 'mathscr', 'mathrm', 'mathbf', 'mathit', 'mathsf', 'mathtt', 'boldsymbol', 'operatorname', 'text',
+  'quad', 'qquad', 'displaystyle', 'textstyle', 'limits', 'nolimits', 'pmod', 'bmod', 'mod',
+];
+const MATH_SIGNATURES: Record<string, string> = {
+  frac: 'mm', dfrac: 'mm', tfrac: 'mm', binom: 'mm', sqrt: 'om', hat: 'm', widehat: 'm', tilde: 'm', widetilde: 'm', bar: 'm', overline: 'm',
+  underline: 'm', vec: 'm', dot: 'm', ddot: 'm', overbrace: 'm', underbrace: 'm', overset: 'mm', underset: 'mm', stackrel: 'mm', mathbb: 'm',
+  mathcal: 'm', mathfrak: 'm', mathscr: 'm', mathrm: 'm', mathbf: 'm', mathit: 'm', mathsf: 'm', mathtt: 'm', boldsymbol: 'm',
+  operatorname: 'm', text: 'm', pmod: 'm',
+};
+
+const REFERENCE_COMMANDS = /^(ref|eqref|pageref|autoref|cref|Cref|vref|nameref|labelcref)$/;
+const CITATION_COMMANDS = /^(cite[a-z]*|Cite[a-z]*|parencite|Parencite|textcite|Textcite|autocite|Autocite|footcite|nocite|fullcite)$/;
+const IMAGE_FILE = /\.(png|jpe?g|gif|svg|pdf|eps)$/i;
+
+// The command or environment name and the argument being typed: `\cite[p. 3]{knuth,la`
+const ARGUMENT_BEFORE = /\\([a-zA-Z]+)\*?(?:\[[^\]]*\])*\{([^{}]*)$/;
+const MACRO_DEFINITION = /\\(?:(?:new|renew|provide)command\*?|DeclareMathOperator\*?|DeclareRobustCommand\*?)\s*\{?\\([a-zA-Z@]+)\}?\s*(?:\[(\d)\](\[[^\]]*\])?)?|\\def\s*\\([a-zA-Z@]+)((?:#\d)*)/g;
+const ENVIRONMENT_DEFINITION = /\\(?:new|renew)environment\*?\s*\{([^}]+)\}\s*(?:\[(\d)\](\[[^\]]*\])?)?|\\newtheorem\*?\s*\{([^}]+)\}/g;
+const LABEL = /\\label\s*\{([^}]+)\}/g;
+
+interface Macro {
+  name: string;
+  signature: string; // As in services/latex/signatures.ts
+  file: string;
+}
+
+interface Label {
+  name: string;
+  file: string;
+  line: number;
+  context: string; // The source line, for the info panel
+}
+
+interface Citation {
+  key: string;
+  authors: string;
+  year: string;
+  title: string;
+}
+
+export interface CompletionIndex {
+  commands: Macro[];
+  environments: Macro[];
+  labels: Label[];
+  citations: Citation[];
+  files: string[]; // Paths from the project root
+}
+
+// Braces and accents only get in the way in a one-line summary
+const plainBib = (value: string | undefined) => (value || '')
+  .replace(/\\(La)?TeX\b\s*/g, '$1TeX')
+  .replace(/\\[a-zA-Z]+\s*|[{}\\]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// `[2][default]`: the first argument is optional when a default is given
+const argumentSignature = (count: string | undefined, optionalDefault: string | undefined) => {
+  const total = Number(count) || 0;
+  return optionalDefault && total > 0 ? 'o' + 'm'.repeat(total - 1) : 'm'.repeat(total);
+};
+
+// Everything the completions draw from in the project
+export const buildCompletionIndex = (root: FileNode | undefined): CompletionIndex => {
+  const index: CompletionIndex = { commands: [], environments: [], labels: [], citations: [], files: [] };
+  (root ? listProjectFiles(root) : []).forEach(({ path, file }) => {
+    index.files.push(path);
+    const content = file.content || '';
+    if (/\.(tex|sty|cls)$/.test(file.name)) {
+      for (const match of content.matchAll(MACRO_DEFINITION)) {
+        const name = match[1] || match[4];
+        const signature = match[1] ? argumentSignature(match[2], match[3]) : 'm'.repeat((match[5] || '').length / 2);
+        index.commands.push({ name, signature, file: path });
+      }
+      for (const match of content.matchAll(ENVIRONMENT_DEFINITION)) {
+        index.environments.push({ name: (match[1] || match[4]).trim(), signature: argumentSignature(match[2], match[3]), file: path });
+      }
+      const lines = content.split('\n');
+      for (const match of content.matchAll(LABEL)) {
+        const line = content.slice(0, match.index).split('\n').length;
+        index.labels.push({ name: match[1].trim(), file: path, line, context: lines[line - 1].trim() });
+      }
+    }
+    if (file.name.endsWith('.bib')) {
+      Object.values(parseBibtex(content).entries).forEach(entry => {
+        const names = parseNames(entry.fields.author || entry.fields.editor).map(name => plainBib(name.last));
+        index.citations.push({
+          key: entry.key,
+          authors: names.length > 2 ? `${names[0]} et al.` : names.join(' and '),
+          year: plainBib(entry.fields.year || entry.fields.date).slice(0, 4),
+          title: plainBib(entry.fields.title),
+        });
+      });
+    }
+  });
+  return index;
+};
+
+// `\name{${}}...`: a tab stop in each mandatory argument
+const commandCompletion = (name: string, signature: string, detail?: string, boost = 0): Completion => {
+  const mandatory = (signature.match(/m/g) || []).length;
+  const label = `\\${name}`;
+  if (mandatory === 0) return { label, type: 'keyword', detail, boost };
+  return snippetCompletion(`${label}${'{${}}'.repeat(mandatory)}`, { label, type: 'function', detail, boost });
+};
+
+const BUILT_IN_COMMANDS = (() => {
+  const names = new Set([...definedCommands(), ...Object.keys(COMMAND_SIGNATURES), ...MATH_COMMANDS]);
+  return Array.from(names)
+    .filter(name => /^[a-zA-Z]+$/.test(name))
+    .map(name => commandCompletion(name, COMMAND_SIGNATURES[name] || MATH_SIGNATURES[name] || ''));
+})();
+
+const BUILT_IN_ENVIRONMENTS = Array.from(new Set([...definedEnvironments(), ...Object.keys(ENVIRONMENT_SIGNATURES), ...MATH_ENVIRONMENTS]))
+  .filter(name => !name.includes('@'));
+
+const environmentOptions = (index: CompletionIndex, closing: boolean, open: string | null): Completion[] => {
+  const own = new Map(index.environments.map(environment => [environment.name, environment]));
+  const names = Array.from(new Set([...BUILT_IN_ENVIRONMENTS, ...own.keys()]));
+  return names.map(name => {
+    const macro = own.get(name);
+    const detail = macro ? macro.file : undefined;
+    // The environment still open at the cursor comes first after \end{
+    const boost = name === open ? 99 : 0;
+    if (closing) return { label: name, type: 'type', detail, boost };
+    // After \begin{, the rest of the environment: its arguments, the body and the \end
+    const signature = ENVIRONMENT_SIGNATURES[name] || macro?.signature || '';
+    const args = '{${}}'.repeat((signature.match(/m/g) || []).length);
+    return snippetCompletion(`${name}}${args}\n\t\${}\n\\end{${name}}`, { label: name, type: 'type', detail, boost });
+  });
+};
+
+// The innermost environment begun before `position` and not yet ended
+const openEnvironment = (text: string, position: number) => {
+  const open = findEnvironments(text.slice(0, position)).filter(delimiter => delimiter.kind === 'begin' && !delimiter.partner);
+  return open.length > 0 ? open[open.length - 1].name : null;
+};
+
+const fileOptions = (files: string[], filter: (path: string) => boolean, stripExtension: RegExp | null): Completion[] =>
+  files.filter(filter).map(path => ({ label: stripExtension ? path.replace(stripExtension, '') : path, type: 'text', detail: stripExtension ? path.match(stripExtension)?.[0] : undefined }));
+
+const argumentOptions = (command: string, context: CompletionContext, index: CompletionIndex, argumentStart: number): Completion[] | null => {
+  if (command === 'begin' || command === 'end') {
+    const open = command === 'end' ? openEnvironment(context.state.doc.toString(), argumentStart) : null;
+    return environmentOptions(index, command === 'end', open);
+  }
+  if (REFERENCE_COMMANDS.test(command)) {
+    return index.labels.map(label => ({
+      label: label.name,
+      type: 'variable',
+      detail: `${label.file}:${label.line}`,
+      info: label.context,
+    }));
+  }
+  if (CITATION_COMMANDS.test(command)) {
+    return index.citations.map(citation => ({
+      label: citation.key,
+      type: 'constant',
+      detail: [citation.authors, citation.year].filter(Boolean).join(' '),
+      info: citation.title || undefined,
+    }));
+  }
+  if (command === 'input' || command === 'include' || command === 'includeonly' || command === 'subfile') {
+    return fileOptions(index.files, path => path.endsWith('.tex'), /\.tex$/);
+  }
+  if (command === 'includegraphics') return fileOptions(index.files, path => IMAGE_FILE.test(path), null);
+  if (command === 'bibliography') return fileOptions(index.files, path => path.endsWith('.bib'), /\.bib$/);
+  if (command === 'addbibresource') return fileOptions(index.files, path => path.endsWith('.bib'), null);
+  if (command === 'usepackage') return fileOptions(index.files, path => path.endsWith('.sty'), /\.sty$/);
+  return null;
+};
+
+const latexCompletionSource = (getIndex: () => CompletionIndex) => (context: CompletionContext): CompletionResult | null => {
+  const line = context.state.doc.lineAt(context.pos);
+  const before = line.text.slice(0, context.pos - line.from);
+
+  const argument = before.match(ARGUMENT_BEFORE);
+  if (argument) {
+    // Key lists (\cite{a,b}) complete the key after the last comma
+    const typed = argument[2].split(',').pop()!.trimStart();
+    const options = argumentOptions(argument[1], context, getIndex(), context.pos - argument[2].length);
+    // An environment completion brings its own closing brace, in place of one already typed
+    const to = argument[1] === 'begin' && line.text[context.pos - line.from] === '}' ? context.pos + 1 : context.pos;
+    if (options) return { from: context.pos - typed.length, to, options, validFor: /^[^},\s]*$/ };
+  }
+
+  // Not after `\\`, a line break
+  const command = context.matchBefore(/\\[a-zA-Z]*$/);
+  if (!command || before.slice(0, command.from - line.from).match(/(^|[^\\])(\\\\)*\\$/)) return null;
+  const own = getIndex().commands.map(macro => commandCompletion(macro.name, macro.signature, macro.file, 1));
+  const ownNames = new Set(own.map(option => option.label));
+  return {
+    from: command.from,
+    options: [...own, ...BUILT_IN_COMMANDS.filter(option => !ownNames.has(option.label))],
+    validFor: /^\\[a-zA-Z]*$/,
+  };
+};
+
+// Snippets join in when completion is asked for with Ctrl+Space
+export const latexCompletion = (getIndex: () => CompletionIndex, getSnippets: () => Snippet[]) =>
+  autocompletion({ override: [latexCompletionSource(getIndex), snippetCompletionSource(getSnippets)] });
@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { buildCompletionIndex } from './completion';
+import { latexEditorSetup } from './setup';
+
+// jsdom has no layout to measure, so views are taken down before they get to it
+const views: EditorView[] = [];
+afterEach(() => views.splice(0).forEach(view => view.destroy()));
+
+// Each typed character goes through the view's input handlers in order, as the browser's
+// input does, and is inserted as plain input when none takes it
+const createEditor = (doc: string) => {
+  const view = new EditorView({
+    state: EditorState.create({
+      doc,
+      selection: { anchor: doc.length },
+      extensions: latexEditorSetup(() => buildCompletionIndex(undefined), () => []),
+    }),
+    parent: document.body,
+  });
+  views.push(view);
+  const type = (text: string) => {
+    for (const char of text) {
+      const { from, to } = view.state.selection.main;
+      const insert = () => view.state.update({ changes: { from, to, insert: char }, selection: { anchor: from + char.length }, userEvent: 'input.type' });
+      if (view.state.facet(EditorView.inputHandler).some(handler => handler(view, from, to, char, insert))) continue;
+      view.dispatch(insert());
+    }
+  };
+  return { view, type };
+};
+
+describe('environment editing', () => {
+  it('adds the \\end when the name of a \\begin is closed', () => {
+    const { view, type } = createEditor('');
+    type('\\begin{itemize}');
+    expect(view.state.doc.toString()).toBe('\\begin{itemize}\n\\end{itemize}');
+    expect(view.state.selection.main.head).toBe('\\begin{itemize}'.length);
+  });
+
+  it('keeps the indentation of the \\begin line', () => {
+    const { view, type } = createEditor('  ');
+    type('\\begin{center}');
+    expect(view.state.doc.toString()).toBe('  \\begin{center}\n  \\end{center}');
+  });
+
+  it('adds nothing when the \\begin already has its \\end', () => {
+    const { view, type } = createEditor('\n\\end{figure}');
+    view.dispatch({ selection: { anchor: 0 } });
+    type('\\begin{figure}');
+    expect(view.state.doc.toString()).toBe('\\begin{figure}\n\\end{figure}');
+  });
+
+  it('renames the \\end along with the \\begin', () => {
+    const { view, type } = createEditor('');
+    type('\\begin{item}');
+    view.dispatch({ selection: { anchor: '\\begin{item'.length } });
+    type('ize');
+    expect(view.state.doc.toString()).toBe('\\begin{itemize}\n\\end{itemize}');
+  });
+});
@@ -0,0 +1,114 @@
+// --- Environment editing ---
+// Typing \begin{name} adds its \end{name}, and editing the name in either delimiter of a
+// pair edits the other in the same change, so the two never drift apart. The wrap
+// commands put the selection inside an environment or a command, with the name selected
+// to type over.
+
+import { EditorSelection, EditorState, Prec } from '@codemirror/state';
+import { Command, EditorView, KeyBinding } from '@codemirror/view';
+import { indentUnit } from '@codemirror/language';
+import { EnvironmentDelimiter, environmentDelimiters, findEnvironments } from './structure';
+
+const BEGIN_BEFORE = /\\begin\s*\{([^{}\n]*)$/;
+
+const unmatchedBegins = (text: string, name: string) =>
+  findEnvironments(text).filter(delimiter => delimiter.kind === 'begin' && delimiter.name === name && !delimiter.partner).length;
+
+// The `}` closing the name of a \begin adds an \end on the line below, unless the \begin
+// pairs with an \end already there
+const autoEnd = EditorView.inputHandler.of((view, from, to, text) => {
+  const { state } = view;
+  if (text !== '}' || from !== to || state.readOnly || state.selection.ranges.length > 1) return false;
+  const line = state.doc.lineAt(from);
+  const match = line.text.slice(0, from - line.from).match(BEGIN_BEFORE);
+  const name = match ? match[1].trim() : '';
+  if (!match || !name) return false;
+
+  // closeBrackets may have put the closing brace there already
+  const closed = line.text[from - line.from] === '}';
+  const doc = state.doc.toString();
+  const withBegin = closed ? doc : doc.slice(0, from) + '}' + doc.slice(from);
+  const withoutBegin = doc.slice(0, from - match[0].length) + doc.slice(closed ? from + 1 : from);
+  if (unmatchedBegins(withBegin, name) <= unmatchedBegins(withoutBegin, name)) return false;
+
+  const end = `\n${line.text.match(/^\s*/)![0]}\\end{${name}}`;
+  view.dispatch({
+    changes: closed ? { from: from + 1, insert: end } : { from, insert: '}' + end },
+    selection: { anchor: from + 1 },
+    userEvent: 'input.type',
+    scrollIntoView: true,
+  });
+  return true;
+});
+
+// Typing or deleting inside the name of a paired delimiter renames its partner as well.
+// Edits to both names at once (several cursors) are left alone.
+const renameSync = EditorState.transactionFilter.of(transaction => {
+  if (!transaction.docChanged || !(transaction.isUserEvent('input') || transaction.isUserEvent('delete'))) return transaction;
+  const delimiters = environmentDelimiters(transaction.startState);
+  const edited = new Set<EnvironmentDelimiter>();
+  let insideNames = true;
+  transaction.changes.iterChangedRanges((fromA, toA) => {
+    const delimiter = delimiters.find(candidate => candidate.nameFrom <= fromA && toA <= candidate.nameTo);
+    if (delimiter && delimiter.partner) edited.add(delimiter);
+    else insideNames = false;
+  });
+  if (!insideNames) return transaction;
+
+  const changes = [];
+  for (const delimiter of edited) {
+    const partner = delimiter.partner!;
+    if (edited.has(partner)) continue;
+    const { changes: mapping, newDoc, startState } = transaction;
+    const name = newDoc.sliceString(mapping.mapPos(delimiter.nameFrom, -1), mapping.mapPos(delimiter.nameTo, 1)).trim();
+    if (/[{}\\]/.test(name)) return transaction;
+    // The partner keeps its own spacing inside the braces
+    const old = startState.sliceDoc(partner.nameFrom, partner.nameTo);
+    const from = mapping.mapPos(partner.nameFrom) + (old.length - old.trimStart().length);
+    const to = mapping.mapPos(partner.nameTo) - (old.length - old.trimEnd().length);
+    changes.push({ from, to: Math.max(from, to), insert: name });
+  }
+  return changes.length > 0 ? [transaction, { changes, sequential: true }] : transaction;
+});
+
+// The lines of each selection, indented one unit, between \begin{center} and \end{center}
+export const wrapInEnvironment: Command = view => {
+  const { state } = view;
+  const name = 'center';
+  const unit = state.facet(indentUnit);
+  let lastLine = 0;
+  view.dispatch(state.changeByRange(range => {
+    const first = state.doc.lineAt(range.from);
+    // A selection that ends at the start of a line leaves that line out
+    const last = state.doc.lineAt(range.to > range.from && state.doc.lineAt(range.to).from === range.to ? range.to - 1 : range.to);
+    if (first.number <= lastLine) return { range };
+    lastLine = last.number;
+    const indent = first.text.match(/^\s*/)![0];
+    const body = state.sliceDoc(first.from, last.to).split('\n').map(text => (text.trim() ? unit + text : text)).join('\n');
+    const nameFrom = first.from + indent.length + '\\begin{'.length;
+    return {
+      changes: { from: first.from, to: last.to, insert: `${indent}\\begin{${name}}\n${body}\n${indent}\\end{${name}}` },
+      range: EditorSelection.range(nameFrom, nameFrom + name.length),
+    };
+  }), { scrollIntoView: true });
+  return true;
+};
+
+// Each selection as the argument of \emph{...}
+export const wrapInCommand: Command = view => {
+  const { state } = view;
+  const name = 'emph';
+  view.dispatch(state.changeByRange(range => ({
+    changes: { from: range.from, to: range.to, insert: `\\${name}{${state.sliceDoc(range.from, range.to)}}` },
+    range: EditorSelection.range(range.from + 1, range.from + 1 + name.length),
+  })), { scrollIntoView: true });
+  return true;
+};
+
+export const wrapKeymap: KeyBinding[] = [
+  { key: 'Mod-Shift-e', run: wrapInEnvironment },
+  { key: 'Mod-Shift-x', run: wrapInCommand },
+];
+
+// autoEnd goes ahead of closeBrackets, whose input handler would otherwise take the `}`
+export const environmentEditing = () => [Prec.high(autoEnd), renameSync];
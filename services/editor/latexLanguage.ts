@@ -0,0 +1,100 @@
+// --- LaTeX language ---
+// A stream parser for the editor: commands, environment names, comments, and math
+// (`$...$`, `\[...\]`, `\(...\)` and the display math environments) highlighted as one
+// colour. Enough for highlighting and bracket matching; the compiler has the real parser.
+
+import { StreamLanguage, StreamParser, HighlightStyle, syntaxHighlighting } from '@codemirror/language';
+import { tags } from '@lezer/highlight';
+
+const MATH_ENVIRONMENTS = /^(equation|align|alignat|flalign|gather|multline|eqnarray|displaymath|math)\*?$/;
+const SECTIONING = /^\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)\*?$/;
+
+interface LatexState {
+  mathEnd: string | null; // What closes the math being read: `$`, `\]`, `\end{align}` ...
+  environment: 'begin' | 'end' | null; // After \begin or \end, expecting the name
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const latexParser: StreamParser<LatexState> = {
+  name: 'latex',
+  startState: () => ({ mathEnd: null, environment: null }),
+  copyState: state => ({ ...state }),
+  token: (stream, state) => {
+    if (state.environment) {
+      const keyword = state.environment;
+      state.environment = null;
+      const match = stream.match(/^\s*\{([^{}]*)\}/) as RegExpMatchArray | null;
+      if (match) {
+        const name = match[1].trim();
+        if (keyword === 'begin' && !state.mathEnd && MATH_ENVIRONMENTS.test(name)) state.mathEnd = `\\end{${name}}`;
+        return 'typeName';
+      }
+    }
+    if (stream.eat('%')) {
+      stream.skipToEnd();
+      return 'comment';
+    }
+
+    if (state.mathEnd) {
+      if (state.mathEnd.startsWith('\\end{')) {
+        const name = state.mathEnd.slice(5, -1);
+        if (stream.match(new RegExp(`^\\\\end\\s*\\{\\s*${escapeRegExp(name)}\\s*\\}`), false)) {
+          stream.match('\\end');
+          state.mathEnd = null;
+          state.environment = 'end';
+          return 'keyword';
+        }
+      } else if (stream.match(state.mathEnd)) {
+        state.mathEnd = null;
+        return 'meta';
+      }
+      if (stream.match(/^\\(begin|end)(?![a-zA-Z@])/)) {
+        state.environment = stream.current() === '\\begin' ? 'begin' : 'end';
+        return 'keyword';
+      }
+      if (stream.match(/^\\([a-zA-Z@]+|.)/)) return 'tagName';
+      stream.next();
+      stream.eatWhile(/[^\\$%]/);
+      return 'string';
+    }
+
+    if (stream.match(/^\\(begin|end)(?![a-zA-Z@])/)) {
+      state.environment = stream.current() === '\\begin' ? 'begin' : 'end';
+      return 'keyword';
+    }
+    if (stream.match('\\[') || stream.match('\\(')) {
+      state.mathEnd = stream.current() === '\\[' ? '\\]' : '\\)';
+      return 'meta';
+    }
+    if (stream.match(/^\\[a-zA-Z@]+\*?/)) return SECTIONING.test(stream.current()) ? 'heading' : 'tagName';
+    if (stream.match(/^\\./)) return 'escape';
+    if (stream.match('$$') || stream.match('$')) {
+      state.mathEnd = stream.current();
+      return 'meta';
+    }
+    if (stream.match(/^[{}[\]]/)) return 'bracket';
+    stream.next();
+    stream.eatWhile(/[^\\$%{}[\]]/);
+    return null;
+  },
+  languageData: {
+    commentTokens: { line: '%' },
+    // Quotes are apostrophes and `` '' pairs in LaTeX, so only brackets are closed
+    closeBrackets: { brackets: ['(', '[', '{'] },
+  },
+};
+
+export const latexLanguage = StreamLanguage.define(latexParser);
+
+const latexHighlightStyle = HighlightStyle.define([
+  { tag: tags.tagName, color: '#2563eb' },
+  { tag: tags.heading, color: '#1d4ed8', fontWeight: '600' },
+  { tag: tags.keyword, color: '#7c3aed' },
+  { tag: tags.typeName, color: '#0d9488' },
+  { tag: [tags.string, tags.meta], color: '#b45309' },
+  { tag: tags.comment, color: '#94a3b8', fontStyle: 'italic' },
+  { tag: [tags.escape, tags.bracket], color: '#64748b' },
+]);
+
+export const latex = () => [latexLanguage, syntaxHighlighting(latexHighlightStyle)];
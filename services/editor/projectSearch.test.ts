@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { searchProject, applyMatches, SearchOptions } from './projectSearch';
+import { FileNode } from '../../types';
+
+const root: FileNode = { id: 'root', name: 'root', type: 'folder', children: [
+  { id: 'main', name: 'main.tex', type: 'file', content: 'Intro\nSee Figure 1 and figure 2.\n' },
+  { id: 'chapters', name: 'chapters', type: 'folder', children: [
+    { id: 'one', name: 'one.tex', type: 'file', content: 'A figure, figures and prefigure.' },
+  ] },
+  { id: 'logo', name: 'logo.png', type: 'file', content: 'data:image/png;base64,figure' },
+] };
+
+const plain: SearchOptions = { regexp: false, wholeWord: false, caseSensitive: false };
+
+describe('searchProject', () => {
+  it('finds matches in every text file with their line and surroundings', () => {
+    const result = searchProject(root, 'figure', plain);
+    expect(result.count).toBe(5);
+    expect(result.files.map(file => file.path)).toEqual(['main.tex', 'chapters/one.tex']);
+    expect(result.files[0].matches[1]).toMatchObject({ from: 23, to: 29, line: 2, before: 'See Figure 1 and ', text: 'figure', after: ' 2.' });
+  });
+
+  it('matches case and whole words when asked', () => {
+    expect(searchProject(root, 'figure', { ...plain, caseSensitive: true }).count).toBe(4);
+    expect(searchProject(root, 'figure', { ...plain, wholeWord: true }).count).toBe(3);
+  });
+
+  it('takes the query literally unless it is a regular expression', () => {
+    expect(searchProject(root, '.', plain).count).toBe(2);
+    expect(searchProject(root, 'fig\\w+', { ...plain, regexp: true }).files[1].matches.map(match => match.text)).toEqual(['figure', 'figures', 'figure']);
+  });
+
+  it('expands groups in the replacement of a regular expression', () => {
+    const { files } = searchProject(root, '(\\w+) (\\d)', { ...plain, regexp: true }, '$2-$1 $$ $3');
+    expect(files[0].matches.map(match => match.replacement)).toEqual(['1-Figure $ $3', '2-figure $ $3']);
+  });
+
+  it('skips empty matches', () => {
+    expect(searchProject(root, '^', { ...plain, regexp: true }).count).toBe(0);
+  });
+
+  it('reports an invalid regular expression', () => {
+    const result = searchProject(root, '(', { ...plain, regexp: true });
+    expect(result.error).toBeTruthy();
+    expect(result.files).toEqual([]);
+  });
+
+  it('stops at the match limit', () => {
+    const big: FileNode = { id: 'big', name: 'big.tex', type: 'file', content: 'x'.repeat(2500) };
+    const result = searchProject({ ...root, children: [big, ...root.children!] }, 'x', plain);
+    expect(result).toMatchObject({ count: 2000, truncated: true });
+    expect(result.files).toHaveLength(1);
+  });
+});
+
+describe('applyMatches', () => {
+  it('replaces the given matches in any order', () => {
+    const content = root.children![0].content!;
+    const { files } = searchProject(root, 'figure', plain, 'Fig.');
+    const [first, second] = files[0].matches;
+    expect(applyMatches(content, [second, first])).toBe('Intro\nSee Fig. 1 and Fig. 2.\n');
+    expect(applyMatches(content, [second])).toBe('Intro\nSee Figure 1 and Fig. 2.\n');
+  });
+});
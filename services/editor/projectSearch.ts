@@ -0,0 +1,133 @@
+// --- Project search ---
+// Find and replace across every text file of a project. Each match keeps its offsets, its
+// line and the text around it, and carries its replacement, so a change can be previewed
+// before it is made and any set of matches applied in one go.
+
+import { FileNode } from '../../types';
+import { listProjectFiles } from '../latex/imports';
+
+export interface SearchOptions {
+  regexp: boolean;
+  wholeWord: boolean;
+  caseSensitive: boolean;
+}
+
+export interface SearchMatch {
+  from: number; // Offsets in the file
+  to: number;
+  line: number; // 1-based, of `from`
+  before: string; // The rest of the line before the match
+  text: string;
+  after: string; // The rest of the line the match ends on
+  replacement: string;
+}
+
+export interface FileMatches {
+  file: FileNode;
+  path: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResult {
+  files: FileMatches[];
+  count: number;
+  truncated: boolean; // Stopped at MAX_MATCHES
+  error: string | null; // An invalid regular expression
+}
+
+// What a replacement changed, by file id, to put back
+export interface ReplaceRecord {
+  before: Record<string, string>;
+  after: Record<string, string>;
+  count: number;
+}
+
+const MAX_MATCHES = 2000;
+
+// Images are stored as data URLs; everything else is text
+const isTextFile = (file: FileNode) => file.content !== undefined && !file.content.startsWith('data:');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The query as a global regular expression, or the reason it is not a valid one
+const compileQuery = (query: string, options: SearchOptions): RegExp | string => {
+  const source = options.regexp ? query : escapeRegExp(query);
+  const pattern = options.wholeWord ? `(?<![A-Za-z0-9_])(?:${source})(?![A-Za-z0-9_])` : source;
+  try {
+    return new RegExp(pattern, options.caseSensitive ? 'gm' : 'gim');
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+// `$&` and `$1`... in a regular expression's replacement, as in String.replace
+const expandReplacement = (replacement: string, match: RegExpExecArray, options: SearchOptions) => {
+  if (!options.regexp) return replacement;
+  return replacement.replace(/\$(\$|&|\d\d?)/g, (token, name: string) => {
+    if (name === '$') return '$';
+    if (name === '&') return match[0];
+    const group = +name;
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+};
+
+const findInFile = (content: string, pattern: RegExp, replacement: string, options: SearchOptions, limit: number) => {
+  const matches: SearchMatch[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let scanned = 0;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(content); match && matches.length < limit; match = pattern.exec(content)) {
+    // Empty matches (`^`, `x*`) find nothing to replace
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const from = match.index;
+    const to = from + match[0].length;
+    for (; scanned < from; scanned++) {
+      if (content[scanned] === '\n') {
+        line++;
+        lineStart = scanned + 1;
+      }
+    }
+    const lineEnd = content.indexOf('\n', to);
+    matches.push({
+      from,
+      to,
+      line,
+      before: content.slice(lineStart, from),
+      text: match[0],
+      after: content.slice(to, lineEnd === -1 ? undefined : lineEnd),
+      replacement: expandReplacement(replacement, match, options),
+    });
+  }
+  return matches;
+};
+
+export const searchProject = (root: FileNode, query: string, options: SearchOptions, replacement = ''): SearchResult => {
+  const pattern = compileQuery(query, options);
+  if (typeof pattern === 'string') return { files: [], count: 0, truncated: false, error: pattern };
+  const files: FileMatches[] = [];
+  let count = 0;
+  for (const { path, file } of listProjectFiles(root)) {
+    if (!isTextFile(file)) continue;
+    const matches = findInFile(file.content!, pattern, replacement, options, MAX_MATCHES - count);
+    if (matches.length === 0) continue;
+    files.push({ file, path, matches });
+    count += matches.length;
+    if (count >= MAX_MATCHES) return { files, count, truncated: true, error: null };
+  }
+  return { files, count, truncated: false, error: null };
+};
+
+// The file's text with the given matches replaced
+export const applyMatches = (content: string, matches: SearchMatch[]) => {
+  let result = '';
+  let last = 0;
+  [...matches].sort((a, b) => a.from - b.from).forEach(match => {
+    result += content.slice(last, match.from) + match.replacement;
+    last = match.to;
+  });
+  return result + content.slice(last);
+};
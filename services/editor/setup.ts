@@ -0,0 +1,54 @@
+// --- Editor setup ---
+// The extensions the LaTeX editor is built from, apart from its theme and the listeners
+// that tie it to the component. Their order matters where two of them handle the same key
+// or input, so they are kept in one list.
+
+import { EditorState, Extension } from '@codemirror/state';
+import {
+  EditorView, keymap, lineNumbers, highlightActiveLine, highlightActiveLineGutter, drawSelection,
+  dropCursor, rectangularSelection, crosshairCursor, highlightSpecialChars, placeholder,
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { bracketMatching, codeFolding, foldGutter, foldKeymap, indentOnInput } from '@codemirror/language';
+import { closeBrackets, closeBracketsKeymap, completionKeymap } from '@codemirror/autocomplete';
+import { search, searchKeymap, highlightSelectionMatches } from '@codemirror/search';
+import { lintGutter } from '@codemirror/lint';
+import { Snippet } from '../../types';
+import { latex } from './latexLanguage';
+import { documentStructure } from './structure';
+import { latexCompletion, CompletionIndex } from './completion';
+import { expandSnippet } from './snippets';
+import { environmentEditing, wrapKeymap } from './environments';
+
+export const latexEditorSetup = (getCompletionIndex: () => CompletionIndex, getSnippets: () => Snippet[]): Extension[] => [
+  lineNumbers(),
+  highlightActiveLineGutter(),
+  highlightSpecialChars(),
+  history(),
+  codeFolding(),
+  foldGutter(),
+  lintGutter(),
+  drawSelection(),
+  dropCursor(),
+  EditorState.allowMultipleSelections.of(true),
+  indentOnInput(),
+  bracketMatching(),
+  closeBrackets(),
+  rectangularSelection(),
+  crosshairCursor(),
+  highlightActiveLine(),
+  highlightSelectionMatches(),
+  search({ top: true }),
+  EditorState.tabSize.of(2),
+  EditorView.lineWrapping,
+  placeholder('\\documentclass{article}...'),
+  latex(),
+  documentStructure(),
+  environmentEditing(),
+  latexCompletion(getCompletionIndex, getSnippets),
+  // Tab expands a snippet trigger before it indents
+  keymap.of([
+    ...closeBracketsKeymap, ...completionKeymap, ...wrapKeymap, ...defaultKeymap, ...searchKeymap, ...historyKeymap, ...foldKeymap,
+    { key: 'Tab', run: expandSnippet(getSnippets) }, indentWithTab,
+  ]),
+];
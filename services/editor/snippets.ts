@@ -0,0 +1,116 @@
+// --- Snippets ---
+// Templates typed as a trigger word and expanded with Tab, with tab stops for the parts
+// to fill in. The built-in ones cover the environments written most often; a project adds
+// its own, which win over a built-in one with the same trigger.
+
+import { Completion, CompletionContext, CompletionResult, snippet } from '@codemirror/autocomplete';
+import { Command } from '@codemirror/view';
+import { Snippet } from '../../types';
+
+// Tabs indent by one unit, on top of the indentation of the line the snippet is typed on
+export const BUILT_IN_SNIPPETS: Snippet[] = [
+  {
+    trigger: 'fig',
+    description: 'Figure with an image, caption and label',
+    body: [
+      '\\begin{figure}[htbp]',
+      '\t\\centering',
+      '\t\\includegraphics[width=0.8\\textwidth]{${1:file}}',
+      '\t\\caption{${2:Caption}}',
+      '\t\\label{fig:${3:label}}',
+      '\\end{figure}${0}',
+    ].join('\n'),
+  },
+  {
+    trigger: 'tab',
+    description: 'Table with a caption and label',
+    body: [
+      '\\begin{table}[htbp]',
+      '\t\\centering',
+      '\t\\caption{${1:Caption}}',
+      '\t\\label{tab:${2:label}}',
+      '\t\\begin{tabular}{${3:ll}}',
+      '\t\t\\hline',
+      '\t\t${4:A} & ${5:B} \\\\',
+      '\t\t\\hline',
+      '\t\\end{tabular}',
+      '\\end{table}${0}',
+    ].join('\n'),
+  },
+  {
+    trigger: 'eq',
+    description: 'Numbered equation with a label',
+    body: ['\\begin{equation}', '\t${1}', '\t\\label{eq:${2:label}}', '\\end{equation}${0}'].join('\n'),
+  },
+  {
+    trigger: 'ali',
+    description: 'Aligned equations',
+    body: ['\\begin{align}', '\t${1} &= ${2} \\\\', '\\end{align}${0}'].join('\n'),
+  },
+  {
+    trigger: 'enum',
+    description: 'Numbered list',
+    body: ['\\begin{enumerate}', '\t\\item ${1}', '\\end{enumerate}${0}'].join('\n'),
+  },
+  {
+    trigger: 'item',
+    description: 'Bulleted list',
+    body: ['\\begin{itemize}', '\t\\item ${1}', '\\end{itemize}${0}'].join('\n'),
+  },
+  {
+    trigger: 'sec',
+    description: 'Section with a label',
+    body: '\\section{${1:Title}}\n\\label{sec:${2:label}}\n${0}',
+  },
+  {
+    trigger: 'sub',
+    description: 'Subsection with a label',
+    body: '\\subsection{${1:Title}}\n\\label{sec:${2:label}}\n${0}',
+  },
+  {
+    trigger: 'frame',
+    description: 'Beamer frame',
+    body: ['\\begin{frame}{${1:Title}}', '\t${2}', '\\end{frame}${0}'].join('\n'),
+  },
+];
+
+// Triggers are words, so that they never start in the middle of a command name
+export const SNIPPET_TRIGGER = /^[a-zA-Z]+$/;
+
+const TRIGGER_BEFORE = /(?:^|[^\\a-zA-Z@])([a-zA-Z]+)$/;
+
+// The project's snippets, then the built-in ones it does not replace
+const allSnippets = (own: Snippet[]) => {
+  const triggers = new Set(own.map(item => item.trigger));
+  return [...own, ...BUILT_IN_SNIPPETS.filter(item => !triggers.has(item.trigger))];
+};
+
+// Tab after a trigger word expands it; otherwise Tab falls through to indentation
+export const expandSnippet = (getSnippets: () => Snippet[]): Command => view => {
+  const { state } = view;
+  if (state.selection.ranges.length > 1 || !state.selection.main.empty) return false;
+  const head = state.selection.main.head;
+  const line = state.doc.lineAt(head);
+  const match = line.text.slice(0, head - line.from).match(TRIGGER_BEFORE);
+  if (!match) return false;
+  const found = allSnippets(getSnippets()).find(item => item.trigger === match[1]);
+  if (!found) return false;
+  snippet(found.body)(view, null, head - match[1].length, head);
+  return true;
+};
+
+// Listed only on request (Ctrl+Space): as words they would pop up all through the prose
+export const snippetCompletionSource = (getSnippets: () => Snippet[]) => (context: CompletionContext): CompletionResult | null => {
+  if (!context.explicit) return null;
+  const line = context.state.doc.lineAt(context.pos);
+  const before = line.text.slice(0, context.pos - line.from);
+  if (/\\[a-zA-Z@]*$/.test(before)) return null;
+  const word = before.match(/[a-zA-Z]*$/)![0];
+  const options: Completion[] = allSnippets(getSnippets()).map(item => ({
+    label: item.trigger,
+    detail: item.description,
+    type: 'text',
+    apply: snippet(item.body),
+  }));
+  return { from: context.pos - word.length, options, validFor: /^[a-zA-Z]*$/ };
+};
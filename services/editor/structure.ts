@@ -0,0 +1,131 @@
+// --- Document structure in the editor ---
+// Pairs \begin{...} with \end{...} and finds the extent of each sectioning command, once
+// per document change. The editor highlights the partner of the environment delimiter
+// under the cursor, and folds environments and sections.
+
+import { EditorState, StateField, RangeSetBuilder } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView } from '@codemirror/view';
+import { foldService } from '@codemirror/language';
+
+interface Range {
+  from: number;
+  to: number;
+}
+
+export interface EnvironmentDelimiter extends Range {
+  kind: 'begin' | 'end';
+  name: string;
+  nameFrom: number; // Between the braces, spaces included
+  nameTo: number;
+  partner: EnvironmentDelimiter | null; // The matching \end or \begin
+}
+
+interface Structure {
+  delimiters: EnvironmentDelimiter[]; // In document order
+  folds: Map<number, Range>; // By the start of the line the fold starts on
+}
+
+// Escaped characters are skipped so that `\%` does not start a comment
+const DELIMITER = /\\(?:(begin|end)(?![a-zA-Z@])\s*\{([^{}\n]*)\}|[^a-zA-Z@])|%[^\n]*/g;
+
+const SECTION_LEVELS: Record<string, number> = {
+  part: 0, chapter: 1, section: 2, subsection: 3, subsubsection: 4, paragraph: 5, subparagraph: 6,
+};
+const SECTION_LINE = /^\s*\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)\*?\s*[[{]/;
+
+// Pairs delimiters with a stack. An \end with no open \begin of its name is left unmatched;
+// one that closes an outer environment leaves the inner ones open without a partner.
+export const findEnvironments = (text: string): EnvironmentDelimiter[] => {
+  const delimiters: EnvironmentDelimiter[] = [];
+  const open: EnvironmentDelimiter[] = [];
+  for (const match of text.matchAll(DELIMITER)) {
+    if (!match[1]) continue;
+    const delimiter: EnvironmentDelimiter = {
+      kind: match[1] as 'begin' | 'end',
+      name: match[2].trim(),
+      from: match.index!,
+      to: match.index! + match[0].length,
+      nameFrom: match.index! + match[0].indexOf('{') + 1,
+      nameTo: match.index! + match[0].length - 1,
+      partner: null,
+    };
+    delimiters.push(delimiter);
+    if (delimiter.kind === 'begin') {
+      open.push(delimiter);
+      continue;
+    }
+    const index = open.map(begin => begin.name).lastIndexOf(delimiter.name);
+    if (index === -1) continue;
+    const begin = open[index];
+    open.length = index;
+    begin.partner = delimiter;
+    delimiter.partner = begin;
+  }
+  return delimiters;
+};
+
+const computeStructure = (state: EditorState): Structure => {
+  const doc = state.doc;
+  const delimiters = findEnvironments(doc.toString());
+  const folds = new Map<number, Range>();
+
+  // A section runs up to the next heading of its level or above, or to \end{document},
+  // without the blank lines before it
+  const headings: { line: number; level: number }[] = [];
+  let documentEnd = doc.lines + 1;
+  for (let number = 1; number <= doc.lines; number++) {
+    const text = doc.line(number).text;
+    const match = text.match(SECTION_LINE);
+    if (match) headings.push({ line: number, level: SECTION_LEVELS[match[1]] });
+    else if (/^\s*\\end\s*\{document\}/.test(text)) documentEnd = Math.min(documentEnd, number);
+  }
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find(other => other.level <= heading.level);
+    let last = Math.min(next ? next.line : documentEnd, documentEnd) - 1;
+    while (last > heading.line && doc.line(last).text.trim() === '') last--;
+    if (last > heading.line) folds.set(doc.line(heading.line).from, { from: doc.line(heading.line).to, to: doc.line(last).to });
+  });
+
+  // An environment folds up to its \end, which stays in view
+  delimiters.forEach(delimiter => {
+    if (delimiter.kind !== 'begin' || !delimiter.partner) return;
+    const line = doc.lineAt(delimiter.from);
+    if (folds.has(line.from) || delimiter.partner.from <= line.to) return;
+    folds.set(line.from, { from: line.to, to: delimiter.partner.from });
+  });
+
+  return { delimiters, folds };
+};
+
+const structureField = StateField.define<Structure>({
+  create: computeStructure,
+  update: (structure, transaction) => (transaction.docChanged ? computeStructure(transaction.state) : structure),
+});
+
+export const environmentDelimiters = (state: EditorState) => state.field(structureField).delimiters;
+
+const matchedMark = Decoration.mark({ class: 'cm-matchingEnvironment' });
+const unmatchedMark = Decoration.mark({ class: 'cm-nonmatchingEnvironment' });
+
+// The \begin{...} or \end{...} at the cursor, and its partner
+const environmentMatching = EditorView.decorations.compute([structureField, 'selection'], state => {
+  const head = state.selection.main.head;
+  const delimiter = state.field(structureField).delimiters.find(candidate => candidate.from <= head && head <= candidate.to);
+  if (!delimiter) return Decoration.none;
+  const builder = new RangeSetBuilder<Decoration>();
+  const marks = [delimiter, ...(delimiter.partner ? [delimiter.partner] : [])].sort((a, b) => a.from - b.from);
+  marks.forEach(mark => builder.add(mark.from, mark.to, delimiter.partner ? matchedMark : unmatchedMark));
+  return builder.finish() as DecorationSet;
+});
+
+const structureTheme = EditorView.baseTheme({
+  '.cm-matchingEnvironment': { backgroundColor: '#dbeafe', borderRadius: '2px' },
+  '.cm-nonmatchingEnvironment': { backgroundColor: '#fee2e2', borderRadius: '2px' },
+});
+
+export const documentStructure = () => [
+  structureField,
+  environmentMatching,
+  foldService.of((state, lineStart) => state.field(structureField).folds.get(lineStart) || null),
+  structureTheme,
+];
@@ -0,0 +1,327 @@
+// --- Word export ---
+// Writes the export model as a DOCX package: WordprocessingML for the text, Office Math
+// for equations (so they stay editable in Word), numbering definitions for lists, native
+// footnotes and bookmarks for internal links. Page size and margins follow the document.
+
+import { PageLayout } from '../../types';
+import { Block, Inline, Mark, TableCell, ExportDocument, ExportIssue } from './model';
+import { mathmlToOmml } from './omml';
+import { escapeXml } from './xml';
+import { createZip, ZipEntry } from './zip';
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(' ');
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Word measures pages in twips (1/1440 in) and drawings in EMU (1/914400 in)
+const twips = (mm: number) => Math.round((mm / 25.4) * 1440);
+const EMU_PER_PX = 9525;
+const EMU_PER_MM = 36000;
+
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpeg: 'image/jpeg', gif: 'image/gif' };
+
+interface Picture {
+  extension: string;
+  data: Uint8Array;
+  width: number; // In pixels
+  height: number;
+}
+
+// Decodes a data: URL image in a format Word reads, with its size from the file header
+const readPicture = (src: string): Picture | null => {
+  const match = src.match(/^data:image\/(png|jpe?g|gif);base64,(.*)$/i);
+  if (!match) return null;
+  const extension = match[1].toLowerCase() === 'jpg' ? 'jpeg' : match[1].toLowerCase();
+  const binary = atob(match[2]);
+  const data = Uint8Array.from(binary, char => char.charCodeAt(0));
+  const view = new DataView(data.buffer);
+  let width = 0;
+  let height = 0;
+  if (extension === 'png' && data.length >= 24) {
+    width = view.getUint32(16);
+    height = view.getUint32(20);
+  } else if (extension === 'gif' && data.length >= 10) {
+    width = view.getUint16(6, true);
+    height = view.getUint16(8, true);
+  } else if (extension === 'jpeg') {
+    // The first start-of-frame marker holds the size
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        height = view.getUint16(offset + 5);
+        width = view.getUint16(offset + 7);
+        break;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+  return width > 0 && height > 0 ? { extension, data, width, height } : null;
+};
+
+// Bookmark names are letters, digits and underscores, at most 40 characters
+const bookmarkName = (id: string) => {
+  const name = id.replace(/[^A-Za-z0-9_]/g, '_');
+  return (/^[A-Za-z]/.test(name) ? name : `_${name}`).slice(0, 40);
+};
+
+const RUN_PROPERTIES: [Mark, string][] = [
+  ['bold', '<w:b/>'], ['italic', '<w:i/>'], ['smallcaps', '<w:smallCaps/>'], ['underline', '<w:u w:val="single"/>'],
+];
+
+const runProperties = (marks: Mark[], style?: string) => {
+  const properties = [
+    style ? `<w:rStyle w:val="${style}"/>` : '',
+    marks.includes('code') ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '',
+    ...RUN_PROPERTIES.map(([mark, xml]) => (marks.includes(mark) ? xml : '')),
+    marks.includes('sup') ? '<w:vertAlign w:val="superscript"/>' : marks.includes('sub') ? '<w:vertAlign w:val="subscript"/>' : '',
+  ].join('');
+  return properties ? `<w:rPr>${properties}</w:rPr>` : '';
+};
+
+const textRun = (text: string, marks: Mark[], style?: string) =>
+  `<w:r>${runProperties(marks, style)}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+export const toDocx = (document: ExportDocument, layout: PageLayout, title: string): { file: Uint8Array; issues: ExportIssue[] } => {
+  const issues: ExportIssue[] = [];
+  const relationships: string[] = [];
+  const media: ZipEntry[] = [];
+  const footnotes: string[] = [];
+  const orderedLists: number[] = []; // numIds of numbered lists, which each restart at 1
+  const unsupportedMath = new Set<string>();
+  let nextRelationship = 1;
+  let nextBookmark = 0;
+  let nextDrawing = 1;
+  let rowspans = false;
+
+  const textWidth = layout.paperWidth - layout.marginLeft - layout.marginRight;
+
+  const relationship = (type: string, target: string, external = false) => {
+    const id = `rId${nextRelationship++}`;
+    relationships.push(`<Relationship Id="${id}" Type="${RELATIONSHIPS}/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`);
+    return id;
+  };
+  ['styles', 'numbering', 'footnotes'].forEach(part => relationship(part, `${part}.xml`));
+
+  const picture = (inline: Extract<Inline, { kind: 'image' }>) => {
+    const image = readPicture(inline.src);
+    if (!image) {
+      issues.push({ message: `Image ${inline.alt || inline.src.slice(0, 40)} (only PNG, JPEG and GIF images are embedded)` });
+      return '';
+    }
+    const name = `image${media.length + 1}.${image.extension}`;
+    media.push({ path: `word/media/${name}`, data: image.data });
+    const id = relationship('image', `media/${name}`);
+    const scale = Math.min(1, (textWidth * EMU_PER_MM) / (image.width * EMU_PER_PX));
+    const cx = Math.round(image.width * EMU_PER_PX * scale);
+    const cy = Math.round(image.height * EMU_PER_PX * scale);
+    const drawing = nextDrawing++;
+    return `<w:r><w:drawing><wp:inline><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${drawing}" name="${escapeXml(inline.alt || name)}"/>`
+      + '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">'
+      + `<pic:pic><pic:nvPicPr><pic:cNvPr id="${drawing}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>`
+      + `<pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+      + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+      + '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+  };
+
+  const math = (inline: Extract<Inline, { kind: 'math' }>) => {
+    if (!inline.mathml) {
+      // Math KaTeX could not typeset was reported when the document was read
+      return textRun(inline.tex, ['code']);
+    }
+    return `<m:oMath>${mathmlToOmml(inline.mathml, name => unsupportedMath.add(name))}</m:oMath>`;
+  };
+
+  const runs = (list: Inline[], marks: Mark[] = []): string => list.map(inline => {
+    switch (inline.kind) {
+      case 'text':
+        return textRun(inline.text, [...marks, ...inline.marks]);
+      case 'math':
+        return math(inline);
+      case 'link': {
+        const content = runs(inline.children, marks)
+          .replace(/<w:r>(<w:rPr>)?/g, (_, properties) => `<w:r><w:rPr><w:rStyle w:val="Hyperlink"/>${properties ? '' : '</w:rPr>'}`);
+        if (inline.href.startsWith('#')) return `<w:hyperlink w:anchor="${bookmarkName(inline.href.slice(1))}">${content}</w:hyperlink>`;
+        return `<w:hyperlink r:id="${relationship('hyperlink', inline.href, true)}">${content}</w:hyperlink>`;
+      }
+      case 'image':
+        return picture(inline);
+      case 'footnote': {
+        footnotes.push(`<w:footnote w:id="${footnotes.length + 1}"><w:p><w:pPr><w:pStyle w:val="FootnoteText"/></w:pPr>`
+          + `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r><w:r><w:t xml:space="preserve"> </w:t></w:r>${runs(inline.children)}</w:p></w:footnote>`);
+        return `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${footnotes.length}"/></w:r>`;
+      }
+      case 'anchor': {
+        const id = nextBookmark++;
+        return `<w:bookmarkStart w:id="${id}" w:name="${bookmarkName(inline.id)}"/><w:bookmarkEnd w:id="${id}"/>`;
+      }
+      case 'break':
+        return '<w:r><w:br/></w:r>';
+      default:
+        return '';
+    }
+  }).join('');
+
+  const paragraph = (content: string, properties = '') =>
+    `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+
+  const justification = (align?: string) =>
+    align === 'center' ? '<w:jc w:val="center"/>' : align === 'right' ? '<w:jc w:val="right"/>' : align === 'justify' ? '<w:jc w:val="both"/>' : '';
+
+  const cell = (value: TableCell) => {
+    if (value.rowspan > 1) rowspans = true;
+    const span = value.colspan > 1 ? `<w:gridSpan w:val="${value.colspan}"/>` : '';
+    return `<w:tc><w:tcPr>${span}</w:tcPr>${paragraph(runs(value.content), justification(value.align))}</w:tc>`;
+  };
+
+  const table = (rows: TableCell[][]) => {
+    const width = Math.max(...rows.map(row => row.reduce((total, value) => total + value.colspan, 0)));
+    const column = Math.floor(twips(textWidth) / width);
+    return '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>'
+      + `<w:tblGrid>${`<w:gridCol w:w="${column}"/>`.repeat(width)}</w:tblGrid>`
+      + rows.map(row => `<w:tr>${row.map(cell).join('')}</w:tr>`).join('')
+      + '</w:tbl>';
+  };
+
+  // `level` is the list nesting depth; `item` numbers a paragraph that starts a list item
+  const blocks = (list: Block[], level = 0, item?: { numId: number }): string => list.map(block => {
+    switch (block.kind) {
+      case 'heading':
+        return paragraph(runs(block.content), `<w:pStyle w:val="Heading${Math.min(block.level, 6)}"/>`);
+      case 'paragraph': {
+        const content = block.content.map(inline => {
+          if (inline.kind !== 'math' || !inline.display) return runs([inline]);
+          const equation = math(inline);
+          return equation.startsWith('<m:oMath>') ? `<m:oMathPara>${equation}</m:oMathPara>` : equation;
+        }).join('');
+        const properties = item
+          ? `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${Math.min(level - 1, 8)}"/><w:numId w:val="${item.numId}"/></w:numPr>`
+          : level > 0 ? `<w:ind w:left="${720 * Math.min(level, 9)}"/>` : '';
+        return paragraph(content, properties + justification(block.align));
+      }
+      case 'list': {
+        let numId = 1; // Bullets share one definition
+        if (block.ordered) {
+          orderedLists.push(orderedLists.length + 2);
+          numId = orderedLists[orderedLists.length - 1];
+        }
+        // The first paragraph of an item carries its number; the rest are indented under it
+        return block.items.map(item => {
+          const [first, ...rest] = item;
+          const head = first?.kind === 'paragraph'
+            ? blocks([first], level + 1, { numId })
+            : paragraph('', `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${Math.min(level, 8)}"/><w:numId w:val="${numId}"/></w:numPr>`) + (first ? blocks([first], level + 1) : '');
+          return head + blocks(rest, level + 1);
+        }).join('');
+      }
+      case 'table':
+        return block.rows.length > 0 ? table(block.rows) : '';
+      case 'code':
+        return block.text.split('\n').map(line => paragraph(textRun(line, []), '<w:pStyle w:val="Code"/>')).join('');
+      case 'quote':
+        return blocks(block.blocks, level).replace(/<w:p>(<w:pPr>)?/g, (_, properties) => `<w:p><w:pPr><w:pStyle w:val="Quote"/>${properties ? '' : '</w:pPr>'}`);
+      default:
+        return '';
+    }
+  }).join('');
+
+  let body = blocks(document.blocks);
+  // A table cannot end the body: Word needs a paragraph after it
+  if (!body || body.endsWith('</w:tbl>')) body += '<w:p/>';
+  const section = `<w:sectPr><w:pgSz w:w="${twips(layout.paperWidth)}" w:h="${twips(layout.paperHeight)}"/>`
+    + `<w:pgMar w:top="${twips(layout.marginTop)}" w:right="${twips(layout.marginRight)}" w:bottom="${twips(layout.marginBottom)}" w:left="${twips(layout.marginLeft)}" w:header="709" w:footer="709" w:gutter="0"/>`
+    + (layout.columns > 1 ? `<w:cols w:num="${layout.columns}" w:space="425"/>` : '')
+    + '</w:sectPr>';
+
+  if (unsupportedMath.size > 0) {
+    issues.push({ message: `Math elements written as plain text in equations: ${Array.from(unsupportedMath).join(', ')}` });
+  }
+  if (rowspans) issues.push({ message: 'Cells spanning rows (\\multirow) are kept in their first row only' });
+
+  const level = (ilvl: number, format: string, text: string) =>
+    `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>`
+    + `<w:pPr><w:ind w:left="${720 * (ilvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+  const BULLETS = ['•', '–', '*', '·'];
+  const ORDERED: [string, string][] = [['decimal', '%1.'], ['lowerLetter', '(%2)'], ['lowerRoman', '%3.'], ['upperLetter', '%4.']];
+  const levels = (make: (ilvl: number) => string) => Array.from({ length: 9 }, (_, ilvl) => make(ilvl)).join('');
+  const numbering = XML_HEADER + `<w:numbering ${NAMESPACES}>`
+    + `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(ilvl => level(ilvl, 'bullet', BULLETS[ilvl % 4]))}</w:abstractNum>`
+    + `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(ilvl => {
+      const [format, text] = ORDERED[ilvl % 4];
+      return level(ilvl, format, text.replace(/\d/, String(ilvl + 1)));
+    })}</w:abstractNum>`
+    + '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>'
+    + orderedLists.map(numId => `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/>${levels(ilvl => `<w:lvlOverride w:ilvl="${ilvl}"><w:startOverride w:val="1"/></w:lvlOverride>`)}</w:num>`).join('')
+    + '</w:numbering>';
+
+  const style = (type: string, id: string, name: string, body: string, extra = '') =>
+    `<w:style w:type="${type}" w:styleId="${id}"${extra}><w:name w:val="${name}"/>${body}</w:style>`;
+  const HEADING_SIZES = [1.6, 1.4, 1.2, 1.1, 1, 1];
+  const size = (factor: number) => Math.round(layout.fontSize * 2 * factor);
+  const styles = XML_HEADER + `<w:styles ${NAMESPACES}>`
+    + `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="${size(1)}"/><w:szCs w:val="${size(1)}"/></w:rPr></w:rPrDefault>`
+    + '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + style('paragraph', 'Normal', 'Normal', '<w:qFormat/>', ' w:default="1"')
+    + HEADING_SIZES.map((factor, index) => style('paragraph', `Heading${index + 1}`, `heading ${index + 1}`,
+      `<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>`
+      + `<w:rPr><w:b/>${index >= 4 ? '<w:i/>' : ''}<w:sz w:val="${size(factor)}"/><w:szCs w:val="${size(factor)}"/></w:rPr>`)).join('')
+    + style('character', 'Hyperlink', 'Hyperlink', '<w:rPr><w:color w:val="1D4ED8"/><w:u w:val="single"/></w:rPr>')
+    + style('paragraph', 'FootnoteText', 'footnote text', `<w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:sz w:val="${size(0.8)}"/></w:rPr>`)
+    + style('character', 'FootnoteReference', 'footnote reference', '<w:rPr><w:vertAlign w:val="superscript"/></w:rPr>')
+    + style('paragraph', 'ListParagraph', 'List Paragraph', '<w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr>')
+    + style('paragraph', 'Code', 'Code', `<w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="${size(0.9)}"/></w:rPr>`)
+    + style('paragraph', 'Quote', 'Quote', '<w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720" w:right="720"/></w:pPr>')
+    + style('table', 'TableGrid', 'Table Grid', '<w:tblPr><w:tblBorders>'
+      + ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`).join('')
+      + '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr>')
+    + '</w:styles>';
+
+  const footnotesXml = XML_HEADER + `<w:footnotes ${NAMESPACES}>`
+    + '<w:footnote w:type="separator" w:id="-1"><w:p><w:pPr><w:spacing w:after="0"/></w:pPr><w:r><w:separator/></w:r></w:p></w:footnote>'
+    + '<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:pPr><w:spacing w:after="0"/></w:pPr><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>'
+    + footnotes.join('')
+    + '</w:footnotes>';
+
+  const contentTypes = XML_HEADER + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + Object.entries(IMAGE_TYPES).map(([extension, type]) => `<Default Extension="${extension}" ContentType="${type}"/>`).join('')
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+    + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+    + '<Override PartName="/word/footnotes.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '</Types>';
+
+  const packageRelationships = XML_HEADER + `<Relationships xmlns="${PACKAGE_RELATIONSHIPS}">`
+    + `<Relationship Id="rId1" Type="${RELATIONSHIPS}/officeDocument" Target="word/document.xml"/>`
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+    + '</Relationships>';
+
+  const core = XML_HEADER + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" '
+    + 'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + `<dc:title>${escapeXml(title)}</dc:title>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>`
+    + '</cp:coreProperties>';
+
+  const file = createZip([
+    { path: '[Content_Types].xml', data: contentTypes },
+    { path: '_rels/.rels', data: packageRelationships },
+    { path: 'docProps/core.xml', data: core },
+    { path: 'word/document.xml', data: XML_HEADER + `<w:document ${NAMESPACES}><w:body>${body}${section}</w:body></w:document>` },
+    { path: 'word/_rels/document.xml.rels', data: XML_HEADER + `<Relationships xmlns="${PACKAGE_RELATIONSHIPS}">${relationships.join('')}</Relationships>` },
+    { path: 'word/styles.xml', data: styles },
+    { path: 'word/numbering.xml', data: numbering },
+    { path: 'word/footnotes.xml', data: footnotesXml },
+    ...media,
+  ]);
+  return { file, issues };
+};
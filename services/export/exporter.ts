@@ -0,0 +1,81 @@
+// --- Export ---
+// Compiles the project with the preview renderer and writes the result as a standalone
+// HTML page, Markdown or a Word document. What a format could not carry over comes back
+// as Logs tab entries, next to the compile's own warnings, so the report points at the
+// source lines involved.
+
+import { Project, LogEntry } from '../../types';
+import { compileProject } from '../latex/project';
+import { listProjectFiles } from '../latex/imports';
+import { ExportIssue, readDocument } from './model';
+import { toMarkdown } from './markdown';
+import { toDocx } from './docx';
+import { toStandaloneHtml } from './html';
+
+export type ExportFormat = 'html' | 'markdown' | 'docx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { name: string; extension: string; type: string }> = {
+  html: { name: 'HTML', extension: 'html', type: 'text/html' },
+  markdown: { name: 'Markdown', extension: 'md', type: 'text/markdown' },
+  docx: { name: 'Word', extension: 'docx', type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+};
+
+export interface ExportResult {
+  file: Blob;
+  fileName: string;
+  logs: LogEntry[];
+}
+
+// Returns null when the project has no LaTeX file to compile
+export const exportProject = async (project: Project, preferredFileId: string, format: ExportFormat): Promise<ExportResult | null> => {
+  const output = compileProject(project.root, preferredFileId);
+  if (!output) return null;
+  const title = project.name || 'document';
+  const { extension, type } = EXPORT_FORMATS[format];
+
+  let file: Blob;
+  let issues: ExportIssue[];
+  if (format === 'html') {
+    const result = await toStandaloneHtml(output.html, output.layout, title);
+    file = new Blob([result.text], { type });
+    issues = result.issues;
+  } else if (format === 'markdown') {
+    const document = readDocument(output.html);
+    const result = toMarkdown(document);
+    file = new Blob([result.text], { type });
+    issues = [...document.issues, ...result.issues];
+  } else {
+    const document = readDocument(output.html);
+    const result = toDocx(document, output.layout, title);
+    file = new Blob([result.file], { type });
+    issues = [...document.issues, ...result.issues];
+  }
+
+  const paths: Record<string, string> = {};
+  listProjectFiles(project.root).forEach(({ path, file }) => { paths[file.id] = path; });
+  const now = Date.now();
+  const fileName = `${title}.${extension}`;
+  const logs: LogEntry[] = [
+    ...output.logs.filter(log => log.type !== 'info'),
+    ...issues.map((issue, index): LogEntry => ({
+      id: `${now}-export-${index}`,
+      type: 'warning',
+      message: `Not converted: ${issue.message}`,
+      file: issue.location ? paths[issue.location.fileId] : undefined,
+      fileId: issue.location?.fileId,
+      line: issue.location?.line,
+      category: 'export',
+      timestamp: now,
+    })),
+  ];
+  logs.push({
+    id: `${now}-export-summary`,
+    type: 'info',
+    message: issues.length === 0
+      ? `Exported ${fileName}`
+      : `Exported ${fileName}; ${issues.length} construct${issues.length === 1 ? '' : 's'} could not be converted`,
+    category: 'export',
+    timestamp: now,
+  });
+  return { file, fileName, logs };
+};
@@ -0,0 +1,105 @@
+// --- Standalone HTML export ---
+// One HTML file that renders like the preview with no network access: the app's styles,
+// the KaTeX stylesheet with its fonts as data URLs, and every image as a data URL. The
+// document is a single flowing page the width of the text block, with the footnotes
+// gathered at its end.
+
+import { PageLayout } from '../../types';
+import { PAGE_BODY_CLASS } from '../paginator';
+import { ExportIssue, locate } from './model';
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toDataUrl = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  const blob = await response.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// The KaTeX stylesheet, keeping only the woff2 font of each face, inlined
+const inlineKatexCss = async (href: string) => {
+  const response = await fetch(href);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  const css = (await response.text()).replace(/src:\s*(url\([^)]+\.woff2\)\s*format\(["']woff2["']\))[^;}]*/g, 'src:$1');
+  const urls = Array.from(new Set(Array.from(css.matchAll(/url\(["']?([^"')]+\.woff2)["']?\)/g), match => match[1])));
+  const fonts = await Promise.all(urls.map(async url => [url, await toDataUrl(new URL(url, href).href)] as const));
+  return fonts.reduce((result, [url, data]) => result.split(url).join(data), css);
+};
+
+export const toStandaloneHtml = async (html: string, layout: PageLayout, title: string): Promise<{ text: string; issues: ExportIssue[] }> => {
+  const issues: ExportIssue[] = [];
+  const page = new DOMParser().parseFromString(`<main>${html}</main>`, 'text/html');
+  const main = page.querySelector('main')!;
+
+  // Footnotes: their markers already link to them (services/latex/notes.ts), so the
+  // texts only need to be gathered under the content, as the paginator does per page
+  const notes = Array.from(main.querySelectorAll<HTMLElement>('[data-footnote]'));
+  if (notes.length > 0) {
+    const area = page.createElement('div');
+    area.className = 'mt-4 text-[0.8em] leading-snug text-justify';
+    area.innerHTML = '<div class="w-2/5 border-t border-black mb-1"></div>';
+    notes.forEach(text => {
+      const note = page.createElement('div');
+      note.id = text.dataset.footnote!;
+      note.className = 'mb-0.5';
+      note.innerHTML = text.innerHTML;
+      area.appendChild(note);
+      text.remove();
+    });
+    main.appendChild(area);
+  }
+
+  // Output that only the paginated preview reads, and the editor's source mapping
+  main.querySelectorAll('[hidden], [data-notes]').forEach(element => element.remove());
+  main.querySelectorAll('[data-src-file], [data-src-line]').forEach(element => {
+    element.removeAttribute('data-src-file');
+    element.removeAttribute('data-src-line');
+  });
+
+  await Promise.all(Array.from(main.querySelectorAll('img')).map(async image => {
+    const src = image.getAttribute('src') || '';
+    if (!src || src.startsWith('data:')) return;
+    const location = locate(image);
+    try {
+      image.setAttribute('src', await toDataUrl(src));
+    } catch {
+      issues.push({ message: `Image ${src} could not be embedded and is linked instead`, location });
+    }
+  }));
+
+  // The app's own styles carry the Tailwind rules the preview uses
+  const styles = Array.from(document.head.querySelectorAll('style')).map(element => element.outerHTML);
+  const katex = document.head.querySelector<HTMLLinkElement>('link[rel="stylesheet"][href*="katex"]');
+  if (katex && main.querySelector('.katex')) {
+    try {
+      styles.push(`<style>${await inlineKatexCss(katex.href)}</style>`);
+    } catch {
+      styles.push(`<link rel="stylesheet" href="${katex.href}">`);
+      issues.push({ message: 'KaTeX fonts could not be embedded; math needs a network connection to display' });
+    }
+  }
+
+  const textWidth = layout.paperWidth - layout.marginLeft - layout.marginRight;
+  main.className = PAGE_BODY_CLASS;
+  main.setAttribute('style', `max-width: ${textWidth}mm; margin: 3rem auto; padding: 0 1rem; font-size: ${layout.fontSize}pt;`);
+  const text = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+${styles.join('\n')}
+</head>
+<body style="background: white;">
+${main.outerHTML}
+</body>
+</html>
+`;
+  return { text, issues };
+};
@@ -0,0 +1,109 @@
+// --- Markdown export ---
+// Writes the export model as GitHub-flavoured Markdown with `$`/`$$` math, as read by
+// most Markdown editors with KaTeX or MathJax. Footnotes use the `[^1]` syntax.
+
+import { Block, Inline, TableCell, ExportDocument, ExportIssue } from './model';
+
+// Characters with a meaning in Markdown, and `$`, which would start math
+const escapeText = (text: string) => text.replace(/[\\`*_[\]<>$]/g, '\\$&');
+
+// Lines that would read as a heading, list item or quote
+const escapeLineStart = (text: string) => text.replace(/^(\s*)(#{1,6}\s|[-+>]\s|\d+[.)]\s)/gm, '$1\\$2');
+
+const codeSpan = (text: string) => {
+  const fence = '`'.repeat(Math.max(0, ...Array.from(text.matchAll(/`+/g), match => match[0].length)) + 1);
+  return fence.length > 1 || text.startsWith('`') || text.endsWith('`') ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+};
+
+export const toMarkdown = (document: ExportDocument): { text: string; issues: ExportIssue[] } => {
+  const issues: ExportIssue[] = [];
+  const footnotes: string[] = [];
+  let mergedCells = false;
+
+  const text = (inline: Extract<Inline, { kind: 'text' }>) => {
+    if (inline.marks.includes('code')) return codeSpan(inline.text);
+    // Emphasis markers cannot sit next to spaces, so those stay outside them
+    const [, before, core, after] = inline.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    if (!core) return inline.text;
+    let result = escapeText(core);
+    if (inline.marks.includes('italic')) result = `*${result}*`;
+    if (inline.marks.includes('bold')) result = `**${result}**`;
+    if (inline.marks.includes('underline')) result = `<u>${result}</u>`;
+    if (inline.marks.includes('sup')) result = `<sup>${result}</sup>`;
+    if (inline.marks.includes('sub')) result = `<sub>${result}</sub>`;
+    return before + result + after;
+  };
+
+  const inlines = (list: Inline[], lineBreak = '\\\n'): string => list.map(inline => {
+    switch (inline.kind) {
+      case 'text':
+        return text(inline);
+      case 'math':
+        return inline.display ? `\n$$\n${inline.tex}\n$$\n` : `$${inline.tex.replace(/\s*\n\s*/g, ' ')}$`;
+      case 'link':
+        // Internal links point at numbers and labels the reader can already see
+        return inline.href.startsWith('#') ? inlines(inline.children, lineBreak) : `[${inlines(inline.children, lineBreak)}](${inline.href.replace(/[()\s]/g, encodeURIComponent)})`;
+      case 'image':
+        return `![${escapeText(inline.alt)}](${inline.src})`;
+      case 'footnote':
+        footnotes.push(inlines(inline.children, ' '));
+        return `[^${footnotes.length}]`;
+      case 'break':
+        return lineBreak;
+      default:
+        return '';
+    }
+  }).join('');
+
+  const cell = (value: TableCell) => {
+    if (value.colspan > 1 || value.rowspan > 1) mergedCells = true;
+    return inlines(value.content, '<br>').replace(/\|/g, '\\|').replace(/\n/g, ' ').trim() || ' ';
+  };
+
+  const table = (rows: TableCell[][]) => {
+    const width = Math.max(...rows.map(row => row.reduce((total, value) => total + value.colspan, 0)));
+    const line = (row: TableCell[]) => {
+      const cells = row.flatMap(value => [cell(value), ...Array(value.colspan - 1).fill(' ')]);
+      while (cells.length < width) cells.push(' ');
+      return `| ${cells.join(' | ')} |`;
+    };
+    const rule = Array.from({ length: width }, (_, index) => {
+      const align = rows[0][index]?.align;
+      return align === 'center' ? ':---:' : align === 'right' ? '---:' : '---';
+    });
+    return [line(rows[0]), `| ${rule.join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+  };
+
+  const indent = (value: string, by: string) => value.split('\n').map(line => line ? by + line : line).join('\n');
+
+  const blocks = (list: Block[]): string => list.map(block => {
+    switch (block.kind) {
+      case 'heading':
+        return `${'#'.repeat(Math.min(block.level, 6))} ${inlines(block.content, ' ')}`;
+      case 'paragraph': {
+        const paragraph = inlines(block.content).trim();
+        return block.content.some(inline => inline.kind === 'math' && inline.display) ? paragraph : escapeLineStart(paragraph);
+      }
+      case 'list':
+        return block.items.map((item, index) => {
+          const marker = block.ordered ? `${index + 1}. ` : '- ';
+          return marker + indent(blocks(item), ' '.repeat(marker.length)).trimStart();
+        }).join('\n');
+      case 'table':
+        return block.rows.length > 0 ? table(block.rows) : '';
+      case 'code': {
+        const fence = '`'.repeat(Math.max(3, ...Array.from(block.text.matchAll(/`{3,}/g), match => match[0].length + 1)));
+        return `${fence}\n${block.text}\n${fence}`;
+      }
+      case 'quote':
+        return blocks(block.blocks).split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n\n');
+
+  let markdown = blocks(document.blocks);
+  if (footnotes.length > 0) markdown += '\n\n' + footnotes.map((note, index) => `[^${index + 1}]: ${note.trim()}`).join('\n');
+  if (mergedCells) issues.push({ message: 'Merged table cells (\\multicolumn, \\multirow) are split into single cells in Markdown' });
+  return { text: markdown + '\n', issues };
+};
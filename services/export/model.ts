@@ -0,0 +1,246 @@
+// --- Export model ---
+// The exporters work from the preview renderer's HTML rather than from the LaTeX source,
+// so everything the preview understands (macros, references, numbering, bibliographies)
+// arrives already resolved. readDocument boils that HTML down to the blocks and inline
+// runs that Markdown and Word can express, and reports what it had to leave out along
+// with the source line it came from.
+
+import { SourceLocation } from '../../types';
+
+export type Mark = 'bold' | 'italic' | 'code' | 'underline' | 'smallcaps' | 'sup' | 'sub';
+
+export type Inline =
+  | { kind: 'text'; text: string; marks: Mark[] }
+  | { kind: 'math'; tex: string; mathml: Element | null; display: boolean }
+  | { kind: 'link'; href: string; children: Inline[] } // href is `#anchor` for internal links
+  | { kind: 'image'; src: string; alt: string }
+  | { kind: 'footnote'; children: Inline[] }
+  | { kind: 'anchor'; id: string } // Target of internal links
+  | { kind: 'break' };
+
+export type Align = 'left' | 'center' | 'right' | 'justify';
+
+export interface TableCell {
+  content: Inline[];
+  align?: Align;
+  colspan: number;
+  rowspan: number;
+}
+
+export type Block =
+  | { kind: 'heading'; level: number; content: Inline[] } // Level 1 is the top level in the document
+  | { kind: 'paragraph'; content: Inline[]; align?: Align } // Display math is a paragraph of its own
+  | { kind: 'list'; ordered: boolean; items: Block[][] }
+  | { kind: 'table'; rows: TableCell[][] }
+  | { kind: 'code'; text: string }
+  | { kind: 'quote'; blocks: Block[] };
+
+// Something an export could not carry over
+export interface ExportIssue {
+  message: string;
+  location?: SourceLocation;
+}
+
+export interface ExportDocument {
+  blocks: Block[];
+  issues: ExportIssue[];
+}
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'ASIDE', 'NAV', 'MAIN', 'CENTER', 'FIGURE', 'FIGCAPTION',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'DL', 'DT', 'DD', 'TABLE', 'PRE', 'BLOCKQUOTE', 'HR',
+]);
+const GRAPHICS_TAGS = new Set(['SVG', 'CANVAS', 'IFRAME', 'VIDEO', 'OBJECT', 'EMBED']);
+const TAG_MARKS: Record<string, Mark> = {
+  EM: 'italic', I: 'italic', STRONG: 'bold', B: 'bold', CODE: 'code', TT: 'code', KBD: 'code', SAMP: 'code',
+  U: 'underline', SUP: 'sup', SUB: 'sub',
+};
+const CLASS_MARKS: [string, Mark][] = [
+  ['font-bold', 'bold'], ['font-semibold', 'bold'], ['italic', 'italic'], ['font-mono', 'code'], ['underline', 'underline'], ['small-caps', 'smallcaps'],
+];
+
+// Where an element came from: the renderer tags top-level blocks with their source line
+export const locate = (element: Element): SourceLocation | undefined => {
+  const origin = element.closest('[data-src-file]');
+  return origin ? { fileId: origin.getAttribute('data-src-file')!, line: Number(origin.getAttribute('data-src-line')) } : undefined;
+};
+
+// Math keeps the TeX KaTeX typeset it from, for Markdown, and its MathML, for Word
+const readMath = (element: Element) => ({
+  tex: (element.querySelector('annotation[encoding="application/x-tex"]')?.textContent || element.textContent || '').trim(),
+  mathml: element.querySelector('math'),
+});
+
+const alignOf = (element: Element): Align | undefined => {
+  const style = (element as HTMLElement).style?.textAlign;
+  if (style === 'center' || style === 'right' || style === 'justify' || style === 'left') return style;
+  if (element.classList.contains('text-center')) return 'center';
+  if (element.classList.contains('text-right')) return 'right';
+  if (element.classList.contains('text-justify')) return 'justify';
+  return undefined;
+};
+
+const marksOf = (element: Element): Mark[] => {
+  const marks: Mark[] = [];
+  if (TAG_MARKS[element.tagName]) marks.push(TAG_MARKS[element.tagName]);
+  CLASS_MARKS.forEach(([className, mark]) => { if (element.classList.contains(className)) marks.push(mark); });
+  const style = (element as HTMLElement).style;
+  if (style?.fontWeight === 'bold' || Number(style?.fontWeight) >= 600) marks.push('bold');
+  if (style?.fontStyle === 'italic') marks.push('italic');
+  if (style?.fontVariant === 'small-caps') marks.push('smallcaps');
+  return marks;
+};
+
+const hasText = (inlines: Inline[]): boolean =>
+  inlines.some(inline => inline.kind === 'text' ? inline.text.trim() !== '' : inline.kind === 'link' ? hasText(inline.children) : inline.kind !== 'anchor' && inline.kind !== 'break');
+
+const trimText = (inline: Inline, trim: (text: string) => string): Inline =>
+  inline.kind === 'text' ? { ...inline, text: trim(inline.text) } : inline;
+
+// Drops the spaces left at the start and end of a paragraph by the source's line breaks
+const trimInlines = (inlines: Inline[]) => {
+  const result = inlines.slice();
+  const first = result.findIndex(inline => inline.kind !== 'anchor');
+  if (first !== -1) result[first] = trimText(result[first], text => text.trimStart());
+  if (result.length > 0) result[result.length - 1] = trimText(result[result.length - 1], text => text.trimEnd());
+  return result.filter(inline => inline.kind !== 'text' || inline.text !== '');
+};
+
+export const readDocument = (html: string): ExportDocument => {
+  const issues: ExportIssue[] = [];
+  const reported = new Set<string>();
+  const report = (message: string, element: Element) => {
+    const location = locate(element);
+    const key = `${location?.fileId}:${location?.line}:${message}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    issues.push({ message, location });
+  };
+
+  // Hidden output only matters to the paginated preview, except for footnote texts
+  const skipped = (element: Element) =>
+    (element.hasAttribute('hidden') && !element.hasAttribute('data-footnote'))
+    || element.hasAttribute('data-notes')
+    || element.classList.contains('footnote-mark')
+    || element.classList.contains('katex-mathml');
+
+  const readInlines = (node: Node, marks: Mark[]): Inline[] => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent || '').replace(/[ \t\n\r\f]+/g, ' ');
+      return text ? [{ kind: 'text', text, marks }] : [];
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return [];
+    const element = node as Element;
+    if (skipped(element)) return [];
+    const anchor: Inline[] = element.id ? [{ kind: 'anchor', id: element.id }] : [];
+
+    if (element.hasAttribute('data-footnote')) {
+      // `<sup>1</sup>&nbsp;text`: the number is Word's and Markdown's to set
+      const children = Array.from(element.childNodes);
+      if ((children[0] as Element | undefined)?.tagName === 'SUP') children.shift();
+      return [{ kind: 'footnote', children: trimInlines(children.flatMap(child => readInlines(child, []))) }];
+    }
+    if (element.classList.contains('katex-error')) {
+      report(`Math KaTeX could not typeset: ${element.getAttribute('title') || element.textContent}`, element);
+      return [...anchor, { kind: 'math', tex: element.textContent || '', mathml: null, display: false }];
+    }
+    if (element.classList.contains('katex')) return [...anchor, { kind: 'math', ...readMath(element), display: false }];
+    if (GRAPHICS_TAGS.has(element.tagName.toUpperCase())) {
+      report(`Drawing (${element.tagName.toLowerCase()})`, element);
+      return anchor;
+    }
+    if (element.tagName === 'BR') return [{ kind: 'break' }];
+    if (element.tagName === 'IMG') {
+      return [...anchor, { kind: 'image', src: element.getAttribute('src') || '', alt: element.getAttribute('alt') || '' }];
+    }
+
+    const inner = [...marks, ...marksOf(element)];
+    const children = Array.from(element.childNodes).flatMap(child => readInlines(child, inner));
+    if (element.tagName === 'A' && element.getAttribute('href')) {
+      return [...anchor, { kind: 'link', href: element.getAttribute('href')!, children }];
+    }
+    // Blocks inside inline content (a minipage in a table cell ...) become lines of their own
+    if (BLOCK_TAGS.has(element.tagName) && hasText(children)) return [...anchor, ...children, { kind: 'break' }];
+    return [...anchor, ...children];
+  };
+
+  const readCell = (cell: Element): TableCell => ({
+    content: trimInlines(readInlines(cell, [])).filter((inline, index, all) => inline.kind !== 'break' || index < all.length - 1),
+    align: alignOf(cell),
+    colspan: Number(cell.getAttribute('colspan')) || 1,
+    rowspan: Number(cell.getAttribute('rowspan')) || 1,
+  });
+
+  const readBlock = (element: Element): Block[] => {
+    const tag = element.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      return [{ kind: 'heading', level: Number(tag[1]), content: trimInlines(readInlines(element, [])) }];
+    }
+    if (element.classList.contains('katex-display')) {
+      return [{ kind: 'paragraph', content: [{ kind: 'math', ...readMath(element), display: true }], align: 'center' }];
+    }
+    if (tag === 'UL' || tag === 'OL') {
+      const items = Array.from(element.children).filter(child => child.tagName === 'LI').map(item => readBlocks(item));
+      return [{ kind: 'list', ordered: tag === 'OL', items }];
+    }
+    if (tag === 'TABLE') {
+      const rows = Array.from(element.querySelectorAll('tr'))
+        .filter(row => row.closest('table') === element)
+        .map(row => Array.from(row.children).filter(cell => cell.tagName === 'TD' || cell.tagName === 'TH').map(readCell));
+      return [{ kind: 'table', rows }];
+    }
+    if (tag === 'PRE') return [{ kind: 'code', text: (element.textContent || '').replace(/\n$/, '') }];
+    if (tag === 'BLOCKQUOTE') return [{ kind: 'quote', blocks: readBlocks(element) }];
+    if (tag === 'HR') return [];
+    // Ids on containers (a float, a theorem) are link targets for the first thing in them
+    return readBlocks(element, alignOf(element), element.id ? [{ kind: 'anchor', id: element.id }] : []);
+  };
+
+  // Block children in order; runs of inline content between them become paragraphs.
+  // Anchors with no text of their own go to the next paragraph or heading.
+  const readBlocks = (parent: Element, align?: Align, anchors: Inline[] = []): Block[] => {
+    const blocks: Block[] = [];
+    let pending = anchors;
+    let inlines: Inline[] = [];
+    const add = (block: Block) => {
+      if (block.kind === 'paragraph' || block.kind === 'heading') {
+        block.content.unshift(...pending);
+        pending = [];
+      }
+      blocks.push(block);
+    };
+    const flush = () => {
+      if (hasText(inlines)) add({ kind: 'paragraph', content: trimInlines(inlines), align });
+      else pending = [...pending, ...inlines.filter(inline => inline.kind === 'anchor')];
+      inlines = [];
+    };
+    parent.childNodes.forEach(child => {
+      const element = child.nodeType === Node.ELEMENT_NODE ? child as Element : null;
+      if (element && skipped(element)) return;
+      if (element && (BLOCK_TAGS.has(element.tagName) || element.classList.contains('katex-display'))) {
+        flush();
+        readBlock(element).forEach(add);
+      } else {
+        inlines.push(...readInlines(child, []));
+      }
+    });
+    flush();
+    return blocks;
+  };
+
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks = readBlocks(body);
+
+  // The document's top heading level becomes level 1 (sections are <h2> in article)
+  const headings: Extract<Block, { kind: 'heading' }>[] = [];
+  const collect = (list: Block[]) => list.forEach(block => {
+    if (block.kind === 'heading') headings.push(block);
+    if (block.kind === 'list') block.items.forEach(collect);
+    if (block.kind === 'quote') collect(block.blocks);
+  });
+  collect(blocks);
+  const top = Math.min(...headings.map(block => block.level));
+  headings.forEach(block => { block.level -= top - 1; });
+
+  return { blocks, issues };
+};
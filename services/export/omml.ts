@@ -0,0 +1,194 @@
+// --- MathML to OMML ---
+// Word keeps equations as Office Math (OMML). KaTeX writes MathML next to its HTML, so
+// the DOCX export converts that: fractions, scripts, radicals, accents, big operators,
+// delimiters and arrays map onto their OMML counterparts. Elements with no counterpart
+// keep their text and are reported through `unsupported`.
+
+import { escapeXml } from './xml';
+
+// Operators Word sets as n-ary operators with limits
+const NARY = new Set(['∑', '∏', '∐', '∫', '∬', '∭', '∮', '∯', '∰', '⋃', '⋂', '⋁', '⋀', '⨁', '⨂', '⨀', '⨄', '⨆']);
+
+// Operators that end the operand of a big operator: \sum_i a_i + b sums only a_i
+const TERM_ENDS = new Set(['+', '−', '-', '±', '∓', '=', '≠', '<', '>', '≤', '≥', '≈', '≡', '∼', '→', ',', ';']);
+
+// Accents as KaTeX writes them, and the combining characters Word expects
+const ACCENTS: Record<string, string> = {
+  '^': '̂', 'ˆ': '̂', '~': '̃', '˜': '̃', 'ˉ': '̅', '¯': '̅', '‾': '̅',
+  '→': '⃗', '⃗': '⃗', '˙': '̇', '¨': '̈', 'ˇ': '̌', '˘': '̆', '´': '́', '`': '̀', '˚': '̊',
+};
+
+const STYLES: Record<string, string> = {
+  normal: '<m:sty m:val="p"/>',
+  bold: '<m:sty m:val="b"/>',
+  italic: '<m:sty m:val="i"/>',
+  'bold-italic': '<m:sty m:val="bi"/>',
+  'double-struck': '<m:scr m:val="double-struck"/>',
+  fraktur: '<m:scr m:val="fraktur"/>',
+  'bold-fraktur': '<m:scr m:val="fraktur"/><m:sty m:val="b"/>',
+  script: '<m:scr m:val="script"/>',
+  'bold-script': '<m:scr m:val="script"/><m:sty m:val="b"/>',
+  'sans-serif': '<m:scr m:val="sans-serif"/><m:sty m:val="p"/>',
+  monospace: '<m:scr m:val="monospace"/><m:sty m:val="p"/>',
+};
+
+const run = (text: string, properties = '') =>
+  text ? `<m:r>${properties ? `<m:rPr>${properties}</m:rPr>` : ''}<m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>` : '';
+
+const children = (element: Element) => Array.from(element.children);
+
+export const mathmlToOmml = (math: Element, unsupported: (name: string) => void): string => {
+  const text = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+  const tokenRun = (element: Element) => {
+    const value = element.localName === 'mtext' ? (element.textContent || '').replace(/\s+/g, ' ') : text(element);
+    if (element.localName === 'mtext') return run(value, '<m:nor/>');
+    const variant = element.getAttribute('mathvariant');
+    // Multi-letter identifiers (\sin, \operatorname) are upright, as in MathML
+    const style = variant ? STYLES[variant] || '' : element.localName === 'mi' && [...value].length > 1 ? STYLES.normal : '';
+    return run(value, style);
+  };
+
+  const arg = (element: Element | undefined) => (element ? convert(element) : '');
+
+  const baseOperator = (element: Element) => {
+    const base = element.firstElementChild;
+    return base?.localName === 'mo' && NARY.has(text(base)) ? text(base) : null;
+  };
+
+  // A big operator with its limits, applied to the elements after it up to the end of the term
+  const nary = (element: Element, operand: Element[]) => {
+    const [base, first, second] = children(element);
+    const name = element.localName;
+    const under = name === 'munder' || name === 'munderover';
+    const sub = name === 'mo' ? undefined : name === 'msup' || name === 'mover' ? undefined : first;
+    const sup = name === 'msup' || name === 'mover' ? first : name === 'msubsup' || name === 'munderover' ? second : undefined;
+    const chr = name === 'mo' ? text(element) : text(base);
+    const properties = [
+      `<m:chr m:val="${escapeXml(chr)}"/>`,
+      `<m:limLoc m:val="${under ? 'undOvr' : 'subSup'}"/>`,
+      sub ? '' : '<m:subHide m:val="1"/>',
+      sup ? '' : '<m:supHide m:val="1"/>',
+    ].join('');
+    return `<m:nary><m:naryPr>${properties}</m:naryPr><m:sub>${arg(sub)}</m:sub><m:sup>${arg(sup)}</m:sup><m:e>${sequence(operand)}</m:e></m:nary>`;
+  };
+
+  const isNary = (element: Element) =>
+    (element.localName === 'mo' && NARY.has(text(element)))
+    || (['msub', 'msup', 'msubsup', 'munder', 'mover', 'munderover'].includes(element.localName) && baseOperator(element) !== null);
+
+  const isFence = (element: Element | undefined) => element?.localName === 'mo' && element.getAttribute('fence') === 'true';
+
+  // A row of elements; \left ... \right pairs become delimiters
+  const sequence = (list: Element[]): string => {
+    if (list.length >= 2 && isFence(list[0]) && isFence(list[list.length - 1])) {
+      const begin = escapeXml(text(list[0]));
+      const end = escapeXml(text(list[list.length - 1]));
+      return `<m:d><m:dPr><m:begChr m:val="${begin}"/><m:endChr m:val="${end}"/></m:dPr><m:e>${sequence(list.slice(1, -1))}</m:e></m:d>`;
+    }
+    let result = '';
+    for (let i = 0; i < list.length; i++) {
+      if (isNary(list[i])) {
+        let end = i + 1;
+        while (end < list.length && !(list[end].localName === 'mo' && TERM_ENDS.has(text(list[end])))) end++;
+        result += nary(list[i], list.slice(i + 1, end));
+        i = end - 1;
+      } else {
+        result += convert(list[i]);
+      }
+    }
+    return result;
+  };
+
+  // KaTeX lays out a numbered equation as a table: empty cell, equation, empty cell, number
+  const taggedRows = (table: Element) => {
+    const rows = children(table).filter(row => row.localName === 'mtr' || row.localName === 'mlabeledtr');
+    const tagged = rows.every(row => {
+      const cells = children(row);
+      return cells.length === 4 && text(cells[0]) === '' && text(cells[2]) === '';
+    });
+    return tagged ? rows : null;
+  };
+
+  const table = (element: Element) => {
+    const tagged = taggedRows(element);
+    if (tagged) {
+      // Word sets what follows # as the equation number
+      const rows = tagged.map(row => {
+        const [, equation, , tag] = children(row);
+        return `<m:e>${sequence(children(equation))}${text(tag) ? run(`#${text(tag)}`) : ''}</m:e>`;
+      });
+      return `<m:eqArr>${rows.join('')}</m:eqArr>`;
+    }
+    const rows = children(element).filter(row => row.localName === 'mtr' || row.localName === 'mlabeledtr').map(row => {
+      const cells = children(row).slice(row.localName === 'mlabeledtr' ? 1 : 0);
+      return `<m:mr>${cells.map(cell => `<m:e>${sequence(children(cell))}</m:e>`).join('')}</m:mr>`;
+    });
+    return `<m:m>${rows.join('')}</m:m>`;
+  };
+
+  const convert = (element: Element): string => {
+    const parts = children(element);
+    switch (element.localName) {
+      case 'math':
+      case 'mrow':
+      case 'mstyle':
+      case 'mpadded':
+      case 'merror':
+        return sequence(parts);
+      case 'semantics':
+        return parts[0] ? convert(parts[0]) : '';
+      case 'annotation':
+      case 'annotation-xml':
+      case 'mphantom':
+        return '';
+      case 'mi':
+      case 'mn':
+      case 'mo':
+      case 'mtext':
+      case 'ms':
+        return tokenRun(element);
+      case 'mspace':
+        return parseFloat(element.getAttribute('width') || '0') >= 0.2 ? run(' ') : '';
+      case 'mfrac': {
+        const thickness = element.getAttribute('linethickness');
+        const noBar = thickness !== null && parseFloat(thickness) === 0;
+        return `<m:f>${noBar ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : ''}<m:num>${arg(parts[0])}</m:num><m:den>${arg(parts[1])}</m:den></m:f>`;
+      }
+      case 'msup':
+        return `<m:sSup><m:e>${arg(parts[0])}</m:e><m:sup>${arg(parts[1])}</m:sup></m:sSup>`;
+      case 'msub':
+        return `<m:sSub><m:e>${arg(parts[0])}</m:e><m:sub>${arg(parts[1])}</m:sub></m:sSub>`;
+      case 'msubsup':
+        return `<m:sSubSup><m:e>${arg(parts[0])}</m:e><m:sub>${arg(parts[1])}</m:sub><m:sup>${arg(parts[2])}</m:sup></m:sSubSup>`;
+      case 'msqrt':
+        return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${sequence(parts)}</m:e></m:rad>`;
+      case 'mroot':
+        return `<m:rad><m:deg>${arg(parts[1])}</m:deg><m:e>${arg(parts[0])}</m:e></m:rad>`;
+      case 'mover': {
+        const accent = parts[1] && parts[1].localName === 'mo' ? text(parts[1]) : '';
+        if (element.getAttribute('accent') === 'true' && accent) {
+          return `<m:acc><m:accPr><m:chr m:val="${escapeXml(ACCENTS[accent] || accent)}"/></m:accPr><m:e>${arg(parts[0])}</m:e></m:acc>`;
+        }
+        if (accent === '⏞') return `<m:groupChr><m:groupChrPr><m:chr m:val="⏞"/><m:pos m:val="top"/><m:vertJc m:val="bot"/></m:groupChrPr><m:e>${arg(parts[0])}</m:e></m:groupChr>`;
+        return `<m:limUpp><m:e>${arg(parts[0])}</m:e><m:lim>${arg(parts[1])}</m:lim></m:limUpp>`;
+      }
+      case 'munder': {
+        const under = parts[1] && parts[1].localName === 'mo' ? text(parts[1]) : '';
+        if (under === '⏟') return `<m:groupChr><m:e>${arg(parts[0])}</m:e></m:groupChr>`;
+        return `<m:limLow><m:e>${arg(parts[0])}</m:e><m:lim>${arg(parts[1])}</m:lim></m:limLow>`;
+      }
+      case 'munderover':
+        return `<m:limUpp><m:e><m:limLow><m:e>${arg(parts[0])}</m:e><m:lim>${arg(parts[1])}</m:lim></m:limLow></m:e><m:lim>${arg(parts[2])}</m:lim></m:limUpp>`;
+      case 'mtable':
+        return table(element);
+      case 'menclose':
+        return `<m:borderBox><m:e>${sequence(parts)}</m:e></m:borderBox>`;
+      default:
+        unsupported(element.localName);
+        return parts.length > 0 ? sequence(parts) : run(text(element));
+    }
+  };
+
+  return convert(math);
+};
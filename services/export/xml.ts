@@ -0,0 +1,11 @@
+// --- XML ---
+// Text for the XML parts of a DOCX package. XML 1.0 has no place for most control
+// characters, so they are dropped rather than escaped.
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
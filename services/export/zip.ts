@@ -0,0 +1,95 @@
+// --- Zip ---
+// Writes a zip archive with every entry stored (no compression), which is all a DOCX
+// package needs: Word reads stored entries as well as deflated ones.
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array | string; // Strings are written as UTF-8
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as zip headers store them
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    return { name, data, crc: crc32(data), offset: 0 };
+  });
+
+  const size = files.reduce((total, file) => total + 30 + file.name.length + file.data.length + 46 + file.name.length, 22);
+  const zip = new Uint8Array(size);
+  const view = new DataView(zip.buffer);
+  let position = 0;
+
+  // Version 2.0, flag bit 11 (UTF-8 names), method 0 (stored)
+  const writeHeader = (signature: number, file: typeof files[number], central: boolean) => {
+    view.setUint32(position, signature, true);
+    position += 4;
+    if (central) {
+      view.setUint16(position, 20, true);
+      position += 2;
+    }
+    [20, 0x0800, 0, time, date].forEach(value => {
+      view.setUint16(position, value, true);
+      position += 2;
+    });
+    [file.crc, file.data.length, file.data.length].forEach(value => {
+      view.setUint32(position, value, true);
+      position += 4;
+    });
+    view.setUint16(position, file.name.length, true);
+    view.setUint16(position + 2, 0, true); // Extra field length
+    position += 4;
+    if (central) {
+      // Comment length, disk number, internal and external attributes, local header offset
+      [0, 0, 0].forEach(value => {
+        view.setUint16(position, value, true);
+        position += 2;
+      });
+      view.setUint32(position, 0, true);
+      view.setUint32(position + 4, file.offset, true);
+      position += 8;
+    }
+    zip.set(file.name, position);
+    position += file.name.length;
+  };
+
+  files.forEach(file => {
+    file.offset = position;
+    writeHeader(0x04034b50, file, false);
+    zip.set(file.data, position);
+    position += file.data.length;
+  });
+
+  const directory = position;
+  files.forEach(file => writeHeader(0x02014b50, file, true));
+
+  // End of central directory record
+  view.setUint32(position, 0x06054b50, true);
+  view.setUint16(position + 4, 0, true);
+  view.setUint16(position + 6, 0, true);
+  view.setUint16(position + 8, files.length, true);
+  view.setUint16(position + 10, files.length, true);
+  view.setUint32(position + 12, position - directory, true);
+  view.setUint32(position + 16, directory, true);
+  view.setUint16(position + 20, 0, true);
+  return zip;
+};
@@ -0,0 +1,88 @@
+// --- LaTeX AST ---
+// Node types produced by the parser and consumed by the renderer.
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+  line: number;
+}
+
+export interface TextNode {
+  kind: 'text';
+  value: string;
+  pos: SourceSpan;
+}
+
+export interface LatexArgument {
+  optional: boolean;
+  nodes: LatexNode[];
+  raw: string; // Argument source without its delimiters
+}
+
+export interface CommandNode {
+  kind: 'command';
+  name: string;
+  star: boolean;
+  // One entry per signature slot; absent optional arguments are undefined
+  args: (LatexArgument | undefined)[];
+  overlay?: string; // Beamer overlay specification, as in \item<2->
+  pos: SourceSpan;
+}
+
+export interface GroupNode {
+  kind: 'group';
+  children: LatexNode[];
+  pos: SourceSpan;
+}
+
+export interface EnvironmentNode {
+  kind: 'environment';
+  name: string;
+  args: (LatexArgument | undefined)[];
+  overlay?: string;
+  children: LatexNode[];
+  pos: SourceSpan;
+}
+
+export interface MathNode {
+  kind: 'math';
+  display: boolean;
+  env?: string; // Set for math environments such as equation or align
+  content: string;
+  pos: SourceSpan;
+}
+
+export interface VerbatimNode {
+  kind: 'verbatim';
+  env: string;
+  value: string;
+  pos: SourceSpan;
+}
+
+export interface ParbreakNode {
+  kind: 'parbreak';
+  pos: SourceSpan;
+}
+
+export interface AlignmentNode {
+  kind: 'alignment';
+  pos: SourceSpan;
+}
+
+export type LatexNode =
+  | TextNode
+  | CommandNode
+  | GroupNode
+  | EnvironmentNode
+  | MathNode
+  | VerbatimNode
+  | ParbreakNode
+  | AlignmentNode;
+
+export interface LatexDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  pos: SourceSpan;
+  file?: string; // Set when the problem is in another file (e.g. a .bib database) rather than the compiled source
+  related?: { label: string; pos: SourceSpan }; // A second place the message is about, such as the \begin an \end does not match
+}
@@ -0,0 +1,234 @@
+// --- Beamer ---
+// Frames, overlays and speaker notes of beamer presentations. A frame is rendered once,
+// with every overlay recorded as a data-* attribute holding its resolved specification
+// (`2-`, `1,3` ...) and the number of steps it takes in data-steps; the paginator
+// (services/paginator.ts) then makes one slide per step and hides what is not on it.
+// Outside frames, overlay specifications are ignored.
+
+import { CommandNode, LatexNode } from './ast';
+import { CommandDefinition, EnvironmentDefinition, RenderContext } from './renderer';
+import { titleLines } from './classes';
+import { relativeWidth } from './layout';
+import { escapeHtml } from './utils';
+
+// Colours of beamer's default theme
+const STRUCTURE = '#3333b3';
+const ALERT = '#ff0000';
+const EXAMPLE = '#007f00';
+
+interface FrameState {
+  pauses: number; // beamer's beamerpauses counter: the slide the next <+> refers to
+  steps: number; // Highest slide number used so far
+  title: string;
+  subtitle: string;
+  notes: string[];
+}
+
+// The frame being rendered, if any
+const frames = new WeakMap<RenderContext, FrameState>();
+
+// --- Overlays ---
+
+// Resolves incremental specifications: + stands for the current value of beamerpauses,
+// which then goes up by one, and . for the value before that; both take an offset, as
+// in +(1). Mode prefixes such as `beamer:` are dropped.
+const resolveOverlay = (spec: string, frame: FrameState) => {
+  let incremental = false;
+  const resolved = spec
+    .replace(/\s+|[a-z]+:/gi, '')
+    .replace(/([+.])(?:\((-?\d+)\))?/g, (match, sign: string, offset: string | undefined) => {
+      if (sign === '+') incremental = true;
+      return String((sign === '+' ? frame.pauses : frame.pauses - 1) + Number(offset || 0));
+    });
+  (resolved.match(/\d+/g) || []).forEach(step => { frame.steps = Math.max(frame.steps, Number(step)); });
+  if (incremental) frame.pauses++;
+  return resolved;
+};
+
+// ` data-<mode>="<slides>"` for the paginator, or nothing outside a frame
+export const overlayAttribute = (mode: 'only' | 'uncover' | 'invisible' | 'alert' | 'except' | 'onslide', spec: string | undefined, ctx: RenderContext) => {
+  const frame = frames.get(ctx);
+  if (!frame || spec === undefined) return '';
+  return ` data-${mode}="${escapeHtml(resolveOverlay(spec, frame))}"`;
+};
+
+// Arguments holding paragraphs, environments or displays are set as blocks
+const holdsBlocks = (node: CommandNode) =>
+  node.args.some(arg => arg?.nodes.some(child => child.kind === 'parbreak' || child.kind === 'environment' || (child.kind === 'math' && child.display)));
+
+// \only<2>{...}, \uncover<2->{...} ...; the specification is resolved before the
+// argument, which may hold incremental overlays of its own
+const overlay = (mode: 'only' | 'uncover' | 'invisible', index = 0): CommandDefinition => ({
+  block: holdsBlocks,
+  render: (node, ctx) => {
+    const tag = holdsBlocks(node) ? 'div' : 'span';
+    const attribute = overlayAttribute(mode, node.overlay, ctx);
+    return `<${tag}${attribute}>${ctx.renderArg(node, index)}</${tag}>`;
+  },
+});
+
+const uncover = overlay('uncover');
+
+// \alt<2>{shown on slide 2}{shown elsewhere}
+const alternative: CommandDefinition = {
+  block: holdsBlocks,
+  render: (node, ctx) => {
+    const tag = holdsBlocks(node) ? 'div' : 'span';
+    const frame = frames.get(ctx);
+    if (!frame || node.overlay === undefined) return `<${tag}>${ctx.renderArg(node, 0)}</${tag}>`;
+    const slides = escapeHtml(resolveOverlay(node.overlay, frame));
+    return `<${tag} data-only="${slides}">${ctx.renderArg(node, 0)}</${tag}><${tag} data-except="${slides}">${ctx.renderArg(node, 1)}</${tag}>`;
+  },
+};
+
+// \alert is red on the slides of its specification, or always without one
+const alert: CommandDefinition = {
+  render: (node, ctx) => {
+    const attribute = overlayAttribute('alert', node.overlay, ctx);
+    return `<span${attribute || ` style="color: ${ALERT}"`}>${ctx.renderArg(node, 0)}</span>`;
+  },
+};
+
+// --- Frames ---
+
+const FRAME_ALIGNMENT: Record<string, string> = { t: 'justify-start', c: 'justify-center', b: 'justify-end' };
+
+// A slide: the frame title over the body, which is centred vertically unless the frame
+// has the t or b option. Notes go along hidden, for the presenter view.
+const renderFrame = (content: LatexNode[], options: string | undefined, title: string, subtitle: string, ctx: RenderContext) => {
+  const flags = (options || '').split(',').map(option => option.trim());
+  const number = ctx.stepCounter('framenumber');
+  const frame: FrameState = { pauses: 1, steps: 1, title, subtitle, notes: [] };
+  frames.set(ctx, frame);
+  const body = ctx.renderFlow(content).html;
+  frames.delete(ctx);
+
+  const align = FRAME_ALIGNMENT[flags.find(flag => FRAME_ALIGNMENT[flag]) || 'c'];
+  const subtitleLine = frame.subtitle ? `<div style="color: ${STRUCTURE}; font-size: 0.9em">${frame.subtitle}</div>` : '';
+  const header = frame.title && !flags.includes('plain')
+    ? `<header class="mb-3"><div class="font-bold" style="color: ${STRUCTURE}; font-size: 1.2em">${frame.title}</div>${subtitleLine}</header>`
+    : '';
+  const notes = frame.notes.length > 0 ? `<aside hidden data-notes>${frame.notes.join('')}</aside>` : '';
+  return `<section data-frame="${number}" data-steps="${frame.steps}" class="flex flex-col h-full">${header}<div class="flex-1 flex flex-col ${align} min-h-0">${body}</div>${notes}</section>`;
+};
+
+// Beamer's table of contents lists sections and subsections without numbers or pages
+export const frameContents = (ctx: RenderContext) => {
+  const items = ctx.previousAux.contents
+    .filter(entry => entry.type === 'section' || entry.type === 'subsection')
+    .map(entry => entry.type === 'section'
+      ? `<div class="mt-2" style="color: ${STRUCTURE}">${entry.title}</div>`
+      : `<div class="ml-6" style="font-size: 0.9em">${entry.title}</div>`);
+  return `<div class="my-2">${items.join('')}</div>`;
+};
+
+// block, alertblock and exampleblock: a coloured title bar over a tinted body
+const coloredBlock = (colour: string): EnvironmentDefinition => ({
+  render: (node, ctx) => {
+    const attribute = overlayAttribute('uncover', node.overlay, ctx);
+    const title = ctx.renderArg(node, 0);
+    const heading = title ? `<div class="px-2 py-0.5 text-white" style="background: ${colour}">${title}</div>` : '';
+    return `<div${attribute} class="my-3 rounded overflow-hidden shadow">${heading}<div class="px-2 py-1" style="background: color-mix(in srgb, ${colour} 8%, white)">${ctx.renderFlow(node.children).html}</div></div>`;
+  },
+});
+
+const ignore: CommandDefinition = { render: () => '' };
+
+export const BEAMER_COMMANDS: Record<string, CommandDefinition> = {
+  // \frame{...} is a frame in beamer and a framed box elsewhere, as in LaTeX
+  frame: {
+    block: true,
+    render: (node, ctx) => ctx.layout.slides
+      ? renderFrame(node.args[1]?.nodes || [], ctx.argText(node, 0), '', '', ctx)
+      : `<span class="border border-black px-1">${ctx.renderArg(node, 1)}</span>`,
+  },
+  frametitle: {
+    render: (node, ctx) => {
+      const frame = frames.get(ctx);
+      if (frame) frame.title = ctx.renderArg(node, 0);
+      return '';
+    },
+  },
+  framesubtitle: {
+    render: (node, ctx) => {
+      const frame = frames.get(ctx);
+      if (frame) frame.subtitle = ctx.renderArg(node, 0);
+      return '';
+    },
+  },
+  titlepage: { block: true, render: (node, ctx) => `<div class="text-center">${titleLines(ctx)}</div>` },
+
+  // \pause[n] shows what follows from slide n, by default the next one
+  pause: {
+    render: (node, ctx) => {
+      const frame = frames.get(ctx);
+      if (!frame) return '';
+      frame.pauses = Number(ctx.argText(node, 0)) || frame.pauses + 1;
+      frame.steps = Math.max(frame.steps, frame.pauses);
+      return `<span hidden data-onslide="${frame.pauses}-"></span>`;
+    },
+  },
+  only: overlay('only'),
+  uncover,
+  visible: uncover,
+  invisible: overlay('invisible'),
+  // With an argument like \uncover; without one it applies to the rest of the frame
+  onslide: {
+    block: holdsBlocks,
+    render: (node, ctx) => node.args[0] ? uncover.render(node, ctx) : `<span hidden${overlayAttribute('onslide', node.overlay, ctx)}></span>`,
+  },
+  alt: alternative,
+  alert,
+  structure: { render: (node, ctx) => `<span style="color: ${STRUCTURE}">${ctx.renderArg(node, 0)}</span>` },
+
+  // Notes in a frame belong to it; a \note between frames to the frame before it
+  note: {
+    block: holdsBlocks,
+    render: (node, ctx) => {
+      const html = ctx.renderArg(node, 1);
+      const frame = frames.get(ctx);
+      if (frame) {
+        frame.notes.push(`<div>${html}</div>`);
+        return '';
+      }
+      const tag = holdsBlocks(node) ? 'div' : 'span';
+      return `<${tag} hidden data-notes>${html}</${tag}>`;
+    },
+  },
+
+  // Themes only change the look of real slides
+  usetheme: ignore,
+  usecolortheme: ignore,
+  usefonttheme: ignore,
+  useinnertheme: ignore,
+  useoutertheme: ignore,
+  setbeamertemplate: ignore,
+  setbeamercolor: ignore,
+  setbeamerfont: ignore,
+  setbeamercovered: ignore,
+  AtBeginSection: ignore,
+  AtBeginSubsection: ignore,
+};
+
+export const BEAMER_ENVIRONMENTS: Record<string, EnvironmentDefinition> = {
+  frame: {
+    render: (node, ctx) => {
+      if (!ctx.layout.slides) return `<div>${ctx.renderFlow(node.children).html}</div>`;
+      return renderFrame(node.children, ctx.argText(node, 0), ctx.renderArg(node, 1), ctx.renderArg(node, 2), ctx);
+    },
+  },
+  block: coloredBlock(STRUCTURE),
+  alertblock: coloredBlock(ALERT),
+  exampleblock: coloredBlock(EXAMPLE),
+  // Columns are centred vertically unless the t option aligns their tops
+  columns: {
+    render: (node, ctx) => {
+      const options = (ctx.argText(node, 0) || '').split(',').map(option => option.trim());
+      const align = options.includes('t') || options.includes('T') ? 'items-start' : options.includes('b') ? 'items-end' : 'items-center';
+      return `<div class="flex gap-4 ${align}">${ctx.renderFlow(node.children).html}</div>`;
+    },
+  },
+  column: {
+    render: (node, ctx) => `<div class="min-w-0" style="flex: 0 1 ${relativeWidth(ctx.argText(node, 1) || '', ctx.layout)}">${ctx.renderFlow(node.children).html}</div>`,
+  },
+};
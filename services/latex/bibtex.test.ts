@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { parseBibtex, parseNames } from './bibtex';
+
+describe('parseBibtex', () => {
+  it('reads entries with braced, quoted and numeric values', () => {
+    const { entries, errors } = parseBibtex(`
+@Article{knuth84,
+  Author = {Donald E. Knuth},
+  title = "Literate {P}rogramming",
+  year = 1984,
+}`);
+    expect(errors).toEqual([]);
+    expect(entries.knuth84).toEqual({
+      type: 'article',
+      key: 'knuth84',
+      fields: { author: 'Donald E. Knuth', title: 'Literate {P}rogramming', year: '1984' },
+      line: 2,
+    });
+  });
+
+  it('keeps nested braces and escaped characters in values', () => {
+    const { entries } = parseBibtex('@misc{a, note = {a {b {c}} \\} d}}');
+    expect(entries.a.fields.note).toBe('a {b {c}} \\} d');
+  });
+
+  it('expands @string abbreviations, month names and # concatenation', () => {
+    const { entries } = parseBibtex('@string{acm = "ACM"}\n@book{b, publisher = acm # { Press}, month = jan}');
+    expect(entries.b.fields).toEqual({ publisher: 'ACM Press', month: 'January' });
+  });
+
+  it('accepts parentheses around an entry', () => {
+    expect(parseBibtex('@book(b, title = {T})').entries.b.fields.title).toBe('T');
+  });
+
+  it('skips comments, @comment and @preamble', () => {
+    const { entries, errors } = parseBibtex('text outside\n@comment{ignored @book{x}}\n@preamble{"\\newcommand"}\n@book{b, title={T}}');
+    expect(Object.keys(entries)).toEqual(['b']);
+    expect(errors).toEqual([]);
+  });
+
+  describe('errors', () => {
+    it('reports an undefined string name with its line', () => {
+      expect(parseBibtex('@book{b,\n  publisher = nope}').errors).toEqual([{ message: "String name `nope' is undefined", line: 2 }]);
+    });
+
+    it('reports a repeated key and keeps the first entry', () => {
+      const { entries, errors } = parseBibtex('@book{b, title={One}}\n@book{b, title={Two}}');
+      expect(entries.b.fields.title).toBe('One');
+      expect(errors).toEqual([{ message: "Repeated entry `b'", line: 2 }]);
+    });
+
+    it('recovers at the next entry after a syntax error', () => {
+      const { entries, errors } = parseBibtex('@book{a, title {T}}\n@book{b, title={U}}');
+      expect(errors).toEqual([{ message: "Expected = after field `title'", line: 1 }]);
+      expect(entries.b.fields.title).toBe('U');
+    });
+
+    it('reports an unterminated value', () => {
+      expect(parseBibtex('@book{a, title={T').errors.map(error => error.message)).toContain('Unterminated field value');
+    });
+  });
+});
+
+describe('parseNames', () => {
+  it('reads "Last, First" and "First Last" forms joined by and', () => {
+    expect(parseNames('Knuth, Donald E. and Leslie Lamport')).toEqual([
+      { last: 'Knuth', first: 'Donald E.' },
+      { first: 'Leslie', last: 'Lamport' },
+    ]);
+  });
+
+  it('keeps the von part with the last name', () => {
+    expect(parseNames('Ludwig van Beethoven')).toEqual([{ first: 'Ludwig', last: 'van Beethoven' }]);
+  });
+
+  it('treats a braced name as one last name', () => {
+    expect(parseNames('{Barnes and Noble} and Smith')).toEqual([{ first: '', last: '{Barnes and Noble}' }, { first: '', last: 'Smith' }]);
+  });
+
+  it('reads nothing from an empty field', () => {
+    expect(parseNames(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+// --- BibTeX database parser ---
+// Reads .bib files into entries keyed by citation key. Field values keep their LaTeX
+// markup (accents, braces protecting capitals) so they can be rendered like any other
+// text; @string abbreviations and `#` concatenation are expanded here.
+
+export interface BibEntry {
+  type: string; // Lower-cased entry type: article, book, inproceedings ...
+  key: string;
+  fields: Record<string, string>; // Lower-cased field names
+  line: number;
+}
+
+export interface BibError {
+  message: string;
+  line: number;
+}
+
+export interface BibDatabase {
+  entries: Record<string, BibEntry>;
+  errors: BibError[];
+}
+
+// Abbreviations every BibTeX style defines
+const MONTHS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December',
+};
+
+export const parseBibtex = (source: string): BibDatabase => {
+  const entries: Record<string, BibEntry> = {};
+  const errors: BibError[] = [];
+  const strings: Record<string, string> = { ...MONTHS };
+  let index = 0;
+
+  const lineAt = (offset: number) => source.slice(0, offset).split('\n').length;
+  const fail = (message: string, offset: number) => errors.push({ message, line: lineAt(offset) });
+
+  const skipSpaces = () => {
+    while (index < source.length && /\s/.test(source[index])) index++;
+  };
+
+  const readIdentifier = () => {
+    const match = /^[^\s"#%'(),={}]+/.exec(source.slice(index));
+    if (!match) return '';
+    index += match[0].length;
+    return match[0];
+  };
+
+  // Reads a {...} or "..." delimited value; braces nest in both forms
+  const readDelimited = (): string => {
+    const open = source[index];
+    const start = ++index;
+    let depth = 0;
+    while (index < source.length) {
+      const ch = source[index];
+      if (ch === '\\') {
+        index += 2;
+        continue;
+      }
+      if (ch === '{') depth++;
+      else if (ch === '}') {
+        if (depth === 0 && open === '{') return source.slice(start, index++);
+        depth--;
+      } else if (ch === '"' && open === '"' && depth === 0) {
+        return source.slice(start, index++);
+      }
+      index++;
+    }
+    fail('Unterminated field value', start);
+    return source.slice(start);
+  };
+
+  // value = part ( # part )*, where a part is delimited text, a number or an @string name
+  const readValue = (): string => {
+    let value = '';
+    for (;;) {
+      skipSpaces();
+      const ch = source[index];
+      if (ch === '{' || ch === '"') {
+        value += readDelimited();
+      } else {
+        const start = index;
+        const word = readIdentifier();
+        if (!word) {
+          fail('Expected a field value', start);
+          return value;
+        }
+        if (/^\d+$/.test(word)) {
+          value += word;
+        } else if (strings[word.toLowerCase()] !== undefined) {
+          value += strings[word.toLowerCase()];
+        } else {
+          fail(`String name \`${word}' is undefined`, start);
+        }
+      }
+      skipSpaces();
+      if (source[index] !== '#') return value;
+      index++;
+    }
+  };
+
+  // Skips to the next `@` at the top level after a syntax error
+  const recover = () => {
+    while (index < source.length && source[index] !== '@') index++;
+  };
+
+  const readFields = (fields: Record<string, string>, close: string) => {
+    for (;;) {
+      skipSpaces();
+      if (source[index] === close) {
+        index++;
+        return true;
+      }
+      if (source[index] === ',') {
+        index++;
+        continue;
+      }
+      const start = index;
+      const name = readIdentifier().toLowerCase();
+      skipSpaces();
+      if (!name || source[index] !== '=') {
+        fail(name ? `Expected = after field \`${name}'` : 'Expected a field name', start);
+        return false;
+      }
+      index++;
+      fields[name] = readValue().replace(/\s+/g, ' ').trim();
+    }
+  };
+
+  while (index < source.length) {
+    // Anything outside an entry is a comment, as in BibTeX
+    const at = source.indexOf('@', index);
+    if (at === -1) break;
+    index = at + 1;
+    skipSpaces();
+    const type = readIdentifier().toLowerCase();
+    skipSpaces();
+    const open = source[index];
+    if (!type || (open !== '{' && open !== '(')) {
+      fail('Expected an entry type followed by { or (', at);
+      recover();
+      continue;
+    }
+    const close = open === '{' ? '}' : ')';
+    index++;
+
+    if (type === 'comment') {
+      if (open === '{') {
+        index--;
+        readDelimited();
+      } else {
+        recover();
+      }
+      continue;
+    }
+    if (type === 'preamble') {
+      readValue();
+      skipSpaces();
+      if (source[index] === close) index++;
+      continue;
+    }
+    if (type === 'string') {
+      const fields: Record<string, string> = {};
+      if (!readFields(fields, close)) recover();
+      Object.entries(fields).forEach(([name, value]) => { strings[name] = value; });
+      continue;
+    }
+
+    skipSpaces();
+    const keyMatch = /^[^\s,{}()]+/.exec(source.slice(index));
+    if (!keyMatch) {
+      fail(`Missing citation key in @${type}`, at);
+      recover();
+      continue;
+    }
+    const key = keyMatch[0];
+    index += key.length;
+    const fields: Record<string, string> = {};
+    const complete = readFields(fields, close);
+    if (entries[key]) {
+      fail(`Repeated entry \`${key}'`, at);
+    } else {
+      entries[key] = { type, key, fields, line: lineAt(at) };
+    }
+    if (!complete) recover();
+  }
+
+  return { entries, errors };
+};
+
+// --- Names ---
+
+export interface BibName {
+  first: string;
+  last: string; // Includes any "von" part
+}
+
+// Splits a string on a separator that only counts at brace depth 0
+const splitTopLevel = (text: string, separator: RegExp): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (depth === 0) {
+      const match = separator.exec(text.slice(i));
+      if (match && match.index === 0 && match[0].length > 0) {
+        parts.push(current);
+        current = '';
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+// Parses "Last, First", "First von Last" and "{Corporate Name}" forms, joined by `and`
+export const parseNames = (value: string | undefined): BibName[] => {
+  if (!value) return [];
+  return splitTopLevel(value, /^\s+and\s+/i).map(name => {
+    const parts = splitTopLevel(name, /^,/);
+    if (parts.length > 1) {
+      // "von Last, Jr, First" keeps the Jr part with the last name
+      return { last: parts.slice(0, -1).join(', '), first: parts[parts.length - 1] };
+    }
+    const words = splitTopLevel(name, /^\s+/);
+    if (words.length === 1) return { first: '', last: words[0] };
+    // The "von" part starts at the first lower-case word before the last name
+    const von = words.findIndex((w, i) => i < words.length - 1 && /^[a-z]/.test(w));
+    const split = von === -1 ? words.length - 1 : von;
+    return { first: words.slice(0, split).join(' '), last: words.slice(split).join(' ') };
+  });
+};
@@ -0,0 +1,148 @@
+// --- Render cache ---
+// Incremental rebuilds. The renderer cuts the document body into segments (a section, or
+// the part of the body that comes from one included file) and renders each through
+// renderCached. What a segment renders to depends on its nodes and on the state the
+// renderer is in when it starts (counters, labels, layout ...), so both go into its key.
+// A hit restores the state the segment left behind instead of rendering it again, which
+// keeps everything after it numbered as before.
+
+import { LatexNode, LatexDiagnostic, SourceSpan } from './ast';
+import { AuxData, ReferenceTarget, RenderContext, RenderOptions } from './renderer';
+import { DocumentClass } from './classes';
+import { PageLayout } from '../../types';
+import { hashString } from './utils';
+
+// The renderer state that carries over from one segment to the next
+interface RenderState {
+  counters: Record<string, number>;
+  anchorCount: number;
+  aux: AuxData;
+  layout: PageLayout;
+  packages: Record<string, string>;
+  metadata: Record<string, string>;
+  documentClass: DocumentClass;
+  currentTarget: ReferenceTarget | null;
+  endnotes: string[];
+}
+
+interface CachedSegment {
+  html: string;
+  line: number; // Line of the first node when it was rendered; later hits may be shifted
+  diagnostics: LatexDiagnostic[];
+  labels: string[]; // Labels the segment set
+  state: RenderState; // State after the segment
+}
+
+export interface RenderCache {
+  segments: Map<string, CachedSegment>;
+  used: Set<string>; // Keys hit or stored by the current compile; the rest are dropped after it
+}
+
+export const createRenderCache = (): RenderCache => ({ segments: new Map(), used: new Set() });
+
+// Thrown between segments once RenderOptions.isCancelled reports a newer compile
+export class CompileCancelled extends Error {
+  constructor() {
+    super('Compilation cancelled');
+  }
+}
+
+// Node positions are written as the file and line they come from, so a segment still
+// hits when an edit above it moves it up or down in the resolved document
+const serializeNodes = (nodes: LatexNode[], ctx: RenderContext) =>
+  JSON.stringify(nodes, (key, field) => {
+    if (key !== 'pos') return field;
+    const origin = ctx.options.sourceMap?.[(field as SourceSpan).line - 1];
+    return origin ? `${origin.fileId}:${origin.line}` : (field as SourceSpan).line;
+  });
+
+// Label positions only ever locate warnings, so they are left out of the state
+const serializeState = (state: unknown) => JSON.stringify(state, (key, field) => key === 'pos' ? undefined : field);
+
+// The options and the previous pass are the same for every segment of a pass
+const optionKeys = new WeakMap<RenderOptions, string>();
+const passKeys = new WeakMap<RenderContext, string>();
+
+const passKey = (ctx: RenderContext) => {
+  let options = optionKeys.get(ctx.options);
+  if (options === undefined) {
+    const { assets, bibFiles, mathMacros } = ctx.options;
+    options = hashString(JSON.stringify({ assets, bibFiles, mathMacros }));
+    optionKeys.set(ctx.options, options);
+  }
+  let pass = passKeys.get(ctx);
+  if (pass === undefined) {
+    pass = `${options}:${hashString(serializeState(ctx.previousAux))}`;
+    passKeys.set(ctx, pass);
+  }
+  return pass;
+};
+
+const captureState = (ctx: RenderContext): RenderState => ({
+  ...structuredClone({
+    counters: ctx.counters,
+    anchorCount: ctx.anchorCount,
+    aux: ctx.aux,
+    layout: ctx.layout,
+    packages: ctx.packages,
+    metadata: ctx.metadata,
+    currentTarget: ctx.currentTarget,
+    endnotes: ctx.endnotes,
+  }),
+  documentClass: { ...ctx.documentClass }, // Holds functions, which cannot be cloned
+});
+
+// Restores the state after a cached segment. Labels from before it keep their current
+// positions; those it set moved along with it.
+const restoreState = (ctx: RenderContext, cached: CachedSegment, shift: number) => {
+  const restored = captureState({ ...ctx, ...cached.state });
+  const labels = { ...ctx.aux.labels };
+  cached.labels.forEach(key => {
+    const label = restored.aux.labels[key];
+    labels[key] = { ...label, pos: { ...label.pos, line: label.pos.line + shift } };
+  });
+  Object.assign(ctx, restored);
+  ctx.aux.labels = labels;
+};
+
+const shiftDiagnostic = (diagnostic: LatexDiagnostic, shift: number): LatexDiagnostic =>
+  diagnostic.file ? diagnostic : { ...diagnostic, pos: { ...diagnostic.pos, line: diagnostic.pos.line + shift } };
+
+// Renders a segment, or replays it from the cache
+export const renderCached = (nodes: LatexNode[], ctx: RenderContext, render: () => string): string => {
+  if (ctx.options.isCancelled?.()) throw new CompileCancelled();
+  const cache = ctx.options.cache;
+  if (!cache || nodes.length === 0) return render();
+
+  const line = nodes[0].pos.line;
+  const key = `${passKey(ctx)}:${hashString(serializeNodes(nodes, ctx))}:${hashString(serializeState(captureState(ctx)))}`;
+  cache.used.add(key);
+
+  const cached = cache.segments.get(key);
+  if (cached) {
+    const shift = line - cached.line;
+    ctx.diagnostics.push(...cached.diagnostics.map(diagnostic => shiftDiagnostic(diagnostic, shift)));
+    restoreState(ctx, cached, shift);
+    return cached.html;
+  }
+
+  const reported = ctx.diagnostics.length;
+  const labels = { ...ctx.aux.labels };
+  const html = render();
+  cache.segments.set(key, {
+    html,
+    line,
+    diagnostics: ctx.diagnostics.slice(reported),
+    labels: Object.keys(ctx.aux.labels).filter(label => ctx.aux.labels[label] !== labels[label]),
+    state: captureState(ctx),
+  });
+  return html;
+};
+
+// Drops the segments the last compile did not use
+export const pruneRenderCache = (cache: RenderCache) => {
+  Array.from(cache.segments.keys()).forEach(key => {
+    if (!cache.used.has(key)) cache.segments.delete(key);
+  });
+  cache.used.clear();
+};
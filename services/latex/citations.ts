@@ -0,0 +1,376 @@
+// --- Citations & bibliography ---
+// \cite and friends record their keys in order of first use. The next pass reads that
+// list back, looks the keys up in the .bib databases named by \bibliography or
+// \addbibresource and numbers them, much like running bibtex between two latex runs.
+// The reference list is formatted here in one of three families of styles.
+
+import { CommandNode, EnvironmentNode } from './ast';
+import { CommandDefinition, EnvironmentDefinition, RenderContext } from './renderer';
+import { BibEntry, BibName, parseBibtex, parseNames } from './bibtex';
+import { splitItems } from './environments';
+import { plainText, listHeading } from './commands';
+import { hasChapters } from './classes';
+import { tokenize } from './tokenizer';
+import { parseLatex } from './parser';
+import { escapeHtml, isSafeUrl, parseKeyValues } from './utils';
+
+type BibStyle = 'numeric' | 'alpha' | 'authoryear';
+
+interface CitedEntry {
+  key: string;
+  entry?: BibEntry; // Missing for hand-written \bibitem entries
+  label: string; // HTML: [label] in numeric and alpha styles
+  author: string; // HTML: short author list for author-year citations
+  year: string; // HTML: year, with a/b suffix when an author has several works that year
+}
+
+interface Bibliography {
+  style: BibStyle;
+  entries: CitedEntry[]; // In reference list order
+  byKey: Record<string, CitedEntry>;
+}
+
+// --- Styles ---
+
+// Maps \bibliographystyle names and biblatex `style=` values onto a style family
+const styleFamily = (name: string): BibStyle => {
+  if (/alpha/.test(name)) return 'alpha';
+  if (/authoryear|apa|harvard|chicago|agsm|named|plainnat|abbrvnat/.test(name)) return 'authoryear';
+  return 'numeric';
+};
+
+const bibStyle = (ctx: RenderContext): BibStyle => {
+  if (ctx.packages.natbib !== undefined && /\bnumbers\b/.test(ctx.packages.natbib)) return 'numeric';
+  if (ctx.packages.biblatex !== undefined) {
+    const options = parseKeyValues(ctx.packages.biblatex);
+    return styleFamily(options.citestyle || options.style || 'numeric');
+  }
+  return styleFamily(ctx.previousAux.bibStyle);
+};
+
+// --- Field text ---
+
+// Field values are LaTeX, so they go through the normal pipeline
+const latex = (ctx: RenderContext, source: string | undefined) =>
+  source ? ctx.renderInline(parseLatex(tokenize(source)).nodes).trim() : '';
+
+const decodeEntities = (html: string) =>
+  html.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+const plain = (ctx: RenderContext, source: string | undefined) => decodeEntities(plainText(latex(ctx, source)));
+
+const entryYear = (entry: BibEntry) => entry.fields.year || (entry.fields.date || '').slice(0, 4);
+
+const entryNames = (entry: BibEntry) => parseNames(entry.fields.author || entry.fields.editor);
+
+// Last name without a leading "von" part, for sorting and alpha labels
+const surname = (ctx: RenderContext, name: BibName) => plain(ctx, name.last).replace(/^([a-z]\S*\s+)+/, '');
+
+const shortAuthors = (ctx: RenderContext, names: BibName[]) => {
+  const lasts = names.filter(n => n.last !== 'others').map(n => plain(ctx, n.last));
+  if (lasts.length === 0) return '';
+  if (lasts.length === 1) return lasts[0] + (names.length > 1 ? ' et al.' : '');
+  if (lasts.length === 2 && names.length === 2) return `${lasts[0]} and ${lasts[1]}`;
+  return `${lasts[0]} et al.`;
+};
+
+const alphaLabel = (ctx: RenderContext, entry: BibEntry) => {
+  const names = entryNames(entry).filter(n => n.last !== 'others');
+  const letters = (text: string) => text.replace(/[^\p{L}]/gu, '');
+  let prefix: string;
+  if (names.length === 0) prefix = entry.key.slice(0, 3);
+  else if (names.length === 1) prefix = letters(surname(ctx, names[0])).slice(0, 3);
+  else prefix = names.slice(0, names.length > 4 ? 3 : names.length).map(n => letters(surname(ctx, n)).charAt(0)).join('') + (names.length > 4 ? '+' : '');
+  return prefix + entryYear(entry).slice(-2);
+};
+
+// Appends a, b, c ... to labels shared by several entries, in list order
+const disambiguate = (entries: CitedEntry[], field: 'label' | 'year', groupOf: (e: CitedEntry) => string) => {
+  const groups: Record<string, CitedEntry[]> = {};
+  entries.forEach(e => { (groups[groupOf(e)] = groups[groupOf(e)] || []).push(e); });
+  Object.values(groups).filter(g => g.length > 1).forEach(group => {
+    group.forEach((e, i) => { e[field] += String.fromCharCode(97 + i); });
+  });
+};
+
+// --- Databases ---
+
+const cache = new WeakMap<RenderContext, Bibliography>();
+
+const loadEntries = (ctx: RenderContext) => {
+  const entries: Record<string, BibEntry> = {};
+  ctx.previousAux.bibData.forEach(name => {
+    const source = ctx.options.bibFiles[name];
+    if (source === undefined) return;
+    const database = parseBibtex(source);
+    database.errors.forEach(error => {
+      ctx.diagnostics.push({ severity: 'warning', message: error.message, pos: { start: 0, end: 0, line: error.line }, file: name });
+    });
+    Object.values(database.entries).forEach(entry => {
+      if (!entries[entry.key]) entries[entry.key] = entry;
+    });
+  });
+  return entries;
+};
+
+// The cited entries of the previous pass, sorted and labelled for the current style
+const bibliography = (ctx: RenderContext): Bibliography => {
+  const cached = cache.get(ctx);
+  if (cached) return cached;
+  const result: Bibliography = { style: bibStyle(ctx), entries: [], byKey: {} };
+  // Guards against \cite inside a field while the list is being built
+  cache.set(ctx, result);
+
+  const database = loadEntries(ctx);
+  const keys = ctx.previousAux.citations.filter(key => database[key]);
+  if (ctx.previousAux.citeAll) keys.push(...Object.keys(database).filter(key => !keys.includes(key)));
+
+  const entries: CitedEntry[] = keys.map(key => {
+    const entry = database[key];
+    return { key, entry, label: '', author: escapeHtml(shortAuthors(ctx, entryNames(entry)) || key), year: escapeHtml(entryYear(entry) || 'n.d.') };
+  });
+
+  if (result.style === 'numeric') {
+    entries.forEach((e, i) => { e.label = String(i + 1); });
+  } else if (result.style === 'alpha') {
+    entries.forEach(e => { e.label = escapeHtml(alphaLabel(ctx, e.entry!)); });
+    entries.sort((a, b) => a.label.localeCompare(b.label));
+    disambiguate(entries, 'label', e => e.label);
+  } else {
+    const sortKey = (e: CitedEntry) => `${entryNames(e.entry!).map(n => surname(ctx, n)).join(' ')} ${e.year} ${plain(ctx, e.entry!.fields.title)}`;
+    entries.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+    disambiguate(entries, 'year', e => `${e.author} ${e.year}`);
+    entries.forEach(e => { e.label = `${e.author}, ${e.year}`; });
+  }
+
+  result.entries = entries;
+  entries.forEach(e => { result.byKey[e.key] = e; });
+  return result;
+};
+
+// --- Citations ---
+
+type CitationForm = 'parenthetical' | 'textual' | 'author' | 'year';
+
+const recordCitation = (key: string, ctx: RenderContext) => {
+  if (key === '*') ctx.aux.citeAll = true;
+  else if (!ctx.aux.citations.includes(key)) ctx.aux.citations.push(key);
+};
+
+const citationKeys = (raw: string | undefined) => (raw || '').split(',').map(key => key.trim()).filter(Boolean);
+
+const resolve = (key: string, node: CommandNode, ctx: RenderContext): CitedEntry | null => {
+  const cited = bibliography(ctx).byKey[key];
+  if (cited) return cited;
+  const label = ctx.previousAux.bibitems[key];
+  if (label !== undefined) return { key, label, author: label, year: '' };
+  ctx.warn(`Citation \`${key}' undefined`, node.pos);
+  return null;
+};
+
+const link = (key: string, html: string) =>
+  `<a href="#cite-${escapeHtml(key)}" class="text-blue-600 hover:underline" data-cite="${escapeHtml(key)}">${html}</a>`;
+
+const undefinedCitation = (key: string) => `<strong class="text-red-600" title="Undefined citation: ${escapeHtml(key)}">?</strong>`;
+
+// \cite[postnote]{keys} or \cite[prenote][postnote]{keys}, as in natbib and biblatex
+const citation = (form: CitationForm): CommandDefinition => ({
+  render: (node, ctx) => {
+    const keys = citationKeys(ctx.argText(node, 2));
+    keys.forEach(key => recordCitation(key, ctx));
+    const pre = node.args[1] ? ctx.renderArg(node, 0) : '';
+    const post = node.args[1] ? ctx.renderArg(node, 1) : ctx.renderArg(node, 0);
+    const items = keys.map(key => ({ key, cited: resolve(key, node, ctx) }));
+    const authorYear = bibliography(ctx).style === 'authoryear';
+    const wrap = (open: string, close: string, parts: string[], separator: string) =>
+      `${open}${pre ? pre + ' ' : ''}${parts.join(separator)}${post ? ', ' + post : ''}${close}`;
+
+    switch (form) {
+      case 'author':
+        return items.map(({ key, cited }) => cited ? cited.author : undefinedCitation(key)).join(', ');
+      case 'year':
+        return items.map(({ key, cited }) => cited ? link(key, cited.year || cited.label) : undefinedCitation(key)).join(', ');
+      case 'textual':
+        return items.map(({ key, cited }, i) => {
+          if (!cited) return undefinedCitation(key);
+          const last = i === items.length - 1;
+          const inner = `${i === 0 && pre ? pre + ' ' : ''}${link(key, authorYear && cited.entry ? cited.year : cited.label)}${last && post ? ', ' + post : ''}`;
+          return authorYear && cited.entry ? `${cited.author} (${inner})` : `${cited.author} [${inner}]`;
+        }).join(authorYear ? '; ' : ', ');
+      default: {
+        const parts = items.map(({ key, cited }) => cited ? link(key, cited.label) : undefinedCitation(key));
+        return authorYear ? wrap('(', ')', parts, '; ') : wrap('[', ']', parts, ', ');
+      }
+    }
+  },
+});
+
+// --- Reference list ---
+
+const em = (html: string) => html ? `<em>${html}</em>` : '';
+
+// Joins the non-empty parts with commas and closes the block with a period
+const sentence = (...parts: string[]) => {
+  const text = parts.filter(Boolean).join(', ');
+  if (!text) return '';
+  return /[.?!]$/.test(plainText(text)) ? text : text + '.';
+};
+
+const nameList = (ctx: RenderContext, names: BibName[], invertFirst: boolean) => {
+  const others = names.some(n => n.last === 'others');
+  const full = names.filter(n => n.last !== 'others').map((n, i) =>
+    latex(ctx, invertFirst && i === 0 && n.first ? `${n.last}, ${n.first}` : [n.first, n.last].filter(Boolean).join(' '))
+  );
+  if (others) return `${full.join(', ')} et al.`;
+  if (full.length <= 2) return full.join(' and ');
+  return `${full.slice(0, -1).join(', ')}, and ${full[full.length - 1]}`;
+};
+
+const formatEntry = (cited: CitedEntry, ctx: RenderContext, style: BibStyle) => {
+  const entry = cited.entry!;
+  const field = (name: string) => latex(ctx, entry.fields[name]);
+  const authors = parseNames(entry.fields.author);
+  const editors = parseNames(entry.fields.editor);
+  const editorText = editors.length ? `${nameList(ctx, editors, false)}, ${editors.length > 1 ? 'editors' : 'editor'}` : '';
+  const lead = authors.length ? nameList(ctx, authors, style === 'authoryear') : editorText;
+  const otherEditors = authors.length ? editorText : '';
+  // Author-year styles move the date up next to the names
+  const date = style === 'authoryear' ? '' : [field('month'), field('year') || latex(ctx, entry.fields.date)].filter(Boolean).join(' ');
+  const head = style === 'authoryear' ? sentence(`${lead}${lead ? ' ' : ''}(${cited.year})`) : sentence(lead);
+  const publisher = sentence(field('publisher') || field('organization'), field('address'), date);
+  const pages = field('pages');
+
+  let body: string[];
+  switch (entry.type) {
+    case 'article': {
+      const volume = `${field('volume')}${field('number') ? `(${field('number')})` : ''}${pages ? `${field('volume') ? ':' : 'pages '}${pages}` : ''}`;
+      body = [sentence(field('title')), sentence(em(field('journal')), volume, date)];
+      break;
+    }
+    case 'book':
+    case 'booklet':
+    case 'manual':
+    case 'proceedings':
+      body = [sentence(em(field('title'))), sentence(otherEditors), sentence(field('edition') ? `${field('edition')} edition` : ''), publisher];
+      break;
+    case 'inproceedings':
+    case 'conference':
+    case 'incollection':
+    case 'inbook': {
+      const container = [otherEditors, em(field('booktitle'))].filter(Boolean).join(', ');
+      body = [sentence(field('title')), sentence(container ? `In ${container}` : '', pages ? `pages ${pages}` : ''), publisher];
+      break;
+    }
+    case 'phdthesis':
+    case 'mastersthesis':
+      body = [sentence(em(field('title'))), sentence(field('type') || (entry.type === 'phdthesis' ? 'PhD thesis' : 'Master\u2019s thesis'), field('school'), field('address'), date)];
+      break;
+    case 'techreport':
+      body = [sentence(field('title')), sentence([field('type') || 'Technical Report', field('number')].filter(Boolean).join(' '), field('institution'), field('address'), date)];
+      break;
+    default:
+      body = [sentence(field('title')), sentence(field('howpublished'), date)];
+  }
+
+  const doi = entry.fields.doi;
+  const url = entry.fields.url;
+  const links = [
+    doi ? `<a href="https://doi.org/${escapeHtml(doi)}" class="text-blue-600 break-all">doi:${escapeHtml(doi)}</a>` : '',
+    url ? (isSafeUrl(url)
+      ? `<a href="${escapeHtml(url)}" class="text-blue-600 font-mono text-xs break-all">${escapeHtml(url)}</a>`
+      : `<span class="font-mono text-xs break-all">${escapeHtml(url)}</span>`) : '',
+  ];
+  return [head, ...body, sentence(field('note')), ...links].filter(Boolean).join(' ');
+};
+
+// \refname ("References") in classes without chapters, \bibname ("Bibliography") in those with them
+const heading = (ctx: RenderContext, title: string | undefined) =>
+  listHeading(title ?? ctx.documentClass.names[hasChapters(ctx) ? 'bibname' : 'refname'], ctx);
+
+const labelledItem = (key: string, label: string, content: string) =>
+  `<div id="cite-${escapeHtml(key)}" class="flex gap-3"><span class="shrink-0 min-w-[2.5rem]">[${label}]</span><div>${content}</div></div>`;
+
+const renderBibliography = (node: CommandNode, ctx: RenderContext, title: string | undefined) => {
+  const { style, entries } = bibliography(ctx);
+  if (entries.length === 0) ctx.warn('Empty bibliography: no cited entries were found', node.pos);
+  const items = entries.map(cited => style === 'authoryear'
+    ? `<div id="cite-${escapeHtml(cited.key)}" class="pl-8 -indent-8">${formatEntry(cited, ctx, style)}</div>`
+    : labelledItem(cited.key, cited.label, formatEntry(cited, ctx, style))
+  );
+  return `<section>${title === '' ? '' : heading(ctx, title)}<div class="my-4 space-y-2 text-sm">${items.join('')}</div></section>`;
+};
+
+// Registers the databases named by \bibliography{a,b} or \addbibresource{a.bib}
+const addDatabases = (raw: string | undefined, node: CommandNode, ctx: RenderContext) => {
+  citationKeys(raw).forEach(path => {
+    let name = path.split('/').pop() || path;
+    if (!name.endsWith('.bib')) name += '.bib';
+    if (ctx.options.bibFiles[name] === undefined) ctx.warn(`I couldn't open database file ${name}`, node.pos);
+    if (!ctx.aux.bibData.includes(name)) ctx.aux.bibData.push(name);
+  });
+};
+
+export const CITATION_COMMANDS: Record<string, CommandDefinition> = {
+  cite: citation('parenthetical'),
+  citep: citation('parenthetical'),
+  parencite: citation('parenthetical'),
+  autocite: citation('parenthetical'),
+  citet: citation('textual'),
+  textcite: citation('textual'),
+  citeauthor: citation('author'),
+  citeyear: citation('year'),
+
+  nocite: {
+    render: (node, ctx) => {
+      citationKeys(ctx.argText(node, 0)).forEach(key => recordCitation(key, ctx));
+      return '';
+    },
+  },
+
+  bibliographystyle: {
+    render: (node, ctx) => {
+      ctx.aux.bibStyle = ctx.argText(node, 0) || '';
+      return '';
+    },
+  },
+
+  addbibresource: {
+    render: (node, ctx) => {
+      addDatabases(ctx.argText(node, 1), node, ctx);
+      return '';
+    },
+  },
+
+  bibliography: {
+    block: true,
+    render: (node, ctx) => {
+      addDatabases(ctx.argText(node, 0), node, ctx);
+      return renderBibliography(node, ctx, undefined);
+    },
+  },
+
+  printbibliography: {
+    block: true,
+    render: (node, ctx) => {
+      const options = parseKeyValues(ctx.argText(node, 0));
+      const title = options.heading === 'none' ? '' : options.title !== undefined ? latex(ctx, options.title) : undefined;
+      return renderBibliography(node, ctx, title);
+    },
+  },
+};
+
+// Hand-written reference lists: \begin{thebibliography}{99} \bibitem[label]{key} ...
+const renderThebibliography = (node: EnvironmentNode, ctx: RenderContext) => {
+  let number = 0;
+  const items = splitItems(node.children, 'bibitem').map(({ item, nodes }) => {
+    const key = ctx.argText(item, 1) || '';
+    const label = item.args[0] ? ctx.renderArg(item, 0) : String(++number);
+    if (key) ctx.aux.bibitems[key] = label;
+    return labelledItem(key, label, ctx.renderFlow(nodes).html.trim());
+  });
+  return `<section>${heading(ctx, undefined)}<div class="my-4 space-y-2 text-sm">${items.join('')}</div></section>`;
+};
+
+export const CITATION_ENVIRONMENTS: Record<string, EnvironmentDefinition> = {
+  thebibliography: { render: renderThebibliography },
+};
@@ -0,0 +1,375 @@
+// --- Document Classes ---
+// What \documentclass decides beyond the paper: the sectioning levels the class defines
+// and how headings are numbered and styled, the names of generated headings, defaults
+// such as the base font size and page style, and how \maketitle sets the title. The
+// page geometry itself is worked out in layout.ts. Classes that are not in the registry
+// are rendered as article.
+
+import { CommandNode } from './ast';
+import { PageStyle } from '../../types';
+import { CommandDefinition, RenderContext } from './renderer';
+import { applyClassOptions, PAGE_NUMBER } from './layout';
+import { escapeHtml, today } from './utils';
+
+export interface HeadingStyle {
+  tag: string;
+  className: string;
+  size: number; // Relative to the body text, e.g. 1.44 for \Large
+}
+
+export interface ClassProfile {
+  levels: string[]; // Sectioning commands the class defines, outermost first
+  secnumdepth: number;
+  tocdepth: number;
+  fontSize: number; // Base size in points unless a 10pt/11pt/12pt option is given
+  paper: string;
+  twoside: boolean;
+  openright: boolean; // Chapters start on a right-hand page
+  titlepage: boolean; // \maketitle on a page of its own
+  matter: boolean; // Defines \frontmatter, \mainmatter and \backmatter
+  pageStyle: string;
+  chapterPageStyle: string; // Style of the page a chapter starts on
+  chapterLabel: boolean; // "Chapter 1" on a line of its own above the chapter title
+  cover: boolean; // \maketitle prints an abntex2-style cover
+  slides: boolean; // Frames become slides, as in beamer
+  headings: Record<string, HeadingStyle>;
+  names: Record<string, string>; // \contentsname, \figurename ...
+  pageStyles?: (twoside: boolean) => Record<string, PageStyle>; // Styles the class adds
+  margins?: { top: number; bottom: number; inner: number; outer: number }; // In mm, instead of the standard text block
+  counterResets?: Record<string, string[]>; // Counters reset by a sectioning counter, on top of the standard ones
+}
+
+// The class of the document being rendered, with its class options applied
+export interface DocumentClass extends ClassProfile {
+  name: string;
+  mainmatter: boolean; // Chapters are numbered; false after \frontmatter and \backmatter
+}
+
+// --- Profiles ---
+
+const STANDARD_HEADINGS: Record<string, HeadingStyle> = {
+  part: { tag: 'h1', className: 'font-bold mt-12 mb-8 text-center', size: 2.49 },
+  chapter: { tag: 'h1', className: 'font-bold mt-8 mb-6 border-b pb-2', size: 2.07 },
+  section: { tag: 'h2', className: 'font-bold mt-6 mb-4 text-slate-800', size: 1.44 },
+  subsection: { tag: 'h3', className: 'font-bold mt-4 mb-3 text-slate-700', size: 1.2 },
+  subsubsection: { tag: 'h4', className: 'font-bold mt-4 mb-2 text-slate-700', size: 1 },
+  paragraph: { tag: 'strong', className: 'mr-2', size: 1 },
+  subparagraph: { tag: 'strong', className: 'mr-2', size: 1 },
+};
+
+// ABNT NBR 6024 tells the levels apart by case and weight: bold capitals, capitals,
+// bold, italic, then plain
+const ABNT_HEADINGS: Record<string, HeadingStyle> = {
+  part: { tag: 'h1', className: 'font-bold uppercase mt-12 mb-8 text-center', size: 2.07 },
+  chapter: { tag: 'h1', className: 'font-bold uppercase mt-8 mb-8', size: 1.44 },
+  section: { tag: 'h2', className: 'font-normal uppercase mt-6 mb-4', size: 1.2 },
+  subsection: { tag: 'h3', className: 'font-bold mt-4 mb-3', size: 1.2 },
+  subsubsection: { tag: 'h4', className: 'font-normal italic mt-4 mb-2', size: 1 },
+  subsubsubsection: { tag: 'h5', className: 'font-normal mt-4 mb-2', size: 1 },
+  paragraph: { tag: 'strong', className: 'mr-2', size: 1 },
+  subparagraph: { tag: 'strong', className: 'mr-2', size: 1 },
+};
+
+const ENGLISH_NAMES: Record<string, string> = {
+  contents: 'Contents',
+  listfigure: 'List of Figures',
+  listtable: 'List of Tables',
+  figure: 'Figure',
+  table: 'Table',
+  refname: 'References', // Bibliography heading without chapters
+  bibname: 'Bibliography', // ... and with them
+  abstract: 'Abstract',
+  notes: 'Notes',
+  chapter: 'Chapter',
+  part: 'Part',
+};
+
+const BRAZILIAN_NAMES: Record<string, string> = {
+  contents: 'Sumário',
+  listfigure: 'Lista de ilustrações',
+  listtable: 'Lista de tabelas',
+  figure: 'Figura',
+  table: 'Tabela',
+  refname: 'Referências',
+  bibname: 'Referências',
+  abstract: 'Resumo',
+  notes: 'Notas',
+  chapter: 'Capítulo',
+  part: 'Parte',
+};
+
+const LEVELS = ['part', 'chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph'];
+
+const article: ClassProfile = {
+  levels: LEVELS.filter(level => level !== 'chapter'),
+  secnumdepth: 3,
+  tocdepth: 3,
+  fontSize: 10,
+  paper: 'letterpaper',
+  twoside: false,
+  openright: false,
+  titlepage: false,
+  matter: false,
+  pageStyle: 'plain',
+  chapterPageStyle: 'plain',
+  chapterLabel: false,
+  cover: false,
+  slides: false,
+  headings: STANDARD_HEADINGS,
+  names: ENGLISH_NAMES,
+};
+
+// Footnotes are numbered within chapters
+const report: ClassProfile = {
+  ...article,
+  levels: LEVELS,
+  secnumdepth: 2,
+  tocdepth: 2,
+  titlepage: true,
+  chapterLabel: true,
+  counterResets: { chapter: ['footnote'] },
+};
+
+const book: ClassProfile = { ...report, twoside: true, openright: true, matter: true, pageStyle: 'headings' };
+
+const memoir: ClassProfile = {
+  ...book,
+  tocdepth: 1,
+  chapterPageStyle: 'chapter',
+  pageStyles: () => ({ chapter: { head: {}, foot: { CO: PAGE_NUMBER, CE: PAGE_NUMBER }, rules: false } }),
+};
+
+// abntex2 builds on memoir; pages are numbered in the top right corner, chapter pages too,
+// and footnotes are numbered through the whole work
+const abntex2: ClassProfile = {
+  ...memoir,
+  levels: [...LEVELS.slice(0, 5), 'subsubsubsection', ...LEVELS.slice(5)],
+  secnumdepth: 4,
+  tocdepth: 4,
+  fontSize: 12,
+  paper: 'a4paper',
+  pageStyle: 'abntheadings',
+  chapterPageStyle: 'abntheadings',
+  chapterLabel: false,
+  cover: true,
+  headings: ABNT_HEADINGS,
+  names: BRAZILIAN_NAMES,
+  pageStyles: twoside => ({ abntheadings: { head: twoside ? { RO: PAGE_NUMBER, LE: PAGE_NUMBER } : { RO: PAGE_NUMBER }, foot: {}, rules: false } }),
+  margins: { top: 30, bottom: 20, inner: 30, outer: 20 },
+  counterResets: {},
+};
+
+// beamer: 4:3 slides (see the aspectratio option) with narrow margins and no page numbers;
+// the frame title is part of the text block
+const beamer: ClassProfile = {
+  ...article,
+  fontSize: 11,
+  paper: 'aspectratio=43',
+  pageStyle: 'empty',
+  slides: true,
+  margins: { top: 4, bottom: 6, inner: 10, outer: 10 },
+};
+
+export const CLASS_PROFILES: Record<string, ClassProfile> = { article, report, book, memoir, abntex2, beamer };
+
+// Classes close enough to a standard one to share its profile
+const CLASS_ALIASES: Record<string, string> = {
+  scrartcl: 'article',
+  scrreprt: 'report',
+  scrbook: 'book',
+  amsart: 'article',
+  amsbook: 'book',
+  extarticle: 'article',
+  extreport: 'report',
+  extbook: 'book',
+};
+
+export const loadClass = (name: string, options: string[] = []): DocumentClass => {
+  const profile = CLASS_PROFILES[CLASS_ALIASES[name] || name] || article;
+  const documentClass: DocumentClass = { ...profile, name, mainmatter: true };
+  options.forEach(option => {
+    if (option === 'openany') documentClass.openright = false;
+    else if (option === 'openright') documentClass.openright = true;
+    else if (option === 'titlepage') documentClass.titlepage = true;
+    else if (option === 'notitlepage') documentClass.titlepage = false;
+  });
+  return documentClass;
+};
+
+export const hasChapters = (ctx: RenderContext) => ctx.documentClass.levels.includes('chapter');
+
+// Figures, tables and equations are numbered within chapters (2.1, 2.2 ...) in classes that have them
+export const withinChapter = (value: number, ctx: RenderContext) =>
+  hasChapters(ctx) ? `${ctx.counters.chapter || 0}.${value}` : String(value);
+
+// Commands such as \chapter in article are undefined control sequences, as in TeX
+export const undefinedInClass = (node: CommandNode, ctx: RenderContext) => {
+  ctx.diagnostics.push({ severity: 'error', message: `Undefined control sequence \\${node.name}: the ${ctx.documentClass.name} class does not define it`, pos: node.pos });
+};
+
+// Attribute that starts a chapter on a new page, on a right-hand one with openright
+export const chapterPageBreak = (ctx: RenderContext) => (ctx.documentClass.openright ? ' data-new-page="double"' : ' data-new-page');
+
+// --- Title ---
+
+const field = (name: string, index = 0): CommandDefinition => ({
+  render: (node, ctx) => {
+    ctx.metadata[name] = ctx.renderArg(node, index);
+    return '';
+  },
+});
+
+// \thanks marks the author with a symbol and keeps the text in a tooltip
+const THANKS_SYMBOLS = ['*', '†', '‡', '§', '¶'];
+
+const date = (ctx: RenderContext) => ctx.metadata.date ?? today();
+
+const line = (html: string, size: number, className = '') =>
+  html ? `<div${className ? ` class="${className}"` : ''} style="font-size: ${size}em">${html}</div>` : '';
+
+// Title, author and date, with beamer's subtitle and institute when given
+export const titleLines = (ctx: RenderContext) =>
+  line(ctx.metadata.title || '', 1.728, ctx.metadata.subtitle ? 'mb-2' : 'mb-6') +
+  line(ctx.metadata.subtitle || '', 1.2, 'mb-6') +
+  line(ctx.metadata.author || '', 1.2, 'mb-3') +
+  line(ctx.metadata.institute || '', 1, 'mb-3') +
+  line(date(ctx), 1.2);
+
+// A page of its own, with a style and a page number of its own
+const titlePage = (html: string, style: string, restart: boolean) =>
+  `<div data-new-page class="flex flex-col min-h-full text-center"><span hidden data-this-page-style="${style}"></span>${html}</div>` +
+  `<div class="page-break"></div>${restart ? '<span hidden data-set-page="1"></span>' : ''}`;
+
+// abntex2's \imprimircapa: institution and author at the top, the title in the middle,
+// place and year at the bottom
+const cover = (ctx: RenderContext) =>
+  titlePage(
+    line(ctx.metadata.institution || '', 1.2) +
+      line(ctx.metadata.author || '', 1.2, 'mt-12') +
+      '<div class="grow"></div>' +
+      line(ctx.metadata.title || '', 1.728, 'font-bold') +
+      '<div class="grow"></div>' +
+      line(ctx.metadata.place || '', 1.2) +
+      line(date(ctx), 1.2),
+    'empty',
+    false,
+  );
+
+// \imprimirfolhaderosto: the cover again, with the nature of the work and the advisors
+// in a box on the right half
+const titleLeaf = (ctx: RenderContext) => {
+  const advisor = (key: string, label: string) =>
+    ctx.metadata[key] ? `<p class="mt-4">${ctx.metadata[`${key}Label`] ?? label} ${ctx.metadata[key]}</p>` : '';
+  const preamble = ctx.metadata.preamble ? `<p>${ctx.metadata.preamble}</p>` : '';
+  const box = preamble + advisor('advisor', 'Orientador:') + advisor('coadvisor', 'Coorientador:');
+  return titlePage(
+    line(ctx.metadata.author || '', 1.2) +
+      '<div class="grow"></div>' +
+      line(ctx.metadata.title || '', 1.44, 'font-bold') +
+      (box ? `<div class="mt-12 ml-[50%] text-left text-justify text-sm">${box}</div>` : '') +
+      '<div class="grow"></div>' +
+      line(ctx.metadata.place || '', 1.2) +
+      line(date(ctx), 1.2),
+    'empty',
+    false,
+  );
+};
+
+const makeTitle = (node: CommandNode, ctx: RenderContext) => {
+  const documentClass = ctx.documentClass;
+  if (documentClass.cover) return cover(ctx);
+  if (ctx.metadata.title === undefined) ctx.warn('No \\title given', node.pos);
+  // report and book put the title on a page of their own and restart the numbering after it
+  if (documentClass.titlepage) {
+    return titlePage(`<div class="grow"></div>${titleLines(ctx)}<div class="grow-[2]"></div>`, 'empty', true);
+  }
+  // Across both columns of a twocolumn document
+  return `<div class="text-center mt-4 mb-8" style="column-span: all"><span hidden data-this-page-style="plain"></span>${titleLines(ctx)}</div>`;
+};
+
+// \frontmatter, \mainmatter and \backmatter start a right-hand page; front matter is
+// numbered in roman, and only main matter chapters get numbers. abntex2's \pretextual,
+// \textual and \postextual keep counting pages but hide the numbers before the text.
+const matter = (mainmatter: boolean, change: { numbering?: string; pageStyle?: string } = {}): CommandDefinition => ({
+  block: true,
+  render: (node, ctx) => {
+    if (!ctx.documentClass.matter) {
+      undefinedInClass(node, ctx);
+      return '';
+    }
+    ctx.documentClass.mainmatter = mainmatter;
+    const clear = ctx.documentClass.openright ? '<div class="page-break" data-clear="double"></div>' : '<div class="page-break"></div>';
+    const numbering = change.numbering ? `<span hidden data-page-numbering="${change.numbering}"></span>` : '';
+    const pageStyle = change.pageStyle ? `<span hidden data-page-style="${change.pageStyle}"></span>` : '';
+    return clear + numbering + pageStyle;
+  },
+});
+
+export const CLASS_COMMANDS: Record<string, CommandDefinition> = {
+  documentclass: {
+    render: (node, ctx) => {
+      const name = ctx.argText(node, 1) || 'article';
+      const options = (ctx.argText(node, 0) || '').split(',').map(option => option.trim()).filter(Boolean);
+      if (!CLASS_PROFILES[CLASS_ALIASES[name] || name]) ctx.warn(`Unknown class \`${name}', rendering it as article`, node.pos);
+      ctx.documentClass = loadClass(name, options);
+      applyClassOptions(ctx.layout, options, ctx.documentClass);
+      return '';
+    },
+  },
+
+  title: field('title', 1),
+  subtitle: field('subtitle', 1),
+  author: field('author', 1),
+  institute: field('institute', 1),
+  date: field('date'),
+  thanks: {
+    render: (node, ctx) => {
+      const symbol = THANKS_SYMBOLS[(ctx.stepCounter('thanks') - 1) % THANKS_SYMBOLS.length];
+      return `<sup title="${escapeHtml(ctx.renderArg(node, 0).replace(/<[^>]*>/g, ''))}">${symbol}</sup>`;
+    },
+  },
+  // Authors set side by side
+  and: { render: () => '<span class="inline-block w-16"></span>' },
+  maketitle: { block: true, render: makeTitle },
+
+  frontmatter: matter(false, { numbering: 'roman' }),
+  mainmatter: matter(true, { numbering: 'arabic' }),
+  backmatter: matter(false),
+
+  // abntex2 metadata and the pages it prints
+  titulo: field('title'),
+  autor: field('author'),
+  data: field('date'),
+  local: field('place'),
+  instituicao: field('institution'),
+  tipotrabalho: field('kind'),
+  preambulo: field('preamble'),
+  orientador: {
+    render: (node, ctx) => {
+      if (node.args[0]) ctx.metadata.advisorLabel = ctx.renderArg(node, 0);
+      ctx.metadata.advisor = ctx.renderArg(node, 1);
+      return '';
+    },
+  },
+  coorientador: {
+    render: (node, ctx) => {
+      if (node.args[0]) ctx.metadata.coadvisorLabel = ctx.renderArg(node, 0);
+      ctx.metadata.coadvisor = ctx.renderArg(node, 1);
+      return '';
+    },
+  },
+  pretextual: matter(false, { pageStyle: 'empty' }),
+  textual: matter(true, { pageStyle: 'abntheadings' }),
+  postextual: matter(false),
+  imprimircapa: { block: true, render: (node, ctx) => cover(ctx) },
+  imprimirfolhaderosto: { block: true, render: (node, ctx) => titleLeaf(ctx) },
+  imprimirtitulo: { render: (node, ctx) => ctx.metadata.title || '' },
+  imprimirautor: { render: (node, ctx) => ctx.metadata.author || '' },
+  imprimirdata: { render: (node, ctx) => date(ctx) },
+  imprimirlocal: { render: (node, ctx) => ctx.metadata.place || '' },
+  imprimirinstituicao: { render: (node, ctx) => ctx.metadata.institution || '' },
+  imprimirtipotrabalho: { render: (node, ctx) => ctx.metadata.kind || '' },
+  imprimirpreambulo: { render: (node, ctx) => ctx.metadata.preamble || '' },
+  imprimirorientador: { render: (node, ctx) => ctx.metadata.advisor || '' },
+  imprimircoorientador: { render: (node, ctx) => ctx.metadata.coadvisor || '' },
+};
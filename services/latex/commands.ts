@@ -0,0 +1,452 @@
+// --- Command definitions ---
+// Text-level commands, sectioning, symbols and font declarations.
+
+import { CommandDefinition, DeclarationDefinition, RenderContext } from './renderer';
+import { applyGeometry, sectionMarks } from './layout';
+import { chapterPageBreak, hasChapters, undefinedInClass } from './classes';
+import { escapeHtml, isSafeUrl, parseDimension, parseKeyValues, today } from './utils';
+
+// --- Font declarations (scoped to the enclosing group) ---
+
+export const DECLARATIONS: Record<string, DeclarationDefinition> = {
+  bfseries: { style: 'font-weight: bold' },
+  bf: { style: 'font-weight: bold' },
+  mdseries: { style: 'font-weight: normal' },
+  itshape: { style: 'font-style: italic' },
+  it: { style: 'font-style: italic' },
+  em: { style: 'font-style: italic' },
+  slshape: { style: 'font-style: oblique' },
+  sl: { style: 'font-style: oblique' },
+  upshape: { style: 'font-style: normal' },
+  scshape: { style: 'font-variant: small-caps' },
+  sc: { style: 'font-variant: small-caps' },
+  ttfamily: { className: 'font-mono' },
+  tt: { className: 'font-mono' },
+  sffamily: { className: 'font-sans' },
+  sf: { className: 'font-sans' },
+  rmfamily: { className: 'font-serif' },
+  rm: { className: 'font-serif' },
+  normalfont: { style: 'font-weight: normal; font-style: normal; font-variant: normal' },
+
+  tiny: { className: 'text-xs' },
+  scriptsize: { className: 'text-xs' },
+  footnotesize: { className: 'text-sm' },
+  small: { className: 'text-sm' },
+  normalsize: { className: 'text-base' },
+  large: { className: 'text-lg' },
+  Large: { className: 'text-xl' },
+  LARGE: { className: 'text-2xl' },
+  huge: { className: 'text-3xl' },
+  Huge: { className: 'text-4xl' },
+
+  centering: { className: 'text-center w-full', block: true },
+  raggedright: { className: 'text-left w-full', block: true },
+  raggedleft: { className: 'text-right w-full', block: true },
+
+  color: { style: (node) => `color: ${cssColor(node.args[1]?.raw || '')}` },
+};
+
+// --- Helpers ---
+
+// Maps xcolor names (`red`, `blue!50`, `red!20!black`) onto a CSS colour
+export const cssColor = (raw: string) => {
+  const [name, percent, other] = raw.trim().split('!');
+  if (!/^[a-zA-Z]+$/.test(name)) return 'inherit';
+  const base = name.toLowerCase();
+  const amount = parseFloat(percent);
+  if (isNaN(amount)) return base;
+  // xcolor mixes with white unless another colour is given
+  const mixWith = other && /^[a-zA-Z]+$/.test(other) ? other.toLowerCase() : 'white';
+  return `color-mix(in srgb, ${base} ${Math.min(100, Math.max(0, amount))}%, ${mixWith})`;
+};
+
+const wrap = (tag: string, attrs = ''): CommandDefinition => ({
+  render: (node, ctx) => `<${tag}${attrs}>${ctx.renderArg(node, 0)}</${tag}>`,
+});
+
+const styled = (style: string) => wrap('span', ` style="${style}"`);
+
+const symbol = (text: string): CommandDefinition => ({ render: () => text });
+
+const ignore: CommandDefinition = { render: () => '' };
+
+// Remembers \usepackage[options]{a,b} so packages can change how later commands behave
+const usePackage: CommandDefinition = {
+  render: (node, ctx) => {
+    (ctx.argText(node, 1) || '').split(',').map(name => name.trim()).filter(Boolean).forEach(name => {
+      ctx.packages[name] = ctx.argText(node, 0) || '';
+      if (name === 'geometry') applyGeometry(ctx.layout, ctx.packages[name], true);
+    });
+    return '';
+  },
+};
+
+// Strips markup from rendered HTML, for use in attributes such as title=""
+export const plainText = (html: string) => html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+
+// Finds an image in the project assets by its \includegraphics path
+export const resolveAsset = (path: string, assets: Record<string, string>) => {
+  const filename = path.split('/').pop() || path;
+  const direct = assets[filename] || assets[filename + '.png'] || assets[filename + '.jpg'] || assets[filename + '.jpeg'];
+  if (direct) return { src: direct, filename };
+  const key = Object.keys(assets).find(k => k.includes(filename));
+  return { src: key ? assets[key] : undefined, filename };
+};
+
+// CSS for \includegraphics[width=..., height=..., scale=..., angle=...]. Images are
+// inline like in LaTeX, so they follow \centering and sit side by side.
+const graphicsStyle = (options: Record<string, string>) => {
+  const style = ['display: inline-block', 'vertical-align: bottom', 'max-width: 100%'];
+  const width = options.width ? parseDimension(options.width) : null;
+  const height = options.height ? parseDimension(options.height) : null;
+  if (width) style.push(`width: ${width}`);
+  if (height) style.push(`height: ${height}`);
+  else style.push('height: auto');
+  if (width && height) style.push(`object-fit: ${options.keepaspectratio ? 'contain' : 'fill'}`);
+  const scale = parseFloat(options.scale);
+  if (!width && !height && !isNaN(scale) && scale > 0) style.push(`zoom: ${scale}`);
+  const angle = parseFloat(options.angle);
+  // LaTeX rotates counter-clockwise
+  if (!isNaN(angle) && angle) style.push(`transform: rotate(${-angle}deg)`);
+  return style.join('; ');
+};
+
+// --- Accents ---
+
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '"': '\u0308',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  u: '\u0306',
+  v: '\u030C',
+  H: '\u030B',
+  c: '\u0327',
+  k: '\u0328',
+  r: '\u030A',
+  d: '\u0323',
+  b: '\u0331',
+};
+
+const accent = (mark: string): CommandDefinition => ({
+  render: (node, ctx) => {
+    const base = ctx.renderArg(node, 0);
+    if (!base) return mark;
+    return (base.charAt(0) + mark + base.slice(1)).normalize('NFC');
+  },
+});
+
+// --- Sectioning ---
+
+// part is -1, chapter 0, section 1 ..., as compared against secnumdepth and tocdepth
+const SECTION_DEPTHS: Record<string, number> = {
+  part: -1,
+  chapter: 0,
+  section: 1,
+  subsection: 2,
+  subsubsection: 3,
+  subsubsubsection: 4,
+  paragraph: 4,
+  subparagraph: 5,
+};
+
+const toRoman = (value: number) => {
+  const numerals: [number, string][] = [[1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+  let result = '';
+  let rest = value;
+  numerals.forEach(([n, s]) => {
+    while (rest >= n) {
+      result += s;
+      rest -= n;
+    }
+  });
+  return result;
+};
+
+// Hierarchical number such as 2.3.1, from the counters of the levels the class defines
+const sectionNumber = (level: string, ctx: RenderContext) => {
+  const levels = ctx.documentClass.levels.filter(name => name !== 'part');
+  return levels.slice(0, levels.indexOf(level) + 1).map(name => ctx.counters[name] || 0).join('.');
+};
+
+export const sectionDepth = (level: string) => SECTION_DEPTHS[level] ?? -2;
+
+const openHeading = (level: string, attributes: string, ctx: RenderContext) => {
+  const style = ctx.documentClass.headings[level];
+  return { open: `<${style.tag}${attributes} class="${style.className}" style="font-size: ${style.size}em">`, close: `</${style.tag}>` };
+};
+
+const sectioning = (level: string): CommandDefinition => ({
+  block: level !== 'paragraph' && level !== 'subparagraph',
+  render: (node, ctx) => {
+    const documentClass = ctx.documentClass;
+    if (!documentClass.levels.includes(level)) {
+      undefinedInClass(node, ctx);
+      return `<p>${escapeHtml(`\\${level}`)} ${ctx.renderArg(node, 1)}</p>`;
+    }
+    // Levels deeper than secnumdepth are unnumbered but still listed in the contents;
+    // so are chapters outside the main matter
+    const numbered = !node.star && sectionDepth(level) <= (ctx.counters.secnumdepth ?? documentClass.secnumdepth) &&
+      (level !== 'chapter' || documentClass.mainmatter);
+    let number = '';
+    if (numbered) {
+      ctx.stepCounter(level);
+      number = level === 'part' ? toRoman(ctx.counters.part) : sectionNumber(level, ctx);
+    }
+    // Register the heading before rendering its title so a \label inside the title resolves to it
+    const anchor = numbered ? ctx.refTarget(level, number) : node.star ? '' : ctx.anchor();
+    const id = anchor ? ` id="${anchor}"` : '';
+    const title = ctx.renderArg(node, 1);
+    if (!node.star) {
+      // \section[short]{long} lists the short title
+      const entry = node.args[0] ? ctx.renderArg(node, 0) : title;
+      ctx.aux.contents.push({ type: level, number, title: entry, anchor, page: ctx.counters.page });
+    }
+
+    // Running heads for the page header
+    const marks = numbered ? sectionMarks(level, number, title, ctx) : '';
+    const label = (name: string) => `<span class="block mb-4" style="font-size: 0.83em">${documentClass.names[name]} ${number}</span>`;
+
+    // Parts and chapters start a new page in classes with chapters, in the class's chapter page style
+    if (level === 'part' || level === 'chapter') {
+      const newPage = hasChapters(ctx) ? chapterPageBreak(ctx) : '';
+      const pageStyle = newPage ? `<span hidden data-this-page-style="${documentClass.chapterPageStyle}"></span>` : '';
+      const heading = openHeading(level, id + newPage, ctx);
+      const prefix = !numbered ? '' : level === 'part' || documentClass.chapterLabel ? label(level) : `${number} `;
+      return `${heading.open}${pageStyle}${marks}${prefix}${title}${heading.close}`;
+    }
+    const heading = openHeading(level, id, ctx);
+    return `${heading.open}${marks}${numbered ? number + ' ' : ''}${title}${heading.close}`;
+  },
+});
+
+// Heading of generated lists (bibliography, list of figures ...): an unnumbered chapter in classes that have them
+export const listHeading = (title: string, ctx: RenderContext) => {
+  const chapter = hasChapters(ctx);
+  const heading = openHeading(chapter ? 'chapter' : 'section', chapter ? chapterPageBreak(ctx) : '', ctx);
+  return `${heading.open}${title}${heading.close}`;
+};
+
+// \cleardoublepage also skips to an odd page, see services/paginator.ts
+const pageBreak: CommandDefinition = {
+  block: true,
+  render: (node, ctx) => {
+    ctx.stepCounter('page');
+    return node.name === 'cleardoublepage' ? '<div class="page-break" data-clear="double"></div>' : '<div class="page-break"></div>';
+  },
+};
+
+// --- Definitions ---
+
+export const BASE_COMMANDS: Record<string, CommandDefinition> = {
+  // Preamble and setup commands produce no output
+  usepackage: usePackage,
+  RequirePackage: usePackage,
+  newcommand: ignore,
+  renewcommand: ignore,
+  providecommand: ignore,
+  newenvironment: ignore,
+  renewenvironment: ignore,
+  DeclareMathOperator: ignore,
+  setlength: ignore,
+  addtolength: ignore,
+  selectlanguage: ignore,
+  hyphenation: ignore,
+  frenchspacing: ignore,
+  graphicspath: ignore,
+  hypersetup: ignore,
+  linespread: ignore,
+  input: ignore,
+  include: ignore,
+  noindent: ignore,
+  indent: ignore,
+  protect: ignore,
+  relax: ignore,
+  makeatletter: ignore,
+  makeatother: ignore,
+  nopagebreak: ignore,
+  pagebreak: ignore,
+  index: ignore,
+  phantomsection: ignore,
+  verb: ignore,
+
+  // Counters
+  newcounter: { render: (node, ctx) => { ctx.setCounter(ctx.argText(node, 0) || '', 0); return ''; } },
+  setcounter: {
+    render: (node, ctx) => {
+      const value = parseInt(ctx.argText(node, 1) || '', 10);
+      if (!isNaN(value)) ctx.setCounter(ctx.argText(node, 0) || '', value);
+      return '';
+    },
+  },
+  addtocounter: {
+    render: (node, ctx) => {
+      const name = ctx.argText(node, 0) || '';
+      const value = parseInt(ctx.argText(node, 1) || '', 10);
+      if (!isNaN(value)) ctx.setCounter(name, (ctx.counters[name] || 0) + value);
+      return '';
+    },
+  },
+  stepcounter: { render: (node, ctx) => { ctx.stepCounter(ctx.argText(node, 0) || ''); return ''; } },
+  refstepcounter: { render: (node, ctx) => { ctx.stepCounter(ctx.argText(node, 0) || ''); return ''; } },
+
+  // Sectioning
+  part: sectioning('part'),
+  chapter: sectioning('chapter'),
+  section: sectioning('section'),
+  subsection: sectioning('subsection'),
+  subsubsection: sectioning('subsubsection'),
+  subsubsubsection: sectioning('subsubsubsection'),
+  paragraph: sectioning('paragraph'),
+  subparagraph: sectioning('subparagraph'),
+
+  // Text formatting
+  textbf: wrap('strong'),
+  textit: wrap('em'),
+  emph: wrap('em'),
+  textsl: styled('font-style: oblique'),
+  textsc: wrap('span', ' class="uppercase text-sm tracking-wider"'),
+  textup: styled('font-style: normal'),
+  textmd: styled('font-weight: normal'),
+  textnormal: styled('font-weight: normal; font-style: normal'),
+  textrm: wrap('span', ' class="font-serif"'),
+  textsf: wrap('span', ' class="font-sans"'),
+  texttt: wrap('code', ' class="bg-gray-100 px-1 rounded font-mono text-sm"'),
+  underline: wrap('u'),
+  textsuperscript: wrap('sup'),
+  textsubscript: wrap('sub'),
+  mbox: wrap('span', ' class="whitespace-nowrap"'),
+  makebox: { render: (node, ctx) => `<span class="whitespace-nowrap">${ctx.renderArg(node, 2)}</span>` },
+  fbox: wrap('span', ' class="border border-black px-1"'),
+  textcolor: { render: (node, ctx) => `<span style="color: ${cssColor(ctx.argText(node, 1) || '')}">${ctx.renderArg(node, 2)}</span>` },
+  url: {
+    render: (node, ctx) => {
+      const url = ctx.argText(node, 0) || '';
+      const text = escapeHtml(url);
+      return isSafeUrl(url)
+        ? `<a href="${text}" class="text-blue-600 font-mono text-sm break-all">${text}</a>`
+        : `<span class="font-mono text-sm break-all">${text}</span>`;
+    },
+  },
+  href: {
+    render: (node, ctx) => {
+      const url = ctx.argText(node, 0) || '';
+      return isSafeUrl(url) ? `<a href="${escapeHtml(url)}" class="text-blue-600">${ctx.renderArg(node, 1)}</a>` : ctx.renderArg(node, 1);
+    },
+  },
+
+  // Spacing & breaks
+  '\\': { render: () => '<br/>' },
+  newline: { render: () => '<br/>' },
+  linebreak: { render: () => '<br/>' },
+  vspace: {
+    block: true,
+    render: (node, ctx) => {
+      const height = parseDimension(ctx.argText(node, 0) || '') || '1rem';
+      return `<div style="height: ${height}"></div>`;
+    },
+  },
+  hspace: {
+    render: (node, ctx) => {
+      const width = parseDimension(ctx.argText(node, 0) || '') || '1rem';
+      return `<span style="display:inline-block; width: ${width};"></span>`;
+    },
+  },
+  vfill: { block: true, render: () => '<div class="h-16 grow"></div>' },
+  hfill: { render: () => '<span style="display:inline-block; width: 2rem;"></span>' },
+  quad: symbol('\u2003'),
+  qquad: symbol('\u2003\u2003'),
+  enspace: symbol('\u2002'),
+  thinspace: symbol('\u2009'),
+  nobreakspace: symbol('\u00a0'),
+  smallskip: { block: true, render: () => '<div style="height: 0.5rem"></div>' },
+  medskip: { block: true, render: () => '<div style="height: 1rem"></div>' },
+  bigskip: { block: true, render: () => '<div style="height: 1.5rem"></div>' },
+  newpage: pageBreak,
+  clearpage: pageBreak,
+  cleardoublepage: pageBreak,
+
+  // Graphics
+  includegraphics: {
+    render: (node, ctx) => {
+      const { src, filename } = resolveAsset(ctx.argText(node, 1) || '', ctx.options.assets);
+      const style = graphicsStyle(parseKeyValues(ctx.argText(node, 0)));
+      if (src) {
+        return `<img src="${src}" alt="${escapeHtml(filename)}" style="${style}" />`;
+      }
+      ctx.diagnostics.push({ severity: 'error', message: `File \`${filename}' not found`, pos: node.pos });
+      return `<span class="inline-block bg-red-50 border border-red-200 text-red-500 text-xs p-2 text-center rounded my-4 font-mono" style="${style}">Missing Image: ${escapeHtml(filename)}</span>`;
+    },
+  },
+
+  // Logos & dates
+  LaTeX: symbol('L<span style="font-size: 0.75em; vertical-align: 0.25em; margin-left: -0.3em; margin-right: -0.15em;">A</span>T<span style="vertical-align: -0.25em; margin-left: -0.15em; margin-right: -0.1em;">E</span>X'),
+  TeX: symbol('T<span style="vertical-align: -0.25em; margin-left: -0.15em; margin-right: -0.1em;">E</span>X'),
+  today: { render: () => today() },
+
+  // Escaped characters and symbols
+  '%': symbol('%'),
+  '&': symbol('&amp;'),
+  '$': symbol('$'),
+  '#': symbol('#'),
+  '_': symbol('_'),
+  '{': symbol('{'),
+  '}': symbol('}'),
+  ' ': symbol(' '),
+  ',': symbol('\u2009'),
+  ';': symbol('\u2005'),
+  ':': symbol('\u2005'),
+  '!': symbol(''),
+  '/': symbol(''),
+  '-': symbol('\u00ad'),
+  '@': symbol(''),
+  textbackslash: symbol('\\'),
+  ldots: symbol('…'),
+  dots: symbol('…'),
+  textellipsis: symbol('…'),
+  textendash: symbol('–'),
+  textemdash: symbol('—'),
+  textthreequartersemdash: symbol('—'),
+  textquoteleft: symbol('‘'),
+  textquoteright: symbol('’'),
+  textquotedblleft: symbol('“'),
+  textquotedblright: symbol('”'),
+  guillemotleft: symbol('«'),
+  guillemotright: symbol('»'),
+  textasciitilde: symbol('~'),
+  textasciicircum: symbol('^'),
+  textunderscore: symbol('_'),
+  textbar: symbol('|'),
+  textless: symbol('&lt;'),
+  textgreater: symbol('&gt;'),
+  textbullet: symbol('•'),
+  textdegree: symbol('°'),
+  slash: symbol('/'),
+  S: symbol('§'),
+  P: symbol('¶'),
+  copyright: symbol('©'),
+  textregistered: symbol('®'),
+  texttrademark: symbol('™'),
+  dag: symbol('†'),
+  ddag: symbol('‡'),
+  pounds: symbol('£'),
+  euro: symbol('€'),
+  i: symbol('ı'),
+  j: symbol('ȷ'),
+  ss: symbol('ß'),
+  ae: symbol('æ'),
+  AE: symbol('Æ'),
+  oe: symbol('œ'),
+  OE: symbol('Œ'),
+  o: symbol('ø'),
+  O: symbol('Ø'),
+  aa: symbol('å'),
+  AA: symbol('Å'),
+  l: symbol('ł'),
+  L: symbol('Ł'),
+
+  ...Object.fromEntries(Object.entries(ACCENTS).map(([name, mark]) => [name, accent(mark)])),
+};
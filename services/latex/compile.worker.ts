@@ -0,0 +1,62 @@
+// --- Compile worker ---
+// Runs compileProject off the main thread and keeps the render cache between compiles,
+// so an edit only re-renders the sections it touches. A compile hands the thread back
+// between segments every few milliseconds, which lets newer requests in: the running
+// compile then stops at its next segment, and only the newest request is started.
+
+import { CompileRequest, CompileResponse } from './messages';
+import { compileProjectSteps } from './project';
+import { createRenderCache, CompileCancelled } from './cache';
+
+// Longest stretch of rendering before newer requests are let in, in milliseconds
+const SLICE = 10;
+
+const cache = createRenderCache();
+let latest = 0; // Id of the newest request
+let pending: CompileRequest | null = null;
+let running = false;
+
+const respond = (response: CompileResponse) => self.postMessage(response);
+
+const pause = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const compile = async (request: CompileRequest) => {
+  const isCancelled = () => latest !== request.id;
+  try {
+    const steps = compileProjectSteps(request.root, request.preferredFileId, { cache, isCancelled });
+    let sliceStart = performance.now();
+    for (let step = steps.next(); ; step = steps.next()) {
+      if (step.done) {
+        respond({ type: 'done', id: request.id, output: step.value });
+        return;
+      }
+      if (performance.now() - sliceStart > SLICE) {
+        await pause();
+        sliceStart = performance.now();
+      }
+    }
+  } catch (error) {
+    if (error instanceof CompileCancelled) respond({ type: 'cancelled', id: request.id });
+    else respond({ type: 'failed', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+const run = async () => {
+  while (pending) {
+    const request = pending;
+    pending = null;
+    await compile(request);
+  }
+  running = false;
+};
+
+self.onmessage = (event: MessageEvent<CompileRequest>) => {
+  const request = event.data;
+  latest = request.id;
+  if (pending) respond({ type: 'cancelled', id: pending.id });
+  pending = request;
+  if (running) return;
+  running = true;
+  // Queued messages are delivered first, so the newest request is the one that runs
+  setTimeout(run, 0);
+};
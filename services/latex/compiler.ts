@@ -0,0 +1,105 @@
+// --- LaTeX → HTML compiler ---
+// Entry point used by the preview: tokenize → expand macros → parse → lint → render.
+
+import { tokenize } from './tokenizer';
+import { parseLatex } from './parser';
+import { expandMacros, katexMacros } from './macros';
+import { renderDocumentSteps } from './renderer';
+import { lintDocument } from './lint';
+import { applyRuleWidths, defaultLayout } from './layout';
+import { LatexDiagnostic } from './ast';
+import { RenderCache } from './cache';
+import { runSteps, Steps } from './utils';
+import { FileNode, SourceLocation, LogEntry, PageLayout } from '../../types';
+
+export interface CompileOptions {
+  assets?: Record<string, string>;
+  bibFiles?: Record<string, string>; // .bib contents by file name
+  packageFiles?: Record<string, string>; // .sty contents by file name
+  sourceMap?: SourceLocation[];
+  cache?: RenderCache;
+  isCancelled?: () => boolean;
+}
+
+export interface CompileResult {
+  html: string;
+  diagnostics: LatexDiagnostic[];
+  layout: PageLayout;
+}
+
+// One step per rendered segment, see renderDocumentSteps
+export function* compileLatexSteps(source: string, options: CompileOptions = {}): Steps<CompileResult> {
+  if (!source.trim()) return { html: '', diagnostics: [], layout: defaultLayout() };
+
+  const expanded = expandMacros(tokenize(source), { packageFiles: options.packageFiles });
+  const { nodes, diagnostics } = parseLatex(expanded.tokens);
+
+  // Everything before \begin{document} is preamble; documents without one render as a whole
+  const documentIndex = nodes.findIndex(n => n.kind === 'environment' && n.name === 'document');
+  const documentNode = nodes[documentIndex];
+  const preamble = documentIndex === -1 ? [] : nodes.slice(0, documentIndex);
+  const body = documentNode && documentNode.kind === 'environment' ? documentNode.children : nodes;
+
+  const rendered = yield* renderDocumentSteps(preamble, body, {
+    assets: options.assets || {},
+    bibFiles: options.bibFiles || {},
+    mathMacros: katexMacros(expanded.macros),
+    sourceMap: options.sourceMap,
+    cache: options.cache,
+    isCancelled: options.isCancelled,
+  });
+  applyRuleWidths(rendered.layout, expanded.macros);
+  return {
+    html: rendered.html,
+    diagnostics: [...expanded.diagnostics, ...diagnostics, ...lintDocument(nodes), ...rendered.diagnostics],
+    layout: rendered.layout,
+  };
+}
+
+export const compileLatex = (source: string, options: CompileOptions = {}) => runSteps(compileLatexSteps(source, options));
+
+// Converts compiler diagnostics into Logs tab entries that point at the original file and
+// line. Content rendered more than once (a caption in the list of figures ...) reports once.
+export const diagnosticsToLogs = (
+  diagnostics: LatexDiagnostic[],
+  sourceMap: SourceLocation[],
+  fileMap: Record<string, FileNode>, // By name, as the compiler looked files up
+  paths: Record<string, string> // Project paths by file id
+): LogEntry[] => {
+  const now = Date.now();
+  const seen = new Set<string>();
+  const logs: LogEntry[] = [];
+  diagnostics.forEach((diagnostic, index) => {
+    const origin = diagnostic.file ? undefined : sourceMap[diagnostic.pos.line - 1];
+    const fileId = origin ? origin.fileId : diagnostic.file && fileMap[diagnostic.file]?.id;
+    const file = fileId ? paths[fileId] : diagnostic.file;
+    const line = origin ? origin.line : diagnostic.pos.line;
+    let message = diagnostic.message;
+    if (diagnostic.related) {
+      // Named by file as well when it is in another one
+      const relatedOrigin = diagnostic.file ? undefined : sourceMap[diagnostic.related.pos.line - 1];
+      const relatedLine = relatedOrigin ? relatedOrigin.line : diagnostic.related.pos.line;
+      const where = relatedOrigin && relatedOrigin.fileId !== fileId ? `at ${paths[relatedOrigin.fileId]}:${relatedLine}` : `on line ${relatedLine}`;
+      message += ` (${diagnostic.related.label} ${where})`;
+    }
+    const key = `${file}:${line}:${message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    logs.push({ id: `${now}-${index}`, type: diagnostic.severity, message, file, fileId: fileId || undefined, line, timestamp: now });
+  });
+  return logs;
+};
+
+// The closing line of the Logs tab
+export const summaryLog = (logs: LogEntry[]): LogEntry => {
+  const errors = logs.filter(log => log.type === 'error').length;
+  const warnings = logs.filter(log => log.type === 'warning').length;
+  return {
+    id: `${Date.now()}-summary`,
+    type: 'info',
+    message: errors + warnings === 0
+      ? 'Compilation finished. Output: project.pdf'
+      : `Compilation finished with ${errors} error${errors === 1 ? '' : 's'} and ${warnings} warning${warnings === 1 ? '' : 's'}`,
+    timestamp: Date.now(),
+  };
+};
@@ -0,0 +1,62 @@
+// --- Table of Contents ---
+// Headings record themselves in the aux data as they are rendered (see sectioning in
+// commands.ts), so \tableofcontents lists the previous pass, including files pulled in
+// by \input. Starred headings are left out unless \addcontentsline adds them.
+
+import { CommandDefinition, ContentsEntry, RenderContext } from './renderer';
+import { listHeading, sectionDepth } from './commands';
+import { hasChapters } from './classes';
+import { frameContents } from './beamer';
+import { escapeHtml } from './utils';
+
+// \addcontentsline{lof}{figure}{...} feeds \listoffigures rather than the contents
+const LIST_FILES: Record<string, string> = {
+  lof: 'figure',
+  lot: 'table',
+};
+
+const renderEntry = (entry: ContentsEntry, top: number, ctx: RenderContext) => {
+  const depth = sectionDepth(entry.type);
+  const number = entry.number ? escapeHtml(entry.number) : '';
+  if (depth === -1) {
+    return `<a href="#${entry.anchor}" class="flex items-baseline text-lg font-bold mt-6 mb-2 hover:text-blue-600"><span>${number ? `${ctx.documentClass.names.part} ${number}&emsp;` : ''}${entry.title}</span><span class="flex-1"></span><span data-page-of="${entry.anchor}">${entry.page}</span></a>`;
+  }
+  // Top-level entries (chapters, or sections in an article) are bold without dot leaders
+  const indent = Math.max(0, depth - top) * 1.5;
+  const leader = depth === top ? 'flex-1' : 'flex-1 border-b border-dotted border-slate-400 mx-2';
+  const numberBox = number ? `<span class="shrink-0" style="min-width: ${depth === top ? 1.5 : 2.5 + (depth - top - 1) * 0.8}em">${number}</span>` : '';
+  const className = depth === top ? ' font-bold mt-3' : '';
+  return `<a href="#${entry.anchor}" class="flex items-baseline hover:text-blue-600${className}" style="padding-left: ${indent}em">${numberBox}<span${number ? ' class="ml-1"' : ''}>${entry.title}</span><span class="${leader}"></span><span data-page-of="${entry.anchor}">${entry.page}</span></a>`;
+};
+
+const tableOfContents = (ctx: RenderContext) => {
+  if (ctx.layout.slides) return frameContents(ctx);
+  const tocdepth = ctx.counters.tocdepth ?? ctx.documentClass.tocdepth;
+  const top = hasChapters(ctx) ? 0 : 1;
+  const items = ctx.previousAux.contents
+    .filter(entry => sectionDepth(entry.type) <= tocdepth)
+    .map(entry => renderEntry(entry, top, ctx));
+  return `<section>${listHeading(ctx.documentClass.names.contents, ctx)}<div class="my-4 space-y-1">${items.join('')}</div></section>`;
+};
+
+export const CONTENTS_COMMANDS: Record<string, CommandDefinition> = {
+  tableofcontents: { block: true, render: (node, ctx) => tableOfContents(ctx) },
+
+  // \addcontentsline{toc}{section}{text} lists the current position, like hyperref's \phantomsection
+  addcontentsline: {
+    render: (node, ctx) => {
+      const file = ctx.argText(node, 0) || '';
+      const type = file === 'toc' ? ctx.argText(node, 1) || 'section' : LIST_FILES[file];
+      if (!type) return '';
+      const anchor = ctx.anchor();
+      const entry = { type, number: '', title: ctx.renderArg(node, 2), anchor, page: ctx.counters.page };
+      (file === 'toc' ? ctx.aux.contents : ctx.aux.floats).push(entry);
+      return `<span id="${anchor}"></span>`;
+    },
+  },
+
+  addtocontents: { render: () => '' },
+
+  // \numberline{1.2} sets the number box of a hand-written entry
+  numberline: { render: (node, ctx) => `${ctx.renderArg(node, 0)}&ensp;` },
+};
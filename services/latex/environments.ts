@@ -0,0 +1,105 @@
+// --- Environment definitions ---
+// Lists, alignment blocks, quotes, minipages and other text environments.
+
+import { LatexNode, CommandNode, EnvironmentNode } from './ast';
+import { EnvironmentDefinition, RenderContext } from './renderer';
+import { relativeWidth } from './layout';
+import { overlayAttribute } from './beamer';
+
+interface ListItem {
+  item: CommandNode;
+  nodes: LatexNode[];
+}
+
+// Splits environment content at each \item (or \bibitem ...); anything before the first item is dropped
+export const splitItems = (children: LatexNode[], command = 'item'): ListItem[] => {
+  const items: ListItem[] = [];
+  children.forEach(node => {
+    if (node.kind === 'command' && node.name === command) {
+      items.push({ item: node, nodes: [] });
+    } else if (items.length > 0) {
+      items[items.length - 1].nodes.push(node);
+    }
+  });
+  return items;
+};
+
+const BULLETS = ['disc', 'circle', 'square', 'disc'];
+const NUMBERING = ['decimal', 'lower-alpha', 'lower-roman', 'upper-alpha'];
+
+// Beamer's \begin{itemize}[<+->] gives every \item an overlay specification
+const defaultOverlay = (node: EnvironmentNode) => node.args[0]?.raw.trim().match(/^<(.*)>$/)?.[1];
+
+const renderList = (tag: 'ul' | 'ol', styles: string[]) => (node: EnvironmentNode, ctx: RenderContext) => {
+  const style = styles[Math.min(ctx.listDepth, styles.length - 1)];
+  const overlay = defaultOverlay(node);
+  ctx.listDepth++;
+  const items = splitItems(node.children).map(({ item, nodes }, index) => {
+    // Numbered items can be the target of a \label inside them
+    const id = tag === 'ol' ? ` id="${ctx.refTarget('enumi', item.args[0]?.raw.trim() || String(index + 1))}"` : '';
+    const uncover = overlayAttribute('uncover', item.overlay ?? overlay, ctx);
+    const content = ctx.renderFlow(nodes).html.trim();
+    if (item.args[0]) {
+      return `<li${id}${uncover} class="list-none -ml-6"><span class="inline-block w-6 font-bold">${ctx.renderArg(item, 0)}</span>${content}</li>`;
+    }
+    return `<li${id}${uncover}>${content}</li>`;
+  });
+  ctx.listDepth--;
+  return `<${tag} class="pl-6 space-y-1 my-4" style="list-style-type: ${style}">${items.join('')}</${tag}>`;
+};
+
+const renderDescription = (node: EnvironmentNode, ctx: RenderContext) => {
+  ctx.listDepth++;
+  const items = splitItems(node.children).map(({ item, nodes }) =>
+    `<dt class="font-bold">${ctx.renderArg(item, 0)}</dt><dd class="pl-6 mb-2">${ctx.renderFlow(nodes).html.trim()}</dd>`
+  );
+  ctx.listDepth--;
+  return `<dl class="my-4">${items.join('')}</dl>`;
+};
+
+const block = (className: string): EnvironmentDefinition => ({
+  render: (node, ctx) => `<div class="${className}">${ctx.renderFlow(node.children).html}</div>`,
+});
+
+// Titled by \abstractname unless a title is given, as abntex2's resumo allows
+const renderAbstract = (node: EnvironmentNode, ctx: RenderContext) => {
+  const title = node.args[0] ? ctx.renderArg(node, 0) : ctx.documentClass.names.abstract;
+  return `<div class="mx-12 my-8 text-sm text-justify"><p class="text-center font-bold text-xs uppercase tracking-wider mb-2">${title}</p>${ctx.renderFlow(node.children).html}</div>`;
+};
+
+const renderMinipage = (node: EnvironmentNode, ctx: RenderContext) =>
+  `<div class="inline-block align-top" style="width: ${relativeWidth(ctx.argText(node, 3) || '', ctx.layout)}; vertical-align: top;">${ctx.renderFlow(node.children).html}</div>`;
+
+export const BASE_ENVIRONMENTS: Record<string, EnvironmentDefinition> = {
+  itemize: { render: renderList('ul', BULLETS) },
+  enumerate: { render: renderList('ol', NUMBERING) },
+  description: { render: renderDescription },
+
+  center: block('text-center w-full block'),
+  flushleft: block('text-left'),
+  flushright: block('text-right'),
+  quote: block('mx-8 my-4'),
+  quotation: block('mx-8 my-4 indent-8'),
+  verse: block('mx-12 my-4 italic'),
+  // A page of its own without header or footer; page numbering restarts after it
+  titlepage: {
+    render: (node, ctx) =>
+      `<div data-new-page class="flex flex-col min-h-full"><span hidden data-this-page-style="empty"></span>${ctx.renderFlow(node.children).html}</div>` +
+      '<div class="page-break"></div><span hidden data-set-page="1"></span>',
+  },
+  minipage: { render: renderMinipage },
+  multicols: {
+    render: (node, ctx) => `<div style="column-count: ${parseInt(ctx.argText(node, 0) || '2', 10) || 2}; column-gap: 2rem;">${ctx.renderFlow(node.children).html}</div>`,
+  },
+
+  abstract: { render: renderAbstract },
+  // abntex2's \begin{resumo}[title]
+  resumo: { render: renderAbstract },
+
+
+  verbatim: block(''),
+  'verbatim*': block(''),
+  lstlisting: block(''),
+  comment: { inline: true, render: () => '' },
+  document: block(''),
+};
@@ -0,0 +1,134 @@
+// --- Equations ---
+// Math nodes and the numbers of amsmath display environments. Each row (split at a
+// top-level \\) is stripped of \label, \tag, \notag and \nonumber; rows that get a
+// number are given an explicit \tag, which KaTeX sets flush right. Environments that
+// number every row are drawn with KaTeX's own align*/gather*/alignat* so each row keeps
+// its tag; the others are mapped onto KaTeX environments by toKatexSource.
+
+import { MathNode } from './ast';
+import { RenderContext, ReferenceTarget } from './renderer';
+import { renderMath, toKatexSource } from './math';
+import { defineLabel } from './references';
+import { withinChapter } from './classes';
+
+// KaTeX environments that accept a \tag on every row
+const ROW_ENVIRONMENTS: Record<string, string> = {
+  align: 'align*',
+  flalign: 'align*',
+  eqnarray: 'align*',
+  gather: 'gather*',
+  alignat: 'alignat*',
+};
+
+// Unstarred, these number every row (the row environments) or the display as a whole
+const NUMBERED = new Set([...Object.keys(ROW_ENVIRONMENTS), 'equation', 'multline']);
+
+interface Row {
+  source: string;
+  labels: string[];
+  tag?: { text: string; star: boolean };
+  notag: boolean;
+}
+
+// End of the {...} group opening at `start`
+const groupEnd = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i + 1;
+  }
+  return text.length;
+};
+
+// Splits at \\ outside braces and nested environments (matrices, cases, split ...),
+// dropping the optional * and [space] of each line break
+const splitRows = (content: string) => {
+  const rows: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (c === '{') depth++;
+    else if (c === '}') depth--;
+    else if (c === '\\') {
+      const name = content.slice(i + 1).match(/^([a-zA-Z]+|.)/)?.[0] || '';
+      if (name === 'begin') depth++;
+      else if (name === 'end') depth--;
+      if (name === '\\' && depth === 0) {
+        rows.push(content.slice(start, i));
+        const spacing = content.slice(i + 2).match(/^\*?\s*(\[[^\]]*\])?/)![0];
+        start = i + 2 + spacing.length;
+      }
+      i += name.length;
+    }
+  }
+  const last = content.slice(start);
+  // A trailing \\ does not open another row
+  if (last.trim() || rows.length === 0) rows.push(last);
+  return rows;
+};
+
+const parseRow = (source: string): Row => {
+  const row: Row = { source, labels: [], notag: false };
+  row.source = row.source.replace(/\\(notag|nonumber)(?![a-zA-Z])/g, () => {
+    row.notag = true;
+    return '';
+  });
+  row.source = row.source.replace(/\\label\s*\{([^}]*)\}/g, (match, key: string) => {
+    row.labels.push(key.trim());
+    return '';
+  });
+  const tag = row.source.match(/\\tag(\*?)\s*\{/);
+  if (tag) {
+    const open = tag.index! + tag[0].length - 1;
+    const end = groupEnd(row.source, open);
+    row.tag = { text: row.source.slice(open + 1, end - 1), star: !!tag[1] };
+    row.source = row.source.slice(0, tag.index) + row.source.slice(end);
+  }
+  return row;
+};
+
+// eqnarray's `a &=& b` has three columns; align* has two, so the relation joins the right side
+const mergeEqnarrayColumns = (row: string) => row.replace(/&([^&]*)&/, '&$1');
+
+export const renderEquation = (node: MathNode, ctx: RenderContext) => {
+  const base = node.env?.replace(/\*$/, '') || '';
+  const numbered = node.display && node.env === base && NUMBERED.has(base);
+  const outer = ctx.currentTarget;
+  const anchors: string[] = [];
+
+  // The \tag a row ends up with; its labels point at that number, or at the enclosing
+  // section when the row has none
+  const number = (row: Row) => {
+    let target: ReferenceTarget | null = outer;
+    let tag = '';
+    if (row.tag && node.display) {
+      target = { type: 'equation', value: row.tag.text, anchor: ctx.anchor() };
+      tag = `\\tag${row.tag.star ? '*' : ''}{${row.tag.text}}`;
+    } else if (numbered && !row.notag) {
+      const value = withinChapter(ctx.stepCounter('equation'), ctx);
+      target = { type: 'equation', value, anchor: ctx.anchor() };
+      tag = `\\tag{${value}}`;
+    }
+    if (target && target !== outer) anchors.push(`<span id="${target.anchor}"></span>`);
+    row.labels.forEach(key => defineLabel(key, target, node.pos, ctx));
+    return tag;
+  };
+
+  let source: string;
+  if (ROW_ENVIRONMENTS[base]) {
+    // alignat{2} takes the number of column pairs before its first row
+    const columns = base === 'alignat' ? node.content.match(/^\s*\{[^}]*\}/)?.[0] || '' : '';
+    const rows = splitRows(node.content.slice(columns.length)).map(parseRow);
+    const body = rows.map(row => (base === 'eqnarray' ? mergeEqnarrayColumns(row.source) : row.source) + number(row));
+    const env = ROW_ENVIRONMENTS[base];
+    source = `\\begin{${env}}${columns.trim()}${body.join('\\\\')}\\end{${env}}`;
+  } else {
+    const row = parseRow(node.content);
+    source = toKatexSource(row.source, node.env) + number(row);
+  }
+
+  const html = renderMath(source, node.display, ctx.options.mathMacros);
+  return node.display ? `<div class="my-4 text-center">${anchors.join('')}${html}</div>` : html;
+};
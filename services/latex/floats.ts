@@ -0,0 +1,118 @@
+// --- Floats ---
+// Float environments and their numbered captions. A \caption takes its counter from
+// the float it sits in (RenderContext.currentFloat); numbers carry the chapter as a
+// prefix in classes with chapters, such as report and book. Captions
+// are recorded in the aux data so \listoffigures / \listoftables can list them.
+
+import { CommandNode } from './ast';
+import { CommandDefinition, EnvironmentDefinition, RenderContext, FloatState } from './renderer';
+import { listHeading } from './commands';
+import { withinChapter } from './classes';
+import { escapeHtml, parseDimension } from './utils';
+
+// \listoffigures is titled by \listfigurename, and so on
+const LIST_NAMES: Record<string, string> = {
+  figure: 'listfigure',
+  table: 'listtable',
+};
+
+// Renders a float body with \caption bound to the given counter
+export const withFloat = (type: string, ctx: RenderContext, render: () => string) => {
+  const outer = ctx.currentFloat;
+  // The number the float's caption will get, so subfigures captioned before it can refer to it
+  ctx.currentFloat = { type, number: withinChapter((ctx.counters[type] || 0) + 1, ctx), sub: false };
+  ctx.setCounter(`sub${type}`, 0);
+  const html = render();
+  ctx.currentFloat = outer;
+  return html;
+};
+
+export const renderCaption = (type: string, node: CommandNode, textIndex: number, ctx: RenderContext) => {
+  const number = withinChapter(ctx.stepCounter(type), ctx);
+  // Register before rendering the text, so a \label inside the caption points here
+  const id = ctx.refTarget(type, number);
+  const name = ctx.documentClass.names[type] || type.charAt(0).toUpperCase() + type.slice(1);
+  const text = ctx.renderArg(node, textIndex);
+  const short = node.args[textIndex - 1] ? ctx.renderArg(node, textIndex - 1) : text;
+  ctx.aux.floats.push({ type, number, title: short, anchor: id, page: ctx.counters.page });
+  return `<div id="${id}" class="text-sm text-center my-2"><span class="font-semibold">${name} ${number}:</span> ${text}</div>`;
+};
+
+// Subfigure captions are lettered (a), (b) ... and referenced as 1a, 1b ...
+const renderSubcaption = (float: FloatState, node: CommandNode, textIndex: number, ctx: RenderContext, tag = 'div') => {
+  const letter = String.fromCharCode(96 + ctx.stepCounter(`sub${float.type}`));
+  const id = ctx.refTarget(`sub${float.type}`, `${float.number}${letter}`);
+  return `<${tag} id="${id}" class="block text-sm text-center my-1">(${letter}) ${ctx.renderArg(node, textIndex)}</${tag}>`;
+};
+
+const float = (type: string): EnvironmentDefinition => ({
+  render: (node, ctx) => withFloat(type, ctx, () => `<div class="latex-float my-6">${ctx.renderFlow(node.children).html}</div>`),
+});
+
+// \begin{subfigure}[pos]{width}: a box of the given width whose caption is lettered
+const subfloat = (type: string): EnvironmentDefinition => ({
+  render: (node, ctx) => {
+    const outer = ctx.currentFloat;
+    ctx.currentFloat = { type, number: outer?.type === type ? outer.number : withinChapter((ctx.counters[type] || 0) + 1, ctx), sub: true };
+    const width = parseDimension(ctx.argText(node, 1) || '') || 'auto';
+    const html = `<div class="inline-block align-top text-center" style="width: ${width}">${ctx.renderFlow(node.children).html}</div>`;
+    ctx.currentFloat = outer;
+    return html;
+  },
+});
+
+const renderList = (type: string) => (node: CommandNode, ctx: RenderContext) => {
+  const entries = ctx.previousAux.floats.filter(entry => entry.type === type);
+  const items = entries.map(entry =>
+    `<a href="#${entry.anchor}" class="flex items-baseline hover:text-blue-600"><span class="w-12 shrink-0">${escapeHtml(entry.number)}</span><span>${entry.title}</span><span class="flex-1 border-b border-dotted border-slate-400 mx-2"></span><span data-page-of="${entry.anchor}">${entry.page}</span></a>`
+  );
+  return `<section>${listHeading(ctx.documentClass.names[LIST_NAMES[type]], ctx)}<div class="my-4 space-y-1">${items.join('')}</div></section>`;
+};
+
+export const FLOAT_COMMANDS: Record<string, CommandDefinition> = {
+  caption: {
+    block: true,
+    render: (node, ctx) => {
+      const current = ctx.currentFloat;
+      if (!current) {
+        ctx.warn('\\caption outside float', node.pos);
+        return `<div class="text-sm text-center mt-2">${ctx.renderArg(node, 1)}</div>`;
+      }
+      return current.sub ? renderSubcaption(current, node, 1, ctx) : renderCaption(current.type, node, 1, ctx);
+    },
+  },
+
+  // \captionof{table}[short]{text} from the caption package works outside floats
+  captionof: {
+    block: true,
+    render: (node, ctx) => renderCaption(ctx.argText(node, 0) || 'figure', node, 2, ctx),
+  },
+
+  // \subcaption{text} captions a minipage inside a figure
+  subcaption: {
+    block: true,
+    render: (node, ctx) => renderSubcaption(ctx.currentFloat || { type: 'figure', number: '', sub: true }, node, 1, ctx),
+  },
+
+  // subfig's \subfloat[list entry][caption]{content}; a single optional argument is the caption
+  subfloat: {
+    render: (node, ctx) => {
+      const float = ctx.currentFloat || { type: 'figure', number: '', sub: true };
+      const captionIndex = node.args[1] ? 1 : node.args[0] ? 0 : -1;
+      const caption = captionIndex >= 0 ? renderSubcaption(float, node, captionIndex, ctx, 'span') : '';
+      return `<span class="inline-block align-top text-center mx-2">${ctx.renderArg(node, 2)}${caption}</span>`;
+    },
+  },
+
+  listoffigures: { block: true, render: renderList('figure') },
+  listoftables: { block: true, render: renderList('table') },
+};
+
+export const FLOAT_ENVIRONMENTS: Record<string, EnvironmentDefinition> = {
+  figure: float('figure'),
+  'figure*': float('figure'),
+  table: float('table'),
+  'table*': float('table'),
+  subfigure: subfloat('figure'),
+  subtable: subfloat('table'),
+};
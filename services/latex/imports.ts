@@ -0,0 +1,99 @@
+// --- \input / \include resolution ---
+// Inlines included files into one source string and records, for every line of the
+// result, which project file and line it came from. The renderer uses that map to
+// tag its output so the preview and the editor can be kept in sync.
+
+import { FileNode, SourceLocation } from '../../types';
+import { LatexDiagnostic } from './ast';
+
+export interface ResolvedSource {
+  content: string;
+  lineMap: SourceLocation[]; // lineMap[n] is the origin of line n + 1 of `content`
+  diagnostics: LatexDiagnostic[]; // Missing and recursive imports, located in the importing file
+}
+
+export const IMPORT_PATTERN = /\\(?:input|include)\{([^}]+)\}/g;
+
+// Flattens the tree for lookup by file name (imports are resolved by name only)
+export const flattenProjectFiles = (node: FileNode, acc: Record<string, FileNode> = {}) => {
+  if (node.type === 'file') {
+    acc[node.name] = node;
+  } else if (node.children) {
+    node.children.forEach(c => flattenProjectFiles(c, acc));
+  }
+  return acc;
+};
+
+// Every file with its path from the project root, as a real TeX run would see it
+export const listProjectFiles = (node: FileNode, prefix = ''): { path: string; file: FileNode }[] =>
+  (node.children || []).flatMap(child => child.type === 'file'
+    ? [{ path: prefix + child.name, file: child }]
+    : listProjectFiles(child, `${prefix}${child.name}/`));
+
+export const importFileName = (importPath: string) => {
+  let filename = importPath.trim().split('/').pop() || importPath;
+  if (!filename.endsWith('.tex')) filename += '.tex';
+  return filename;
+};
+
+export const resolveLatexImports = (file: FileNode, fileMap: Record<string, FileNode>): ResolvedSource => {
+  let content = '';
+  const lineMap: SourceLocation[] = [];
+  const diagnostics: LatexDiagnostic[] = [];
+
+  // Appends text whose first character comes from `line` of `fileId`
+  const write = (text: string, fileId: string, line: number) => {
+    if (lineMap.length === 0) lineMap.push({ fileId, line });
+    let offset = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') lineMap.push({ fileId, line: line + ++offset });
+    }
+    content += text;
+  };
+
+  // Starts a new output line that maps to the given origin
+  const breakLine = (fileId: string, line: number) => {
+    if (lineMap.length === 0) lineMap.push({ fileId, line });
+    content += '\n';
+    lineMap.push({ fileId, line });
+  };
+
+  const resolve = (node: FileNode, processed: Set<string>) => {
+    const text = node.content || '';
+    let last = 0;
+    let line = 1;
+
+    for (const match of text.matchAll(IMPORT_PATTERN)) {
+      const segment = text.slice(last, match.index);
+      write(segment, node.id, line);
+      line += segment.split('\n').length - 1;
+      last = match.index! + match[0].length;
+
+      const filename = importFileName(match[1]);
+      // Handle relative paths in a basic way if needed, for now flat map search
+      const child = fileMap[filename];
+
+      const pos = { start: 0, end: 0, line };
+      if (processed.has(filename)) {
+        breakLine(node.id, line);
+        write(`% Recursive loop detected: ${filename}`, node.id, line);
+        diagnostics.push({ severity: 'error', message: `${filename} includes itself`, pos, file: node.name });
+      } else if (child && child.content) {
+        breakLine(child.id, 1);
+        resolve(child, new Set(processed).add(filename));
+      } else {
+        breakLine(node.id, line);
+        write(`% Missing file: ${filename}`, node.id, line);
+        if (!child) diagnostics.push({ severity: 'error', message: `File \`${filename}' not found`, pos, file: node.name });
+      }
+      // Text after the import on the same line continues on a fresh output line
+      const lineEnd = text.indexOf('\n', last);
+      if (text.slice(last, lineEnd === -1 ? undefined : lineEnd).trim()) breakLine(node.id, line);
+    }
+
+    write(text.slice(last), node.id, line);
+  };
+
+  resolve(file, new Set([file.name]));
+  return { content, lineMap, diagnostics };
+};
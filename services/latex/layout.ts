@@ -0,0 +1,347 @@
+// --- Page Layout ---
+// Paper size and margins from the \documentclass options and the geometry package, and
+// the page styles (\pagestyle, fancyhdr) that give pages their headers and footers.
+// The renderer only records them; splitting the output into pages happens in the
+// preview (services/paginator.ts), which also fills in page numbers and running heads
+// through the data-* placeholders emitted here.
+
+import { PageLayout, PageStyle } from '../../types';
+import { CommandDefinition, RenderContext } from './renderer';
+import { ClassProfile } from './classes';
+import { MacroTable } from './macros';
+import { stringifyTokens } from './tokenizer';
+import { escapeHtml, parseDimension, parseKeyValues } from './utils';
+
+const PT = 25.4 / 72.27; // Millimetres per TeX point
+const INCH = 25.4;
+
+const PAPER_SIZES: Record<string, { name: string; width: number; height: number }> = {
+  a3paper: { name: 'A3', width: 297, height: 420 },
+  a4paper: { name: 'A4', width: 210, height: 297 },
+  a5paper: { name: 'A5', width: 148, height: 210 },
+  a6paper: { name: 'A6', width: 105, height: 148 },
+  b5paper: { name: 'B5', width: 176, height: 250 },
+  letterpaper: { name: 'Letter', width: 215.9, height: 279.4 },
+  legalpaper: { name: 'Legal', width: 215.9, height: 355.6 },
+  executivepaper: { name: 'Executive', width: 184.15, height: 266.7 },
+};
+
+// Slide sizes of beamer's aspectratio option; 43 is the default
+const SLIDE_SIZES: Record<string, { name: string; width: number; height: number }> = {
+  43: { name: '4:3', width: 128, height: 96 },
+  169: { name: '16:9', width: 160, height: 90 },
+  1610: { name: '16:10', width: 160, height: 100 },
+  149: { name: '14:9', width: 140, height: 90 },
+  54: { name: '5:4', width: 125, height: 100 },
+  32: { name: '3:2', width: 135, height: 90 },
+};
+
+// \textwidth and \baselineskip of the standard classes (size10.clo, size11.clo, size12.clo)
+const SIZE_METRICS: Record<number, { textWidth: number; baselineSkip: number }> = {
+  10: { textWidth: 345, baselineSkip: 12 },
+  11: { textWidth: 360, baselineSkip: 13.6 },
+  12: { textWidth: 390, baselineSkip: 14.5 },
+};
+
+// \headheight + \headsep and \footskip of the standard classes, in points
+const HEAD_SPACE = 12 + 25;
+const FOOT_SKIP = 30;
+
+// \columnsep between the columns of two-column documents
+export const COLUMN_SEP = 10 * PT;
+
+// --- Placeholders ---
+
+export const PAGE_NUMBER = '<span data-page-number></span>';
+const mark = (side: 'left' | 'right') => `<span data-mark="${side}"></span>`;
+const slanted = (html: string) => `<span class="italic">${html}</span>`;
+
+// Sets \leftmark or \rightmark from here on, see sectionMarks
+const setMark = (side: 'left' | 'right', html: string) => `<span hidden data-set-mark="${side}">${html}</span>`;
+
+// --- Page styles ---
+
+// The styles LaTeX and fancyhdr define; one-sided documents only use the odd-page (O) slots
+const builtinStyles = (twoside: boolean): Record<string, PageStyle> => ({
+  empty: { head: {}, foot: {}, rules: false },
+  plain: { head: {}, foot: { CO: PAGE_NUMBER, CE: PAGE_NUMBER }, rules: false },
+  headings: {
+    head: { LO: slanted(mark(twoside ? 'right' : 'left')), RO: PAGE_NUMBER, LE: PAGE_NUMBER, RE: slanted(mark('left')) },
+    foot: {},
+    rules: false,
+  },
+  fancy: {
+    head: { LE: slanted(mark('right')), RO: slanted(mark('right')), LO: slanted(mark('left')), RE: slanted(mark('left')) },
+    foot: { CO: PAGE_NUMBER, CE: PAGE_NUMBER },
+    rules: true,
+  },
+});
+
+// --- Geometry ---
+
+// The standard classes centre a text block sized for the font, as article.cls computes it
+const classMargins = (layout: PageLayout) => {
+  const metrics = SIZE_METRICS[layout.fontSize] || SIZE_METRICS[10];
+  const textWidth = Math.min(layout.paperWidth - 2 * INCH, metrics.textWidth * PT);
+  const lines = Math.floor((layout.paperHeight - 3.5 * INCH) / (metrics.baselineSkip * PT));
+  const textHeight = lines * metrics.baselineSkip * PT + layout.fontSize * PT;
+  const topMargin = (layout.paperHeight - 2 * INCH - (HEAD_SPACE + FOOT_SKIP) * PT - textHeight) / 2;
+  layout.marginLeft = layout.marginRight = (layout.paperWidth - textWidth) / 2;
+  layout.marginTop = INCH + topMargin + HEAD_SPACE * PT;
+  layout.marginBottom = layout.paperHeight - layout.marginTop - textHeight;
+};
+
+const setPaper = (layout: PageLayout, name: string) => {
+  const ratio = name.match(/^aspectratio=(\d+)$/);
+  const paper = ratio ? SLIDE_SIZES[ratio[1]] : PAPER_SIZES[name] || PAPER_SIZES[`${name}paper`];
+  if (!paper) return false;
+  layout.paper = paper.name;
+  layout.paperWidth = paper.width;
+  layout.paperHeight = paper.height;
+  return true;
+};
+
+const landscape = (layout: PageLayout) => {
+  if (layout.paperWidth < layout.paperHeight) [layout.paperWidth, layout.paperHeight] = [layout.paperHeight, layout.paperWidth];
+};
+
+export const textWidth = (layout: PageLayout) => layout.paperWidth - layout.marginLeft - layout.marginRight;
+export const textHeight = (layout: PageLayout) => layout.paperHeight - layout.marginTop - layout.marginBottom;
+export const columnWidth = (layout: PageLayout) => (textWidth(layout) - (layout.columns - 1) * COLUMN_SEP) / layout.columns;
+
+// A width given as a percentage of the text block can be used directly; absolute
+// widths become a share of the page's text width
+export const relativeWidth = (raw: string, layout: PageLayout) => {
+  const width = parseDimension(raw) || '100%';
+  return width.endsWith('mm') ? `${(parseFloat(width) / textWidth(layout)) * 100}%` : width;
+};
+
+export const defaultLayout = (): PageLayout => {
+  const layout: PageLayout = {
+    paper: 'Letter', // LaTeX's default paper size
+    paperWidth: 215.9,
+    paperHeight: 279.4,
+    marginTop: 0,
+    marginBottom: 0,
+    marginLeft: 0,
+    marginRight: 0,
+    fontSize: 10,
+    columns: 1,
+    twoside: false,
+    slides: false,
+    pageStyle: 'plain',
+    pageStyles: builtinStyles(false),
+    headRuleWidth: 0.4,
+    footRuleWidth: 0,
+  };
+  classMargins(layout);
+  return layout;
+};
+
+// \documentclass[a4paper, 12pt, twoside, twocolumn, landscape]{...}, over the defaults of the class
+export const applyClassOptions = (layout: PageLayout, options: string[], profile: ClassProfile) => {
+  setPaper(layout, profile.paper);
+  layout.fontSize = profile.fontSize;
+  layout.twoside = profile.twoside;
+  layout.slides = profile.slides;
+  layout.pageStyle = profile.pageStyle;
+  options.forEach(option => {
+    const size = option.match(/^(\d+)pt$/);
+    if (size) layout.fontSize = Number(size[1]);
+    else if (option === 'twoside') layout.twoside = true;
+    else if (option === 'oneside') layout.twoside = false;
+    else if (option === 'twocolumn') layout.columns = 2;
+    else if (option === 'onecolumn') layout.columns = 1;
+    else setPaper(layout, option);
+  });
+  if (options.includes('landscape')) landscape(layout);
+  layout.pageStyles = { ...builtinStyles(layout.twoside), ...profile.pageStyles?.(layout.twoside) };
+  classMargins(layout);
+  if (profile.margins) {
+    layout.marginTop = profile.margins.top;
+    layout.marginBottom = profile.margins.bottom;
+    layout.marginLeft = profile.margins.inner;
+    layout.marginRight = profile.margins.outer;
+  }
+};
+
+const millimetres = (value: string | undefined) => {
+  const css = value ? parseDimension(value) : null;
+  return css && css.endsWith('mm') ? parseFloat(css) : undefined;
+};
+
+// `2cm` or `{2cm,3cm}` as given to hmargin / vmargin / papersize
+const lengthPair = (value: string | undefined): [number | undefined, number | undefined] => {
+  if (!value) return [undefined, undefined];
+  const [first, second] = value.split(',');
+  const a = millimetres(first);
+  return [a, second === undefined ? a : millimetres(second)];
+};
+
+// Completes one direction from whatever was given, like geometry's auto-completion:
+// a missing margin mirrors the other one, a text size alone is centred
+const resolveMargins = (paper: number, start: number | undefined, end: number | undefined, size: number | undefined, fallback: [number, number]): [number, number] => {
+  if (size !== undefined) {
+    if (start !== undefined) return [start, paper - size - start];
+    if (end !== undefined) return [paper - size - end, end];
+    return [(paper - size) / 2, (paper - size) / 2];
+  }
+  if (start !== undefined || end !== undefined) return [start ?? end!, end ?? start!];
+  return fallback;
+};
+
+// \usepackage[margin=2cm]{geometry} and \geometry{...}. Loading the package without any
+// size options centres a text block of 70% of the paper, as geometry does.
+export const applyGeometry = (layout: PageLayout, raw: string, loading: boolean) => {
+  const options = parseKeyValues(raw);
+  Object.keys(options).forEach(key => {
+    if (options[key] === 'true') setPaper(layout, key);
+  });
+  if (options.paper || options.papername) setPaper(layout, options.paper || options.papername);
+  const [width, height] = lengthPair(options.papersize);
+  layout.paperWidth = millimetres(options.paperwidth) ?? width ?? layout.paperWidth;
+  layout.paperHeight = millimetres(options.paperheight) ?? height ?? layout.paperHeight;
+  if (options.papersize || options.paperwidth || options.paperheight) layout.paper = 'Custom';
+  if (options.landscape === 'true') landscape(layout);
+  if (options.twoside === 'true') layout.twoside = true;
+
+  const scale = (value: string | undefined) => (value && !isNaN(parseFloat(value)) ? parseFloat(value) : undefined);
+  const hscale = scale(options.hscale ?? options.scale) ?? (loading ? 0.7 : undefined);
+  const vscale = scale(options.vscale ?? options.scale) ?? (loading ? 0.7 : undefined);
+  const [hStart, hEnd] = lengthPair(options.hmargin ?? options.margin);
+  const [vStart, vEnd] = lengthPair(options.vmargin ?? options.margin);
+  const left = millimetres(options.left ?? options.lmargin ?? options.inner) ?? hStart;
+  const right = millimetres(options.right ?? options.rmargin ?? options.outer) ?? hEnd;
+  const top = millimetres(options.top ?? options.tmargin) ?? vStart;
+  const bottom = millimetres(options.bottom ?? options.bmargin) ?? vEnd;
+  const textWidth = millimetres(options.textwidth ?? options.width) ?? (left === undefined && right === undefined && hscale ? hscale * layout.paperWidth : undefined);
+  const textHeight = millimetres(options.textheight ?? options.height) ?? (top === undefined && bottom === undefined && vscale ? vscale * layout.paperHeight : undefined);
+
+  [layout.marginLeft, layout.marginRight] = resolveMargins(layout.paperWidth, left, right, textWidth, [layout.marginLeft, layout.marginRight]);
+  [layout.marginTop, layout.marginBottom] = resolveMargins(layout.paperHeight, top, bottom, textHeight, [layout.marginTop, layout.marginBottom]);
+};
+
+// \renewcommand{\headrulewidth}{0pt} is a macro definition, so it is read from the macro table
+export const applyRuleWidths = (layout: PageLayout, macros: MacroTable) => {
+  const width = (name: string, fallback: number) => {
+    const macro = macros.commands[name];
+    const css = macro ? parseDimension(stringifyTokens(macro.body).trim()) : null;
+    return css && css.endsWith('mm') ? parseFloat(css) / PT : fallback;
+  };
+  layout.headRuleWidth = width('headrulewidth', layout.headRuleWidth);
+  layout.footRuleWidth = width('footrulewidth', layout.footRuleWidth);
+};
+
+// --- Running heads ---
+
+// Marks set by a numbered heading, following fancyhdr: the top level (chapters, or sections
+// in classes without them) sets \leftmark and clears \rightmark, the next level sets \rightmark
+export const sectionMarks = (level: string, number: string, title: string, ctx: RenderContext) => {
+  const documentClass = ctx.documentClass;
+  const top = documentClass.levels.includes('chapter') ? 'chapter' : 'section';
+  const label = level === 'chapter' && documentClass.chapterLabel ? `${documentClass.names.chapter} ${number}. ` : `${number} `;
+  const text = `<span class="uppercase">${label}${title}</span>`;
+  if (level === top) return setMark('left', text) + setMark('right', '');
+  if (level === (top === 'chapter' ? 'section' : 'subsection')) return setMark('right', text);
+  return '';
+};
+
+// The style fancyhdr commands modify: `fancy`, or the one being defined by \fancypagestyle
+const definingStyle = new WeakMap<RenderContext, string>();
+
+const currentStyle = (ctx: RenderContext) => {
+  const name = definingStyle.get(ctx) || 'fancy';
+  const styles = ctx.layout.pageStyles;
+  if (!styles[name]) styles[name] = { head: {}, foot: {}, rules: true };
+  return styles[name];
+};
+
+// Expands a fancyhdr position list such as `LE,RO` or `C` into slot keys (LO, CE ...)
+const slotKeys = (spec: string | undefined) => {
+  const keys: string[] = [];
+  (spec === undefined ? 'LCR' : spec).toUpperCase().split(',').forEach(part => {
+    const positions = part.match(/[LCR]/g) || ['L', 'C', 'R'];
+    const parities = part.match(/[EO]/g) || ['E', 'O'];
+    positions.forEach(p => parities.forEach(e => keys.push(p + e)));
+  });
+  return keys;
+};
+
+// \fancyhead[LE,RO]{text}, \fancyfoot[C]{text}; \fancyhf takes H/F in its positions
+const setSlots = (part: 'head' | 'foot' | 'both'): CommandDefinition => ({
+  render: (node, ctx) => {
+    const style = currentStyle(ctx);
+    const spec = ctx.argText(node, 0);
+    const html = ctx.renderArg(node, 1);
+    const parts = part === 'both' ? spec?.toUpperCase().match(/[HF]/g) || ['H', 'F'] : [part === 'head' ? 'H' : 'F'];
+    const keys = slotKeys(part === 'both' ? spec?.replace(/[HF]/gi, '') : spec);
+    parts.forEach(p => keys.forEach(key => { (p === 'H' ? style.head : style.foot)[key] = html; }));
+    return '';
+  },
+});
+
+// The older \lhead[even]{odd} family
+const setSlot = (part: 'head' | 'foot', position: string): CommandDefinition => ({
+  render: (node, ctx) => {
+    const slots = currentStyle(ctx)[part];
+    const odd = ctx.renderArg(node, 1);
+    slots[`${position}O`] = odd;
+    slots[`${position}E`] = node.args[0] ? ctx.renderArg(node, 0) : odd;
+    return '';
+  },
+});
+
+// Page styles apply from the current page on; in the preamble they set the document's style
+const pageStyle = (attribute: string): CommandDefinition => ({
+  block: true,
+  render: (node, ctx) => {
+    const name = ctx.argText(node, 0) || '';
+    if (!ctx.layout.pageStyles[name]) {
+      ctx.warn(`Page style \`${name}' undefined`, node.pos);
+      return '';
+    }
+    if (ctx.preamble && attribute === 'data-page-style') ctx.layout.pageStyle = name;
+    return `<span hidden ${attribute}="${escapeHtml(name)}"></span>`;
+  },
+});
+
+export const LAYOUT_COMMANDS: Record<string, CommandDefinition> = {
+  geometry: { render: (node, ctx) => { applyGeometry(ctx.layout, ctx.argText(node, 0) || '', false); return ''; } },
+
+  pagestyle: pageStyle('data-page-style'),
+  thispagestyle: pageStyle('data-this-page-style'),
+  pagenumbering: {
+    block: true,
+    render: (node, ctx) => `<span hidden data-page-numbering="${escapeHtml(ctx.argText(node, 0) || 'arabic')}"></span>`,
+  },
+
+  thepage: { render: () => PAGE_NUMBER },
+  leftmark: { render: () => mark('left') },
+  rightmark: { render: () => mark('right') },
+  markboth: { render: (node, ctx) => setMark('left', ctx.renderArg(node, 0)) + setMark('right', ctx.renderArg(node, 1)) },
+  markright: { render: (node, ctx) => setMark('right', ctx.renderArg(node, 0)) },
+
+  // fancyhdr
+  fancyhf: setSlots('both'),
+  fancyhead: setSlots('head'),
+  fancyfoot: setSlots('foot'),
+  lhead: setSlot('head', 'L'),
+  chead: setSlot('head', 'C'),
+  rhead: setSlot('head', 'R'),
+  lfoot: setSlot('foot', 'L'),
+  cfoot: setSlot('foot', 'C'),
+  rfoot: setSlot('foot', 'R'),
+  fancypagestyle: {
+    render: (node, ctx) => {
+      const name = ctx.argText(node, 0) || '';
+      const base = ctx.layout.pageStyles.fancy;
+      ctx.layout.pageStyles[name] = { head: { ...base.head }, foot: { ...base.foot }, rules: true };
+      definingStyle.set(ctx, name);
+      ctx.renderArg(node, 1);
+      definingStyle.delete(ctx);
+      return '';
+    },
+  },
+  fancyheadoffset: { render: () => '' },
+  fancyfootoffset: { render: () => '' },
+};
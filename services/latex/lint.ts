@@ -0,0 +1,102 @@
+// --- Static checks ---
+// Problems TeX would stop on that the parser recovers from silently and the renderer
+// has no reason to notice: environments nobody defines, math-only syntax in text,
+// stray alignment tabs, and broken displays. Brace and \begin/\end mismatches are
+// reported by the parser, undefined references and citations by the renderer.
+
+import { LatexNode, LatexDiagnostic, MathNode, SourceSpan, TextNode } from './ast';
+import { isEnvironmentDefined } from './renderer';
+
+// Commands TeX only accepts in math mode
+const MATH_ONLY = new Set([
+  'frac', 'dfrac', 'tfrac', 'sqrt', 'sum', 'prod', 'int', 'iint', 'oint', 'lim', 'limsup', 'liminf', 'infty', 'partial', 'nabla',
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta', 'iota', 'kappa', 'lambda',
+  'mu', 'nu', 'xi', 'pi', 'varpi', 'rho', 'varrho', 'sigma', 'varsigma', 'tau', 'upsilon', 'phi', 'varphi', 'chi', 'psi', 'omega',
+  'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Upsilon', 'Phi', 'Psi', 'Omega',
+  'leq', 'le', 'geq', 'ge', 'neq', 'ne', 'approx', 'equiv', 'sim', 'simeq', 'cong', 'propto', 'pm', 'mp', 'times', 'div', 'cdot',
+  'in', 'notin', 'subset', 'subseteq', 'supset', 'supseteq', 'cup', 'cap', 'forall', 'exists', 'emptyset', 'setminus',
+  'to', 'rightarrow', 'leftarrow', 'Rightarrow', 'Leftarrow', 'leftrightarrow', 'Leftrightarrow', 'mapsto', 'implies', 'iff',
+  'mathbf', 'mathrm', 'mathit', 'mathsf', 'mathtt', 'mathcal', 'mathbb', 'mathfrak', 'boldsymbol',
+  'hat', 'bar', 'vec', 'dot', 'ddot', 'tilde', 'widehat', 'widetilde', 'overline', 'underbrace', 'overbrace',
+  'left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'binom', 'operatorname', 'displaystyle', 'mathop',
+]);
+
+// Environments whose & separate cells
+const ALIGNED_ENVIRONMENTS = new Set(['tabular', 'tabular*', 'tabularx', 'longtable']);
+
+// Commands whose arguments are keys, names or paths rather than typeset text
+const RAW_ARGUMENTS = new Set([
+  'documentclass', 'usepackage', 'RequirePackage', 'input', 'include', 'includegraphics', 'graphicspath',
+  'label', 'ref', 'pageref', 'eqref', 'autoref', 'cref', 'Cref', 'url', 'href', 'hypersetup', 'geometry',
+  'cite', 'citep', 'citet', 'nocite', 'parencite', 'textcite', 'autocite', 'citeauthor', 'citeyear', 'bibitem',
+  'bibliography', 'bibliographystyle', 'addbibresource', 'newcounter', 'setcounter', 'addtocounter', 'stepcounter',
+  'refstepcounter', 'setlength', 'addtolength', 'pagestyle', 'thispagestyle', 'pagenumbering', 'selectlanguage',
+]);
+
+// Math environments that take & between columns
+const ALIGNED_MATH = /^(align|alignat|flalign|eqnarray|split|aligned|array|matrix|[pbBvV]matrix|cases|gathered)\*?$/;
+
+export const lintDocument = (nodes: LatexNode[]): LatexDiagnostic[] => {
+  const diagnostics: LatexDiagnostic[] = [];
+  const report = (severity: LatexDiagnostic['severity'], message: string, pos: SourceSpan) => {
+    diagnostics.push({ severity, message, pos });
+  };
+
+  // Line of a character inside a merged text node, whose span starts at its first non-blank text
+  const lineOf = (node: TextNode, index: number) => {
+    const start = Math.max(0, node.value.search(/\S/));
+    return node.pos.line + (node.value.slice(start, index).match(/\n/g) || []).length;
+  };
+
+  const checkText = (node: TextNode) => {
+    const index = node.value.search(/[\^_]/);
+    if (index === -1) return;
+    report('error', `Missing $ inserted: ${node.value[index]} is only allowed in math mode`, { ...node.pos, line: lineOf(node, index) });
+  };
+
+  const checkMath = (node: MathNode) => {
+    const name = node.env || (node.display ? '\\[' : '$');
+    if (/\n[ \t]*\n/.test(node.content)) report('error', `Blank line in ${name}: paragraphs are not allowed in math mode`, node.pos);
+    // \\[2pt] is a line break with extra space, not a display
+    const nested = node.content.match(/(?<!\\)\$|(?<!\\)\\[[(]|\\begin\{(equation|align|gather|multline|flalign|eqnarray|displaymath)\*?\}/);
+    if (nested) report('error', `Bad math environment delimiter: ${nested[0]} inside ${name}`, node.pos);
+    // A single-line display has no columns, so any top-level & is a stray one
+    const content = node.content.replace(/\\&/g, '');
+    if (!ALIGNED_MATH.test(node.env || '') && content.includes('&') && !/\\begin\{/.test(content)) {
+      report('error', `Misplaced alignment tab character & in ${name}`, node.pos);
+    }
+  };
+
+  const walk = (list: LatexNode[], aligned: boolean) => {
+    list.forEach(node => {
+      switch (node.kind) {
+        case 'text':
+          checkText(node);
+          break;
+        case 'alignment':
+          if (!aligned) report('error', 'Misplaced alignment tab character &', node.pos);
+          break;
+        case 'math':
+          checkMath(node);
+          break;
+        case 'group':
+          walk(node.children, aligned);
+          break;
+        case 'command':
+          if (MATH_ONLY.has(node.name)) report('error', `Missing $ inserted: \\${node.name} is only allowed in math mode`, node.pos);
+          if (!RAW_ARGUMENTS.has(node.name)) node.args.forEach(arg => arg && walk(arg.nodes, aligned));
+          break;
+        case 'environment':
+          if (!isEnvironmentDefined(node.name)) report('error', `Environment ${node.name} undefined`, node.pos);
+          node.args.forEach(arg => arg && walk(arg.nodes, false));
+          walk(node.children, ALIGNED_ENVIRONMENTS.has(node.name));
+          break;
+        default:
+          break;
+      }
+    });
+  };
+
+  walk(nodes, false);
+  return diagnostics;
+};
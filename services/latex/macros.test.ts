@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { expandMacros, katexMacros, ExpansionOptions } from './macros';
+import { tokenize, stringifyTokens } from './tokenizer';
+
+const expand = (source: string, options?: ExpansionOptions) => {
+  const result = expandMacros(tokenize(source), options);
+  return { ...result, source: stringifyTokens(result.tokens), messages: result.diagnostics.map(diagnostic => diagnostic.message) };
+};
+
+describe('expandMacros', () => {
+  it('substitutes the arguments of \\newcommand', () => {
+    expect(expand('\\newcommand{\\hi}[1]{Hello #1!}\\hi{you}').source).toBe('Hello you!');
+  });
+
+  it('uses the default of an optional first argument', () => {
+    expect(expand('\\newcommand{\\opt}[2][x]{#1-#2}\\opt{a} \\opt[b]{c}').source).toBe('x-a b-c');
+  });
+
+  it('expands \\def with undelimited parameters', () => {
+    expect(expand('\\def\\a#1{[#1]}\\a z').source).toBe('[z]');
+  });
+
+  it('copies the meaning of a command with \\let', () => {
+    expect(expand('\\let\\b=\\textbf \\b{x}').source).toBe('\\textbf{x}');
+  });
+
+  it('replaces a user environment with its begin and end code', () => {
+    expect(expand('\\newenvironment{box}[1]{<#1>}{</>}\\begin{box}{t}in\\end{box}').source).toBe('{<t>in</>}');
+  });
+
+  it('lets \\renewcommand define a command', () => {
+    expect(expand('\\renewcommand{\\x}{b}\\x').source).toBe('b');
+  });
+
+  it('keeps definitions after the group they were made in, as \\gdef would', () => {
+    expect(expand('{\\newcommand{\\s}{in}}\\s').source).toBe('{}in');
+  });
+
+  describe('in math', () => {
+    it('leaves macros to KaTeX and passes their definitions on', () => {
+      const result = expand('\\newcommand{\\R}{\\mathbb{R}}$\\R$ \\R');
+      expect(result.source).toBe('$\\R$ \\mathbb{R}');
+      expect(katexMacros(result.macros)).toEqual({ '\\R': '\\mathbb{R}' });
+    });
+
+    it('turns \\DeclareMathOperator into \\operatorname', () => {
+      expect(katexMacros(expand('\\DeclareMathOperator{\\tr}{tr}$\\tr A$').macros)).toEqual({ '\\tr': '\\operatorname{tr}' });
+    });
+
+    it('keeps macros with an optional argument from KaTeX', () => {
+      expect(katexMacros(expand('\\newcommand{\\opt}[1][x]{#1}').macros)).toEqual({});
+    });
+  });
+
+  it('reads definitions from project packages and reports problems in them by file', () => {
+    const result = expand('\\usepackage{mine}\\foo', { packageFiles: { 'mine.sty': '\\newcommand{\\foo}{FOO}\n\\newcommand{\\foo}{x}' } });
+    expect(result.source).toBe('\\usepackage{mine}FOO');
+    expect(result.diagnostics).toMatchObject([{ message: 'Command \\foo already defined', file: 'mine.sty', pos: { line: 2 } }]);
+  });
+
+  describe('errors', () => {
+    it('reports a command defined twice and keeps the first definition', () => {
+      const result = expand('\\newcommand{\\x}{a}\n\\newcommand{\\x}{b}\\x');
+      expect(result.source.trim()).toBe('a');
+      expect(result.diagnostics).toMatchObject([{ message: 'Command \\x already defined', pos: { line: 2 } }]);
+    });
+
+    it('stops a macro that expands into itself', () => {
+      expect(expand('\\newcommand{\\loop}{\\loop}\\loop').messages).toEqual(['TeX capacity exceeded: \\loop keeps expanding into itself']);
+    });
+
+    it('reports a runaway argument', () => {
+      expect(expand('\\newcommand{\\x}[1]{#1}\\x{a').messages).toEqual(['Runaway argument: { was never closed']);
+    });
+  });
+});
@@ -0,0 +1,486 @@
+// --- Macro expansion ---
+// Runs between the tokenizer and the parser. \newcommand, \def and friends are taken
+// out of the token stream and recorded in a macro table (packages loaded from project
+// .sty files contribute to it too); every later use is replaced by the macro body with
+// its arguments substituted, and the result is scanned again. Inside math, macros KaTeX
+// can expand by itself are left in place and handed to it through its `macros` option.
+
+import { Token, tokenize, stringifyTokens } from './tokenizer';
+import { LatexDiagnostic } from './ast';
+import { MATH_ENVIRONMENTS } from './signatures';
+
+export interface MacroDefinition {
+  numArgs: number;
+  defaultArg?: Token[]; // \newcommand{\x}[2][default]{...}: the first argument is optional
+  body: Token[];
+}
+
+// \newenvironment{name}[n][default]{begin code}{end code}
+export interface EnvironmentMacro {
+  numArgs: number;
+  defaultArg?: Token[];
+  begin: Token[];
+  end: Token[];
+}
+
+export interface MacroTable {
+  commands: Record<string, MacroDefinition>;
+  environments: Record<string, EnvironmentMacro>;
+}
+
+export interface ExpansionOptions {
+  packageFiles?: Record<string, string>; // .sty contents by file name
+}
+
+export interface ExpansionResult {
+  tokens: Token[];
+  macros: MacroTable;
+  diagnostics: LatexDiagnostic[];
+}
+
+// A macro that keeps expanding into itself is stopped at this nesting depth
+const MAX_DEPTH = 100;
+const MAX_EXPANSIONS = 100000;
+
+const DEFINITION_COMMANDS = new Set(['newcommand', 'renewcommand', 'providecommand']);
+const DEF_COMMANDS = new Set(['def', 'gdef', 'edef', 'xdef']);
+
+// Reads tokens from an array, with room to push expanded tokens back in front
+interface Reader {
+  next: () => Token | undefined;
+  peek: () => Token | undefined;
+  pushBack: (tokens: Token[]) => void;
+}
+
+const createReader = (tokens: Token[]): Reader => {
+  const pending: Token[] = []; // Reversed: the next token is at the end
+  let index = 0;
+  return {
+    next: () => pending.length > 0 ? pending.pop() : tokens[index++],
+    peek: () => pending.length > 0 ? pending[pending.length - 1] : tokens[index],
+    pushBack: (more) => {
+      for (let i = more.length - 1; i >= 0; i--) pending.push(more[i]);
+    },
+  };
+};
+
+const highestParameter = (body: Token[]) =>
+  body.reduce((max, t) => t.type === 'parameter' && /\d/.test(t.value) ? Math.max(max, +t.value) : max, 0);
+
+// KaTeX infers the argument count from the body and has no optional arguments
+const katexCompatible = (macro: MacroDefinition) => !macro.defaultArg && highestParameter(macro.body) === macro.numArgs;
+
+// Macro table in the form KaTeX's `macros` option expects
+export const katexMacros = (table: MacroTable): Record<string, string> => {
+  const macros: Record<string, string> = {};
+  Object.entries(table.commands).forEach(([name, macro]) => {
+    if (katexCompatible(macro)) macros['\\' + name] = stringifyTokens(macro.body);
+  });
+  return macros;
+};
+
+export const expandMacros = (input: Token[], options: ExpansionOptions = {}): ExpansionResult => {
+  const macros: MacroTable = { commands: {}, environments: {} };
+  const diagnostics: LatexDiagnostic[] = [];
+  const depthOf = new WeakMap<Token, number>();
+  const disabled = new Set<string>();
+  const loadedPackages = new Set<string>();
+  let expansions = 0;
+  let currentFile: string | undefined; // Set while reading a .sty file
+
+  const report = (severity: LatexDiagnostic['severity'], message: string, token: Token) => {
+    const diagnostic: LatexDiagnostic = { severity, message, pos: { start: token.start, end: token.end, line: token.line } };
+    if (currentFile) diagnostic.file = currentFile;
+    diagnostics.push(diagnostic);
+  };
+
+  // Tokens created by an expansion take the position of the macro use
+  const synthetic = (type: Token['type'], value: string, at: Token, depth: number): Token => {
+    const token: Token = { type, value, start: at.start, end: at.end, line: at.line };
+    depthOf.set(token, depth);
+    return token;
+  };
+
+  // --- Argument reading ---
+
+  const skipSpaces = (reader: Reader) => {
+    const skipped: Token[] = [];
+    while (reader.peek() && (reader.peek()!.type === 'whitespace' || reader.peek()!.type === 'comment')) skipped.push(reader.next()!);
+    return skipped;
+  };
+
+  // Tokens up to the } matching an already consumed {, without the braces
+  const readBalanced = (reader: Reader, open: Token): Token[] => {
+    const tokens: Token[] = [];
+    let depth = 0;
+    for (let token = reader.next(); token; token = reader.next()) {
+      if (token.type === 'begin-group') depth++;
+      if (token.type === 'end-group') {
+        if (depth === 0) return tokens;
+        depth--;
+      }
+      tokens.push(token);
+    }
+    report('error', 'Runaway argument: { was never closed', open);
+    return tokens;
+  };
+
+  // An undelimited argument: a {group} or a single token (one character of a text run)
+  const readArgument = (reader: Reader): Token[] | null => {
+    const skipped = skipSpaces(reader);
+    const token = reader.peek();
+    if (!token || token.type === 'end-group' || token.type === 'parbreak') {
+      reader.pushBack(skipped);
+      return null;
+    }
+    reader.next();
+    if (token.type === 'begin-group') return readBalanced(reader, token);
+    if (token.type === 'text' && token.value.length > 1) {
+      reader.pushBack([{ ...token, value: token.value.slice(1), start: token.start + 1 }]);
+      return [{ ...token, value: token.value[0], end: token.start + 1 }];
+    }
+    return [token];
+  };
+
+  // [...] with nested braces and brackets; null (and nothing consumed) if there is none
+  const readOptional = (reader: Reader): Token[] | null => {
+    const skipped = skipSpaces(reader);
+    const open = reader.peek();
+    if (!open || open.type !== 'text' || open.value !== '[') {
+      reader.pushBack(skipped);
+      return null;
+    }
+    reader.next();
+    const tokens: Token[] = [];
+    let braces = 0;
+    let brackets = 0;
+    for (let token = reader.next(); token; token = reader.next()) {
+      if (token.type === 'begin-group') braces++;
+      if (token.type === 'end-group') braces--;
+      if (token.type === 'text' && braces === 0) {
+        if (token.value === '[') brackets++;
+        if (token.value === ']') {
+          if (brackets === 0) return tokens;
+          brackets--;
+        }
+      }
+      tokens.push(token);
+    }
+    report('error', 'Runaway argument: [ was never closed', open);
+    return tokens;
+  };
+
+  const readStar = (reader: Reader) => {
+    const token = reader.peek();
+    if (token && token.type === 'text' && token.value === '*') {
+      reader.next();
+      return true;
+    }
+    return false;
+  };
+
+  // The \name in \newcommand{\name} or \newcommand\name
+  const readMacroName = (reader: Reader): Token | null => {
+    const arg = readArgument(reader);
+    const name = arg?.find(t => t.type === 'command');
+    return name || null;
+  };
+
+  const readArgumentCount = (reader: Reader, owner: Token) => {
+    const raw = readOptional(reader);
+    if (!raw) return 0;
+    const count = parseInt(stringifyTokens(raw).trim(), 10);
+    if (isNaN(count) || count < 0 || count > 9) {
+      report('error', `Illegal parameter number in definition of \\${owner.value}`, owner);
+      return 0;
+    }
+    return count;
+  };
+
+  // --- Definitions ---
+
+  const defineCommand = (kind: string, name: Token, macro: MacroDefinition) => {
+    const exists = !!macros.commands[name.value];
+    if (kind === 'providecommand' && exists) return;
+    if (kind === 'newcommand' && exists) {
+      report('error', `Command \\${name.value} already defined`, name);
+      return;
+    }
+    macros.commands[name.value] = macro;
+    disabled.delete(name.value);
+  };
+
+  // \newcommand*{\name}[n][default]{body}
+  const readNewcommand = (command: Token, reader: Reader) => {
+    readStar(reader);
+    const name = readMacroName(reader);
+    if (!name) {
+      report('error', `Missing command name in \\${command.value}`, command);
+      return;
+    }
+    const numArgs = readArgumentCount(reader, name);
+    const defaultArg = numArgs > 0 ? readOptional(reader) : null;
+    const body = readArgument(reader);
+    if (!body) {
+      report('error', `Missing definition for \\${name.value}`, name);
+      return;
+    }
+    defineCommand(command.value, name, { numArgs, defaultArg: defaultArg || undefined, body: withoutComments(body) });
+  };
+
+  // \def\name#1#2{body}; delimited parameter text is not supported
+  const readDef = (command: Token, reader: Reader) => {
+    skipSpaces(reader);
+    const name = reader.next();
+    if (!name || name.type !== 'command') {
+      report('error', `Missing control sequence after \\${command.value}`, command);
+      if (name) reader.pushBack([name]);
+      return;
+    }
+    const parameters: Token[] = [];
+    while (reader.peek() && reader.peek()!.type !== 'begin-group') parameters.push(reader.next()!);
+    const open = reader.next();
+    if (!open) {
+      report('error', `Missing definition for \\${name.value}`, name);
+      return;
+    }
+    const body = readBalanced(reader, open);
+    const plain = parameters.every((t, i) => t.type === 'parameter' && t.value === String(i + 1));
+    if (!plain) {
+      report('warning', `Delimited parameters of \\${name.value} are not supported; the macro is not expanded`, name);
+      return;
+    }
+    defineCommand('def', name, { numArgs: parameters.length, body: withoutComments(body) });
+  };
+
+  // \let\a=\b copies the current meaning of \b
+  const readLet = (command: Token, reader: Reader) => {
+    skipSpaces(reader);
+    const name = reader.next();
+    if (!name || name.type !== 'command') {
+      report('error', 'Missing control sequence after \\let', command);
+      if (name) reader.pushBack([name]);
+      return;
+    }
+    skipSpaces(reader);
+    if (reader.peek()?.type === 'text' && reader.peek()!.value.startsWith('=')) {
+      const equals = reader.next()!;
+      if (equals.value.length > 1) reader.pushBack([{ ...equals, value: equals.value.slice(1), start: equals.start + 1 }]);
+      skipSpaces(reader);
+    }
+    const target = reader.next();
+    if (!target) return;
+    const existing = target.type === 'command' ? macros.commands[target.value] : undefined;
+    defineCommand('let', name, existing ? { ...existing } : { numArgs: 0, body: [target] });
+  };
+
+  // \DeclareMathOperator*{\name}{text} becomes \operatorname*{text}
+  const readMathOperator = (command: Token, reader: Reader) => {
+    const star = readStar(reader);
+    const name = readMacroName(reader);
+    const text = readArgument(reader);
+    if (!name || !text) {
+      report('error', `Missing argument for \\${command.value}`, command);
+      return;
+    }
+    const body = [synthetic('command', 'operatorname', name, 0)];
+    if (star) body.push(synthetic('text', '*', name, 0));
+    body.push(synthetic('begin-group', '{', name, 0), ...text, synthetic('end-group', '}', name, 0));
+    defineCommand('newcommand', name, { numArgs: 0, body });
+  };
+
+  // \newenvironment{name}[n][default]{begin code}{end code}
+  const readNewenvironment = (command: Token, reader: Reader) => {
+    readStar(reader);
+    const nameTokens = readArgument(reader);
+    const name = nameTokens ? stringifyTokens(nameTokens).trim() : '';
+    if (!name) {
+      report('error', `Missing environment name in \\${command.value}`, command);
+      return;
+    }
+    const numArgs = readArgumentCount(reader, command);
+    const defaultArg = numArgs > 0 ? readOptional(reader) : null;
+    const begin = readArgument(reader);
+    const end = readArgument(reader);
+    if (!begin || !end) {
+      report('error', `Missing definition for environment ${name}`, command);
+      return;
+    }
+    if (command.value === 'newenvironment' && macros.environments[name]) {
+      report('error', `Environment ${name} already defined`, command);
+      return;
+    }
+    macros.environments[name] = { numArgs, defaultArg: defaultArg || undefined, begin: withoutComments(begin), end: withoutComments(end) };
+  };
+
+  const withoutComments = (tokens: Token[]) => tokens.filter(t => t.type !== 'comment');
+
+  // --- Expansion ---
+
+  const readArguments = (reader: Reader, numArgs: number, defaultArg: Token[] | undefined, owner: Token, name: string) => {
+    const args: Token[][] = [];
+    if (defaultArg) args.push(readOptional(reader) || defaultArg);
+    while (args.length < numArgs) {
+      const arg = readArgument(reader);
+      if (!arg) report('error', `Missing argument for \\${name}`, owner);
+      args.push(arg || []);
+    }
+    return args;
+  };
+
+  // Copies a body with #n replaced by the arguments; ## becomes # for nested definitions
+  const substitute = (body: Token[], args: Token[][], at: Token, depth: number): Token[] => {
+    const out: Token[] = [];
+    for (let i = 0; i < body.length; i++) {
+      const token = body[i];
+      if (token.type === 'parameter' && /\d/.test(token.value)) {
+        out.push(...(args[+token.value - 1] || []));
+        continue;
+      }
+      if (token.type === 'parameter' && token.value === '#') {
+        const next = body[i + 1];
+        if (next && next.type === 'text' && /^\d/.test(next.value)) {
+          out.push(synthetic('parameter', next.value[0], at, depth));
+          if (next.value.length > 1) out.push(synthetic('text', next.value.slice(1), at, depth));
+          i++;
+          continue;
+        }
+      }
+      out.push(synthetic(token.type, token.value, at, depth));
+    }
+    return out;
+  };
+
+  // Stops runaway recursion; returns false when the macro must not be expanded
+  const allowExpansion = (name: string, at: Token) => {
+    if (disabled.has(name)) return false;
+    const depth = depthOf.get(at) || 0;
+    if (depth >= MAX_DEPTH || ++expansions > MAX_EXPANSIONS) {
+      report('error', `TeX capacity exceeded: \\${name} keeps expanding into itself`, at);
+      disabled.add(name);
+      return false;
+    }
+    return true;
+  };
+
+  const loadPackages = (names: string) => {
+    names.split(',').map(n => n.trim()).filter(Boolean).forEach(name => {
+      const file = `${name}.sty`;
+      const source = options.packageFiles?.[file];
+      if (source === undefined || loadedPackages.has(file)) return;
+      loadedPackages.add(file);
+      const outerFile = currentFile;
+      currentFile = file;
+      process(createReader(tokenize(source)), null);
+      currentFile = outerFile;
+    });
+  };
+
+  // Expands a token stream into `out`; with a null `out` only definitions are kept (packages)
+  const process = (reader: Reader, out: Token[] | null) => {
+    const emit = (...tokens: Token[]) => { if (out) out.push(...tokens); };
+    // What closes the current math: '$', '$$', ')', ']' or a math environment name
+    let mathCloser: string | null = null;
+    let mathEnvDepth = 0;
+
+    for (let token = reader.next(); token; token = reader.next()) {
+      if (token.type === 'math-shift') {
+        if (mathCloser === token.value) mathCloser = null;
+        else if (!mathCloser) mathCloser = token.value;
+        emit(token);
+        continue;
+      }
+      if (token.type !== 'command') {
+        emit(token);
+        continue;
+      }
+
+      const name = token.value;
+      if (DEFINITION_COMMANDS.has(name)) { readNewcommand(token, reader); continue; }
+      if (DEF_COMMANDS.has(name)) { readDef(token, reader); continue; }
+      if (name === 'let') { readLet(token, reader); continue; }
+      if (name === 'DeclareMathOperator') { readMathOperator(token, reader); continue; }
+      if (name === 'newenvironment' || name === 'renewenvironment') { readNewenvironment(token, reader); continue; }
+
+      if ((name === 'usepackage' || name === 'RequirePackage') && !mathCloser) {
+        const optional = readOptional(reader);
+        const skipped = skipSpaces(reader);
+        const open = reader.peek();
+        if (open?.type === 'begin-group') {
+          reader.next();
+          const names = readBalanced(reader, open);
+          loadPackages(stringifyTokens(names));
+          reader.pushBack([open, ...names, synthetic('end-group', '}', open, 0)]);
+        }
+        reader.pushBack(skipped);
+        if (optional) {
+          const bracket = (value: string) => synthetic('text', value, token!, 0);
+          reader.pushBack([bracket('['), ...optional, bracket(']')]);
+        }
+        emit(token);
+        continue;
+      }
+
+      if (name === '(' || name === '[') {
+        if (!mathCloser) mathCloser = name === '(' ? ')' : ']';
+        emit(token);
+        continue;
+      }
+      if (name === ')' || name === ']') {
+        if (mathCloser === name) mathCloser = null;
+        emit(token);
+        continue;
+      }
+
+      if (name === 'begin' || name === 'end') {
+        const skipped = skipSpaces(reader);
+        const open = reader.peek();
+        if (open?.type !== 'begin-group') {
+          reader.pushBack(skipped);
+          emit(token);
+          continue;
+        }
+        reader.next();
+        const nameTokens = readBalanced(reader, open);
+        const envName = stringifyTokens(nameTokens).trim();
+        const environment = macros.environments[envName];
+
+        if (environment && !mathCloser && allowExpansion(envName, token)) {
+          const depth = (depthOf.get(token) || 0) + 1;
+          if (name === 'begin') {
+            const args = readArguments(reader, environment.numArgs, environment.defaultArg, token, envName);
+            // The environment body is a group, as in LaTeX
+            reader.pushBack([synthetic('begin-group', '{', token, depth), ...substitute(environment.begin, args, token, depth)]);
+          } else {
+            reader.pushBack([...substitute(environment.end, [], token, depth), synthetic('end-group', '}', token, depth)]);
+          }
+          continue;
+        }
+
+        if (MATH_ENVIRONMENTS.has(envName)) {
+          if (name === 'begin' && !mathCloser) {
+            mathCloser = envName;
+            mathEnvDepth = 1;
+          } else if (mathCloser === envName) {
+            mathEnvDepth += name === 'begin' ? 1 : -1;
+            if (mathEnvDepth === 0) mathCloser = null;
+          }
+        }
+        emit(token, ...skipped, open, ...nameTokens, synthetic('end-group', '}', open, 0));
+        continue;
+      }
+
+      const macro = macros.commands[name];
+      if (!macro || (mathCloser && katexCompatible(macro)) || !allowExpansion(name, token)) {
+        emit(token);
+        continue;
+      }
+      const args = readArguments(reader, macro.numArgs, macro.defaultArg, token, name);
+      reader.pushBack(substitute(macro.body, args, token, (depthOf.get(token) || 0) + 1));
+    }
+  };
+
+  const tokens: Token[] = [];
+  process(createReader(input), tokens);
+  return { tokens, macros, diagnostics };
+};
@@ -0,0 +1,36 @@
+// --- Math rendering through KaTeX ---
+
+import katex from 'katex';
+import { escapeHtml } from './utils';
+
+// KaTeX only knows the "inner" alignment environments, so top-level amsmath
+// environments are mapped onto their closest equivalent.
+const KATEX_ENVIRONMENTS: Record<string, string> = {
+  align: 'aligned',
+  flalign: 'aligned',
+  alignat: 'alignedat',
+  gather: 'gathered',
+  multline: 'gathered',
+  eqnarray: 'array',
+};
+
+export const toKatexSource = (content: string, env?: string) => {
+  if (!env) return content;
+  const base = env.replace(/\*$/, '');
+  const target = KATEX_ENVIRONMENTS[base];
+  if (!target) return content;
+  if (target === 'array') return `\\begin{array}{rcl}${content}\\end{array}`;
+  return `\\begin{${target}}${content}\\end{${target}}`;
+};
+
+// KaTeX's HTML for a formula, or its source highlighted when KaTeX gives up on it
+export const renderMath = (source: string, display: boolean, macros?: Record<string, string>): string => {
+  try {
+    // KaTeX adds \gdef definitions to the macros object, so each formula gets a copy
+    return katex.renderToString(source, { displayMode: display, throwOnError: false, macros: macros ? { ...macros } : undefined });
+  } catch (e) {
+    return display
+      ? `<div class="font-mono text-xs bg-yellow-50 p-2">${escapeHtml(source)}</div>`
+      : `<span class="font-mono text-xs bg-yellow-50">${escapeHtml(source)}</span>`;
+  }
+};
@@ -0,0 +1,18 @@
+// --- Compile worker protocol ---
+// Messages between the simulator (services/compilers/simulator.ts) and the compile worker
+// (compile.worker.ts). Every compile carries an id; the worker answers each one it
+// receives exactly once, with its output or with the reason it has none.
+
+import { FileNode } from '../../types';
+import { ProjectOutput } from './project';
+
+export interface CompileRequest {
+  id: number;
+  root: FileNode;
+  preferredFileId: string;
+}
+
+export type CompileResponse =
+  | { type: 'done'; id: number; output: ProjectOutput | null } // null: no LaTeX file to compile
+  | { type: 'cancelled'; id: number } // A newer compile superseded it
+  | { type: 'failed'; id: number; message: string };
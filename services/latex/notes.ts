@@ -0,0 +1,90 @@
+// --- Notes ---
+// Footnotes, margin notes and endnotes. A footnote leaves its marker in the text and its
+// text right after it in a hidden element; the paginator (services/paginator.ts) moves
+// the texts to the foot of the page the markers end up on. Endnotes are collected and
+// printed by \theendnotes.
+
+import { CommandNode } from './ast';
+import { CommandDefinition, RenderContext } from './renderer';
+import { listHeading } from './commands';
+import { escapeHtml } from './utils';
+
+// \marginparsep of the standard classes, in millimetres
+const MARGINPAR_SEP = 11 * 25.4 / 72.27;
+
+// \footnote[5]{...} and \footnotemark[5] set the number instead of stepping the counter
+const noteNumber = (node: CommandNode, ctx: RenderContext, counter: string) => {
+  const given = ctx.argText(node, 0);
+  if (given === undefined) return String(ctx.stepCounter(counter));
+  return String(parseInt(given, 10) || given);
+};
+
+const marker = (number: string, anchor: string) =>
+  `<sup class="footnote-mark"><a href="#${anchor}" class="no-underline">${escapeHtml(number)}</a></sup>`;
+
+// The text is rendered with the footnote as the current reference target, so a \label
+// inside it refers to the footnote number
+const footnoteText = (node: CommandNode, number: string, anchor: string, ctx: RenderContext) => {
+  const outer = ctx.currentTarget;
+  ctx.currentTarget = { type: 'footnote', value: number, anchor };
+  const text = ctx.renderArg(node, 1);
+  ctx.currentTarget = outer;
+  return `<span hidden data-footnote="${anchor}"><sup>${escapeHtml(number)}</sup>&nbsp;${text}</span>`;
+};
+
+// \footnotemark and \footnotetext are paired by number
+const markAnchor = (number: string) => `footnote-${number.replace(/[^\w-]/g, '')}`;
+
+const printEndnotes: CommandDefinition = {
+  block: true,
+  render: (node, ctx) => {
+    const notes = ctx.endnotes;
+    ctx.endnotes = [];
+    if (notes.length === 0) return '';
+    return `<section>${listHeading(ctx.documentClass.names.notes, ctx)}${notes.join('')}</section>`;
+  },
+};
+
+export const NOTE_COMMANDS: Record<string, CommandDefinition> = {
+  footnote: {
+    render: (node, ctx) => {
+      const number = noteNumber(node, ctx, 'footnote');
+      const anchor = ctx.anchor();
+      return marker(number, anchor) + footnoteText(node, number, anchor, ctx);
+    },
+  },
+  // \footnotemark in a place that cannot hold the text, \footnotetext after it
+  footnotemark: {
+    render: (node, ctx) => {
+      const number = noteNumber(node, ctx, 'footnote');
+      return marker(number, markAnchor(number));
+    },
+  },
+  footnotetext: {
+    render: (node, ctx) => {
+      const number = ctx.argText(node, 0) || String(ctx.counters.footnote || 0);
+      return footnoteText(node, number, markAnchor(number), ctx);
+    },
+  },
+
+  // \marginpar[left]{right}: floated into the right margin, level with the line it is on
+  marginpar: {
+    render: (node, ctx) => {
+      const width = Math.max(10, ctx.layout.marginRight - 2 * MARGINPAR_SEP);
+      const style = `float: right; clear: right; width: ${width.toFixed(2)}mm; margin-right: ${(-width - MARGINPAR_SEP).toFixed(2)}mm`;
+      return `<span class="text-[0.8em] leading-snug text-left" style="${style}">${ctx.renderArg(node, 1)}</span>`;
+    },
+  },
+
+  // endnotes package: numbered markers, texts gathered under a Notes heading
+  endnote: {
+    render: (node, ctx) => {
+      const number = noteNumber(node, ctx, 'endnote');
+      const anchor = ctx.anchor();
+      ctx.endnotes.push(`<p id="${anchor}" class="text-[0.9em]"><sup>${escapeHtml(number)}</sup>&nbsp;${ctx.renderArg(node, 1)}</p>`);
+      return marker(number, anchor);
+    },
+  },
+  theendnotes: printEndnotes,
+  printendnotes: printEndnotes, // enotez
+};
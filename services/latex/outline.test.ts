@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { buildOutline, moveSection } from './outline';
+import { FileNode } from '../../types';
+
+const project = (main: string, chapter = ''): FileNode => ({ id: 'root', name: 'root', type: 'folder', children: [
+  { id: 'main', name: 'main.tex', type: 'file', content: main },
+  { id: 'ch', name: 'ch.tex', type: 'file', content: chapter },
+] });
+
+const blockText = (root: FileNode, fileId: string, block?: { from: number; to: number }) =>
+  block && root.children!.find(file => file.id === fileId)!.content!.slice(block.from, block.to);
+
+const MAIN = [
+  '\\documentclass{book}', // 1
+  '\\begin{document}',
+  '\\chapter{Intro}',
+  '\\section[Short]{First \\emph{one}}\\label{s1}',
+  'Text',
+  '\\begin{figure}\\caption{A plot}\\end{figure}', // 6
+  '\\subsection*{Detail}',
+  '% \\section{Commented}',
+  '\\section{Second}',
+  'More',
+  '\\appendix', // 11
+  '\\chapter{Extra}',
+  '\\bibliography{refs}',
+  '\\end{document}',
+].join('\n');
+
+describe('buildOutline', () => {
+  it('lists headings and floats with plain titles, depths and lines', () => {
+    expect(buildOutline(project(MAIN), 'main').map(({ kind, title, depth, line }) => ({ kind, title, depth, line }))).toEqual([
+      { kind: 'chapter', title: 'Intro', depth: 0, line: 3 },
+      { kind: 'section', title: 'First one', depth: 1, line: 4 },
+      { kind: 'figure', title: 'A plot', depth: 2, line: 6 },
+      { kind: 'subsection', title: 'Detail', depth: 2, line: 7 },
+      { kind: 'section', title: 'Second', depth: 1, line: 9 },
+      { kind: 'chapter', title: 'Extra', depth: 0, line: 12 },
+    ]);
+  });
+
+  it('follows \\input into other files', () => {
+    const root = project('\\begin{document}\n\\section{A}\n\\input{ch}\n\\end{document}', 'x\n\\section{B}');
+    expect(buildOutline(root, 'main').map(({ title, fileId, line }) => ({ title, fileId, line }))).toEqual([
+      { title: 'A', fileId: 'main', line: 2 },
+      { title: 'B', fileId: 'ch', line: 2 },
+    ]);
+  });
+
+  describe('blocks', () => {
+    const root = project(MAIN);
+    const outline = buildOutline(root, 'main');
+    const block = (title: string) => {
+      const entry = outline.find(candidate => candidate.title === title)!;
+      return blockText(root, entry.fileId, entry.block);
+    };
+
+    it('run to the next heading of the same level or above', () => {
+      expect(block('First one')).toBe(MAIN.split('\n').slice(3, 8).join('\n') + '\n');
+      expect(block('Detail')).toBe('\\subsection*{Detail}\n% \\section{Commented}\n');
+    });
+
+    it('end where the back matter starts', () => {
+      expect(block('Second')).toBe('\\section{Second}\nMore\n');
+      expect(block('Intro')).not.toContain('\\appendix');
+      expect(block('Extra')).toBe('\\chapter{Extra}\n');
+    });
+
+    it('end at an import that brings in a heading above them', () => {
+      const chapters = project('\\begin{document}\n\\section{A}\nText\n\\input{ch}\n\\end{document}', '\\section{B}');
+      const [a] = buildOutline(chapters, 'main');
+      expect(blockText(chapters, 'main', a.block)).toBe('\\section{A}\nText\n');
+    });
+  });
+});
+
+describe('moveSection', () => {
+  const main = '\\begin{document}\n\\section{A}\na\n\\section{B}\nb\n\\section{C}\nc\n\\end{document}';
+
+  it('moves a section before or after another one', () => {
+    const root = project(main);
+    const [a, b, c] = buildOutline(root, 'main');
+    expect(moveSection(root, c, a, false)).toEqual({ main: '\\begin{document}\n\\section{C}\nc\n\\section{A}\na\n\\section{B}\nb\n\\end{document}' });
+    expect(moveSection(root, a, b, true)).toEqual({ main: '\\begin{document}\n\\section{B}\nb\n\\section{A}\na\n\\section{C}\nc\n\\end{document}' });
+  });
+
+  it('moves a section into another file', () => {
+    const root = project('\\begin{document}\n\\section{A}\na\n\\input{ch}\n\\end{document}', '\\section{B}\nb');
+    const [a, b] = buildOutline(root, 'main');
+    expect(moveSection(root, a, b, true)).toEqual({
+      main: '\\begin{document}\n\\input{ch}\n\\end{document}',
+      ch: '\\section{B}\nb\n\\section{A}\na\n',
+    });
+  });
+
+  it('does not move a section into itself', () => {
+    const root = project('\\section{A}\n\\subsection{A1}\nx\n\\section{B}');
+    const [a, a1] = buildOutline(root, 'main');
+    expect(moveSection(root, a, a1, true)).toBeNull();
+    expect(moveSection(root, a, a, false)).toBeNull();
+  });
+});
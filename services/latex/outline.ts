@@ -0,0 +1,188 @@
+// --- Document outline ---
+// Parts, chapters, sections and the figures and tables between them, in document order
+// across the files pulled in by \input and \include (resolved as the compiler does, see
+// imports.ts). Each heading also knows the block of text it heads in its own file, so
+// the outline can move a section, subsections and all, to another place.
+
+import { FileNode } from '../../types';
+import { flattenProjectFiles, importFileName, IMPORT_PATTERN, listProjectFiles, resolveLatexImports } from './imports';
+import { findMainFile } from './project';
+import { sectionDepth } from './commands';
+
+export type OutlineKind = 'part' | 'chapter' | 'section' | 'subsection' | 'subsubsection' | 'paragraph' | 'subparagraph' | 'figure' | 'table';
+
+export interface OutlineEntry {
+  kind: OutlineKind;
+  title: string;
+  depth: number; // sectionDepth of a heading; a float is one deeper than the heading before it
+  fileId: string;
+  line: number; // 1-based, in that file
+  block?: { from: number; to: number }; // A heading's text in its file, up to the next heading of its level or above
+}
+
+const HEADING = /\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)\*?\s*(?:\[[^\]]*\]\s*)?\{/g;
+const HEADING_LINE = /\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)\*?\s*[[{]/;
+const FLOAT = /\\begin\s*\{(figure|table)\*?\}/g;
+// Lines after which nothing belongs to the last section: the back matter, the bibliography
+const BACK_MATTER = /^\s*\\(end\s*\{document\}|appendix|backmatter|bibliography|bibliographystyle|printbibliography)(?![A-Za-z@])/;
+
+// Blanks out a comment, keeping offsets; `\%` is a percent sign
+const stripComment = (line: string) => {
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') i++;
+    else if (line[i] === '%') return line.slice(0, i) + ' '.repeat(line.length - i);
+  }
+  return line;
+};
+
+// The text of the group whose `{` is just before `start`
+const readGroup = (text: string, start: number) => {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return text.slice(start, i);
+  }
+  const lineEnd = text.indexOf('\n', start);
+  return text.slice(start, lineEnd === -1 ? undefined : lineEnd);
+};
+
+// Commands and braces dropped, for a readable title
+const plainTitle = (source: string) => source
+  .replace(/\\label\s*\{[^}]*\}/g, '')
+  .replace(/\\\\|~/g, ' ')
+  .replace(/\\[a-zA-Z@]+\*?\s*(\[[^\]]*\])?/g, '')
+  .replace(/[{}]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// The highest heading (lowest depth) a file reaches, through its imports as well
+const topDepth = (file: FileNode, fileMap: Record<string, FileNode>, cache: Map<string, number>, visiting = new Set<string>()): number => {
+  if (cache.has(file.id)) return cache.get(file.id)!;
+  if (visiting.has(file.id)) return Infinity;
+  visiting.add(file.id);
+  const text = (file.content || '').split('\n').map(stripComment).join('\n');
+  let top = Infinity;
+  for (const match of text.matchAll(HEADING)) top = Math.min(top, sectionDepth(match[1]));
+  for (const match of text.matchAll(IMPORT_PATTERN)) {
+    const child = fileMap[importFileName(match[1])];
+    if (child) top = Math.min(top, topDepth(child, fileMap, cache, visiting));
+  }
+  cache.set(file.id, top);
+  return top;
+};
+
+// For each heading line of a file, the block it heads: it ends at the next heading of its
+// depth or above, at an import that brings one in, or where the back matter starts
+const headingBlocks = (file: FileNode, fileMap: Record<string, FileNode>, cache: Map<string, number>) => {
+  const text = file.content || '';
+  const lines = text.split('\n').map(stripComment);
+  const starts: number[] = [];
+  lines.reduce((offset, line) => { starts.push(offset); return offset + line.length + 1; }, 0);
+
+  // The depth at which each line ends a block: a heading's own, an import's highest heading
+  const barriers = lines.map(line => {
+    if (BACK_MATTER.test(line)) return -Infinity;
+    let depth = Infinity;
+    const heading = line.match(HEADING_LINE);
+    if (heading) depth = sectionDepth(heading[1]);
+    for (const match of line.matchAll(IMPORT_PATTERN)) {
+      const child = fileMap[importFileName(match[1])];
+      if (child) depth = Math.min(depth, topDepth(child, fileMap, cache));
+    }
+    return depth;
+  });
+
+  const blocks = new Map<number, { from: number; to: number }>();
+  lines.forEach((line, index) => {
+    const heading = line.match(HEADING_LINE);
+    if (!heading) return;
+    const depth = sectionDepth(heading[1]);
+    let end = index + 1;
+    while (end < lines.length && barriers[end] > depth) end++;
+    blocks.set(index + 1, { from: starts[index], to: end < lines.length ? starts[end] : text.length });
+  });
+  return blocks;
+};
+
+export const buildOutline = (root: FileNode, preferredFileId: string): OutlineEntry[] => {
+  const fileMap = flattenProjectFiles(root);
+  const mainFile = findMainFile(Object.values(fileMap), preferredFileId);
+  if (!mainFile || !mainFile.content) return [];
+  const { content, lineMap } = resolveLatexImports(mainFile, fileMap);
+  const text = content.split('\n').map(stripComment).join('\n');
+
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === '\n') lineStarts.push(i + 1);
+  const lineIndexAt = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+
+  const found: { offset: number; kind: OutlineKind; title: string }[] = [];
+  for (const match of text.matchAll(HEADING)) {
+    found.push({ offset: match.index!, kind: match[1] as OutlineKind, title: plainTitle(readGroup(text, match.index! + match[0].length)) });
+  }
+  for (const match of text.matchAll(FLOAT)) {
+    const kind = match[1] as OutlineKind;
+    const end = text.indexOf(`\\end{${match[1]}`, match.index!);
+    const body = text.slice(match.index!, end === -1 ? undefined : end);
+    const caption = body.match(/\\caption\s*(?:\[[^\]]*\]\s*)?\{/);
+    const title = caption ? plainTitle(readGroup(body, caption.index! + caption[0].length)) : '';
+    found.push({ offset: match.index!, kind, title: title || (kind === 'figure' ? 'Figure' : 'Table') });
+  }
+  found.sort((a, b) => a.offset - b.offset);
+
+  const cache = new Map<string, number>();
+  const blocksByFile = new Map<string, Map<number, { from: number; to: number }>>();
+  const blocksOf = (fileId: string) => {
+    if (!blocksByFile.has(fileId)) {
+      const file = Object.values(fileMap).find(candidate => candidate.id === fileId);
+      blocksByFile.set(fileId, file ? headingBlocks(file, fileMap, cache) : new Map());
+    }
+    return blocksByFile.get(fileId)!;
+  };
+
+  let headingDepth = -2;
+  return found.map(({ offset, kind, title }) => {
+    const origin = lineMap[lineIndexAt(offset)] || lineMap[lineMap.length - 1];
+    if (kind === 'figure' || kind === 'table') {
+      return { kind, title, depth: headingDepth + 1, fileId: origin.fileId, line: origin.line };
+    }
+    headingDepth = sectionDepth(kind);
+    return { kind, title, depth: headingDepth, fileId: origin.fileId, line: origin.line, block: blocksOf(origin.fileId).get(origin.line) };
+  });
+};
+
+// Puts `block` at `offset`, on lines of its own
+const insertBlock = (text: string, offset: number, block: string) =>
+  text.slice(0, offset) + (offset > 0 && text[offset - 1] !== '\n' ? '\n' : '') + block + text.slice(offset);
+
+// Moves a heading's block before or after another heading's. Returns the new content of
+// each file that changes, or null when the section would not move (onto itself or into
+// its own subsections).
+export const moveSection = (root: FileNode, source: OutlineEntry, target: OutlineEntry, after: boolean): Record<string, string> | null => {
+  if (!source.block || !target.block) return null;
+  const files = new Map(listProjectFiles(root).map(({ file }) => [file.id, file]));
+  const sourceText = files.get(source.fileId)?.content;
+  const targetText = files.get(target.fileId)?.content;
+  if (sourceText === undefined || targetText === undefined) return null;
+
+  const { from, to } = source.block;
+  const offset = after ? target.block.to : target.block.from;
+  let block = sourceText.slice(from, to);
+  if (!block.endsWith('\n')) block += '\n';
+  const remaining = sourceText.slice(0, from) + sourceText.slice(to);
+
+  if (source.fileId !== target.fileId) {
+    return { [source.fileId]: remaining, [target.fileId]: insertBlock(targetText, offset, block) };
+  }
+  if (offset >= from && offset <= to) return null;
+  return { [source.fileId]: insertBlock(remaining, offset > to ? offset - (to - from) : offset, block) };
+};
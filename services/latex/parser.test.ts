@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { tokenize } from './tokenizer';
+import { parseLatex } from './parser';
+import { LatexNode } from './ast';
+
+const parse = (source: string) => parseLatex(tokenize(source));
+const messages = (source: string) => parse(source).diagnostics.map(diagnostic => diagnostic.message);
+
+describe('parseLatex', () => {
+  it('reads command arguments from the signatures', () => {
+    const [node] = parse('\\textbf{a}[b]').nodes;
+    expect(node).toMatchObject({ kind: 'command', name: 'textbf', args: [{ optional: false, raw: 'a' }] });
+    expect(parse('\\textbf{a}[b]').nodes[1]).toMatchObject({ kind: 'text', value: '[b]' });
+  });
+
+  it('reads optional arguments with nested brackets', () => {
+    const [node] = parse('\\section[a [b] c]{Title}').nodes;
+    expect(node).toMatchObject({ name: 'section', args: [{ optional: true, raw: 'a [b] c' }, { optional: false, raw: 'Title' }] });
+  });
+
+  it('takes a single character as an undelimited argument', () => {
+    const [node, rest] = parse('\\textbf ab').nodes;
+    expect(node).toMatchObject({ name: 'textbf', args: [{ raw: 'a' }] });
+    expect(rest).toMatchObject({ kind: 'text', value: 'b' });
+  });
+
+  it('nests groups and environments', () => {
+    const [env] = parse('\\begin{center}a {b \\begin{itemize}\\item c\\end{itemize}}\\end{center}').nodes;
+    expect(env).toMatchObject({ kind: 'environment', name: 'center' });
+    const group = (env as Extract<LatexNode, { kind: 'environment' }>).children.find(node => node.kind === 'group');
+    expect(group).toBeDefined();
+    expect((group as Extract<LatexNode, { kind: 'group' }>).children.some(node => node.kind === 'environment' && node.name === 'itemize')).toBe(true);
+  });
+
+  it('keeps math as source', () => {
+    expect(parse('$a^{2}$').nodes[0]).toMatchObject({ kind: 'math', display: false, content: 'a^{2}' });
+    expect(parse('\\[x\\]').nodes[0]).toMatchObject({ kind: 'math', display: true, content: 'x' });
+  });
+
+  it('merges neighbouring text', () => {
+    expect(parse('a -- b').nodes).toEqual([expect.objectContaining({ kind: 'text', value: 'a -- b' })]);
+  });
+
+  describe('error recovery', () => {
+    it('reports an unclosed group and keeps its content', () => {
+      const { nodes, diagnostics } = parse('a {b');
+      expect(diagnostics).toMatchObject([{ severity: 'error', message: '{ was never closed', pos: { line: 1 } }]);
+      expect(nodes[1]).toMatchObject({ kind: 'group', children: [{ kind: 'text', value: 'b' }] });
+    });
+
+    it('reports and skips an extra closing brace', () => {
+      const { nodes, diagnostics } = parse('a } b');
+      expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual(['Extra }, or forgotten {']);
+      expect(nodes).toEqual([expect.objectContaining({ kind: 'text', value: 'a  b' })]);
+    });
+
+    it('reports an \\end without its \\begin', () => {
+      expect(messages('a\\end{itemize}b')).toEqual(['\\end{itemize} without matching \\begin{itemize}']);
+    });
+
+    it('closes an inner environment at the \\end of an outer one', () => {
+      const { nodes, diagnostics } = parse('\\begin{center}\\begin{itemize}\\item a\\end{center}b');
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({ message: '\\begin{itemize} ended by \\end{center}', related: { label: 'begun', pos: { start: 14 } } });
+      expect(nodes[0]).toMatchObject({ kind: 'environment', name: 'center' });
+      expect(nodes[1]).toMatchObject({ kind: 'text', value: 'b' });
+    });
+
+    it('reports a group left open at an \\end', () => {
+      expect(messages('\\begin{center}{a\\end{center}')).toEqual(['{ was not closed before \\end{center}']);
+    });
+
+    it('reports an environment that is never closed where it begins', () => {
+      const { diagnostics } = parse('a\n\\begin{center}\nb');
+      expect(diagnostics).toMatchObject([{ message: '\\begin{center} was never closed', pos: { line: 2 } }]);
+    });
+
+    it('reports a command without its argument', () => {
+      expect(messages('\\textbf')).toEqual(['Missing argument for \\textbf']);
+    });
+  });
+
+  it('gives each node the line it starts on', () => {
+    const { nodes } = parse('a\n\n\\section{B}\n\n\\begin{center}\nc\n\\end{center}');
+    const lines = nodes.filter(node => node.kind !== 'parbreak').map(node => node.pos.line);
+    expect(lines).toEqual([1, 3, 5]);
+  });
+});
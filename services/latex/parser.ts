@@ -0,0 +1,375 @@
+// --- LaTeX Parser ---
+// Builds a group/environment tree from the token stream. Argument counts come from
+// signatures.ts; math is kept as raw source for KaTeX. Structural problems (unbalanced
+// braces, mismatched \begin/\end) are recovered from and reported as diagnostics.
+
+import { Token, stringifyTokens } from './tokenizer';
+import { COMMAND_SIGNATURES, ENVIRONMENT_SIGNATURES, MATH_ENVIRONMENTS } from './signatures';
+import { LatexNode, LatexArgument, LatexDiagnostic, SourceSpan, CommandNode, MathNode } from './ast';
+
+interface Frame {
+  type: 'root' | 'group' | 'env' | 'optional';
+  name?: string;
+  token?: Token;
+  depth: number; // Nested '[' count inside optional arguments
+}
+
+export interface ParseResult {
+  nodes: LatexNode[];
+  diagnostics: LatexDiagnostic[];
+}
+
+const MATH_CLOSERS: Record<string, { type: Token['type']; value: string }> = {
+  '$': { type: 'math-shift', value: '$' },
+  '$$': { type: 'math-shift', value: '$$' },
+  '(': { type: 'command', value: ')' },
+  '[': { type: 'command', value: ']' },
+};
+
+const spanOf = (first: Token, last: Token = first): SourceSpan => ({
+  start: first.start,
+  end: last.end,
+  line: first.line,
+});
+
+// Joins neighbouring text nodes so ligatures like `--` are seen as one run
+const mergeText = (nodes: LatexNode[]): LatexNode[] => {
+  const merged: LatexNode[] = [];
+  nodes.forEach(node => {
+    const prev = merged[merged.length - 1];
+    if (node.kind === 'text' && prev && prev.kind === 'text') {
+      // Leading whitespace should not decide which line the text belongs to
+      const start = prev.value.trim() ? prev.pos : node.pos;
+      merged[merged.length - 1] = { ...prev, value: prev.value + node.value, pos: { start: start.start, end: node.pos.end, line: start.line } };
+    } else {
+      merged.push(node);
+    }
+  });
+  return merged;
+};
+
+export const parseLatex = (tokens: Token[]): ParseResult => {
+  const diagnostics: LatexDiagnostic[] = [];
+  const stack: Frame[] = [];
+  let index = 0;
+
+  const report = (severity: LatexDiagnostic['severity'], message: string, token: Token | undefined, related?: LatexDiagnostic['related']) => {
+    const at = token || tokens[tokens.length - 1];
+    diagnostics.push({ severity, message, pos: at ? spanOf(at) : { start: 0, end: 0, line: 1 }, ...(related && { related }) });
+  };
+
+  const lastConsumed = () => tokens[Math.max(0, index - 1)];
+
+  const skipSpaces = () => {
+    while (index < tokens.length && (tokens[index].type === 'whitespace' || tokens[index].type === 'comment')) index++;
+  };
+
+  const describe = (frame: Frame) => {
+    if (frame.type === 'env') return `\\begin{${frame.name}}`;
+    if (frame.type === 'optional') return '[';
+    return '{';
+  };
+
+  // Reads `\begin{name}` / `\end{name}` starting at position i without consuming anything
+  const readEnvironmentName = (i: number): { name: string; next: number } | null => {
+    let k = i + 1;
+    while (k < tokens.length && tokens[k].type === 'whitespace') k++;
+    if (tokens[k]?.type !== 'begin-group') return null;
+    k++;
+    let name = '';
+    while (k < tokens.length && tokens[k].type === 'text') name += tokens[k++].value;
+    if (tokens[k]?.type !== 'end-group') return null;
+    return { name: name.trim(), next: k + 1 };
+  };
+
+  const parseSequence = (frame: Frame): { nodes: LatexNode[]; closed: boolean } => {
+    stack.push(frame);
+    const nodes: LatexNode[] = [];
+
+    const finish = (closed: boolean) => {
+      stack.pop();
+      return { nodes: mergeText(nodes), closed };
+    };
+
+    while (index < tokens.length) {
+      const token = tokens[index];
+
+      if (token.type === 'end-group') {
+        if (frame.type === 'group') {
+          index++;
+          return finish(true);
+        }
+        if (stack.some(f => f.type === 'group')) {
+          report('error', `${describe(frame)} was not closed before }`, frame.token);
+          return finish(false);
+        }
+        report('error', 'Extra }, or forgotten {', token);
+        index++;
+        continue;
+      }
+
+      if (token.type === 'text' && frame.type === 'optional') {
+        if (token.value === '[') frame.depth++;
+        if (token.value === ']') {
+          if (frame.depth === 0) {
+            index++;
+            return finish(true);
+          }
+          frame.depth--;
+        }
+      }
+
+      if (token.type === 'command' && token.value === 'end') {
+        const env = readEnvironmentName(index);
+        if (!env) {
+          report('error', 'Missing environment name after \\end', token);
+          index++;
+          continue;
+        }
+        if (frame.type === 'env' && frame.name === env.name) {
+          index = env.next;
+          return finish(true);
+        }
+        if (stack.some(f => f.type === 'env' && f.name === env.name)) {
+          if (frame.type === 'env') {
+            // The line is left to whoever maps positions back to files
+            report('error', `\\begin{${frame.name}} ended by \\end{${env.name}}`, token, frame.token && { label: 'begun', pos: spanOf(frame.token) });
+          } else {
+            report('error', `${describe(frame)} was not closed before \\end{${env.name}}`, frame.token);
+          }
+          return finish(false);
+        }
+        report('error', `\\end{${env.name}} without matching \\begin{${env.name}}`, token);
+        index = env.next;
+        continue;
+      }
+
+      const node = parseToken();
+      if (node) nodes.push(node);
+    }
+
+    if (frame.type !== 'root') {
+      report('error', `${describe(frame)} was never closed`, frame.token);
+    }
+    return finish(false);
+  };
+
+  const parseOptional = (): LatexArgument | undefined => {
+    const save = index;
+    skipSpaces();
+    const token = tokens[index];
+    if (!token || token.type !== 'text' || token.value !== '[') {
+      index = save;
+      return undefined;
+    }
+    index++;
+    const bodyStart = index;
+    const { nodes, closed } = parseSequence({ type: 'optional', token, depth: 0 });
+    const bodyEnd = closed ? index - 1 : index;
+    return { optional: true, nodes, raw: stringifyTokens(tokens.slice(bodyStart, bodyEnd)) };
+  };
+
+  const parseMandatory = (owner: Token): LatexArgument => {
+    const save = index;
+    skipSpaces();
+    const token = tokens[index];
+    if (!token || token.type === 'parbreak' || token.type === 'end-group') {
+      report('error', `Missing argument for \\${owner.value}`, owner);
+      index = save;
+      return { optional: false, nodes: [], raw: '' };
+    }
+
+    if (token.type === 'begin-group') {
+      index++;
+      const bodyStart = index;
+      const { nodes, closed } = parseSequence({ type: 'group', token, depth: 0 });
+      const bodyEnd = closed ? index - 1 : index;
+      return { optional: false, nodes, raw: stringifyTokens(tokens.slice(bodyStart, bodyEnd)) };
+    }
+
+    // Undelimited argument: a single token, or a single character of a text run
+    if (token.type === 'text' && token.value.length > 1) {
+      const first = token.value[0];
+      tokens[index] = { ...token, value: token.value.slice(1), start: token.start + 1 };
+      return {
+        optional: false,
+        nodes: [{ kind: 'text', value: first, pos: { start: token.start, end: token.start + 1, line: token.line } }],
+        raw: first,
+      };
+    }
+
+    index++;
+    if (token.type === 'command') {
+      const node: CommandNode = { kind: 'command', name: token.value, star: false, args: [], pos: spanOf(token) };
+      return { optional: false, nodes: [node], raw: stringifyTokens([token]) };
+    }
+    const node = tokenToNode(token);
+    return { optional: false, nodes: node ? [node] : [], raw: stringifyTokens([token]) };
+  };
+
+  // An optional {argument}, like beamer's frame title
+  const parseBraced = (): LatexArgument | undefined => {
+    const save = index;
+    skipSpaces();
+    const token = tokens[index];
+    if (!token || token.type !== 'begin-group') {
+      index = save;
+      return undefined;
+    }
+    index++;
+    const bodyStart = index;
+    const { nodes, closed } = parseSequence({ type: 'group', token, depth: 0 });
+    const bodyEnd = closed ? index - 1 : index;
+    return { optional: true, nodes, raw: stringifyTokens(tokens.slice(bodyStart, bodyEnd)) };
+  };
+
+  // A beamer overlay specification such as <2-> or <+->, which sits inside a text run
+  const parseOverlay = (): string | undefined => {
+    const save = index;
+    skipSpaces();
+    const token = tokens[index];
+    const match = token && token.type === 'text' ? token.value.match(/^<([^<>]*)>/) : null;
+    if (!match) {
+      index = save;
+      return undefined;
+    }
+    if (match[0].length === token.value.length) index++;
+    else tokens[index] = { ...token, value: token.value.slice(match[0].length), start: token.start + match[0].length };
+    return match[1].trim();
+  };
+
+  const parseArguments = (signature: string, owner: Token) => {
+    let star = false;
+    let overlay: string | undefined;
+    const args: (LatexArgument | undefined)[] = [];
+    for (const slot of signature) {
+      if (slot === 's') {
+        const save = index;
+        skipSpaces();
+        const token = tokens[index];
+        if (token && token.type === 'text' && token.value === '*') {
+          star = true;
+          index++;
+        } else {
+          index = save;
+        }
+      } else if (slot === 'o') {
+        args.push(parseOptional());
+      } else if (slot === 'g') {
+        args.push(parseBraced());
+      } else if (slot === 'a') {
+        overlay = parseOverlay() ?? overlay;
+      } else {
+        args.push(parseMandatory(owner));
+      }
+    }
+    return { star, args, overlay };
+  };
+
+  const parseMath = (open: Token): MathNode => {
+    const closer = MATH_CLOSERS[open.value];
+    const bodyStart = index;
+    let depth = 0;
+    while (index < tokens.length) {
+      const token = tokens[index];
+      if (token.type === closer.type && token.value === closer.value && depth === 0) {
+        const content = stringifyTokens(tokens.slice(bodyStart, index));
+        index++;
+        return { kind: 'math', display: open.value === '$$' || open.value === '[', content, pos: spanOf(open, token) };
+      }
+      if (token.type === 'parbreak' || (token.type === 'end-group' && depth === 0)) break;
+      if (token.type === 'command' && token.value === 'end') {
+        const env = readEnvironmentName(index);
+        if (env && stack.some(f => f.type === 'env' && f.name === env.name)) break;
+      }
+      if (token.type === 'begin-group') depth++;
+      if (token.type === 'end-group') depth--;
+      index++;
+    }
+    report('error', `Missing ${closer.type === 'command' ? '\\' : ''}${closer.value} to close math started with ${open.type === 'command' ? '\\' : ''}${open.value}`, open);
+    return { kind: 'math', display: open.value === '$$' || open.value === '[', content: stringifyTokens(tokens.slice(bodyStart, index)), pos: spanOf(open, lastConsumed()) };
+  };
+
+  const parseMathEnvironment = (name: string, begin: Token): MathNode => {
+    const bodyStart = index;
+    let depth = 0;
+    while (index < tokens.length) {
+      const token = tokens[index];
+      if (token.type === 'command' && (token.value === 'begin' || token.value === 'end')) {
+        const env = readEnvironmentName(index);
+        if (env && env.name === name) {
+          if (token.value === 'begin') {
+            depth++;
+          } else if (depth === 0) {
+            const content = stringifyTokens(tokens.slice(bodyStart, index));
+            index = env.next;
+            return { kind: 'math', display: name !== 'math', env: name, content, pos: spanOf(begin, lastConsumed()) };
+          } else {
+            depth--;
+          }
+        }
+      }
+      index++;
+    }
+    report('error', `\\begin{${name}} was never closed`, begin);
+    return { kind: 'math', display: name !== 'math', env: name, content: stringifyTokens(tokens.slice(bodyStart)), pos: spanOf(begin, lastConsumed()) };
+  };
+
+  const parseEnvironment = (begin: Token): LatexNode => {
+    const nameArg = parseMandatory(begin);
+    const name = nameArg.raw.trim();
+    if (!name) report('error', 'Missing environment name after \\begin', begin);
+    if (MATH_ENVIRONMENTS.has(name)) return parseMathEnvironment(name, begin);
+
+    const { args, overlay } = parseArguments(ENVIRONMENT_SIGNATURES[name] || '', begin);
+    const { nodes } = parseSequence({ type: 'env', name, token: begin, depth: 0 });
+    return { kind: 'environment', name, args, ...(overlay !== undefined && { overlay }), children: nodes, pos: spanOf(begin, lastConsumed()) };
+  };
+
+  const parseCommand = (token: Token): LatexNode | null => {
+    const name = token.value;
+    if (name === 'begin') return parseEnvironment(token);
+    if (name === '(' || name === '[') return parseMath(token);
+    if (name === ')' || name === ']') {
+      report('error', `Bad math environment delimiter \\${name}`, token);
+      return null;
+    }
+    const { star, args, overlay } = parseArguments(COMMAND_SIGNATURES[name] || '', token);
+    return { kind: 'command', name, star, args, ...(overlay !== undefined && { overlay }), pos: spanOf(token, lastConsumed()) };
+  };
+
+  const tokenToNode = (token: Token): LatexNode | null => {
+    const pos = spanOf(token);
+    switch (token.type) {
+      case 'text': return { kind: 'text', value: token.value, pos };
+      case 'whitespace': return { kind: 'text', value: ' ', pos };
+      case 'active': return { kind: 'text', value: '\u00a0', pos };
+      case 'parameter': return { kind: 'text', value: '#' + token.value, pos };
+      case 'parbreak': return { kind: 'parbreak', pos };
+      case 'alignment': return { kind: 'alignment', pos };
+      case 'verbatim': return { kind: 'verbatim', env: token.env || 'verbatim', value: token.value, pos };
+      default: return null;
+    }
+  };
+
+  const parseToken = (): LatexNode | null => {
+    const token = tokens[index++];
+    switch (token.type) {
+      case 'command':
+        return parseCommand(token);
+      case 'begin-group': {
+        const { nodes } = parseSequence({ type: 'group', token, depth: 0 });
+        return { kind: 'group', children: nodes, pos: spanOf(token, lastConsumed()) };
+      }
+      case 'math-shift':
+        return parseMath(token);
+      case 'comment':
+        return null;
+      default:
+        return tokenToNode(token);
+    }
+  };
+
+  const { nodes } = parseSequence({ type: 'root', depth: 0 });
+  return { nodes, diagnostics };
+};
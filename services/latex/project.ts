@@ -0,0 +1,75 @@
+// --- Project compilation ---
+// Compiles a whole project tree: finds the main file, resolves its imports, collects
+// images, bibliographies and local packages, and turns every diagnostic into a log
+// entry. Runs in the compile worker (compile.worker.ts).
+
+import { FileNode, LogEntry, PageLayout } from '../../types';
+import { resolveLatexImports, flattenProjectFiles, listProjectFiles } from './imports';
+import { compileLatexSteps, diagnosticsToLogs, summaryLog } from './compiler';
+import { RenderCache } from './cache';
+import { runSteps, Steps } from './utils';
+
+export interface ProjectOutput {
+  html: string;
+  layout: PageLayout;
+  logs: LogEntry[];
+}
+
+export interface ProjectCompileOptions {
+  cache?: RenderCache;
+  isCancelled?: () => boolean;
+}
+
+// main.tex, else the preferred file when it is a .tex file, else any .tex file
+export const findMainFile = (files: FileNode[], preferredFileId: string) =>
+  files.find(f => f.name === 'main.tex')
+    || files.find(f => f.id === preferredFileId && f.name.endsWith('.tex'))
+    || files.find(f => f.name.endsWith('.tex'));
+
+// Returns null when the project has no LaTeX file to compile. One step per rendered
+// segment, so the worker can take newer requests in between.
+export function* compileProjectSteps(root: FileNode, preferredFileId: string, options: ProjectCompileOptions = {}): Steps<ProjectOutput | null> {
+  const fileMap = flattenProjectFiles(root);
+  const allFiles = Object.values(fileMap);
+  const mainFile = findMainFile(allFiles, preferredFileId);
+  if (!mainFile || !mainFile.content) return null;
+
+  // 1. Resolve imports (recursively), keeping track of where each line came from
+  const { content: resolvedContent, lineMap, diagnostics: importDiagnostics } = resolveLatexImports(mainFile, fileMap);
+
+  // 2. Extract assets (images), bibliography databases and local packages
+  const assets: Record<string, string> = {};
+  const bibFiles: Record<string, string> = {};
+  const packageFiles: Record<string, string> = {};
+  allFiles.forEach(f => {
+    if (f.content && /\.(png|jpe?g|gif|svg)$/i.test(f.name)) assets[f.name] = f.content;
+    if (f.name.endsWith('.bib')) bibFiles[f.name] = f.content || '';
+    if (f.name.endsWith('.sty')) packageFiles[f.name] = f.content || '';
+  });
+
+  // 3. Render
+  const result = yield* compileLatexSteps(resolvedContent, { assets, bibFiles, packageFiles, sourceMap: lineMap, ...options });
+
+  // 4. Logs
+  const paths: Record<string, string> = {};
+  listProjectFiles(root).forEach(({ path, file }) => { paths[file.id] = path; });
+
+  const logs = diagnosticsToLogs([...importDiagnostics, ...result.diagnostics], lineMap, fileMap, paths);
+  const now = Date.now();
+  if (!resolvedContent.includes('\\documentclass')) {
+    logs.push({
+      id: `${now}-documentclass`,
+      type: 'warning',
+      message: 'Missing \\documentclass declaration. Preview may not render correctly.',
+      file: paths[mainFile.id],
+      fileId: mainFile.id,
+      line: 1,
+      timestamp: now,
+    });
+  }
+  logs.push(summaryLog(logs));
+  return { html: result.html, layout: result.layout, logs };
+}
+
+export const compileProject = (root: FileNode, preferredFileId: string, options: ProjectCompileOptions = {}) =>
+  runSteps(compileProjectSteps(root, preferredFileId, options));
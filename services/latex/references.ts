@@ -0,0 +1,94 @@
+// --- Cross-references ---
+// \label records the current reference target (see RenderContext.refTarget); \ref and
+// friends look labels up in the data collected by the previous pass, so forward
+// references work the same way they do after a second latex run.
+
+import { CommandNode, SourceSpan } from './ast';
+import { CommandDefinition, RenderContext, LabelInfo, ReferenceTarget } from './renderer';
+import { escapeHtml } from './utils';
+
+const REFERENCE_NAMES: Record<string, string> = {
+  part: 'Part',
+  chapter: 'Chapter',
+  section: 'Section',
+  subsection: 'Section',
+  subsubsection: 'Section',
+  figure: 'Figure',
+  subfigure: 'Figure',
+  table: 'Table',
+  subtable: 'Table',
+  equation: 'Equation',
+  footnote: 'Footnote',
+  enumi: 'Item',
+};
+
+// Points a label at a target; \label inside equations uses this too, see equations.ts
+export const defineLabel = (key: string, target: ReferenceTarget | null, pos: SourceSpan, ctx: RenderContext) => {
+  if (ctx.aux.labels[key]) {
+    ctx.warn(`Label \`${key}' multiply defined`, pos);
+    return;
+  }
+  ctx.aux.labels[key] = { ...(target || { type: '', value: '', anchor: '' }), page: ctx.counters.page, pos };
+};
+
+// Resolves a label, warning (on the final pass) when it is missing
+const lookup = (node: CommandNode, ctx: RenderContext): { key: string; label: LabelInfo | undefined } => {
+  const key = ctx.argText(node, 0) || '';
+  const label = ctx.previousAux.labels[key];
+  if (!label) ctx.warn(`Reference \`${key}' undefined`, node.pos);
+  return { key, label };
+};
+
+const link = (key: string, label: LabelInfo | undefined, text: (label: LabelInfo) => string) => {
+  if (!label) return `<strong class="text-red-600" title="Undefined reference: ${escapeHtml(key)}">??</strong>`;
+  if (!label.anchor) return text(label);
+  return `<a href="#${label.anchor}" class="text-blue-600 hover:underline" data-ref="${escapeHtml(key)}">${text(label)}</a>`;
+};
+
+const typedReference = (capitalize: boolean): CommandDefinition => ({
+  render: (node, ctx) => {
+    const { key, label } = lookup(node, ctx);
+    return link(key, label, l => {
+      const name = REFERENCE_NAMES[l.type] || '';
+      const prefix = capitalize || !name ? name : name.toLowerCase();
+      return escapeHtml(`${prefix}${prefix ? ' ' : ''}${l.value}`);
+    });
+  },
+});
+
+export const REFERENCE_COMMANDS: Record<string, CommandDefinition> = {
+  label: {
+    render: (node, ctx) => {
+      const key = ctx.argText(node, 0) || '';
+      if (key) defineLabel(key, ctx.currentTarget, node.pos, ctx);
+      return '';
+    },
+  },
+
+  ref: {
+    render: (node, ctx) => {
+      const { key, label } = lookup(node, ctx);
+      return link(key, label, l => escapeHtml(l.value));
+    },
+  },
+
+  eqref: {
+    render: (node, ctx) => {
+      const { key, label } = lookup(node, ctx);
+      return link(key, label, l => `(${escapeHtml(l.value)})`);
+    },
+  },
+
+  pageref: {
+    render: (node, ctx) => {
+      // lastpage's LastPage label is the page count, known once the preview has paginated
+      if (ctx.argText(node, 0) === 'LastPage' && ctx.packages.lastpage !== undefined) return '<span data-page-count></span>';
+      const { key, label } = lookup(node, ctx);
+      return link(key, label, l => l.anchor ? `<span data-page-of="${l.anchor}">${l.page}</span>` : String(l.page));
+    },
+  },
+
+  autoref: typedReference(true),
+  cref: typedReference(false),
+  Cref: typedReference(true),
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { compileLatex, compileLatexSteps, diagnosticsToLogs } from './compiler';
+import { createRenderCache, CompileCancelled } from './cache';
+import { compileProject } from './project';
+import { FileNode, SourceLocation } from '../../types';
+
+const html = (source: string) => compileLatex(source).html;
+const messages = (source: string) => compileLatex(source).diagnostics.map(diagnostic => diagnostic.message);
+
+describe('renderer', () => {
+  it('renders only the body of a document', () => {
+    expect(html('\\documentclass{article}\\begin{document}Hello\\end{document}')).toBe('<p>Hello</p>');
+  });
+
+  it('escapes text', () => {
+    expect(html('a < b & c')).toContain('a &lt; b');
+  });
+
+  it('nests commands inside commands', () => {
+    expect(html('\\textbf{x \\emph{y}}')).toBe('<p><strong>x <em>y</em></strong></p>');
+  });
+
+  describe('declarations', () => {
+    it('last to the end of their group', () => {
+      expect(html('a {\\bf b} c')).toBe('<p>a <span style="font-weight: bold">b</span> c</p>');
+    });
+
+    it('nest inside each other', () => {
+      expect(html('{\\itshape a {\\bfseries b} c} d')).toBe(
+        '<p><span style="font-style: italic">a <span style="font-weight: bold">b</span> c</span> d</p>'
+      );
+    });
+
+    it('end with the argument or environment they are in', () => {
+      expect(html('\\textit{a \\bfseries b} c')).toBe('<p><em>a <span style="font-weight: bold">b</span></em> c</p>');
+      expect(html('\\begin{center}\\bfseries a\\end{center} b')).toBe(
+        '<div class="text-center w-full block"><span style="font-weight: bold">a</span></div>\n<p>b</p>'
+      );
+    });
+  });
+
+  describe('environments', () => {
+    it('render lists with their items', () => {
+      expect(html('\\begin{itemize}\\item one\\item two\\end{itemize}')).toBe(
+        '<ul class="pl-6 space-y-1 my-4" style="list-style-type: disc"><li>one</li><li>two</li></ul>'
+      );
+    });
+
+    it('number nested enumerations by level', () => {
+      const output = html('\\begin{enumerate}\\item a\\begin{enumerate}\\item b\\end{enumerate}\\end{enumerate}');
+      expect(output).toContain('list-style-type: decimal');
+      expect(output).toContain('list-style-type: lower-alpha');
+    });
+
+    it('keep the content of an unknown environment and report it', () => {
+      const result = compileLatex('\\begin{foo}x\\end{foo}');
+      expect(result.html).toBe('<div>x</div>');
+      expect(result.diagnostics.map(diagnostic => diagnostic.message)).toEqual(['Environment foo undefined']);
+    });
+
+    it('render math through KaTeX', () => {
+      expect(html('$a^2$')).toContain('class="katex"');
+    });
+  });
+
+  describe('error recovery', () => {
+    it('renders what follows a structural error', () => {
+      const result = compileLatex('a { b\n\nc');
+      expect(result.html).toContain('c');
+      expect(result.diagnostics.map(diagnostic => diagnostic.message)).toEqual(['{ was never closed']);
+    });
+
+    it('reports a misplaced alignment tab and drops it', () => {
+      expect(messages('a & b')).toEqual(['Misplaced alignment tab character &']);
+      expect(html('a & b')).toBe('<p>a  b</p>');
+    });
+  });
+
+  describe('source lines', () => {
+    const sourceMap: SourceLocation[] = [1, 2, 3, 4, 5].map(line => ({ fileId: 'chapter', line: line + 20 }));
+
+    it('tags each block with the file and line it came from', () => {
+      expect(compileLatex('a\n\n\\begin{center}\nb\n\\end{center}', { sourceMap }).html).toBe(
+        '<p data-src-file="chapter" data-src-line="21">a</p>\n<div data-src-file="chapter" data-src-line="23" class="text-center w-full block"> b </div>'
+      );
+    });
+
+    it('maps diagnostics back to the file and line', () => {
+      const chapter: FileNode = { id: 'chapter', name: 'chapter.tex', type: 'file', content: '' };
+      const { diagnostics } = compileLatex('a\n\n\\begin{foo}\nb\n\\end{foo}', { sourceMap });
+      const logs = diagnosticsToLogs(diagnostics, sourceMap, { [chapter.name]: chapter }, { chapter: 'chapters/chapter.tex' });
+      expect(logs).toMatchObject([{ message: 'Environment foo undefined', file: 'chapters/chapter.tex', fileId: 'chapter', line: 23 }]);
+    });
+
+    it('maps the other place a message names through \\input as well', () => {
+      const root: FileNode = { id: 'root', name: 'root', type: 'folder', children: [
+        { id: 'main', name: 'main.tex', type: 'file', content: '\\documentclass{article}\n\\begin{document}\nIntro\n\\input{ch}\n\\end{document}' },
+        { id: 'ch', name: 'ch.tex', type: 'file', content: 'One\n\nTwo\n\\begin{itemize}\n\\item a' },
+      ] };
+      const { logs } = compileProject(root, 'main')!;
+      expect(logs[0]).toMatchObject({ file: 'main.tex', line: 5, message: '\\begin{itemize} ended by \\end{document} (begun at ch.tex:4)' });
+    });
+  });
+
+  describe('cancelling', () => {
+    const source = '\\section{A}\na\n\\section{B}\nb\n\\section{C}\nc';
+
+    it('stops between segments once the compile is cancelled', () => {
+      let cancelled = false;
+      const steps = compileLatexSteps(source, { isCancelled: () => cancelled });
+      expect(steps.next().done).toBe(false);
+      cancelled = true;
+      expect(() => steps.next()).toThrow(CompileCancelled);
+    });
+
+    it('keeps the cache usable after a cancelled compile', () => {
+      const cache = createRenderCache();
+      const expected = compileLatex(source, { cache }).html;
+      let cancelled = false;
+      const steps = compileLatexSteps(source.replace('b', 'x'), { cache, isCancelled: () => cancelled });
+      steps.next();
+      cancelled = true;
+      expect(() => steps.next()).toThrow(CompileCancelled);
+      expect(compileLatex(source, { cache }).html).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,420 @@
+// --- LaTeX → HTML Renderer ---
+// Walks the AST produced by the parser. Commands and environments are looked up in
+// definition tables (commands.ts, environments.ts); anything that is not defined is
+// shown as-is so the user can spot it. Declarations such as \bfseries or \large apply
+// to the rest of the enclosing group, which keeps their effect properly scoped.
+
+import { LatexNode, CommandNode, EnvironmentNode, SourceSpan, LatexDiagnostic } from './ast';
+import { SourceLocation, PageLayout } from '../../types';
+import { BASE_COMMANDS, DECLARATIONS } from './commands';
+import { BASE_ENVIRONMENTS } from './environments';
+import { REFERENCE_COMMANDS } from './references';
+import { CITATION_COMMANDS, CITATION_ENVIRONMENTS } from './citations';
+import { FLOAT_COMMANDS, FLOAT_ENVIRONMENTS } from './floats';
+import { TABLE_COMMANDS, TABLE_ENVIRONMENTS } from './tables';
+import { CONTENTS_COMMANDS } from './contents';
+import { LAYOUT_COMMANDS, defaultLayout } from './layout';
+import { CLASS_COMMANDS, DocumentClass, loadClass } from './classes';
+import { BEAMER_COMMANDS, BEAMER_ENVIRONMENTS } from './beamer';
+import { NOTE_COMMANDS } from './notes';
+import { RenderCache, renderCached, pruneRenderCache } from './cache';
+import { renderEquation } from './equations';
+import { escapeHtml, applyLigatures, runSteps, Steps } from './utils';
+
+export interface Rendered {
+  html: string;
+  block: boolean; // Block output closes the current paragraph
+}
+
+export interface RenderOptions {
+  assets: Record<string, string>;
+  bibFiles: Record<string, string>; // .bib file contents by file name
+  mathMacros?: Record<string, string>; // User macros KaTeX expands itself, see macros.ts
+  sourceMap?: SourceLocation[]; // Origin of each source line, see imports.ts
+  cache?: RenderCache; // Kept between compiles to re-render only what changed, see cache.ts
+  isCancelled?: () => boolean; // Polled between segments; true aborts the compile
+}
+
+// Something \label can point at: the counter value current at that point and the
+// id of the element that displays it
+export interface ReferenceTarget {
+  type: string; // Counter name: section, figure, equation ...
+  value: string;
+  anchor: string;
+}
+
+export interface LabelInfo extends ReferenceTarget {
+  page: number;
+  pos: SourceSpan;
+}
+
+// A line of a generated list (table of contents, list of figures ...)
+export interface ContentsEntry {
+  type: string; // Sectioning level for the table of contents, float type for the lists
+  number: string;
+  title: string; // HTML
+  anchor: string;
+  page: number;
+}
+
+// The float being rendered; \caption numbers it, or letters it inside a subfigure
+export interface FloatState {
+  type: string;
+  number: string; // Number its caption will get
+  sub: boolean;
+}
+
+// Information gathered during a pass and consumed by the next one, like LaTeX's .aux file
+export interface AuxData {
+  labels: Record<string, LabelInfo>;
+  contents: ContentsEntry[]; // Headings and \addcontentsline entries, for \tableofcontents
+  floats: ContentsEntry[]; // Captioned figures and tables, for \listoffigures / \listoftables
+  citations: string[]; // Cited keys in order of first use
+  citeAll: boolean; // \nocite{*}
+  bibData: string[]; // Database files from \bibliography / \addbibresource
+  bibStyle: string;
+  bibitems: Record<string, string>; // Labels of hand-written \bibitem entries
+}
+
+export interface RenderContext {
+  options: RenderOptions;
+  packages: Record<string, string>; // Loaded packages and their raw options
+  layout: PageLayout;
+  documentClass: DocumentClass;
+  metadata: Record<string, string>; // \title, \author, \date ... as HTML, for \maketitle
+  preamble: boolean; // Rendering the preamble rather than the document body
+  counters: Record<string, number>;
+  anchorCount: number; // Anchors handed out so far
+  listDepth: number;
+  aux: AuxData; // Collected during this pass
+  previousAux: AuxData; // Collected during the previous pass, resolves forward references
+  currentTarget: ReferenceTarget | null;
+  currentFloat: FloatState | null;
+  endnotes: string[]; // Endnote texts waiting for \theendnotes
+  diagnostics: LatexDiagnostic[];
+  warn: (message: string, pos: SourceSpan) => void;
+  anchor: () => string;
+  refTarget: (type: string, value: string) => string;
+  renderFlow: (nodes: LatexNode[]) => Rendered;
+  renderInline: (nodes: LatexNode[]) => string;
+  renderArg: (node: CommandNode | EnvironmentNode, index: number) => string;
+  argText: (node: CommandNode | EnvironmentNode, index: number) => string | undefined;
+  stepCounter: (name: string) => number;
+  setCounter: (name: string, value: number) => void;
+}
+
+export interface CommandDefinition {
+  block?: boolean | ((node: CommandNode) => boolean); // A function decides from the arguments, as for \only{...}
+  render: (node: CommandNode, ctx: RenderContext) => string;
+}
+
+export interface EnvironmentDefinition {
+  inline?: boolean;
+  render: (node: EnvironmentNode, ctx: RenderContext) => string;
+}
+
+// Switches like \bfseries that affect everything up to the end of the current group
+export interface DeclarationDefinition {
+  className?: string;
+  style?: string | ((node: CommandNode, ctx: RenderContext) => string);
+  block?: boolean; // Always wrap in a <div>, e.g. \centering
+}
+
+// Counters reset when their parent is stepped, as with \newcounter{child}[parent]
+const COUNTER_RESETS: Record<string, string[]> = {
+  part: ['chapter'],
+  chapter: ['section', 'figure', 'table', 'equation'],
+  figure: ['subfigure'],
+  table: ['subtable'],
+  section: ['subsection'],
+  subsection: ['subsubsection'],
+  subsubsection: ['subsubsubsection', 'paragraph'],
+  subsubsubsection: ['paragraph'],
+  paragraph: ['subparagraph'],
+};
+
+const COMMANDS: Record<string, CommandDefinition> = {
+  ...BASE_COMMANDS,
+  ...REFERENCE_COMMANDS,
+  ...NOTE_COMMANDS,
+  ...CITATION_COMMANDS,
+  ...FLOAT_COMMANDS,
+  ...TABLE_COMMANDS,
+  ...CONTENTS_COMMANDS,
+  ...LAYOUT_COMMANDS,
+  ...CLASS_COMMANDS,
+  ...BEAMER_COMMANDS,
+};
+const ENVIRONMENTS: Record<string, EnvironmentDefinition> = {
+  ...BASE_ENVIRONMENTS,
+  ...CITATION_ENVIRONMENTS,
+  ...FLOAT_ENVIRONMENTS,
+  ...TABLE_ENVIRONMENTS,
+  ...BEAMER_ENVIRONMENTS,
+};
+
+// Math and verbatim environments are handled by the parser and never get here
+export const isEnvironmentDefined = (name: string) => !!ENVIRONMENTS[name];
+
+// What the renderer implements, for the editor's completions
+export const definedCommands = () => [...Object.keys(COMMANDS), ...Object.keys(DECLARATIONS)];
+export const definedEnvironments = () => Object.keys(ENVIRONMENTS);
+
+// Tags the first element of a block with the file/line it was generated from
+const withSource = (html: string, pos: SourceSpan, ctx: RenderContext) => {
+  const origin = ctx.options.sourceMap?.[pos.line - 1];
+  if (!origin) return html;
+  return html.replace(/^<([a-zA-Z][a-zA-Z0-9]*)/, `<$1 data-src-file="${escapeHtml(origin.fileId)}" data-src-line="${origin.line}"`);
+};
+
+const renderUnknownCommand = (node: CommandNode) => escapeHtml(`\\${node.name}${node.star ? '*' : ''}`);
+
+const emptyAux = (): AuxData => ({ labels: {}, contents: [], floats: [], citations: [], citeAll: false, bibData: [], bibStyle: '', bibitems: {} });
+
+export const createRenderContext = (options: RenderOptions, previousAux: AuxData = emptyAux()): RenderContext => {
+  const ctx: RenderContext = {
+    options,
+    packages: {},
+    layout: defaultLayout(),
+    documentClass: loadClass('article'),
+    metadata: {},
+    preamble: false,
+    counters: { page: 1 },
+    anchorCount: 0,
+    listDepth: 0,
+    aux: emptyAux(),
+    previousAux,
+    currentTarget: null,
+    currentFloat: null,
+    endnotes: [],
+    diagnostics: [],
+
+    warn: (message, pos) => {
+      ctx.diagnostics.push({ severity: 'warning', message, pos });
+    },
+
+    // Anchors are numbered in document order, so both passes produce the same ids
+    anchor: () => `ref-${++ctx.anchorCount}`,
+
+    refTarget: (type, value) => {
+      const anchor = ctx.anchor();
+      ctx.currentTarget = { type, value, anchor };
+      return anchor;
+    },
+
+    renderFlow: (nodes) => renderFlow(nodes, ctx),
+
+    renderInline: (nodes) => renderFlow(nodes, ctx).html,
+
+    renderArg: (node, index) => {
+      const arg = node.args[index];
+      return arg ? renderFlow(arg.nodes, ctx).html : '';
+    },
+
+    argText: (node, index) => node.args[index]?.raw.trim(),
+
+    stepCounter: (name) => {
+      ctx.counters[name] = (ctx.counters[name] || 0) + 1;
+      const resets = (counter: string) => [...(COUNTER_RESETS[counter] || []), ...(ctx.documentClass.counterResets?.[counter] || [])];
+      const resetQueue = resets(name);
+      while (resetQueue.length > 0) {
+        const child = resetQueue.shift()!;
+        ctx.counters[child] = 0;
+        resetQueue.push(...resets(child));
+      }
+      return ctx.counters[name];
+    },
+
+    setCounter: (name, value) => {
+      ctx.counters[name] = value;
+    },
+  };
+  return ctx;
+};
+
+// Like TeX's \@currentlabel, the reference target is local to groups and environments
+const scoped = (ctx: RenderContext, render: () => Rendered): Rendered => {
+  const target = ctx.currentTarget;
+  const result = render();
+  ctx.currentTarget = target;
+  return result;
+};
+
+const renderNode = (node: LatexNode, ctx: RenderContext): Rendered => {
+  switch (node.kind) {
+    case 'text':
+      return { html: escapeHtml(applyLigatures(node.value)), block: false };
+
+    case 'group':
+      return scoped(ctx, () => renderFlow(node.children, ctx));
+
+    case 'math':
+      return { html: renderEquation(node, ctx), block: node.display };
+
+    case 'verbatim':
+      if (node.env === 'verb') {
+        return { html: `<code class="font-mono text-sm">${escapeHtml(node.value)}</code>`, block: false };
+      }
+      if (node.env === 'comment') return { html: '', block: false };
+      return { html: `<pre class="font-mono text-sm bg-slate-50 border border-slate-200 rounded p-3 my-4 overflow-x-auto whitespace-pre">${escapeHtml(node.value)}</pre>`, block: true };
+
+    case 'command': {
+      const definition = COMMANDS[node.name];
+      if (!definition) return { html: renderUnknownCommand(node), block: false };
+      const block = typeof definition.block === 'function' ? definition.block(node) : !!definition.block;
+      return { html: definition.render(node, ctx), block };
+    }
+
+    case 'environment': {
+      const definition = ENVIRONMENTS[node.name];
+      if (!definition) {
+        return scoped(ctx, () => ({ html: `<div>${renderFlow(node.children, ctx).html}</div>`, block: true }));
+      }
+      return scoped(ctx, () => ({ html: definition.render(node, ctx), block: !definition.inline }));
+    }
+
+    default:
+      // Paragraph breaks are handled by renderFlow; stray & outside tables is dropped
+      return { html: '', block: false };
+  }
+};
+
+const openDeclaration = (declaration: DeclarationDefinition, node: CommandNode, ctx: RenderContext, block: boolean) => {
+  const tag = block || declaration.block ? 'div' : 'span';
+  const style = typeof declaration.style === 'function' ? declaration.style(node, ctx) : declaration.style;
+  const classAttr = declaration.className ? ` class="${declaration.className}"` : '';
+  const styleAttr = style ? ` style="${style}"` : '';
+  return { open: `<${tag}${classAttr}${styleAttr}>`, close: `</${tag}>`, tag };
+};
+
+// Renders a node list, grouping inline content into paragraphs whenever the list
+// contains paragraph breaks or block-level output. Lists without either stay inline.
+const renderFlow = (nodes: LatexNode[], ctx: RenderContext): Rendered => {
+  const blocks: string[] = [];
+  let inline = '';
+  let paragraphStart: LatexNode | null = null;
+  let isBlock = false;
+
+  const flush = () => {
+    const text = inline.trim();
+    if (text) blocks.push(paragraphStart ? withSource(`<p>${text}</p>`, paragraphStart.pos, ctx) : `<p>${text}</p>`);
+    inline = '';
+    paragraphStart = null;
+  };
+
+  const appendInline = (html: string, node: LatexNode) => {
+    if (!paragraphStart && html.trim()) paragraphStart = node;
+    inline += html;
+  };
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+
+    if (node.kind === 'parbreak') {
+      flush();
+      isBlock = true;
+      continue;
+    }
+
+    if (node.kind === 'command' && node.name === 'par') {
+      flush();
+      isBlock = true;
+      continue;
+    }
+
+    if (node.kind === 'command' && DECLARATIONS[node.name]) {
+      const rest = renderFlow(nodes.slice(i + 1), ctx);
+      const wrapper = openDeclaration(DECLARATIONS[node.name], node, ctx, rest.block);
+      if (wrapper.tag === 'div') {
+        flush();
+        blocks.push(withSource(`${wrapper.open}${rest.html}${wrapper.close}`, node.pos, ctx));
+        isBlock = true;
+      } else {
+        appendInline(`${wrapper.open}${rest.html}${wrapper.close}`, node);
+      }
+      break;
+    }
+
+    const rendered = renderNode(node, ctx);
+    if (rendered.block) {
+      flush();
+      blocks.push(withSource(rendered.html, node.pos, ctx));
+      isBlock = true;
+    } else {
+      appendInline(rendered.html, node);
+    }
+  }
+
+  if (!isBlock) return { html: inline, block: false };
+  flush();
+  return { html: blocks.join('\n'), block: true };
+};
+
+// Sectioning commands that start a segment of the body, see cache.ts
+const SEGMENT_COMMANDS = new Set(['part', 'chapter', 'section']);
+
+const isBlockNode = (node: LatexNode) => {
+  if (node.kind === 'environment') return !ENVIRONMENTS[node.name]?.inline;
+  if (node.kind !== 'command' || !COMMANDS[node.name]) return false;
+  const { block } = COMMANDS[node.name];
+  return typeof block === 'function' ? block(node) : !!block;
+};
+
+// Cuts the body where rendering it in pieces gives the same output as rendering it
+// whole: before a block that starts a section or a file. A declaration at the top
+// level applies to the rest of the body, which then stays in one piece.
+const splitSegments = (body: LatexNode[], ctx: RenderContext) => {
+  const segments: LatexNode[][] = [[]];
+  let file: string | undefined;
+  for (let i = 0; i < body.length; i++) {
+    const node = body[i];
+    const current = segments[segments.length - 1];
+    if (node.kind === 'command' && DECLARATIONS[node.name]) {
+      current.push(...body.slice(i));
+      break;
+    }
+    const origin = ctx.options.sourceMap?.[node.pos.line - 1]?.fileId;
+    const starts = current.length > 0 && isBlockNode(node) && (origin !== file || (node.kind === 'command' && SEGMENT_COMMANDS.has(node.name)));
+    if (starts) segments.push([node]);
+    else current.push(node);
+    if (node.kind !== 'text' || node.value.trim()) file = origin;
+  }
+  return segments;
+};
+
+const renderSegment = (nodes: LatexNode[], ctx: RenderContext) => {
+  const result = renderFlow(nodes, ctx);
+  if (result.block) return result.html;
+  const text = result.html.trim();
+  const first = nodes.find(node => node.kind !== 'text' || node.value.trim());
+  return text ? (first ? withSource(`<p>${text}</p>`, first.pos, ctx) : `<p>${text}</p>`) : '';
+};
+
+// One step per segment of the body
+function* renderPass(preamble: LatexNode[], body: LatexNode[], ctx: RenderContext): Steps<string> {
+  ctx.preamble = true;
+  renderFlow(preamble, ctx);
+  ctx.preamble = false;
+  const parts: string[] = [];
+  for (const segment of splitSegments(body, ctx)) {
+    const html = renderCached(segment, ctx, () => renderSegment(segment, ctx));
+    if (html) parts.push(html);
+    yield;
+  }
+  return parts.join('\n');
+}
+
+// Renders a whole document: the preamble is evaluated for its side effects
+// (counters, metadata) and the body becomes the visible output. Like running
+// latex twice, the first pass collects labels so the second can resolve them.
+export function* renderDocumentSteps(preamble: LatexNode[], body: LatexNode[], options: RenderOptions): Steps<{ html: string; diagnostics: LatexDiagnostic[]; layout: PageLayout }> {
+  const first = createRenderContext(options);
+  yield* renderPass(preamble, body, first);
+  const ctx = createRenderContext(options, first.aux);
+  const html = yield* renderPass(preamble, body, ctx);
+  if (options.cache) pruneRenderCache(options.cache);
+  return { html, diagnostics: ctx.diagnostics, layout: ctx.layout };
+}
+
+export const renderDocument = (preamble: LatexNode[], body: LatexNode[], options: RenderOptions) =>
+  runSteps(renderDocumentSteps(preamble, body, options));
@@ -0,0 +1,242 @@
+// --- Argument Signatures ---
+// How many arguments each command/environment takes, in xparse-like notation:
+//   s = optional star, o = optional [argument], m = mandatory argument,
+//   g = optional {argument}, a = optional beamer <overlay> (kept apart from the arguments)
+// Commands that are not listed take no arguments; any groups after them are
+// rendered as ordinary groups, exactly like TeX would do for an unknown macro.
+
+export const COMMAND_SIGNATURES: Record<string, string> = {
+  // Preamble & setup
+  documentclass: 'om',
+  usepackage: 'om',
+  RequirePackage: 'om',
+  title: 'om',
+  subtitle: 'om',
+  author: 'om',
+  institute: 'om',
+  date: 'm',
+  thanks: 'm',
+  titulo: 'm',
+  autor: 'm',
+  data: 'm',
+  local: 'm',
+  instituicao: 'm',
+  tipotrabalho: 'm',
+  preambulo: 'm',
+  orientador: 'om',
+  coorientador: 'om',
+  imprimirfolhaderosto: 's',
+  newcommand: 'smoom',
+  renewcommand: 'smoom',
+  providecommand: 'smoom',
+  newenvironment: 'smoomm',
+  renewenvironment: 'smoomm',
+  DeclareMathOperator: 'smm',
+  newcounter: 'mo',
+  setcounter: 'mm',
+  addtocounter: 'mm',
+  stepcounter: 'm',
+  refstepcounter: 'm',
+  setlength: 'mm',
+  addtolength: 'mm',
+  selectlanguage: 'm',
+  hyphenation: 'm',
+  pagestyle: 'm',
+  thispagestyle: 'm',
+  pagenumbering: 'm',
+  fancyhf: 'om',
+  fancyhead: 'om',
+  fancyfoot: 'om',
+  lhead: 'om',
+  chead: 'om',
+  rhead: 'om',
+  lfoot: 'om',
+  cfoot: 'om',
+  rfoot: 'om',
+  fancypagestyle: 'mm',
+  fancyheadoffset: 'om',
+  fancyfootoffset: 'om',
+  markboth: 'mm',
+  markright: 'm',
+  graphicspath: 'm',
+  hypersetup: 'm',
+  geometry: 'm',
+  linespread: 'm',
+  input: 'm',
+  include: 'm',
+  bibliographystyle: 'm',
+  bibliography: 'm',
+
+  // Sectioning
+  part: 'som',
+  chapter: 'som',
+  section: 'som',
+  subsection: 'som',
+  subsubsection: 'som',
+  subsubsubsection: 'som',
+  paragraph: 'som',
+  subparagraph: 'som',
+  addcontentsline: 'mmm',
+  addtocontents: 'mm',
+  numberline: 'm',
+
+  // Text formatting
+  textbf: 'm',
+  textit: 'm',
+  textsl: 'm',
+  textsc: 'm',
+  textup: 'm',
+  textmd: 'm',
+  textrm: 'm',
+  textsf: 'm',
+  texttt: 'm',
+  textnormal: 'm',
+  emph: 'm',
+  underline: 'm',
+  textsuperscript: 'm',
+  textsubscript: 'm',
+  mbox: 'm',
+  makebox: 'oom',
+  fbox: 'm',
+  color: 'om',
+  textcolor: 'omm',
+  url: 'm',
+  href: 'mm',
+
+  // Accents: \'{e}, \~a, \c{c} ...
+  "'": 'm',
+  '`': 'm',
+  '^': 'm',
+  '"': 'm',
+  '~': 'm',
+  '=': 'm',
+  '.': 'm',
+  u: 'm',
+  v: 'm',
+  H: 'm',
+  c: 'm',
+  k: 'm',
+  r: 'm',
+  d: 'm',
+  b: 'm',
+
+  // Spacing & breaks
+  '\\': 'so',
+  newline: 'o',
+  linebreak: 'o',
+  vspace: 'sm',
+  hspace: 'sm',
+
+  // Lists
+  item: 'aoa',
+
+  // Notes, references & citations
+  footnote: 'om',
+  footnotemark: 'o',
+  footnotetext: 'om',
+  marginpar: 'om',
+  endnote: 'om',
+  printendnotes: 'o',
+  label: 'm',
+  ref: 'm',
+  pageref: 'm',
+  eqref: 'm',
+  autoref: 'sm',
+  cref: 'm',
+  Cref: 'm',
+  cite: 'soom',
+  citep: 'soom',
+  citet: 'soom',
+  nocite: 'm',
+  parencite: 'soom',
+  textcite: 'soom',
+  autocite: 'soom',
+  citeauthor: 'soom',
+  citeyear: 'soom',
+  bibitem: 'om',
+  addbibresource: 'om',
+  printbibliography: 'o',
+  index: 'm',
+
+  // Floats & graphics
+  includegraphics: 'som',
+  caption: 'om',
+  captionof: 'mom',
+  subcaption: 'om',
+  subfloat: 'oom',
+
+  // Tables
+  multicolumn: 'mmm',
+  multirow: 'omomom',
+  cline: 'm',
+  cmidrule: 'o',
+  addlinespace: 'o',
+  rowcolor: 'om',
+  cellcolor: 'om',
+
+  // Beamer
+  frame: 'aom',
+  frametitle: 'am',
+  framesubtitle: 'am',
+  pause: 'o',
+  only: 'am',
+  uncover: 'am',
+  visible: 'am',
+  invisible: 'am',
+  onslide: 'ag',
+  alt: 'amm',
+  alert: 'am',
+  structure: 'am',
+  note: 'om',
+  usetheme: 'om',
+  usecolortheme: 'om',
+  usefonttheme: 'om',
+  useinnertheme: 'om',
+  useoutertheme: 'om',
+  setbeamertemplate: 'mom',
+  setbeamercolor: 'mm',
+  setbeamerfont: 'mm',
+  setbeamercovered: 'm',
+  AtBeginSection: 'om',
+  AtBeginSubsection: 'om',
+};
+
+export const ENVIRONMENT_SIGNATURES: Record<string, string> = {
+  minipage: 'ooom',
+  figure: 'o',
+  'figure*': 'o',
+  table: 'o',
+  'table*': 'o',
+  subfigure: 'om',
+  subtable: 'om',
+  tabular: 'om',
+  'tabular*': 'mom',
+  tabularx: 'mom',
+  longtable: 'om',
+  enumerate: 'o',
+  itemize: 'o',
+  description: 'o',
+  thebibliography: 'm',
+  multicols: 'm',
+  lstlisting: 'o',
+  resumo: 'o',
+  frame: 'aogg',
+  block: 'am',
+  alertblock: 'am',
+  exampleblock: 'am',
+  columns: 'o',
+  column: 'om',
+};
+
+// Environments whose body is handed to KaTeX as a single display formula
+export const MATH_ENVIRONMENTS = new Set([
+  'equation', 'equation*',
+  'align', 'align*',
+  'alignat', 'alignat*',
+  'gather', 'gather*',
+  'multline', 'multline*',
+  'flalign', 'flalign*',
+  'eqnarray', 'eqnarray*',
+  'displaymath',
+  'math',
+]);
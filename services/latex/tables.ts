@@ -0,0 +1,351 @@
+// --- Tables ---
+// tabular, tabular*, tabularx and longtable become HTML tables. The column
+// specification decides alignment, widths and vertical rules; rows are split at \\
+// and cells at &, with \hline, \cline and the booktabs rules drawn as cell borders.
+
+import { LatexNode, CommandNode, EnvironmentNode } from './ast';
+import { CommandDefinition, EnvironmentDefinition, RenderContext } from './renderer';
+import { cssColor } from './commands';
+import { withFloat } from './floats';
+import { textWidth } from './layout';
+import { parseDimension } from './utils';
+
+interface ColumnSpec {
+  align: 'left' | 'center' | 'right' | 'justify';
+  valign: 'top' | 'middle' | 'bottom';
+  width?: string;
+  borderLeft: number;
+  borderRight: number;
+  padLeft: boolean; // false after @{}
+  padRight: boolean;
+}
+
+interface Rule {
+  border: string;
+  from?: number; // \cline / \cmidrule column range, 1-based
+  to?: number;
+}
+
+interface Row {
+  cells: LatexNode[][];
+  rulesAbove: Rule[];
+  background?: string;
+}
+
+const RULE_BORDERS: Record<string, string> = {
+  hline: '1px solid #000',
+  toprule: '1.5px solid #000',
+  midrule: '1px solid #000',
+  bottomrule: '1.5px solid #000',
+  cmidrule: '0.5px solid #000',
+  cline: '1px solid #000',
+};
+
+const LONGTABLE_MARKERS = new Set(['endfirsthead', 'endhead', 'endfoot', 'endlastfoot']);
+
+// Reads a {...} group starting at raw[i]; returns its content and the index after it
+const readBraced = (raw: string, i: number): { text: string; next: number } => {
+  while (raw[i] === ' ') i++;
+  if (raw[i] !== '{') return { text: raw[i] || '', next: i + 1 };
+  let depth = 0;
+  for (let k = i; k < raw.length; k++) {
+    if (raw[k] === '{') depth++;
+    if (raw[k] === '}' && --depth === 0) return { text: raw.slice(i + 1, k), next: k + 1 };
+  }
+  return { text: raw.slice(i + 1), next: raw.length };
+};
+
+// Converts a column width; fractions of \textwidth are resolved against the page
+const columnWidth = (raw: string, textWidth: number) => {
+  const width = parseDimension(raw);
+  if (!width || !width.endsWith('%')) return width || undefined;
+  return `${+(parseFloat(width) / 100 * textWidth).toFixed(3)}mm`;
+};
+
+export const parseColumnSpec = (raw: string, textWidth: number): ColumnSpec[] => {
+  const columns: ColumnSpec[] = [];
+  let leadingBorders = 0;
+  let padNext = true;
+
+  const add = (align: ColumnSpec['align'], valign: ColumnSpec['valign'] = 'top', width?: string) => {
+    columns.push({ align, valign, width, borderLeft: 0, borderRight: 0, padLeft: padNext, padRight: true });
+    padNext = true;
+  };
+
+  for (let i = 0; i < raw.length;) {
+    const ch = raw[i++];
+    switch (ch) {
+      case '|':
+        if (columns.length === 0) leadingBorders++;
+        else columns[columns.length - 1].borderRight++;
+        break;
+      case 'l': add('left'); break;
+      case 'c': add('center'); break;
+      case 'r': add('right'); break;
+      case 'S': add('center'); break; // siunitx
+      case 'X': add('justify'); break; // tabularx: shares the remaining width
+      case 'p':
+      case 'm':
+      case 'b': {
+        const { text, next } = readBraced(raw, i);
+        i = next;
+        add('justify', ch === 'p' ? 'top' : ch === 'm' ? 'middle' : 'bottom', columnWidth(text, textWidth));
+        break;
+      }
+      case '*': {
+        // *{3}{c|} repeats a part of the specification
+        const count = readBraced(raw, i);
+        const part = readBraced(raw, count.next);
+        const repeated = part.text.repeat(Math.max(0, parseInt(count.text, 10) || 0));
+        raw = raw.slice(0, i - 1) + repeated + raw.slice(part.next);
+        i -= 1;
+        break;
+      }
+      case '@': {
+        // @{} removes the padding between columns; other inter-column material is dropped
+        const { text, next } = readBraced(raw, i);
+        i = next;
+        if (!text.trim()) {
+          if (columns.length > 0) columns[columns.length - 1].padRight = false;
+          padNext = false;
+        }
+        break;
+      }
+      case '!':
+      case '>':
+      case '<':
+        i = readBraced(raw, i).next;
+        break;
+      default:
+        break;
+    }
+  }
+  if (columns.length > 0) columns[0].borderLeft = leadingBorders;
+  return columns;
+};
+
+const border = (count: number) => count >= 2 ? '3px double #000' : count === 1 ? '1px solid #000' : '';
+
+const isBlank = (node: LatexNode) => node.kind === 'text' && !node.value.trim();
+
+const meaningful = (nodes: LatexNode[]) => nodes.filter(n => !isBlank(n));
+
+// Text of a {2-3} group following \cmidrule
+const groupText = (node: LatexNode | undefined) =>
+  node?.kind === 'group' ? node.children.map(c => c.kind === 'text' ? c.value : '').join('') : '';
+
+const columnRange = (text: string): { from?: number; to?: number } => {
+  const match = text.match(/(\d+)\s*-\s*(\d+)/);
+  return match ? { from: +match[1], to: +match[2] } : {};
+};
+
+interface SplitTable {
+  rows: Row[];
+  trailingRules: Rule[];
+  captions: { html: string; before: boolean }[];
+}
+
+// Splits the environment body into rows and cells. Rules seen before any content of
+// a row are attached to that row; longtable head/foot sections are reordered.
+const splitRows = (nodes: LatexNode[], ctx: RenderContext): SplitTable => {
+  const rows: Row[] = [];
+  const captions: SplitTable['captions'] = [];
+  const sections: Record<string, Row[]> = {};
+  let sectionStart = 0;
+  let current: Row = { cells: [], rulesAbove: [] };
+  let cell: LatexNode[] = [];
+
+  const rowStarted = () => current.cells.length > 0 || meaningful(cell).length > 0;
+
+  const endRow = () => {
+    current.cells.push(cell);
+    const content = meaningful(current.cells.flat());
+    // A row holding only \caption (longtable) is shown as the table caption
+    if (current.cells.length === 1 && content.some(n => n.kind === 'command' && n.name === 'caption')
+      && content.every(n => n.kind === 'command' && (n.name === 'caption' || n.name === 'label'))) {
+      captions.push({ html: ctx.renderFlow(content).html, before: rows.length === 0 });
+    } else {
+      rows.push(current);
+    }
+    current = { cells: [], rulesAbove: [] };
+    cell = [];
+  };
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (node.kind === 'alignment') {
+      current.cells.push(cell);
+      cell = [];
+      continue;
+    }
+    if (node.kind === 'command') {
+      if (node.name === '\\' || node.name === 'tabularnewline') {
+        endRow();
+        continue;
+      }
+      if (!rowStarted()) {
+        if (RULE_BORDERS[node.name]) {
+          let range = node.name === 'cline' ? columnRange(ctx.argText(node, 0) || '') : {};
+          if (node.name === 'cmidrule') {
+            // \cmidrule(lr){2-3}: the trim spec is not part of the parsed signature
+            let j = i + 1;
+            const trim = nodes[j];
+            if (trim?.kind === 'text' && /^\s*\([a-z{}]*\)\s*$/.test(trim.value)) j++;
+            if (nodes[j]?.kind === 'group') {
+              range = columnRange(groupText(nodes[j]));
+              i = j;
+            }
+          }
+          // \hline\hline draws a double rule
+          const previous = current.rulesAbove[current.rulesAbove.length - 1];
+          if (node.name === 'hline' && previous?.border === RULE_BORDERS.hline && previous.from === undefined) {
+            previous.border = '3px double #000';
+          } else {
+            current.rulesAbove.push({ border: RULE_BORDERS[node.name], ...range });
+          }
+          continue;
+        }
+        if (node.name === 'rowcolor') {
+          current.background = cssColor(ctx.argText(node, 1) || '');
+          continue;
+        }
+      }
+      if (LONGTABLE_MARKERS.has(node.name)) {
+        // The marker ends the row it follows, like \\
+        if (rowStarted()) endRow();
+        sections[node.name] = rows.slice(sectionStart);
+        sectionStart = rows.length;
+        continue;
+      }
+    }
+    cell.push(node);
+  }
+  if (rowStarted()) endRow();
+
+  if (Object.keys(sections).length === 0) return { rows, trailingRules: current.rulesAbove, captions };
+  // longtable: the first head (or the head) starts the table, the last foot (or the foot) ends it
+  const head = sections.endfirsthead || sections.endhead || [];
+  const foot = sections.endlastfoot || sections.endfoot || [];
+  return { rows: [...head, ...rows.slice(sectionStart), ...foot], trailingRules: current.rulesAbove, captions };
+};
+
+interface CellLayout {
+  nodes: LatexNode[];
+  span: number;
+  rowSpan: number;
+  spec?: ColumnSpec; // \multicolumn overrides the column specification
+  background?: string;
+}
+
+// Unwraps \multicolumn{n}{spec}{text}, \multirow{n}{width}{text} and \cellcolor
+const layoutCell = (nodes: LatexNode[], ctx: RenderContext): CellLayout => {
+  const layout: CellLayout = { nodes, span: 1, rowSpan: 1 };
+  let content = meaningful(nodes);
+
+  const color = content.find((n): n is CommandNode => n.kind === 'command' && n.name === 'cellcolor');
+  if (color) {
+    layout.background = cssColor(ctx.argText(color, 1) || '');
+    content = content.filter(n => n !== color);
+    layout.nodes = layout.nodes.filter(n => n !== color);
+  }
+
+  const only = content.length === 1 && content[0].kind === 'command' ? content[0] : null;
+  if (only?.name === 'multicolumn') {
+    layout.span = Math.max(1, parseInt(ctx.argText(only, 0) || '1', 10) || 1);
+    layout.spec = parseColumnSpec(ctx.argText(only, 1) || 'c', textWidth(ctx.layout))[0];
+    layout.nodes = only.args[2]?.nodes || [];
+    content = meaningful(layout.nodes);
+  }
+  const inner = content.length === 1 && content[0].kind === 'command' ? content[0] : null;
+  if (inner?.name === 'multirow') {
+    layout.rowSpan = Math.max(1, parseInt(ctx.argText(inner, 1) || '1', 10) || 1);
+    layout.nodes = inner.args[5]?.nodes || [];
+  }
+  return layout;
+};
+
+const renderTable = (node: EnvironmentNode, ctx: RenderContext, specIndex: number, widthIndex?: number) => {
+  const columns = parseColumnSpec(ctx.argText(node, specIndex) || '', textWidth(ctx.layout));
+  const { rows, trailingRules, captions } = splitRows(node.children, ctx);
+  const covered: number[] = []; // Rows still covered by a \multirow, per column
+
+  const rowsHtml = rows.map((row, rowIndex) => {
+    const last = rowIndex === rows.length - 1;
+    const cells: string[] = [];
+    let col = 0;
+    row.cells.forEach(cellNodes => {
+      if (covered[col] > 0) {
+        covered[col]--;
+        col++;
+        return;
+      }
+      const layout = layoutCell(cellNodes, ctx);
+      const first = columns[col];
+      const lastSpanned = columns[col + layout.span - 1];
+      const spec = layout.spec || first || { align: 'left', valign: 'top', borderLeft: 0, borderRight: 0, padLeft: true, padRight: true };
+      const from = col + 1;
+      const to = col + layout.span;
+      const ruleFor = (rules: Rule[]) => rules.filter(r => r.from === undefined || (r.from <= to && r.to! >= from)).map(r => r.border);
+      const top = ruleFor(row.rulesAbove);
+      const bottom = last || (layout.rowSpan > 1 && rowIndex + layout.rowSpan >= rows.length) ? ruleFor(trailingRules) : [];
+
+      const style: string[] = [`text-align: ${spec.align}`, `vertical-align: ${layout.rowSpan > 1 ? 'middle' : spec.valign}`];
+      style.push(`padding: 0.15rem ${(layout.spec || lastSpanned || spec).padRight ? '0.5rem' : '0'} 0.15rem ${spec.padLeft ? '0.5rem' : '0'}`);
+      if (spec.width && layout.span === 1) style.push(`width: ${spec.width}`);
+      const left = col === 0 ? border(layout.spec ? layout.spec.borderLeft : spec.borderLeft) : '';
+      const right = border(layout.spec ? layout.spec.borderRight : (lastSpanned || spec).borderRight);
+      if (left) style.push(`border-left: ${left}`);
+      if (right) style.push(`border-right: ${right}`);
+      // Of several rules on one boundary (\midrule\cmidrule) the first one is drawn
+      if (top.length) style.push(`border-top: ${top[0]}`);
+      if (bottom.length) style.push(`border-bottom: ${bottom[0]}`);
+      const background = layout.background || row.background;
+      if (background) style.push(`background-color: ${background}`);
+
+      const spans = `${layout.span > 1 ? ` colspan="${layout.span}"` : ''}${layout.rowSpan > 1 ? ` rowspan="${layout.rowSpan}"` : ''}`;
+      cells.push(`<td${spans} style="${style.join('; ')}">${ctx.renderFlow(layout.nodes).html.trim()}</td>`);
+
+      if (layout.rowSpan > 1) {
+        for (let k = col; k < col + layout.span; k++) covered[k] = layout.rowSpan - 1;
+      }
+      col += layout.span;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  });
+
+  const width = widthIndex !== undefined ? parseDimension(ctx.argText(node, widthIndex) || '') : null;
+  const table = `<table class="inline-table border-collapse text-left"${width ? ` style="width: ${width}"` : ''}><tbody>${rowsHtml.join('')}</tbody></table>`;
+  const above = captions.filter(c => c.before).map(c => c.html).join('');
+  const below = captions.filter(c => !c.before).map(c => c.html).join('');
+  return `<div class="my-4 max-w-full overflow-x-auto">${above}${table}${below}</div>`;
+};
+
+export const TABLE_ENVIRONMENTS: Record<string, EnvironmentDefinition> = {
+  tabular: { render: (node, ctx) => renderTable(node, ctx, 1) },
+  'tabular*': { render: (node, ctx) => renderTable(node, ctx, 2, 0) },
+  tabularx: { render: (node, ctx) => renderTable(node, ctx, 2, 0) },
+  // longtable is its own float: \caption inside it numbers a table
+  longtable: { render: (node, ctx) => withFloat('table', ctx, () => renderTable(node, ctx, 1)) },
+};
+
+// Outside a tabular these only matter for spacing, so they render nothing
+const ignore: CommandDefinition = { render: () => '' };
+
+export const TABLE_COMMANDS: Record<string, CommandDefinition> = {
+  hline: ignore,
+  cline: ignore,
+  toprule: ignore,
+  midrule: ignore,
+  bottomrule: ignore,
+  cmidrule: ignore,
+  addlinespace: ignore,
+  rowcolor: ignore,
+  cellcolor: ignore,
+  endfirsthead: ignore,
+  endhead: ignore,
+  endfoot: ignore,
+  endlastfoot: ignore,
+  multicolumn: { render: (node, ctx) => ctx.renderArg(node, 2) },
+  multirow: { render: (node, ctx) => ctx.renderArg(node, 5) },
+  tabularnewline: { render: () => '<br/>' },
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { tokenize, stringifyTokens } from './tokenizer';
+
+const summary = (source: string) => tokenize(source).map(token => [token.type, token.value, token.line]);
+
+describe('tokenize', () => {
+  it('splits commands, groups, text and math', () => {
+    expect(summary('\\emph{a} $x$ & ~')).toEqual([
+      ['command', 'emph', 1],
+      ['begin-group', '{', 1],
+      ['text', 'a', 1],
+      ['end-group', '}', 1],
+      ['whitespace', ' ', 1],
+      ['math-shift', '$', 1],
+      ['text', 'x', 1],
+      ['math-shift', '$', 1],
+      ['whitespace', ' ', 1],
+      ['alignment', '&', 1],
+      ['whitespace', ' ', 1],
+      ['active', '~', 1],
+    ]);
+  });
+
+  it('keeps offsets into the source', () => {
+    const source = 'ab \\cd{e}';
+    tokenize(source).forEach(token => {
+      if (token.type !== 'command') expect(source.slice(token.start, token.end)).toBe(token.value);
+    });
+  });
+
+  it('skips the spaces and single line break after a control word', () => {
+    expect(summary('\\foo  \n  bar')).toEqual([['command', 'foo', 1], ['text', 'bar', 2]]);
+  });
+
+  it('turns blank lines into a paragraph break and counts the lines', () => {
+    expect(summary('a\n\n\nb\nc')).toEqual([
+      ['text', 'a', 1],
+      ['parbreak', '\n\n\n', 1],
+      ['text', 'b', 4],
+      ['whitespace', '\n', 4],
+      ['text', 'c', 5],
+    ]);
+  });
+
+  it('swallows the line ending after a comment', () => {
+    expect(summary('a% note\nb')).toEqual([['text', 'a', 1], ['comment', ' note', 1], ['text', 'b', 2]]);
+  });
+
+  it('reads control symbols, parameters and single-character brackets', () => {
+    expect(summary('\\%#1[*]')).toEqual([
+      ['command', '%', 1],
+      ['parameter', '1', 1],
+      ['text', '[', 1],
+      ['text', '*', 1],
+      ['text', ']', 1],
+    ]);
+  });
+
+  it('keeps \\verb and verbatim environments as they are', () => {
+    const tokens = tokenize('\\verb|\\x{| and\n\\begin{verbatim}\n\\y}\n\\end{verbatim}');
+    expect(tokens[1]).toMatchObject({ type: 'verbatim', value: '\\x{', env: 'verb' });
+    const body = tokens.find(token => token.type === 'verbatim' && token.env === 'verbatim');
+    expect(body).toMatchObject({ value: '\\y}\n', line: 3 });
+    expect(tokens[tokens.indexOf(body!) + 1]).toMatchObject({ type: 'command', value: 'end', line: 4 });
+  });
+});
+
+describe('stringifyTokens', () => {
+  it('gives back equivalent source', () => {
+    expect(stringifyTokens(tokenize('\\frac{a}{b} + \\alpha x^{2}'))).toBe('\\frac{a}{b} + \\alpha x^{2}');
+  });
+
+  it('separates a control word from the letters after it', () => {
+    expect(stringifyTokens(tokenize('\\alpha x'))).toBe('\\alpha x');
+  });
+});
@@ -0,0 +1,248 @@
+// --- LaTeX Tokenizer ---
+// Turns LaTeX source into a flat token stream. Every token keeps its offsets and line
+// in the input so later stages (parser, renderer, diagnostics) can point back at the source.
+
+export type TokenType =
+  | 'command'      // \name or \symbol, value holds the name without the backslash
+  | 'text'
+  | 'whitespace'
+  | 'parbreak'     // one or more blank lines
+  | 'begin-group'  // {
+  | 'end-group'    // }
+  | 'math-shift'   // $ or $$
+  | 'alignment'    // &
+  | 'parameter'    // #1..#9, value holds the digit
+  | 'active'       // ~
+  | 'comment'
+  | 'verbatim';    // body of \verb or of a verbatim-like environment
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+  env?: string; // verbatim tokens only: 'verb' or the environment name
+}
+
+const VERBATIM_BEGIN = /\\begin\{(verbatim\*?|lstlisting|comment)\}/y;
+
+// Characters that end a run of plain text. '[', ']' and '*' become single-character
+// text tokens so the parser can spot optional arguments and starred commands.
+const SPECIAL_CHARS = new Set(['\\', '{', '}', '$', '&', '#', '~', '%', '[', ']', '*', ' ', '\t', '\n', '\r']);
+
+const isLetter = (ch: string | undefined) => !!ch && /[a-zA-Z@]/.test(ch);
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const len = source.length;
+  let i = 0;
+  let line = 1;
+
+  const push = (type: TokenType, value: string, start: number, startLine: number, env?: string) => {
+    const token: Token = { type, value, start, end: i, line: startLine };
+    if (env) token.env = env;
+    tokens.push(token);
+  };
+
+  const countLines = (from: number, to: number) => {
+    for (let k = from; k < to; k++) if (source[k] === '\n') line++;
+  };
+
+  // A line is blank if only spaces/tabs separate `pos` from the next newline (or EOF)
+  const restOfLineIsBlank = (pos: number) => {
+    let k = pos;
+    while (k < len && (source[k] === ' ' || source[k] === '\t' || source[k] === '\r')) k++;
+    return k >= len || source[k] === '\n';
+  };
+
+  // TeX ignores spaces after a control word, including a single line ending,
+  // but a following blank line still ends the paragraph.
+  const skipSpacesAfterControlWord = () => {
+    while (i < len && (source[i] === ' ' || source[i] === '\t' || source[i] === '\r')) i++;
+    if (source[i] === '\n' && !restOfLineIsBlank(i + 1)) {
+      i++;
+      line++;
+      while (i < len && (source[i] === ' ' || source[i] === '\t')) i++;
+    }
+  };
+
+  const readVerbatimEnvironment = (start: number, startLine: number) => {
+    VERBATIM_BEGIN.lastIndex = start;
+    const match = VERBATIM_BEGIN.exec(source);
+    if (!match) return false;
+    const name = match[1];
+
+    // Emit \begin{name} as regular tokens so the parser sees an ordinary environment
+    i = start + 6;
+    push('command', 'begin', start, startLine);
+    const braceStart = i;
+    i++;
+    push('begin-group', '{', braceStart, line);
+    const nameStart = i;
+    i += name.length;
+    push('text', name, nameStart, line);
+    const closeStart = i;
+    i++;
+    push('end-group', '}', closeStart, line);
+
+    if (name === 'lstlisting' && source[i] === '[') {
+      const close = source.indexOf(']', i);
+      if (close !== -1) {
+        const optStart = i;
+        i++;
+        push('text', '[', optStart, line);
+        const bodyStart = i;
+        i = close;
+        push('text', source.slice(bodyStart, close), bodyStart, line);
+        i++;
+        push('text', ']', close, line);
+      }
+    }
+
+    const endMarker = `\\end{${name}}`;
+    let endIndex = source.indexOf(endMarker, i);
+    if (endIndex === -1) endIndex = len;
+    // Drop the line break that directly follows \begin{...}
+    let bodyStart = i;
+    if (source[bodyStart] === '\r') bodyStart++;
+    if (source[bodyStart] === '\n') bodyStart++;
+    const bodyLine = line + (bodyStart > i ? 1 : 0);
+    countLines(i, endIndex);
+    const tokenStart = i;
+    i = endIndex;
+    const token: Token = { type: 'verbatim', value: source.slice(bodyStart, endIndex), start: tokenStart, end: endIndex, line: bodyLine, env: name };
+    tokens.push(token);
+    return true;
+  };
+
+  while (i < len) {
+    const start = i;
+    const startLine = line;
+    const ch = source[i];
+
+    if (ch === '\\') {
+      const next = source[i + 1];
+      if (next === undefined) {
+        i++;
+        push('text', '\\', start, startLine);
+        continue;
+      }
+      if (isLetter(next)) {
+        let j = i + 1;
+        while (j < len && isLetter(source[j])) j++;
+        const name = source.slice(i + 1, j);
+
+        if (name === 'begin' && readVerbatimEnvironment(start, startLine)) continue;
+
+        i = j;
+        push('command', name, start, startLine);
+
+        if (name === 'verb') {
+          if (source[i] === '*') i++;
+          const delimiter = source[i];
+          const close = delimiter ? source.indexOf(delimiter, i + 1) : -1;
+          const newline = source.indexOf('\n', i + 1);
+          if (delimiter && close !== -1 && (newline === -1 || close < newline)) {
+            const verbStart = i;
+            i = close + 1;
+            push('verbatim', source.slice(verbStart + 1, close), verbStart, startLine, 'verb');
+          }
+          continue;
+        }
+
+        skipSpacesAfterControlWord();
+        continue;
+      }
+      // Control symbol: \\, \{, \%, \,, \[ ...
+      i += 2;
+      if (next === '\n') line++;
+      push('command', next, start, startLine);
+      continue;
+    }
+
+    if (ch === '%') {
+      const newline = source.indexOf('\n', i);
+      i = newline === -1 ? len : newline;
+      push('comment', source.slice(start + 1, i), start, startLine);
+      continue;
+    }
+
+    if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
+      let newlines = 0;
+      while (i < len && (source[i] === ' ' || source[i] === '\t' || source[i] === '\n' || source[i] === '\r')) {
+        if (source[i] === '\n') newlines++;
+        i++;
+      }
+      line += newlines;
+      // The line ending right after a comment belongs to the comment and produces no space
+      const afterComment = tokens.length > 0 && tokens[tokens.length - 1].type === 'comment';
+      if (newlines >= 2) {
+        push('parbreak', source.slice(start, i), start, startLine);
+      } else if (!(afterComment && newlines === 1)) {
+        push('whitespace', source.slice(start, i), start, startLine);
+      }
+      continue;
+    }
+
+    if (ch === '{') { i++; push('begin-group', ch, start, startLine); continue; }
+    if (ch === '}') { i++; push('end-group', ch, start, startLine); continue; }
+    if (ch === '&') { i++; push('alignment', ch, start, startLine); continue; }
+    if (ch === '~') { i++; push('active', ch, start, startLine); continue; }
+
+    if (ch === '$') {
+      i += source[i + 1] === '$' ? 2 : 1;
+      push('math-shift', source.slice(start, i), start, startLine);
+      continue;
+    }
+
+    if (ch === '#') {
+      i++;
+      let value = '';
+      if (/[1-9]/.test(source[i] || '')) value = source[i++];
+      else if (source[i] === '#') { value = '#'; i++; }
+      push('parameter', value, start, startLine);
+      continue;
+    }
+
+    if (ch === '[' || ch === ']' || ch === '*') {
+      i++;
+      push('text', ch, start, startLine);
+      continue;
+    }
+
+    while (i < len && !SPECIAL_CHARS.has(source[i])) i++;
+    push('text', source.slice(start, i), start, startLine);
+  }
+
+  return tokens;
+};
+
+// Turns tokens back into LaTeX source. Used for raw argument text (labels, widths,
+// file names) and for math that is handed to KaTeX untouched.
+export const stringifyTokens = (tokens: Token[]): string => {
+  let out = '';
+  tokens.forEach((token, index) => {
+    switch (token.type) {
+      case 'command': {
+        out += '\\' + token.value;
+        const next = tokens[index + 1];
+        if (isLetter(token.value[0]) && next && (next.type === 'text' || next.type === 'parameter') && /^[a-zA-Z@#]/.test(next.type === 'parameter' ? '#' : next.value)) {
+          out += ' ';
+        }
+        break;
+      }
+      case 'comment':
+        break;
+      case 'parameter':
+        out += '#' + token.value;
+        break;
+      case 'verbatim':
+        out += token.env === 'verb' ? `|${token.value}|` : token.value;
+        break;
+      default:
+        out += token.value;
+    }
+  });
+  return out;
+};
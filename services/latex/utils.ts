@@ -0,0 +1,110 @@
+// --- Shared helpers for the LaTeX renderer ---
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Link targets a document may use: web and mail addresses and anchors. Anything else
+// (javascript:, data: ...) would run or load in the app's origin, so it is not linked.
+// Browsers ignore whitespace and control characters in a scheme, so they are dropped first.
+export const isSafeUrl = (url: string) => /^(https?:|mailto:|#)/i.test(url.replace(/[\u0000-\u0020]/g, ''));
+
+// cyrb53: a fast 53-bit string hash, plenty to tell segments or project contents apart
+export const hashString = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Work that pauses after each unit (a segment of the document), so a caller can hand
+// the thread back in between; see compile.worker.ts
+export type Steps<T> = Generator<void, T, undefined>;
+
+// Runs steps to the end without pausing
+export const runSteps = <T>(steps: Steps<T>): T => {
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+  }
+};
+
+// \today, also the date \maketitle prints when none is given
+export const today = () => new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Typographic ligatures TeX applies to plain text
+export const applyLigatures = (text: string) =>
+  text
+    .replace(/!`/g, '¡')
+    .replace(/\?`/g, '¿')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/``/g, '“')
+    .replace(/''/g, '”')
+    .replace(/`/g, '‘')
+    .replace(/'/g, '’');
+
+// Physical units converted to millimetres
+const UNIT_TO_MM: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72.27,
+  bp: 25.4 / 72,
+  pc: 12 * 25.4 / 72.27,
+};
+
+// Converts a LaTeX length (`2cm`, `0.5\textwidth`, `12pt`) to a CSS length.
+// Relative lengths become percentages; returns null when the length is not understood.
+export const parseDimension = (raw: string): string | null => {
+  const text = raw.replace(/\s+/g, '');
+  const relative = text.match(/^(-?[\d.]*)\\(textwidth|linewidth|columnwidth|hsize|textheight)$/);
+  if (relative) {
+    const factor = relative[1] === '' || relative[1] === '-' ? Number(relative[1] + '1') : parseFloat(relative[1]);
+    return isNaN(factor) ? null : `${+(factor * 100).toFixed(3)}%`;
+  }
+  const absolute = text.match(/^(-?[\d.]+)(mm|cm|in|pt|bp|pc|em|ex|px)$/);
+  if (!absolute) return null;
+  const value = parseFloat(absolute[1]);
+  if (isNaN(value)) return null;
+  const unit = absolute[2];
+  if (unit === 'em' || unit === 'ex' || unit === 'px') return `${value}${unit}`;
+  return `${+(value * UNIT_TO_MM[unit]).toFixed(3)}mm`;
+};
+
+// Parses `key=value, flag` option lists such as `[width=0.5\textwidth, angle=90]`
+export const parseKeyValues = (raw: string | undefined): Record<string, string> => {
+  const result: Record<string, string> = {};
+  if (!raw) return result;
+  let depth = 0;
+  let current = '';
+  const parts: string[] = [];
+  for (const ch of raw) {
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  parts.forEach(part => {
+    const eq = part.indexOf('=');
+    const key = (eq === -1 ? part : part.slice(0, eq)).trim();
+    if (!key) return;
+    const value = eq === -1 ? 'true' : part.slice(eq + 1).trim().replace(/^\{([\s\S]*)\}$/, '$1');
+    result[key] = value;
+  });
+  return result;
+};
@@ -0,0 +1,495 @@
+// --- Pagination ---
+// Splits compiled HTML into pages the way TeX's output routine would: block by block,
+// breaking paragraphs between lines and lists or tables between items and rows when
+// they do not fit. It runs in the browser against a hidden copy of the output, so every
+// measurement uses the real fonts and styles. Page numbers, running heads and page
+// references are filled in afterwards, once the page of every element is known.
+// Breaking gives the main thread back every few milliseconds, and stops there once the
+// output it is laying out has been replaced.
+// Beamer presentations are not broken at all: each step of each frame is a slide.
+
+import { PageLayout, PageStyle } from '../types';
+import { columnWidth, textHeight } from './latex/layout';
+
+export interface PageSlots {
+  left: string;
+  center: string;
+  right: string;
+}
+
+export interface Page {
+  html: string;
+  number: string; // \thepage, formatted with the current \pagenumbering
+  head: PageSlots;
+  foot: PageSlots;
+  rules: boolean; // Draw the header and footer rules
+  even: boolean; // Left-hand page of a two-sided document
+  frame?: number; // Slides: the frame the slide shows a step of
+  notes?: string; // Slides: speaker notes of the frame, as HTML
+}
+
+// Shared by the measuring copy and the pages the preview shows; see .page-body in index.html
+export const PAGE_BODY_CLASS = 'page-body prose prose-slate max-w-none prose-p:text-justify prose-p:leading-relaxed text-black font-serif';
+
+const PX_PER_MM = 96 / 25.4;
+const PX_PER_PT = 96 / 72.27;
+
+// Content that is never broken across pages
+const UNBREAKABLE = /^(H[1-6]|TR|IMG|FIGURE)$/;
+const ATOMIC = '.katex, img, svg, .inline-block, .inline-table';
+
+// Two-column pages are measured as one column of twice the height; the preview then
+// lets CSS columns flow the page's content into its columns
+const createBody = (layout: PageLayout) => {
+  const body = document.createElement('div');
+  body.className = PAGE_BODY_CLASS;
+  body.style.width = `${columnWidth(layout)}mm`;
+  body.style.fontSize = `${layout.fontSize}pt`;
+  return body;
+};
+
+const isVisible = (node: Node) => node instanceof HTMLElement ? !node.hidden : !!node.textContent?.trim();
+
+const hasContent = (page: HTMLElement) => Array.from(page.childNodes).some(isVisible);
+
+const hasContentBefore = (node: Node) => {
+  for (let previous = node.previousSibling; previous; previous = previous.previousSibling) {
+    if (isVisible(previous)) return true;
+  }
+  return false;
+};
+
+// Bottom of the lowest visible block, ignoring trailing margins as TeX drops space at a break
+const contentHeight = (page: HTMLElement) => {
+  const top = page.getBoundingClientRect().top;
+  let bottom = top;
+  Array.from(page.children).forEach(child => {
+    if (!(child as HTMLElement).hidden) bottom = Math.max(bottom, child.getBoundingClientRect().bottom);
+  });
+  return bottom - top;
+};
+
+// --- Breaking blocks ---
+
+// The block children of an element, or null when it holds inline content (text lines)
+const blockChildren = (element: HTMLElement): HTMLElement[] | null => {
+  const children: HTMLElement[] = [];
+  for (const node of Array.from(element.childNodes)) {
+    if (node instanceof HTMLElement) {
+      const display = getComputedStyle(node).display;
+      if (!node.hidden && display !== 'none' && !/^(block|list-item|table|flex|grid|flow-root)$/.test(display)) return null;
+      children.push(node);
+    } else if (node.textContent?.trim()) {
+      return null;
+    }
+  }
+  return children.length > 0 ? children : null;
+};
+
+// The part left after a split keeps the element's attributes except its id, which
+// stays with the part where the element starts
+const continuation = (element: HTMLElement) => {
+  const rest = element.cloneNode(false) as HTMLElement;
+  rest.removeAttribute('id');
+  if (rest.tagName === 'LI') rest.style.listStyleType = 'none';
+  return rest;
+};
+
+// Finds the first character or atomic inline (a formula, an image) that ends below `limit`
+const findBreak = (root: Node, limit: number, range: Range): { node: Node; offset: number } | null => {
+  for (const child of Array.from(root.childNodes)) {
+    if (child instanceof Text) {
+      if (!child.length) continue;
+      range.selectNodeContents(child);
+      if (range.getBoundingClientRect().bottom <= limit) continue;
+      // Characters come line by line, so the first one below the limit can be bisected
+      let low = 0;
+      let high = child.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        range.setStart(child, middle);
+        range.setEnd(child, middle + 1);
+        if (range.getBoundingClientRect().bottom > limit) high = middle;
+        else low = middle + 1;
+      }
+      if (low < child.length) return { node: child, offset: low };
+    } else if (child instanceof HTMLElement && !child.hidden) {
+      if (child.matches(ATOMIC)) {
+        if (child.getBoundingClientRect().bottom > limit) return { node: child.parentNode!, offset: Array.from(child.parentNode!.childNodes).indexOf(child) };
+        continue;
+      }
+      const found = findBreak(child, limit, range);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Breaks a paragraph (or any inline content) before the first line that does not fit
+const splitLines = (element: HTMLElement, limit: number): HTMLElement | null => {
+  const range = document.createRange();
+  const position = findBreak(element, limit, range);
+  if (!position) return null;
+  range.setStart(element, 0);
+  range.setEnd(position.node, position.offset);
+  if (!range.toString().trim() && !range.cloneContents().querySelector(ATOMIC)) return null;
+
+  const first = element.cloneNode(false) as HTMLElement;
+  first.appendChild(range.extractContents());
+  element.before(first);
+  // The original element continues on the next page
+  element.removeAttribute('id');
+  if (element.tagName === 'LI') element.style.listStyleType = 'none';
+  return element;
+};
+
+const splitTable = (table: HTMLTableElement, limit: number): HTMLElement | null => {
+  const body = table.tBodies[0];
+  if (!body) return null;
+  const rows = Array.from(body.rows);
+  const index = rows.findIndex(row => row.getBoundingClientRect().bottom > limit);
+  if (index <= 0) return null;
+  const rest = continuation(table);
+  if (table.tHead) rest.appendChild(table.tHead.cloneNode(true));
+  const restBody = body.cloneNode(false) as HTMLElement;
+  restBody.append(...rows.slice(index));
+  rest.appendChild(restBody);
+  return rest;
+};
+
+// Splits an element so its part above `limit` (a viewport y coordinate) stays in place.
+// Returns the remainder, or null when the element cannot be broken there.
+const splitElement = (element: HTMLElement, limit: number): HTMLElement | null => {
+  if (element.hidden || UNBREAKABLE.test(element.tagName) || element.matches('.latex-float, .katex, [data-new-page]')) return null;
+  if (element instanceof HTMLTableElement) return splitTable(element, limit);
+
+  const children = blockChildren(element);
+  if (!children) return splitLines(element, limit);
+
+  const index = children.findIndex(child => child.getBoundingClientRect().bottom > limit);
+  if (index === -1) return null;
+  const inner = splitElement(children[index], limit);
+  if (!inner && index === 0) return null;
+  const rest = continuation(element);
+  rest.append(...(inner ? [inner, ...children.slice(index + 1)] : children.slice(index)));
+  // Numbered lists carry on counting; a broken item keeps its number on the first page
+  if (element instanceof HTMLOListElement) rest.setAttribute('start', String(element.start + index));
+  return rest;
+};
+
+// --- Footnotes ---
+
+// Rebuilds the footnotes under the content of a page from the hidden texts the renderer
+// leaves after each marker (see services/latex/notes.ts), so they follow their markers
+// when a block is split or moved to the next page
+const placeFootnotes = (page: HTMLElement) => {
+  page.querySelector(':scope > [data-footnotes]')?.remove();
+  const texts = Array.from(page.querySelectorAll<HTMLElement>('[data-footnote]'));
+  if (texts.length === 0) return;
+  const area = document.createElement('div');
+  area.dataset.footnotes = '';
+  area.className = 'mt-4 text-[0.8em] leading-snug text-justify';
+  area.innerHTML = '<div class="w-2/5 border-t border-black mb-1"></div>';
+  texts.forEach(text => {
+    const note = document.createElement('div');
+    note.id = text.dataset.footnote!;
+    note.className = 'mb-0.5';
+    note.innerHTML = text.innerHTML;
+    area.appendChild(note);
+  });
+  page.appendChild(area);
+};
+
+const footnotesHeight = (page: HTMLElement) => {
+  const area = page.querySelector(':scope > [data-footnotes]');
+  return area ? area.getBoundingClientRect().height : 0;
+};
+
+// --- Page breaking ---
+
+// Longest stretch of layout before the browser gets to handle input and paint, in milliseconds
+const SLICE = 12;
+
+// Returns a function to await between blocks, which pauses once a slice is used up
+const timeSlicer = (signal?: AbortSignal) => {
+  let sliceStart = performance.now();
+  return async () => {
+    if (performance.now() - sliceStart < SLICE) return;
+    await new Promise(resolve => setTimeout(resolve, 0));
+    signal?.throwIfAborted();
+    sliceStart = performance.now();
+  };
+};
+
+const breakPages = async (source: HTMLElement, layout: PageLayout, stage: HTMLElement, signal?: AbortSignal) => {
+  // A line of slack per extra column, for where the browser breaks the columns
+  const slack = (layout.columns - 1) * layout.fontSize * 1.625 * PX_PER_PT;
+  const limit = textHeight(layout) * layout.columns * PX_PER_MM - slack;
+  const pages: HTMLElement[] = [];
+  const newPage = () => stage.appendChild(createBody(layout));
+  let page = newPage();
+
+  const finish = () => {
+    pages.push(page);
+    page = newPage();
+  };
+  // \cleardoublepage: the next page has to be odd, so an even one is left blank
+  const clearDouble = () => {
+    if ((pages.length + 1) % 2 === 0) finish();
+  };
+  const pause = timeSlicer(signal);
+
+  for (const node of Array.from(source.childNodes)) {
+    await pause();
+    if (node instanceof HTMLElement && node.classList.contains('page-break')) {
+      if (hasContent(page)) finish();
+      if (node.dataset.clear === 'double') clearDouble();
+      continue;
+    }
+    // data-new-page="double" starts an odd page, as chapters do with openright
+    const starter = node instanceof HTMLElement ? [node, node.firstElementChild].find(el => el?.matches('[data-new-page]')) : null;
+    if (starter instanceof HTMLElement) {
+      if (hasContent(page)) finish();
+      if (starter.dataset.newPage === 'double') clearDouble();
+    }
+
+    page.appendChild(node);
+    placeFootnotes(page);
+    let current = node;
+    let moved = false;
+    while (contentHeight(page) > limit) {
+      // Text has to leave room for the footnotes of the page
+      const bottom = page.getBoundingClientRect().top + limit - footnotesHeight(page);
+      const rest = current instanceof HTMLElement ? splitElement(current, bottom) : null;
+      if (rest) {
+        placeFootnotes(page);
+        finish();
+        page.appendChild(rest);
+        placeFootnotes(page);
+        current = rest;
+        continue;
+      }
+      // Taller than a whole page: let it overflow
+      if (moved || !hasContentBefore(current)) break;
+      // Move the block to the next page, together with a heading that would be left behind
+      const carried: Node[] = [current];
+      let previous = current.previousSibling;
+      while (previous && !isVisible(previous)) previous = previous.previousSibling;
+      if (previous instanceof HTMLElement && /^H[1-6]$/.test(previous.tagName) && hasContentBefore(previous)) carried.unshift(previous);
+      carried.forEach(n => page.removeChild(n));
+      placeFootnotes(page);
+      finish();
+      page.append(...carried);
+      placeFootnotes(page);
+      moved = true;
+    }
+  }
+  if (hasContent(page) || pages.length === 0) pages.push(page);
+  return pages;
+};
+
+// --- Slides ---
+
+// Whether an overlay specification such as `2-`, `-3` or `1,4-5` includes a slide
+const onSlide = (spec: string, step: number) =>
+  !spec || spec.split(',').some(range => {
+    const [from, to] = range.split('-');
+    if (to === undefined) return Number(from) === step;
+    return (from === '' || step >= Number(from)) && (to === '' || step <= Number(to));
+  });
+
+// Covered content keeps its space, as with beamer's default \setbeamercovered{invisible}
+const cover = (node: Node) => {
+  if (node instanceof HTMLElement) {
+    node.style.visibility = 'hidden';
+  } else if (node.textContent?.trim()) {
+    const span = document.createElement('span');
+    span.style.visibility = 'hidden';
+    node.parentNode!.insertBefore(span, node);
+    span.appendChild(node);
+  }
+};
+
+// \pause and \onslide without an argument cover everything after them in the frame
+const coverAfter = (marker: Element, frame: HTMLElement) => {
+  for (let node: Element | null = marker; node && node !== frame; node = node.parentElement) {
+    for (let next = node.nextSibling; next; ) {
+      const following = next.nextSibling;
+      cover(next);
+      next = following;
+    }
+  }
+};
+
+// The frame as it looks on one of its steps
+const slideOf = (frame: HTMLElement, step: number) => {
+  const slide = frame.cloneNode(true) as HTMLElement;
+  const each = (attribute: string, apply: (el: HTMLElement, on: boolean) => void) =>
+    slide.querySelectorAll<HTMLElement>(`[data-${attribute}]`).forEach(el => apply(el, onSlide(el.getAttribute(`data-${attribute}`)!, step)));
+  slide.querySelectorAll('[data-notes]').forEach(el => el.remove());
+  each('only', (el, on) => { if (!on) el.remove(); });
+  each('except', (el, on) => { if (on) el.remove(); });
+  each('uncover', (el, on) => { if (!on) cover(el); });
+  each('invisible', (el, on) => { if (on) cover(el); });
+  each('alert', (el, on) => { if (on) el.style.color = 'red'; });
+  each('onslide', (el, on) => { if (!on) coverAfter(el, slide); });
+  placeFootnotes(slide);
+  return slide;
+};
+
+// One body per step of every frame, with the notes of the frame; content between frames
+// is dropped except for notes, which belong to the frame before them
+const buildSlides = (source: HTMLElement, layout: PageLayout, stage: HTMLElement) => {
+  const slides: { body: HTMLElement; frame: number; notes: string }[] = [];
+  let current: typeof slides = [];
+  source.querySelectorAll<HTMLElement>('[data-frame], [data-notes]').forEach(el => {
+    if (!el.matches('[data-frame]')) {
+      if (!el.parentElement?.closest('[data-frame]')) current.forEach(slide => { slide.notes += el.innerHTML; });
+      return;
+    }
+    const notes = el.querySelector(':scope > [data-notes]')?.innerHTML || '';
+    const steps = Number(el.dataset.steps) || 1;
+    current = [];
+    for (let step = 1; step <= steps; step++) {
+      const body = stage.appendChild(createBody(layout));
+      body.appendChild(slideOf(el, step));
+      current.push({ body, frame: Number(el.dataset.frame), notes });
+    }
+    slides.push(...current);
+  });
+  if (slides.length === 0) slides.push({ body: stage.appendChild(createBody(layout)), frame: 0, notes: '' });
+  return slides;
+};
+
+// --- Numbers and running heads ---
+
+const toRoman = (value: number) => {
+  const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+  let result = '';
+  let rest = value;
+  numerals.forEach(([n, s]) => {
+    while (rest >= n) {
+      result += s;
+      rest -= n;
+    }
+  });
+  return result;
+};
+
+const formatPageNumber = (value: number, style: string) => {
+  switch (style) {
+    case 'roman': return toRoman(value);
+    case 'Roman': return toRoman(value).toUpperCase();
+    case 'alph': return String.fromCharCode(96 + value);
+    case 'Alph': return String.fromCharCode(64 + value);
+    default: return String(value);
+  }
+};
+
+interface PageInfo {
+  number: string;
+  style: string;
+  leftMark: string;
+  rightMark: string;
+}
+
+// Fills page-dependent placeholders emitted by the renderer (see services/latex/layout.ts)
+const fillPlaceholders = (root: ParentNode, info: PageInfo, pageCount: string, pageOf: Record<string, string>) => {
+  root.querySelectorAll<HTMLElement>('[data-page-number]').forEach(el => { el.textContent = info.number; });
+  root.querySelectorAll<HTMLElement>('[data-page-count]').forEach(el => { el.textContent = pageCount; });
+  root.querySelectorAll<HTMLElement>('[data-page-of]').forEach(el => {
+    const page = pageOf[el.dataset.pageOf!];
+    if (page) el.textContent = page;
+  });
+  root.querySelectorAll<HTMLElement>('[data-mark]').forEach(el => {
+    el.innerHTML = el.dataset.mark === 'left' ? info.leftMark : info.rightMark;
+  });
+};
+
+const renderSlots = (slots: Record<string, string>, parity: string, info: PageInfo, pageCount: string, pageOf: Record<string, string>): PageSlots => {
+  const slot = (position: string) => {
+    const template = document.createElement('template');
+    template.innerHTML = slots[position + parity] || '';
+    fillPlaceholders(template.content, info, pageCount, pageOf);
+    const wrapper = document.createElement('div');
+    wrapper.appendChild(template.content);
+    return wrapper.innerHTML;
+  };
+  return { left: slot('L'), center: slot('C'), right: slot('R') };
+};
+
+const finishPages = (bodies: HTMLElement[], layout: PageLayout): Page[] => {
+  let numbering = 'arabic';
+  let value = 0;
+  let style = layout.pageStyle;
+  const marks = { left: '', right: '' };
+  const pageOf: Record<string, string> = {};
+
+  const infos = bodies.map((body): PageInfo => {
+    value++;
+    let thisStyle: string | undefined;
+    const startRight = marks.right;
+    let firstRight: string | undefined;
+    body.querySelectorAll<HTMLElement>('[data-page-numbering], [data-set-page], [data-page-style], [data-this-page-style], [data-set-mark]').forEach(el => {
+      const data = el.dataset;
+      if (data.pageNumbering) {
+        numbering = data.pageNumbering;
+        value = 1;
+      }
+      if (data.setPage) value = Number(data.setPage) || 1;
+      if (data.pageStyle) style = data.pageStyle;
+      if (data.thisPageStyle) thisStyle = data.thisPageStyle;
+      // \leftmark is the last mark on the page, \rightmark the first one, as with TeX's marks
+      if (data.setMark === 'left') marks.left = el.innerHTML;
+      if (data.setMark === 'right') {
+        if (firstRight === undefined) firstRight = el.innerHTML;
+        marks.right = el.innerHTML;
+      }
+    });
+    const number = formatPageNumber(value, numbering);
+    body.querySelectorAll('[id]').forEach(el => { pageOf[el.id] = number; });
+    return { number, style: thisStyle || style, leftMark: marks.left, rightMark: firstRight ?? startRight };
+  });
+
+  const pageCount = infos[infos.length - 1].number;
+  return bodies.map((body, index) => {
+    const info = infos[index];
+    fillPlaceholders(body, info, pageCount, pageOf);
+    const even = layout.twoside && index % 2 === 1;
+    const parity = even ? 'E' : 'O';
+    const pageStyle: PageStyle = layout.pageStyles[info.style] || layout.pageStyles.plain;
+    return {
+      html: body.innerHTML,
+      number: info.number,
+      head: renderSlots(pageStyle.head, parity, info, pageCount, pageOf),
+      foot: renderSlots(pageStyle.foot, parity, info, pageCount, pageOf),
+      rules: pageStyle.rules,
+      even,
+    };
+  });
+};
+
+// Lays the document out into pages. Images and fonts are loaded first so sizes are final.
+// Aborting the signal rejects with its reason at the next pause.
+export const paginate = async (html: string, layout: PageLayout, signal?: AbortSignal): Promise<Page[]> => {
+  const stage = document.createElement('div');
+  stage.style.cssText = 'position: absolute; left: -10000px; top: 0; visibility: hidden;';
+  document.body.appendChild(stage);
+  try {
+    const source = stage.appendChild(createBody(layout));
+    source.innerHTML = html;
+    await Promise.all(Array.from(source.querySelectorAll('img')).map(img => img.decode().catch(() => undefined)));
+    // Laying the copy out requests the fonts it uses (KaTeX's are loaded on demand)
+    source.getBoundingClientRect();
+    await document.fonts.ready;
+    signal?.throwIfAborted();
+    if (layout.slides) {
+      const slides = buildSlides(source, layout, stage);
+      return finishPages(slides.map(slide => slide.body), layout).map((page, index) => ({ ...page, frame: slides[index].frame, notes: slides[index].notes }));
+    }
+    const bodies = await breakPages(source, layout, stage, signal);
+    return finishPages(bodies, layout);
+  } finally {
+    stage.remove();
+  }
+};
@@ -18,8 +18,21 @@ export interface Project {
   createdAt: string;
   updatedAt: string;
   owner: string;
+  compiler?: ProjectCompiler; // 'preview' when not set
+  snippets?: Snippet[]; // The project's own, next to the built-in ones
 }
 
+// A template typed as its trigger word and expanded with Tab. `${1:name}` is a tab stop
+// with a placeholder, `${0}` where the cursor ends up.
+export interface Snippet {
+  trigger: string;
+  description: string;
+  body: string;
+}
+
+// The built-in HTML preview, or an engine run by the local TeX service
+export type ProjectCompiler = 'preview' | 'pdflatex' | 'xelatex' | 'lualatex';
+
 export type SyncStatus = 'saved' | 'saving' | 'error' | 'synced' | 'loading';
 
 export enum ViewMode {
@@ -39,7 +52,46 @@ export interface LogEntry {
   id: string;
   type: 'info' | 'error' | 'warning';
   message: string;
-  file?: string;
+  file?: string; // As shown: the file's path in the project, or a name
+  fileId?: string; // The project file it is in, when it is one
   line?: number;
+  category?: LogCategory; // Set for entries read from a TeX log and for export reports
   timestamp: number;
 }
+
+// What a TeX log message is about, or 'export' for what an export could not convert,
+// for filtering the Logs tab
+export type LogCategory = 'tex' | 'reference' | 'citation' | 'box' | 'package' | 'font' | 'export';
+
+// Origin of a piece of compiled output: a project file and a 1-based line in it
+export interface SourceLocation {
+  fileId: string;
+  line: number;
+}
+
+// Headers and footers of a page style (\pagestyle, fancyhdr). Keys combine a position
+// (L, C, R) with the page parity (O for odd, E for even); values are HTML.
+export interface PageStyle {
+  head: Record<string, string>;
+  foot: Record<string, string>;
+  rules: boolean; // Draws \headrulewidth / \footrulewidth, as fancyhdr styles do
+}
+
+// Page geometry of a compiled document; lengths in millimetres
+export interface PageLayout {
+  paper: string; // Display name such as "A4"
+  paperWidth: number;
+  paperHeight: number;
+  marginTop: number; // Distances from the paper edges to the text block
+  marginBottom: number;
+  marginLeft: number; // Inner margin on two-sided documents
+  marginRight: number;
+  fontSize: number; // Base font size in points
+  columns: number; // 2 with the twocolumn class option
+  twoside: boolean;
+  slides: boolean; // A beamer presentation: every frame is a page of its own
+  pageStyle: string; // Style in effect at \begin{document}
+  pageStyles: Record<string, PageStyle>;
+  headRuleWidth: number; // In points
+  footRuleWidth: number;
+}